@@ -5,7 +5,9 @@ import Footer from './components/Footer';
 import SwapInterface from './components/SwapInterface';
 import LiquidityInterface from './components/LiquidityInterface';
 import PortfolioInterface from './components/PortfolioInterface';
+import PoolsInterface from './components/PoolsInterface';
 import WalletModal from './components/WalletModal';
+import { Token } from './types';
 
 function App() {
   const [currentTab, setCurrentTab] = useState('swap');
@@ -13,6 +15,7 @@ function App() {
   const [isWalletModalOpen, setIsWalletModalOpen] = useState(false);
   const [connectedWallet, setConnectedWallet] = useState<string>('');
   const [walletAddress, setWalletAddress] = useState<string>('');
+  const [liquidityPair, setLiquidityPair] = useState<{ token0: Token; token1: Token } | null>(null);
 
   // Check for existing wallet connection on app load
   useEffect(() => {
@@ -94,12 +97,38 @@ function App() {
     // Clear localStorage is handled in the modal
   };
 
+  // Navigating from the header starts the liquidity tab without a preselected pair
+  const handleTabChange = (tab: string) => {
+    setLiquidityPair(null);
+    setCurrentTab(tab);
+  };
+
+  // Pool explorer click-through: open the liquidity tab with the pair selected
+  const handleAddLiquidity = (token0: Token, token1: Token) => {
+    setLiquidityPair({ token0, token1 });
+    setCurrentTab('liquidity');
+  };
+
   const renderCurrentTab = () => {
     switch (currentTab) {
       case 'swap':
         return <SwapInterface isWalletConnected={isWalletConnected} onConnectWallet={handleConnectWallet} />;
       case 'liquidity':
-        return <LiquidityInterface isWalletConnected={isWalletConnected} onConnectWallet={handleConnectWallet} />;
+        return (
+          <LiquidityInterface
+            isWalletConnected={isWalletConnected}
+            onConnectWallet={handleConnectWallet}
+            initialPair={liquidityPair}
+          />
+        );
+      case 'pools':
+        return (
+          <PoolsInterface
+            isWalletConnected={isWalletConnected}
+            onConnectWallet={handleConnectWallet}
+            onAddLiquidity={handleAddLiquidity}
+          />
+        );
       case 'portfolio':
         return (
           <PortfolioInterface
@@ -118,7 +147,7 @@ function App() {
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors flex flex-col">
         <Header
           currentTab={currentTab}
-          onTabChange={setCurrentTab}
+          onTabChange={handleTabChange}
           isWalletConnected={isWalletConnected}
           onConnectWallet={handleConnectWallet}
           connectedWallet={connectedWallet}
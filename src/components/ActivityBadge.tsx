@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Activity, CheckCircle, XCircle, Loader, ExternalLink } from 'lucide-react';
+import { useTransactionActivity } from '../hooks/useTransactionActivity';
+import { LOOP_NETWORK } from '../constants/network';
+import { ActivityRecord } from '../types';
+
+interface ActivityBadgeProps {
+  isWalletConnected: boolean;
+}
+
+const formatTimeAgo = (timestamp: number): string => {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
+
+const StatusIcon: React.FC<{ status: ActivityRecord['status'] }> = ({ status }) => {
+  if (status === 'confirmed') return <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />;
+  if (status === 'failed') return <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />;
+  return <Loader className="w-4 h-4 text-orange-500 animate-spin flex-shrink-0" />;
+};
+
+const ActivityBadge: React.FC<ActivityBadgeProps> = ({ isWalletConnected }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const account = isWalletConnected ? localStorage.getItem('reachswap_wallet_address') || undefined : undefined;
+  const { pendingCount, recentActivity, clearActivity } = useTransactionActivity(account);
+
+  // Close the dropdown on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  if (!isWalletConnected && recentActivity.length === 0) return null;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative flex items-center space-x-1.5 p-1.5 rounded-lg transition-colors ${
+          pendingCount > 0
+            ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400'
+            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+        }`}
+        title="Recent activity"
+      >
+        {pendingCount > 0 ? <Loader className="w-4 h-4 animate-spin" /> : <Activity className="w-4 h-4" />}
+        {pendingCount > 0 && (
+          <span className="text-xs font-semibold">{pendingCount} pending</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Recent Activity</h4>
+            {recentActivity.some(record => record.status !== 'pending') && (
+              <button
+                onClick={clearActivity}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-orange-600 dark:hover:text-orange-400"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {recentActivity.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                Your transactions will appear here
+              </p>
+            ) : (
+              recentActivity.map(record => (
+                <a
+                  key={record.hash}
+                  href={`${LOOP_NETWORK.blockExplorerUrls[0]}/tx/${record.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-start space-x-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                >
+                  <StatusIcon status={record.status} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-900 dark:text-white truncate">{record.summary}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {record.status === 'pending' ? 'Pending' : record.status === 'confirmed' ? 'Confirmed' : 'Failed'}
+                      {' · '}
+                      {formatTimeAgo(record.timestamp)}
+                      {record.router && ` · ${record.router === 'reachswap' ? 'ReachSwap' : 'Sphynx'}`}
+                    </div>
+                  </div>
+                  <ExternalLink className="w-3 h-3 text-gray-400 flex-shrink-0 mt-1" />
+                </a>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityBadge;
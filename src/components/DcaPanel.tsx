@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { Repeat, AlertCircle, AlertTriangle, ExternalLink, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { DcaFill, DcaSchedule, Token } from '../types';
+import { DCA_CONFIG } from '../constants/reachswap';
+import { useDcaSchedules } from '../hooks/useDcaSchedules';
+import { getDcaStats, getMissedDcaFills } from '../utils/dca';
+import { formatTxError } from '../utils/txErrors';
+
+interface DcaPanelProps {
+  tokenIn: Token;
+  tokenOut: Token;
+  isWalletConnected: boolean;
+  onConnectWallet: () => void;
+}
+
+const formatNumber = (value: number): string => {
+  if (value === 0) return '0';
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value.toPrecision(6).replace(/\.?0+$/, '');
+};
+
+const formatNextFill = (nextFillAt: number): string => {
+  const seconds = nextFillAt - Math.floor(Date.now() / 1000);
+  if (seconds <= 0) return 'due now';
+  if (seconds < 3600) return `in ${Math.ceil(seconds / 60)}m`;
+  if (seconds < 86400) return `in ${Math.floor(seconds / 3600)}h`;
+  return `in ${Math.floor(seconds / 86400)}d`;
+};
+
+const getIntervalLabel = (seconds: number): string =>
+  DCA_CONFIG.INTERVALS.find(interval => interval.seconds === seconds)?.label || `Every ${seconds}s`;
+
+const FILL_STATUS_STYLES: Record<DcaFill['status'], string> = {
+  filled: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  skipped: 'text-gray-500 dark:text-gray-400'
+};
+
+const DcaPanel: React.FC<DcaPanelProps> = ({
+  tokenIn,
+  tokenOut,
+  isWalletConnected,
+  onConnectWallet
+}) => {
+  const [amountPerFill, setAmountPerFill] = useState('');
+  const [totalFills, setTotalFills] = useState('10');
+  const [intervalSeconds, setIntervalSeconds] = useState(DCA_CONFIG.INTERVALS[1].seconds);
+  const [maxSlippage, setMaxSlippage] = useState(DCA_CONFIG.DEFAULT_SLIPPAGE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const {
+    schedules,
+    createSchedule,
+    cancelSchedule,
+    fillMissedNow,
+    skipMissed,
+    executingScheduleId,
+    error
+  } = useDcaSchedules(isWalletConnected);
+
+  const handleCreate = () => {
+    const schedule = createSchedule({
+      tokenIn,
+      tokenOut,
+      amountPerFill,
+      totalFills: parseInt(totalFills, 10),
+      intervalSeconds,
+      maxSlippage
+    });
+    if (schedule) setAmountPerFill('');
+  };
+
+  const renderFill = (schedule: DcaSchedule, fill: DcaFill) => (
+    <div key={`${fill.scheduledFor}-${fill.executedAt}`} className="flex items-center justify-between text-xs py-1">
+      <span className="text-gray-500 dark:text-gray-400">{new Date(fill.scheduledFor * 1000).toLocaleString()}</span>
+      {fill.status === 'filled' ? (
+        <span className="flex items-center space-x-2">
+          <span className="text-gray-900 dark:text-white">
+            +{formatNumber(parseFloat(fill.amountOut || '0'))} {schedule.tokenOut.symbol}
+          </span>
+          {fill.price !== undefined && (
+            <span className="text-gray-500 dark:text-gray-400">
+              @ {formatNumber(fill.price)}
+            </span>
+          )}
+          {fill.txHash && (
+            <button
+              onClick={() => window.open(`https://explorer.mainnetloop.com/tx/${fill.txHash}`, '_blank')}
+              className="text-orange-600 dark:text-orange-400 hover:text-orange-700"
+            >
+              <ExternalLink className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ) : (
+        <span className={FILL_STATUS_STYLES[fill.status]} title={fill.error}>
+          {fill.status === 'failed' ? `Failed${fill.error ? `: ${fill.error.slice(0, 40)}` : ''}` : 'Skipped'}
+        </span>
+      )}
+    </div>
+  );
+
+  const renderSchedule = (schedule: DcaSchedule) => {
+    const stats = getDcaStats(schedule);
+    const missed = getMissedDcaFills(schedule);
+    const isExecuting = executingScheduleId === schedule.id;
+    const isExpanded = expandedId === schedule.id;
+
+    return (
+      <div key={schedule.id} className="py-3 space-y-2 text-sm">
+        <div className="flex items-start justify-between">
+          <div className="space-y-0.5">
+            <div className="font-medium text-gray-900 dark:text-white">
+              {schedule.amountPerFill} {schedule.tokenIn.symbol} → {schedule.tokenOut.symbol}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {getIntervalLabel(schedule.intervalSeconds)} · {stats.fillsDone}/{schedule.totalFills} buys
+              {schedule.status === 'active' && ` · next ${formatNextFill(schedule.nextFillAt)}`}
+              {schedule.status !== 'active' && ` · ${schedule.status}`}
+            </div>
+          </div>
+
+          {schedule.status === 'active' && (
+            <button
+              onClick={() => cancelSchedule(schedule.id)}
+              disabled={isExecuting}
+              className="flex items-center space-x-1 text-xs text-red-600 dark:text-red-400 hover:text-red-700 disabled:opacity-50"
+            >
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+          )}
+        </div>
+
+        {/* Progress */}
+        <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-orange-500 to-orange-600"
+            style={{ width: `${(stats.fillsDone / schedule.totalFills) * 100}%` }}
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Spent</div>
+            <div className="text-gray-900 dark:text-white">{formatNumber(stats.totalIn)} {schedule.tokenIn.symbol}</div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Received</div>
+            <div className="text-gray-900 dark:text-white">{formatNumber(stats.totalOut)} {schedule.tokenOut.symbol}</div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Avg. cost</div>
+            <div className="text-gray-900 dark:text-white">
+              {stats.averageCost > 0 ? `${formatNumber(stats.averageCost)} ${schedule.tokenIn.symbol}` : '-'}
+            </div>
+          </div>
+        </div>
+
+        {missed > 0 && (
+          <div className="p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg space-y-2">
+            <div className="flex items-center space-x-2 text-xs text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{missed} scheduled {missed === 1 ? 'buy was' : 'buys were'} missed while ReachSwap was closed</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => fillMissedNow(schedule.id)}
+                disabled={executingScheduleId !== null}
+                className="px-2.5 py-1 text-xs font-medium rounded-lg bg-orange-500 hover:bg-orange-600 text-white disabled:opacity-50"
+              >
+                Buy now
+              </button>
+              <button
+                onClick={() => skipMissed(schedule.id)}
+                disabled={executingScheduleId !== null}
+                className="px-2.5 py-1 text-xs font-medium rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Skip to next interval
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isExecuting && (
+          <div className="text-xs text-orange-600 dark:text-orange-400">Buy due - confirm the swap in your wallet</div>
+        )}
+
+        {schedule.fills.length > 0 && (
+          <div>
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : schedule.id)}
+              className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              <span>{schedule.fills.length} {schedule.fills.length === 1 ? 'fill' : 'fills'}</span>
+            </button>
+            {isExpanded && (
+              <div className="mt-1 max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                {[...schedule.fills].reverse().map(fill => renderFill(schedule, fill))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const totalAmount = parseFloat(amountPerFill) * parseInt(totalFills, 10);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+        <Repeat className="w-5 h-5 text-orange-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recurring Buys</h3>
+      </div>
+
+      {/* Schedule form */}
+      <div className="p-4 space-y-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Amount per buy ({tokenIn.symbol})</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountPerFill}
+              onChange={(e) => setAmountPerFill(e.target.value.replace(/[^0-9.]/g, ''))}
+              placeholder="0.0"
+              className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Number of buys</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={totalFills}
+              onChange={(e) => setTotalFills(e.target.value.replace(/[^0-9]/g, ''))}
+              placeholder="10"
+              className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-500 dark:text-gray-400">Every</span>
+            <select
+              value={intervalSeconds}
+              onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+              className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-gray-900 dark:text-white"
+            >
+              {DCA_CONFIG.INTERVALS.map(interval => (
+                <option key={interval.seconds} value={interval.seconds}>{interval.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-500 dark:text-gray-400">Max slippage</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={maxSlippage}
+              onChange={(e) => setMaxSlippage(e.target.value.replace(/[^0-9.]/g, ''))}
+              className="w-14 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-right text-gray-900 dark:text-white"
+            />
+            <span className="text-gray-500 dark:text-gray-400">%</span>
+          </div>
+        </div>
+
+        {totalAmount > 0 && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Total: {formatNumber(totalAmount)} {tokenIn.symbol} into {tokenOut.symbol}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="w-4 h-4" />
+            <span>{formatTxError(error)}</span>
+          </div>
+        )}
+
+        {isWalletConnected ? (
+          <button
+            onClick={handleCreate}
+            disabled={!amountPerFill || !totalFills}
+            className="w-full py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all"
+          >
+            Start Recurring Buy
+          </button>
+        ) : (
+          <button
+            onClick={onConnectWallet}
+            className="w-full py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold rounded-lg transition-all"
+          >
+            Connect Wallet
+          </button>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The first buy runs right away. Later buys run through the best route while ReachSwap is open,
+          each one confirmed in your wallet. Buys missed while the app was closed wait for you to buy or skip them.
+        </p>
+      </div>
+
+      {/* Schedules */}
+      <div className="px-4 pb-2 divide-y divide-gray-200 dark:divide-gray-700">
+        {schedules.length > 0 ? (
+          schedules.map(renderSchedule)
+        ) : (
+          <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No recurring buys
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DcaPanel;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Moon, Sun, Wallet } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import ActivityBadge from './ActivityBadge';
 
 interface HeaderProps {
   currentTab: string;
@@ -24,6 +25,7 @@ const Header: React.FC<HeaderProps> = ({
   const tabs = [
     { id: 'swap', label: 'Swap' },
     { id: 'liquidity', label: 'Liquidity' },
+    { id: 'pools', label: 'Pools' },
     { id: 'portfolio', label: 'Portfolio' }
   ];
 
@@ -83,6 +85,9 @@ const Header: React.FC<HeaderProps> = ({
               </span>
             </div>
 
+            {/* Transaction Activity */}
+            <ActivityBadge isWalletConnected={isWalletConnected} />
+
             {/* Theme Toggle */}
             <button
               onClick={toggleTheme}
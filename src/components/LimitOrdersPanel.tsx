@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { ClipboardList, AlertCircle, ExternalLink, Play, X } from 'lucide-react';
+import { LimitOrder, LimitOrderStatus, Token } from '../types';
+import { useLimitOrders } from '../hooks/useLimitOrders';
+import { formatTxError } from '../utils/txErrors';
+
+interface LimitOrdersPanelProps {
+  tokenIn: Token;
+  tokenOut: Token;
+  isWalletConnected: boolean;
+  onConnectWallet: () => void;
+}
+
+const STATUS_TABS: { id: LimitOrderStatus; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'filled', label: 'Filled' },
+  { id: 'expired', label: 'Expired' },
+  { id: 'cancelled', label: 'Cancelled' }
+];
+
+// Paused orders are still live, so they are listed with the open ones
+const isInTab = (order: LimitOrder, tab: LimitOrderStatus) =>
+  order.status === tab || (tab === 'open' && order.status === 'paused');
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' }
+];
+
+const formatAmount = (raw: string, decimals: number): string => {
+  const value = parseFloat(ethers.formatUnits(raw, decimals));
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value.toPrecision(6).replace(/\.?0+$/, '');
+};
+
+const formatExpiry = (expiry: number): string => {
+  const seconds = expiry - Math.floor(Date.now() / 1000);
+  if (seconds <= 0) return 'expired';
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}m left`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h left`;
+  return `${Math.floor(seconds / 86400)}d left`;
+};
+
+const LimitOrdersPanel: React.FC<LimitOrdersPanelProps> = ({
+  tokenIn,
+  tokenOut,
+  isWalletConnected,
+  onConnectWallet
+}) => {
+  const [amountIn, setAmountIn] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [expiryHours, setExpiryHours] = useState(24 * 7);
+  const [statusTab, setStatusTab] = useState<LimitOrderStatus>('open');
+  const [marketPrice, setMarketPrice] = useState<number | null>(null);
+
+  const { orders, placeOrder, cancelOrder, resumeOrder, getMarketPrice, isPlacing, executingOrderId, error } = useLimitOrders(isWalletConnected);
+
+  // Market price of the selected pair, to compare the limit against
+  useEffect(() => {
+    let isCurrent = true;
+    setMarketPrice(null);
+    setLimitPrice('');
+    getMarketPrice(tokenIn, tokenOut).then(price => {
+      if (isCurrent) setMarketPrice(price);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [tokenIn, tokenOut, getMarketPrice]);
+
+  const priceDifference = marketPrice && parseFloat(limitPrice) > 0
+    ? (parseFloat(limitPrice) - marketPrice) / marketPrice * 100
+    : null;
+
+  const handlePlaceOrder = async () => {
+    const order = await placeOrder({ tokenIn, tokenOut, amountIn, limitPrice, expiryHours });
+    if (order) {
+      setAmountIn('');
+      setStatusTab('open');
+    }
+  };
+
+  const visibleOrders = orders.filter(order => isInTab(order, statusTab));
+
+  const renderOrder = (order: LimitOrder) => (
+    <div key={order.id} className="py-3 flex items-start justify-between text-sm">
+      <div className="space-y-0.5">
+        <div className="font-medium text-gray-900 dark:text-white">
+          Sell {formatAmount(order.amountIn, order.tokenIn.decimals)} {order.tokenIn.symbol} for ≥{' '}
+          {formatAmount(order.minAmountOut, order.tokenOut.decimals)} {order.tokenOut.symbol}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          @ {order.limitPrice} {order.tokenOut.symbol}/{order.tokenIn.symbol}
+          {(order.status === 'open' || order.status === 'paused') && ` · ${formatExpiry(order.expiry)}`}
+          {order.status === 'filled' && order.filledAt && ` · filled ${new Date(order.filledAt).toLocaleString()}`}
+        </div>
+        {order.status === 'open' && order.lastError && (
+          <div className="text-xs text-red-600 dark:text-red-400">Last attempt failed: {order.lastError}</div>
+        )}
+        {order.status === 'paused' && (
+          <div className="text-xs text-red-600 dark:text-red-400">
+            Paused - not filled until you resume it{order.lastError ? ` (last attempt: ${order.lastError})` : ''}
+          </div>
+        )}
+        {executingOrderId === order.id && (
+          <div className="text-xs text-orange-600 dark:text-orange-400">Price reached - confirm the swap in your wallet</div>
+        )}
+      </div>
+
+      {(order.status === 'open' || order.status === 'paused') && (
+        <div className="flex items-center space-x-3">
+          {order.status === 'paused' && (
+            <button
+              onClick={() => resumeOrder(order.id)}
+              className="flex items-center space-x-1 text-xs text-orange-600 dark:text-orange-400 hover:text-orange-700"
+            >
+              <Play className="w-3 h-3" />
+              <span>Resume</span>
+            </button>
+          )}
+          <button
+            onClick={() => cancelOrder(order.id)}
+            disabled={executingOrderId === order.id}
+            className="flex items-center space-x-1 text-xs text-red-600 dark:text-red-400 hover:text-red-700 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            <span>Cancel</span>
+          </button>
+        </div>
+      )}
+      {order.status === 'filled' && order.txHash && (
+        <button
+          onClick={() => window.open(`https://explorer.mainnetloop.com/tx/${order.txHash}`, '_blank')}
+          className="flex items-center space-x-1 text-xs text-orange-600 dark:text-orange-400 hover:text-orange-700"
+        >
+          <span>View</span>
+          <ExternalLink className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+        <ClipboardList className="w-5 h-5 text-orange-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Limit Orders</h3>
+      </div>
+
+      {/* Order form */}
+      <div className="p-4 space-y-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Sell ({tokenIn.symbol})</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountIn}
+              onChange={(e) => setAmountIn(e.target.value.replace(/[^0-9.]/g, ''))}
+              placeholder="0.0"
+              className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-gray-500 dark:text-gray-400">Price ({tokenOut.symbol} per {tokenIn.symbol})</label>
+              {marketPrice !== null && (
+                <button
+                  onClick={() => setLimitPrice(marketPrice.toPrecision(6))}
+                  className="text-xs text-orange-600 dark:text-orange-400 hover:text-orange-700"
+                >
+                  Market
+                </button>
+              )}
+            </div>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value.replace(/[^0-9.]/g, ''))}
+              placeholder={marketPrice !== null ? marketPrice.toPrecision(6) : '0.0'}
+              className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-500 dark:text-gray-400">Expires in</span>
+            <select
+              value={expiryHours}
+              onChange={(e) => setExpiryHours(Number(e.target.value))}
+              className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-gray-900 dark:text-white"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {priceDifference !== null && (
+            <span className={priceDifference >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+              {priceDifference >= 0 ? '+' : ''}{priceDifference.toFixed(2)}% vs market
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="w-4 h-4" />
+            <span>{formatTxError(error)}</span>
+          </div>
+        )}
+
+        {isWalletConnected ? (
+          <button
+            onClick={handlePlaceOrder}
+            disabled={isPlacing || !amountIn || !limitPrice}
+            className="w-full py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all"
+          >
+            {isPlacing ? 'Sign the order in your wallet...' : 'Place Limit Order'}
+          </button>
+        ) : (
+          <button
+            onClick={onConnectWallet}
+            className="w-full py-2.5 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold rounded-lg transition-all"
+          >
+            Connect Wallet
+          </button>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Orders are signed, not sent. While ReachSwap is open they are filled through the router once the
+          {' '}{tokenIn.symbol}/{tokenOut.symbol} pool pays at least your price, and your wallet confirms the swap.
+        </p>
+      </div>
+
+      {/* Order book */}
+      <div className="px-4 pt-3 flex items-center space-x-1">
+        {STATUS_TABS.map(tab => {
+          const count = orders.filter(order => isInTab(order, tab.id)).length;
+          return (
+            <button
+              key={tab.id}
+              onClick={() => setStatusTab(tab.id)}
+              className={`px-2.5 py-1 text-xs rounded-lg font-medium transition-colors ${
+                statusTab === tab.id
+                  ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {tab.label}{count > 0 ? ` (${count})` : ''}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="px-4 pb-2 divide-y divide-gray-200 dark:divide-gray-700">
+        {visibleOrders.length > 0 ? (
+          visibleOrders.map(renderOrder)
+        ) : (
+          <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No {statusTab} orders
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LimitOrdersPanel;
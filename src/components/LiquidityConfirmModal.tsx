@@ -1,6 +1,9 @@
 import React, { useEffect } from 'react';
 import { X, Plus, Clock, Zap, Info } from 'lucide-react';
-import { Token } from '../types';
+import { NetworkFeeEstimate, Token, TransactionSimulation } from '../types';
+import { useDynamicTokenPricing } from '../hooks/useDynamicTokenPricing';
+import { formatNetworkFee } from '../utils/gasEngine';
+import SimulationPreview from './SimulationPreview';
 
 interface LiquidityConfirmModalProps {
   isOpen: boolean;
@@ -12,8 +15,10 @@ interface LiquidityConfirmModalProps {
   amount1: string;
   poolShare: number;
   estimatedAPR: string;
-  gasPrice: string;
+  networkFee?: NetworkFeeEstimate | null; // Expected cost at the selected speed, from the simulation's gas estimate
   isLoading?: boolean;
+  simulation?: TransactionSimulation | null;
+  isSimulating?: boolean;
 }
 
 const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
@@ -26,9 +31,20 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
   amount1,
   poolShare,
   estimatedAPR,
-  gasPrice,
-  isLoading = false
+  networkFee,
+  isLoading = false,
+  simulation = null,
+  isSimulating = false
 }) => {
+  const { getTokenPrice, batchFetchPrices } = useDynamicTokenPricing();
+
+  // Price both tokens (LOOP/USD oracle based) for the USD estimates
+  useEffect(() => {
+    if (isOpen) {
+      batchFetchPrices([token0, token1]);
+    }
+  }, [isOpen, token0, token1, batchFetchPrices]);
+
   // Handle click outside to close modal
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -51,8 +67,17 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
 
   if (!isOpen) return null;
 
-  const totalValue = (parseFloat(amount0) * (token0.price || 0)) + (parseFloat(amount1) * (token1.price || 0));
-  const estimatedGasFee = (parseFloat(gasPrice) * 0.000021 * 2000).toFixed(4);
+  const token0Price = token0.price || getTokenPrice(token0) || 0;
+  const token1Price = token1.price || getTokenPrice(token1) || 0;
+  const totalValue = (parseFloat(amount0) * token0Price) + (parseFloat(amount1) * token1Price);
+  const isBlockedBySimulation = simulation?.status === 'reverted';
+  const simulationResults = [
+    ...(simulation?.liquidity ? [{ label: 'LP tokens minted', value: parseFloat(simulation.liquidity).toFixed(6) }] : []),
+    ...(simulation?.depositAmounts || []).map(({ symbol, amount }) => ({
+      label: `${symbol} deposited`,
+      value: parseFloat(amount).toFixed(6)
+    }))
+  ];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 modal-backdrop">
@@ -121,7 +146,7 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
                         {amount0}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
-                        ~${(parseFloat(amount0) * (token0.price || 0)).toFixed(2)}
+                        ~${(parseFloat(amount0) * token0Price).toFixed(2)}
                       </div>
                     </div>
                   </div>
@@ -165,7 +190,7 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
                         {amount1}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
-                        ~${(parseFloat(amount1) * (token1.price || 0)).toFixed(2)}
+                        ~${(parseFloat(amount1) * token1Price).toFixed(2)}
                       </div>
                     </div>
                   </div>
@@ -220,12 +245,14 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
                     <Zap className="w-2.5 h-2.5 text-yellow-500" />
                   </div>
                   <span className="font-medium text-gray-900 dark:text-white">
-                    ~${estimatedGasFee}
+                    {formatNetworkFee(networkFee)}
                   </span>
                 </div>
               </div>
             </div>
 
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} results={simulationResults} />
+
             {/* Info Box */}
             <div className="bg-orange-50 dark:bg-orange-900/20 rounded-xl p-3 border border-orange-200 dark:border-orange-800">
               <div className="flex items-start space-x-2">
@@ -251,9 +278,9 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
         <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
           <button
             onClick={onConfirm}
-            disabled={isLoading}
+            disabled={isLoading || isBlockedBySimulation}
             className={`w-full py-3 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center space-x-2 ${
-              isLoading
+              isLoading || isBlockedBySimulation
                 ? 'bg-gray-400 dark:bg-gray-600 text-gray-200 cursor-not-allowed'
                 : 'bg-gradient-to-r from-orange-500 to-blue-600 hover:from-orange-600 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transform hover:scale-105'
             }`}
@@ -266,7 +293,7 @@ const LiquidityConfirmModal: React.FC<LiquidityConfirmModalProps> = ({
             ) : (
               <>
                 <Clock className="w-4 h-4" />
-                <span>Confirm Add Liquidity</span>
+                <span>{isBlockedBySimulation ? 'Deposit Would Fail' : 'Confirm Add Liquidity'}</span>
               </>
             )}
           </button>
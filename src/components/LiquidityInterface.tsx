@@ -1,14 +1,18 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { Plus, Settings, RefreshCcw, AlertCircle, Minus, Info } from 'lucide-react';
+import { Plus, Settings, RefreshCcw, AlertCircle, Minus, Info, Zap } from 'lucide-react';
 import { ethers } from 'ethers';
-import { Token } from '../types';
+import { Token, ZapInQuote, ZapInResult, PoolAnalytics, TransactionSimulation } from '../types';
 import { TOKENS } from '../constants/tokens';
 import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
 import { useVisibleTokenBalances } from '../hooks/useVisibleTokenBalances';
-import { useLiquidityManagement } from '../hooks/useLiquidityManagement';
+import { useLiquidityManagement, PreparedAddLiquidity } from '../hooks/useLiquidityManagement';
 import { useDynamicTokenDecimals } from '../hooks/useDynamicTokenDecimals';
+import { useDynamicTokenPricing } from '../hooks/useDynamicTokenPricing';
 import { useDebounce } from '../hooks/useDebounce';
+import { useZap } from '../hooks/useZap';
+import { useGasFees } from '../hooks/useGasFees';
 import { normalizeToken, getTokenDisplayName, getTokenLogoUrl } from '../utils/tokenUtils';
+import { getPoolAnalytics } from '../utils/poolAnalytics';
 import { 
   waitForTransaction, 
   getProviderAndSigner, 
@@ -26,10 +30,15 @@ import RemoveLiquidityModal from './RemoveLiquidityModal';
 import SwapSettingsModal from './SwapSettingsModal';
 import SelectPoolModal from './SelectPoolModal';
 import { LiquidityPosition } from '../hooks/usePortfolioData';
+import { recordTransaction } from '../utils/activityStore';
+import { assertSimulationSucceeds } from '../utils/txSimulation';
+import { formatTxError } from '../utils/txErrors';
+import { withGasFees } from '../utils/gasEngine';
 
 interface LiquidityInterfaceProps {
   isWalletConnected: boolean;
   onConnectWallet: () => void;
+  initialPair?: { token0: Token; token1: Token } | null; // Preselected from the pool explorer
 }
 
 interface PoolStatus {
@@ -41,7 +50,7 @@ interface PoolStatus {
 }
 
 interface LiquidityState {
-  step: 'input' | 'approving' | 'approved' | 'creating' | 'adding' | 'success' | 'error';
+  step: 'input' | 'approving' | 'approved' | 'swapping' | 'creating' | 'adding' | 'success' | 'error';
   approvalTxHash?: string;
   liquidityTxHash?: string;
   error?: string;
@@ -52,23 +61,25 @@ const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
 
 const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
   isWalletConnected,
-  onConnectWallet
+  onConnectWallet,
+  initialPair
 }) => {
   // State management
   const [mode, setMode] = useState<'add' | 'remove'>('add');
-  const [token0, setToken0] = useState<Token | null>(TOKENS.LOOP);
-  const [token1, setToken1] = useState<Token | null>(null);
+  const [token0, setToken0] = useState<Token | null>(initialPair?.token0 || TOKENS.LOOP);
+  const [token1, setToken1] = useState<Token | null>(initialPair?.token1 || null);
   const [amount0, setAmount0] = useState('');
   const [amount1, setAmount1] = useState('');
   const [isToken0Input, setIsToken0Input] = useState(true);
   const [slippage, setSlippage] = useState('0.5');
-  const [gasPrice, setGasPrice] = useState('10');
   const [deadline] = useState('20');
   
   // Modal states
   const [showTokenModal, setShowTokenModal] = useState(false);
   const [tokenModalType, setTokenModalType] = useState<'token0' | 'token1'>('token0');
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [liquiditySimulation, setLiquiditySimulation] = useState<TransactionSimulation | null>(null);
+  const [isSimulatingLiquidity, setIsSimulatingLiquidity] = useState(false);
   const [showRemoveModal, setShowRemoveModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showSelectPoolModal, setShowSelectPoolModal] = useState(false);
@@ -87,6 +98,12 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
   // Pool data
   const [poolShare, setPoolShare] = useState(0);
   const [estimatedLPTokens, setEstimatedLPTokens] = useState('0');
+  const [poolAnalytics, setPoolAnalytics] = useState<PoolAnalytics | null>(null);
+
+  // Zap in: deposit token0 only, half-ish is swapped into token1
+  const [isZapMode, setIsZapMode] = useState(false);
+  const [zapQuote, setZapQuote] = useState<ZapInQuote | null>(null);
+  const [zapResult, setZapResult] = useState<ZapInResult | null>(null);
   
   // Custom token support
   const [customTokenError] = useState<string | null>(null);
@@ -104,12 +121,37 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     checkPairExists,
     getPool,
     createPool,
+    simulateAddLiquidity,
     error: liquidityError
   } = useLiquidityManagement();
   
+  const { quoteZapIn, executeZapIn } = useZap();
+  const { feeData, gasSpeed, setGasSpeed, getNetworkFee } = useGasFees();
+
+  // Pairs opened from the pool explorer may hold tokens whose balances are not loaded yet
+  useEffect(() => {
+    if (initialPair && isWalletConnected && walletAddress) {
+      fetchBalanceForToken(initialPair.token0);
+      fetchBalanceForToken(initialPair.token1);
+    }
+  }, [initialPair, isWalletConnected, walletAddress, fetchBalanceForToken]);
+  
   // Use dynamic token decimals hook (for future use)
   useDynamicTokenDecimals();
 
+  // USD prices for the amount estimates (LOOP/USD oracle based)
+  const { getTokenPrice, batchFetchPrices } = useDynamicTokenPricing();
+
+  useEffect(() => {
+    const selectedTokens = [token0, token1].filter((token): token is Token => token !== null);
+    if (selectedTokens.length > 0) {
+      batchFetchPrices(selectedTokens);
+    }
+  }, [token0, token1, batchFetchPrices]);
+
+  const token0Price = token0 ? token0.price || getTokenPrice(token0) : undefined;
+  const token1Price = token1 ? token1.price || getTokenPrice(token1) : undefined;
+
   // Debounced amounts for calculations
   const debouncedAmount0 = useDebounce(amount0, 500);
   const debouncedAmount1 = useDebounce(amount1, 500);
@@ -204,9 +246,26 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     updatePoolData();
   }, [updatePoolData]);
 
+  // Fee APR from the pool's Swap activity, loaded after the pool check so it never delays it
+  useEffect(() => {
+    setPoolAnalytics(null);
+    if (!token0 || !token1 || !poolStatus.hasLiquidity || !poolStatus.pairAddress) return;
+
+    let cancelled = false;
+    getPoolAnalytics(poolStatus.pairAddress, token0, token1)
+      .then(analytics => {
+        if (!cancelled) setPoolAnalytics(analytics);
+      })
+      .catch(error => console.warn('⚠️ Pool analytics unavailable:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token0, token1, poolStatus.hasLiquidity, poolStatus.pairAddress]);
+
   // Calculate quote when amounts change (only if pool has liquidity)
   const calculateQuote = useCallback(async () => {
-    if (!token0 || !token1 || !poolStatus.hasLiquidity || !poolStatus.reserves) return;
+    if (!token0 || !token1 || !poolStatus.hasLiquidity || !poolStatus.reserves || isZapMode) return;
 
     const inputAmount = isToken0Input ? debouncedAmount0 : debouncedAmount1;
     if (!inputAmount || parseFloat(inputAmount) <= 0) return;
@@ -231,7 +290,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     } catch (error) {
       console.error('Error calculating quote:', error);
     }
-  }, [token0, token1, poolStatus.hasLiquidity, poolStatus.reserves, debouncedAmount0, debouncedAmount1, isToken0Input]);
+  }, [token0, token1, poolStatus.hasLiquidity, poolStatus.reserves, debouncedAmount0, debouncedAmount1, isToken0Input, isZapMode]);
 
   // Run quote calculation when debounced amounts change
   useEffect(() => {
@@ -240,6 +299,35 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     }
   }, [calculateQuote]);
 
+  // Zap quote: how much token0 to swap and what the deposit mints
+  useEffect(() => {
+    if (!isZapMode || !token0 || !token1 || !poolStatus.hasLiquidity || !debouncedAmount0 || parseFloat(debouncedAmount0) <= 0) {
+      setZapQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    quoteZapIn(token0, token1, debouncedAmount0).then(quote => {
+      if (!cancelled) setZapQuote(quote);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isZapMode, token0, token1, poolStatus.hasLiquidity, debouncedAmount0, quoteZapIn]);
+
+  // A new zap amount replaces the previous dust summary
+  useEffect(() => {
+    if (amount0) setZapResult(null);
+  }, [amount0]);
+
+  // Zap needs liquidity to price the swap leg
+  useEffect(() => {
+    if (!poolStatus.hasLiquidity) {
+      setIsZapMode(false);
+    }
+  }, [poolStatus.hasLiquidity]);
+
   // Calculate pool share and LP tokens
   useEffect(() => {
     if (!token0 || !token1 || !amount0 || !amount1) {
@@ -438,10 +526,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
       console.log(`✅ ReachSwap approval transaction sent: ${approvalTxHash}`);
       
       // Wait for approval to be mined
-      const approvalSuccess = await waitForTransaction(approvalTxHash);
-      if (!approvalSuccess) {
-        throw new Error('Approval transaction failed');
-      }
+      await waitForTransaction(approvalTxHash);
 
       // Wait for allowance to be updated
       const allowanceUpdated = await waitForAllowanceUpdate(
@@ -539,11 +624,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
 
       // Wait for liquidity transaction
       console.log('⏳ Waiting for liquidity transaction to be mined...');
-      const liquiditySuccess = await waitForTransaction(liquidityTxHash);
-
-      if (!liquiditySuccess) {
-        throw new Error('Liquidity transaction failed');
-      }
+      await waitForTransaction(liquidityTxHash);
 
       setLiquidityState(prev => ({ 
         ...prev, 
@@ -575,6 +656,43 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     poolStatus, checkTokenApproval, handleTokenApproval, updatePoolData, fetchBalanceForToken
   ]);
 
+  // Zap in: swap part of token0 into token1, then add both
+  const handleZapIn = useCallback(async () => {
+    if (!token0 || !token1 || !amount0 || !isWalletConnected || !walletAddress) return;
+
+    try {
+      setZapResult(null);
+      setLiquidityState({ step: 'approving', needsApproval: token0.address !== NATIVE_LOOP });
+
+      const result = await executeZapIn(token0, token1, amount0, parseFloat(slippage), step => {
+        setLiquidityState(prev => ({ ...prev, step }));
+      });
+
+      setZapResult(result);
+      setLiquidityState(prev => ({
+        ...prev,
+        step: 'success',
+        liquidityTxHash: result.liquidityTxHash
+      }));
+
+      // Success cleanup after delay
+      setTimeout(() => {
+        setAmount0('');
+        setLiquidityState({ step: 'input' });
+        updatePoolData();
+        fetchBalanceForToken(token0);
+        fetchBalanceForToken(token1);
+      }, 3000);
+    } catch (error) {
+      console.error('Error zapping in:', error);
+      const userError = formatUserError(error);
+      setLiquidityState({
+        step: 'error',
+        error: `Zap failed: ${userError}`
+      });
+    }
+  }, [token0, token1, amount0, isWalletConnected, walletAddress, slippage, executeZapIn, updatePoolData, fetchBalanceForToken]);
+
   // Enhanced liquidity execution methods
   const executeCreatePool = useCallback(async (
     tokenA: Token,
@@ -640,6 +758,73 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     return executeAddInitialLiquidity(tokenA, tokenB, amountA, amountB);
   }, [executeAddInitialLiquidity]);
 
+  // addLiquidityETH transaction, shared by the simulation preview and execution
+  const prepareAddLiquidityETH = useCallback(async (
+    token: Token,
+    tokenAmount: string,
+    ethAmount: string
+  ): Promise<PreparedAddLiquidity> => {
+    const provider = await getProvider();
+    if (!provider) throw new Error('No provider available');
+
+    // Get wallet address
+    let currentWalletAddress = walletAddress;
+    if (!currentWalletAddress) {
+      const accounts = await provider.request<string[]>({ method: 'eth_accounts' });
+      currentWalletAddress = accounts[0];
+      if (currentWalletAddress) {
+        localStorage.setItem('reachswap_wallet_address', currentWalletAddress);
+      }
+    }
+
+    if (!currentWalletAddress) {
+      throw new Error('No wallet address available');
+    }
+
+    const deadlineTimestamp = Math.floor(Date.now() / 1000) + (parseInt(deadline) * 60);
+
+    // 🎯 CRITICAL FIX: Use exact same parameter format as successful Hardhat script
+    const tokenAmountWei = ethers.parseUnits(tokenAmount, token.decimals).toString();
+    const ethAmountWei = ethers.parseEther(ethAmount).toString();
+    
+    // 5% slippage (same as Hardhat script)
+    const tokenAmountMin = (BigInt(tokenAmountWei) * 95n / 100n).toString();
+    const ethAmountMin = (BigInt(ethAmountWei) * 95n / 100n).toString();
+
+    console.log(`💰 Using Hardhat-style parameters:`);
+    console.log(`   Token amount: ${tokenAmountWei} wei`);
+    console.log(`   ETH amount: ${ethAmountWei} wei`);
+    console.log(`   Token min: ${tokenAmountMin} wei`);
+    console.log(`   ETH min: ${ethAmountMin} wei`);
+
+    // 🎯 CRITICAL FIX: Use ethers for encoding (like Hardhat) instead of manual encoding
+    const routerInterface = new ethers.Interface([
+      "function addLiquidityETH(address token, uint amountTokenDesired, uint amountTokenMin, uint amountETHMin, address to, uint deadline, bool skipMEVProtection) external payable"
+    ]);
+
+    const txData = routerInterface.encodeFunctionData("addLiquidityETH", [
+      token.address,
+      tokenAmountWei,
+      tokenAmountMin,
+      ethAmountMin,
+      currentWalletAddress,
+      deadlineTimestamp,
+      false // skipMEVProtection
+    ]);
+
+    // addLiquidityETH returns (amountToken, amountETH, liquidity)
+    return {
+      tx: {
+        from: currentWalletAddress,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data: txData,
+        value: '0x' + BigInt(ethAmountWei).toString(16)
+      },
+      tokens: [token, TOKENS.LOOP],
+      amountsWei: [tokenAmountWei, ethAmountWei]
+    };
+  }, [getProvider, walletAddress, deadline]);
+
   const executeAddLiquidityETH = useCallback(async (
     token: Token,
     tokenAmount: string,
@@ -650,74 +835,88 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
       if (!provider) throw new Error('No provider available');
 
       console.log('🔥 Executing ReachSwap addLiquidityETH (HARDHAT PATTERN)...');
-      
-      // Get wallet address
-      let currentWalletAddress = walletAddress;
-      if (!currentWalletAddress) {
-        const accounts = await provider.request({ method: 'eth_accounts' });
-        currentWalletAddress = accounts[0];
-        if (currentWalletAddress) {
-          localStorage.setItem('reachswap_wallet_address', currentWalletAddress);
-        }
-      }
+      const { tx: txParams } = await prepareAddLiquidityETH(token, tokenAmount, ethAmount);
 
-      if (!currentWalletAddress) {
-        throw new Error('No wallet address available');
-      }
-
-      const deadlineTimestamp = Math.floor(Date.now() / 1000) + (parseInt(deadline) * 60);
-
-      // 🎯 CRITICAL FIX: Use exact same parameter format as successful Hardhat script
-      const tokenAmountWei = ethers.parseUnits(tokenAmount, token.decimals).toString();
-      const ethAmountWei = ethers.parseEther(ethAmount).toString();
-      
-      // 5% slippage (same as Hardhat script)
-      const tokenAmountMin = (BigInt(tokenAmountWei) * 95n / 100n).toString();
-      const ethAmountMin = (BigInt(ethAmountWei) * 95n / 100n).toString();
-
-      console.log(`💰 Using Hardhat-style parameters:`);
-      console.log(`   Token amount: ${tokenAmountWei} wei`);
-      console.log(`   ETH amount: ${ethAmountWei} wei`);
-      console.log(`   Token min: ${tokenAmountMin} wei`);
-      console.log(`   ETH min: ${ethAmountMin} wei`);
-
-      // 🎯 CRITICAL FIX: Use ethers for encoding (like Hardhat) instead of manual encoding
-      const routerInterface = new ethers.Interface([
-        "function addLiquidityETH(address token, uint amountTokenDesired, uint amountTokenMin, uint amountETHMin, address to, uint deadline, bool skipMEVProtection) external payable"
-      ]);
-
-      const txData = routerInterface.encodeFunctionData("addLiquidityETH", [
-        token.address,
-        tokenAmountWei,
-        tokenAmountMin,
-        ethAmountMin,
-        currentWalletAddress,
-        deadlineTimestamp,
-        false // skipMEVProtection
-      ]);
-
-      console.log(`🔍 Ethers-encoded transaction data: ${txData}`);
-
-      const txParams = {
-        from: currentWalletAddress,
-        to: REACHSWAP_CONTRACTS.ROUTER,
-        data: txData,
-        value: '0x' + BigInt(ethAmountWei).toString(16),
-      };
+      console.log(`🔍 Ethers-encoded transaction data: ${txParams.data}`);
+      await assertSimulationSucceeds('Liquidity deposit', txParams);
 
       console.log(`🚀 Sending transaction with ethers-encoded data...`);
       
       // Send the transaction using the provider
-      return await provider.request({
+      const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [txParams]
+        params: [await withGasFees(txParams)]
       });
 
+      recordTransaction({
+        hash: txHash,
+        type: 'addLiquidity',
+        summary: `Add ${tokenAmount} ${token.symbol} and ${ethAmount} LOOP liquidity`,
+        tokenIn: { symbol: token.symbol, address: token.address },
+        tokenOut: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+        amountIn: tokenAmount,
+        amountOut: ethAmount,
+        router: 'reachswap'
+      });
+
+      return txHash;
+
     } catch (error) {
       console.error('Error executing ReachSwap addLiquidityETH:', error);
       throw error;
     }
-  }, [getProvider, walletAddress, deadline]);
+  }, [getProvider, prepareAddLiquidityETH]);
+
+  // addLiquidity transaction for two ERC-20 tokens, shared by the simulation preview and execution
+  const prepareAddLiquidityTokens = useCallback((
+    tokenA: Token,
+    tokenB: Token,
+    amountA: string,
+    amountB: string
+  ): PreparedAddLiquidity => {
+    const deadlineTimestamp = Math.floor(Date.now() / 1000) + (parseInt(deadline) * 60);
+    const slippageDecimal = parseFloat(slippage) / 100;
+
+    // Convert amounts to wei using safe conversion
+    const amountAWei = convertToWei(amountA, tokenA.decimals);
+    const amountBWei = convertToWei(amountB, tokenB.decimals);
+
+    console.log(`💰 Amount A in wei: ${amountAWei}`);
+    console.log(`💰 Amount B in wei: ${amountBWei}`);
+
+    // Calculate minimum amounts with slippage protection
+    const amountAMin = (BigInt(amountAWei) * BigInt(Math.floor((1 - slippageDecimal) * 10000)) / BigInt(10000)).toString();
+    const amountBMin = (BigInt(amountBWei) * BigInt(Math.floor((1 - slippageDecimal) * 10000)) / BigInt(10000)).toString();
+
+    // ✅ CRITICAL FIX: Use correct ReachSwap addLiquidity signature with skipMEVProtection
+    // addLiquidity(address tokenA, address tokenB, uint amountADesired, uint amountBDesired, uint amountAMin, uint amountBMin, address to, uint deadline, bool skipMEVProtection)
+    const addLiquiditySignature = '0x39add5e8'; // ← CORRECT ReachSwap signature with MEV protection
+    const paddedTokenA = tokenA.address.slice(2).padStart(64, '0');
+    const paddedTokenB = tokenB.address.slice(2).padStart(64, '0');
+    const paddedAmountADesired = BigInt(amountAWei).toString(16).padStart(64, '0');
+    const paddedAmountBDesired = BigInt(amountBWei).toString(16).padStart(64, '0');
+    const paddedAmountAMin = BigInt(amountAMin).toString(16).padStart(64, '0');
+    const paddedAmountBMin = BigInt(amountBMin).toString(16).padStart(64, '0');
+    const paddedTo = walletAddress!.slice(2).padStart(64, '0');
+    const paddedDeadline = deadlineTimestamp.toString(16).padStart(64, '0');
+    // ✅ CRITICAL: Add skipMEVProtection parameter (false = enable protection)
+    const paddedSkipMEV = '0'.padStart(64, '0'); // false = enable MEV protection
+
+    const txData = addLiquiditySignature + paddedTokenA + paddedTokenB + paddedAmountADesired + 
+                  paddedAmountBDesired + paddedAmountAMin + paddedAmountBMin + paddedTo + 
+                  paddedDeadline + paddedSkipMEV;
+
+    // addLiquidity returns (amountA, amountB, liquidity)
+    return {
+      tx: {
+        from: walletAddress!,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data: txData
+      },
+      tokens: [tokenA, tokenB],
+      amountsWei: [amountAWei, amountBWei]
+    };
+  }, [walletAddress, slippage, deadline, convertToWei]);
 
   // Enhanced addLiquidity implementation
   const executeAddLiquidity = useCallback(async (
@@ -734,56 +933,72 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
       console.log(`📊 Token A: ${tokenA.symbol} - Amount: ${amountA}`);
       console.log(`📊 Token B: ${tokenB.symbol} - Amount: ${amountB}`);
 
-      const deadlineTimestamp = Math.floor(Date.now() / 1000) + (parseInt(deadline) * 60);
-      const slippageDecimal = parseFloat(slippage) / 100;
-
-      // Convert amounts to wei using safe conversion
-      const amountAWei = convertToWei(amountA, tokenA.decimals);
-      const amountBWei = convertToWei(amountB, tokenB.decimals);
-
-      console.log(`💰 Amount A in wei: ${amountAWei}`);
-      console.log(`💰 Amount B in wei: ${amountBWei}`);
-
-      // Calculate minimum amounts with slippage protection
-      const amountAMin = (BigInt(amountAWei) * BigInt(Math.floor((1 - slippageDecimal) * 10000)) / BigInt(10000)).toString();
-      const amountBMin = (BigInt(amountBWei) * BigInt(Math.floor((1 - slippageDecimal) * 10000)) / BigInt(10000)).toString();
-
-      // ✅ CRITICAL FIX: Use correct ReachSwap addLiquidity signature with skipMEVProtection
-      // addLiquidity(address tokenA, address tokenB, uint amountADesired, uint amountBDesired, uint amountAMin, uint amountBMin, address to, uint deadline, bool skipMEVProtection)
-      const addLiquiditySignature = '0x39add5e8'; // ← CORRECT ReachSwap signature with MEV protection
-      const paddedTokenA = tokenA.address.slice(2).padStart(64, '0');
-      const paddedTokenB = tokenB.address.slice(2).padStart(64, '0');
-      const paddedAmountADesired = BigInt(amountAWei).toString(16).padStart(64, '0');
-      const paddedAmountBDesired = BigInt(amountBWei).toString(16).padStart(64, '0');
-      const paddedAmountAMin = BigInt(amountAMin).toString(16).padStart(64, '0');
-      const paddedAmountBMin = BigInt(amountBMin).toString(16).padStart(64, '0');
-      const paddedTo = walletAddress!.slice(2).padStart(64, '0');
-      const paddedDeadline = deadlineTimestamp.toString(16).padStart(64, '0');
-      // ✅ CRITICAL: Add skipMEVProtection parameter (false = enable protection)
-      const paddedSkipMEV = '0'.padStart(64, '0'); // false = enable MEV protection
-
-      const txData = addLiquiditySignature + paddedTokenA + paddedTokenB + paddedAmountADesired + 
-                    paddedAmountBDesired + paddedAmountAMin + paddedAmountBMin + paddedTo + 
-                    paddedDeadline + paddedSkipMEV;
-
-      const txParams = {
-        from: walletAddress!,
-        to: REACHSWAP_CONTRACTS.ROUTER,
-        data: txData
-      };
+      const { tx: txParams } = prepareAddLiquidityTokens(tokenA, tokenB, amountA, amountB);
+      await assertSimulationSucceeds('Liquidity deposit', txParams);
 
       // Estimate gas with buffer
       const gasLimit = await estimateGasWithBuffer(txParams, 1.5);
 
-      return await sendTransaction({
+      const txHash = await sendTransaction({
         ...txParams,
         gas: gasLimit
       });
+
+      recordTransaction({
+        hash: txHash,
+        type: 'addLiquidity',
+        summary: `Add ${amountA} ${tokenA.symbol} and ${amountB} ${tokenB.symbol} liquidity`,
+        tokenIn: { symbol: tokenA.symbol, address: tokenA.address },
+        tokenOut: { symbol: tokenB.symbol, address: tokenB.address },
+        amountIn: amountA,
+        amountOut: amountB,
+        router: 'reachswap'
+      });
+
+      return txHash;
     } catch (error) {
       console.error('Error executing ReachSwap addLiquidity:', error);
       throw error;
     }
-  }, [getProvider, walletAddress, slippage, deadline, convertToWei]);
+  }, [getProvider, prepareAddLiquidityTokens]);
+
+  // Deposit transaction for the pair as it would be sent, with native LOOP through addLiquidityETH
+  const prepareAddLiquidity = useCallback((
+    tokenA: Token,
+    tokenB: Token,
+    amountA: string,
+    amountB: string
+  ): Promise<PreparedAddLiquidity> => {
+    if (tokenA.address === NATIVE_LOOP) return prepareAddLiquidityETH(tokenB, amountB, amountA);
+    if (tokenB.address === NATIVE_LOOP) return prepareAddLiquidityETH(tokenA, amountA, amountB);
+    return Promise.resolve(prepareAddLiquidityTokens(tokenA, tokenB, amountA, amountB));
+  }, [prepareAddLiquidityETH, prepareAddLiquidityTokens]);
+
+  // Simulate the deposit while the confirmation modal is open
+  useEffect(() => {
+    setLiquiditySimulation(null);
+    if (!showConfirmModal || !token0 || !token1 || !amount0 || !amount1) return;
+
+    let isCurrent = true;
+    setIsSimulatingLiquidity(true);
+    prepareAddLiquidity(token0, token1, amount0, amount1)
+      .then(simulateAddLiquidity)
+      .catch((error): TransactionSimulation => ({
+        status: 'unavailable',
+        reason: error instanceof Error ? error.message : 'Simulation failed',
+        simulatedAt: Date.now()
+      }))
+      .then(simulation => {
+        if (isCurrent) setLiquiditySimulation(simulation);
+      })
+      .finally(() => {
+        if (isCurrent) setIsSimulatingLiquidity(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [showConfirmModal, token0, token1, amount0, amount1, prepareAddLiquidity, simulateAddLiquidity]);
 
   // Handle pool selection for removal
   const handlePoolSelect = useCallback((position: LiquidityPosition) => {
@@ -822,6 +1037,13 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
 
   // Validation for add liquidity
   const canAddLiquidity = useMemo(() => {
+    if (isZapMode) {
+      if (!token0 || !token1 || !amount0 || !isWalletConnected || !zapQuote) return false;
+      if (liquidityState.step !== 'input') return false;
+      const amt0 = parseFloat(amount0);
+      return amt0 > 0 && amt0 <= parseFloat(getVisibleTokenBalance(token0));
+    }
+
     if (!token0 || !token1 || !amount0 || !amount1 || !isWalletConnected) return false;
     if (liquidityState.step !== 'input') return false;
     
@@ -831,25 +1053,27 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     const balance1 = parseFloat(getVisibleTokenBalance(token1));
     
     return amt0 > 0 && amt1 > 0 && amt0 <= balance0 && amt1 <= balance1;
-  }, [token0, token1, amount0, amount1, isWalletConnected, liquidityState.step, getVisibleTokenBalance]);
+  }, [token0, token1, amount0, amount1, isWalletConnected, liquidityState.step, getVisibleTokenBalance, isZapMode, zapQuote]);
 
-  // Get estimated APR (mock calculation)
+  // Fee APR over the last 7 days of swaps
   const estimatedAPR = useMemo(() => {
-    if (!poolStatus.hasLiquidity) return '---';
-    return '24.5%'; // This would come from historical data
-  }, [poolStatus.hasLiquidity]);
+    if (!poolStatus.hasLiquidity || !poolAnalytics) return '---';
+    return `${poolAnalytics.apr.toFixed(2)}%`;
+  }, [poolStatus.hasLiquidity, poolAnalytics]);
 
   // Get appropriate button text based on current state
   const getAddLiquidityButtonText = () => {
     if (isLoadingPool) return 'Checking Pool...';
     if (liquidityState.step === 'approving') return 'Approving Tokens...';
     if (liquidityState.step === 'approved') return 'Tokens Approved';
+    if (liquidityState.step === 'swapping') return 'Swapping...';
     if (liquidityState.step === 'creating') return 'Creating Pool...';
     if (liquidityState.step === 'adding') return 'Adding Liquidity...';
     if (liquidityState.step === 'success') return 'Success!';
     if (liquidityState.step === 'error') return 'Try Again';
     if (!isWalletConnected) return 'Connect Wallet';
     if (!token0 || !token1) return 'Select Tokens';
+    if (isZapMode) return amount0 ? `Zap ${token0.symbol} into Pool` : 'Enter Amount';
     if (!amount0 || !amount1) return 'Enter Amounts';
     if (!poolStatus.pairExists) return 'Create Pool & Add Liquidity';
     if (poolStatus.pairExists && !poolStatus.hasLiquidity) return 'Add Initial Liquidity';
@@ -905,6 +1129,8 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
       setAmount0('');
       setAmount1('');
       setLiquidityState({ step: 'input' });
+    } else if (canAddLiquidity && isZapMode) {
+      handleZapIn();
     } else if (canAddLiquidity) {
       // Show confirmation modal instead of directly executing
       setShowConfirmModal(true);
@@ -935,7 +1161,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
     }
   }, [token1, isWalletConnected, walletAddress, fetchBalanceForToken]);
 
-  const showProgress = ['approving', 'creating', 'adding'].includes(liquidityState.step);
+  const showProgress = ['approving', 'swapping', 'creating', 'adding'].includes(liquidityState.step);
   const canInteract = liquidityState.step === 'input' || liquidityState.step === 'error';
 
   // Add error boundary to catch rendering errors
@@ -1025,6 +1251,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                     <h4 className="font-medium text-gray-900 dark:text-white text-sm">
                       {liquidityState.step === 'success' ? 'Liquidity Added Successfully!' :
                        liquidityState.step === 'error' ? 'Transaction Failed' :
+                       isZapMode ? `Zapping ${token0?.symbol} into Pool...` :
                        'Adding Liquidity...'}
                     </h4>
                     
@@ -1036,11 +1263,11 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                           <div className="flex items-center space-x-3">
                             <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
                               liquidityState.step === 'approving' ? 'bg-blue-500 text-white' :
-                              ['approved', 'creating', 'adding'].includes(liquidityState.step) ? 'bg-green-500 text-white' :
+                              ['approved', 'swapping', 'creating', 'adding'].includes(liquidityState.step) ? 'bg-green-500 text-white' :
                               'bg-gray-300 text-gray-600'
                             }`}>
                               {liquidityState.step === 'approving' ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
-                               ['approved', 'creating', 'adding'].includes(liquidityState.step) ? '✓' : '1'}
+                               ['approved', 'swapping', 'creating', 'adding'].includes(liquidityState.step) ? '✓' : '1'}
                             </div>
                             <div>
                               <div className="text-sm font-medium text-gray-900 dark:text-white">
@@ -1055,13 +1282,30 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                           </div>
                         )}
                         
+                        {/* Zap Swap Step */}
+                        {isZapMode && (
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                              liquidityState.step === 'swapping' ? 'bg-blue-500 text-white' :
+                              liquidityState.step === 'adding' ? 'bg-green-500 text-white' :
+                              'bg-gray-300 text-gray-600'
+                            }`}>
+                              {liquidityState.step === 'swapping' ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
+                               liquidityState.step === 'adding' ? '✓' : '2'}
+                            </div>
+                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                              Swap {zapQuote?.swapAmount ? parseFloat(zapQuote.swapAmount).toFixed(6) : ''} {token0?.symbol} to {token1?.symbol}
+                            </div>
+                          </div>
+                        )}
+                        
                         {/* Liquidity Step */}
                         <div className="flex items-center space-x-3">
                           <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
                             ['creating', 'adding'].includes(liquidityState.step) ? 'bg-blue-500 text-white' :
                             'bg-gray-300 text-gray-600'
                           }`}>
-                            {['creating', 'adding'].includes(liquidityState.step) ? <RefreshCcw className="w-3 h-3 animate-spin" /> : '2'}
+                            {['creating', 'adding'].includes(liquidityState.step) ? <RefreshCcw className="w-3 h-3 animate-spin" /> : isZapMode ? '3' : '2'}
                           </div>
                           <div>
                             <div className="text-sm font-medium text-gray-900 dark:text-white">
@@ -1099,10 +1343,42 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                 </div>
               )}
 
+              {/* Zap Dust - kept after the reset until a new amount is entered */}
+              {zapResult && token0 && token1 && ['input', 'success'].includes(liquidityState.step) && (
+                <div className="mb-4 bg-gray-50 dark:bg-gray-700 rounded-xl p-3 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Zap deposited</span>
+                    <span>{parseFloat(zapResult.inputUsed).toFixed(6)} {token0.symbol} + {parseFloat(zapResult.otherUsed).toFixed(6)} {token1.symbol}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Dust returned to wallet</span>
+                    <span>{parseFloat(zapResult.inputDust).toFixed(6)} {token0.symbol} + {parseFloat(zapResult.otherDust).toFixed(6)} {token1.symbol}</span>
+                  </div>
+                </div>
+              )}
+
               {/* Enhanced Pool Status Display */}
               {liquidityState.step === 'input' && (
-                <div className="mb-4">
+                <div className="mb-4 flex items-center justify-between">
                   {getPoolStatusDisplay()}
+                  {token0 && token1 && poolStatus.hasLiquidity && (
+                    <button
+                      onClick={() => {
+                        setIsZapMode(!isZapMode);
+                        setAmount1('');
+                        setZapResult(null);
+                      }}
+                      className={`flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        isZapMode
+                          ? 'bg-orange-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                      title={`Add liquidity using only ${token0.symbol}`}
+                    >
+                      <Zap className="w-3 h-3" />
+                      <span>Zap</span>
+                    </button>
+                  )}
                 </div>
               )}
 
@@ -1182,9 +1458,9 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                     />
                   </div>
                   
-                  {token0 && amount0 && token0.price && (
+                  {token0 && amount0 && token0Price && (
                     <div className="text-right text-sm text-gray-500 dark:text-gray-400 mt-1">
-                      ~${(parseFloat(amount0) * token0.price).toFixed(2)}
+                      ~${(parseFloat(amount0) * token0Price).toFixed(2)}
                     </div>
                   )}
                 </div>
@@ -1207,7 +1483,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           Balance: {getVisibleTokenBalance(token1)}
                         </span>
-                        {parseFloat(getVisibleTokenBalance(token1)) > 0 && canInteract && (
+                        {parseFloat(getVisibleTokenBalance(token1)) > 0 && canInteract && !isZapMode && (
                           <button
                             onClick={() => handleMaxAmount(false)}
                             disabled={poolStatus.hasLiquidity && isToken0Input}
@@ -1268,22 +1544,61 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                       <input
                         type="text"
                         placeholder="0.0"
-                        value={amount1}
+                        value={isZapMode ? (zapQuote ? parseFloat(zapQuote.swapOutput).toFixed(8) : '') : amount1}
                         onChange={(e) => canInteract && handleAmountChange(e.target.value, false)}
-                        disabled={!canInteract || (poolStatus.hasLiquidity && isToken0Input)}
+                        disabled={!canInteract || isZapMode || (poolStatus.hasLiquidity && isToken0Input)}
                         className="w-full bg-transparent border-none outline-none text-right text-xl font-semibold text-gray-900 dark:text-white placeholder-gray-400 disabled:opacity-50"
                       />
                     </div>
                   </div>
                   
-                  {token1 && amount1 && token1.price && (
+                  {token1 && amount1 && token1Price && (
                     <div className="text-right text-sm text-gray-500 dark:text-gray-400 mt-1">
-                      ~${(parseFloat(amount1) * token1.price).toFixed(2)}
+                      ~${(parseFloat(amount1) * token1Price).toFixed(2)}
                     </div>
                   )}
                 </div>
               </div>
 
+              {/* Zap Breakdown */}
+              {isZapMode && token0 && token1 && zapQuote && liquidityState.step === 'input' && (
+                <div className="mb-4 bg-orange-50 dark:bg-orange-900/20 rounded-xl p-4 space-y-2">
+                  <h4 className="text-sm font-medium text-gray-900 dark:text-white flex items-center space-x-1">
+                    <Zap className="w-4 h-4 text-orange-500" />
+                    <span>Zap with {token0.symbol} only</span>
+                  </h4>
+                  <div className="space-y-1.5 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">Swap</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {parseFloat(zapQuote.swapAmount).toFixed(6)} {token0.symbol} → ~{parseFloat(zapQuote.swapOutput).toFixed(6)} {token1.symbol}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">Deposit</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {parseFloat(zapQuote.depositAmount).toFixed(6)} {token0.symbol} + swap output
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">Swap Price Impact</span>
+                      <span className={`font-medium ${zapQuote.priceImpact > 3 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                        {zapQuote.priceImpact.toFixed(2)}%
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">Estimated LP Tokens</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {parseFloat(zapQuote.expectedLpTokens).toFixed(6)}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Two transactions: a swap, then the deposit. Any amount the router does not use stays in your wallet.
+                  </p>
+                </div>
+              )}
+
               {/* Enhanced Pool Information */}
               {token0 && token1 && amount0 && amount1 && liquidityState.step === 'input' && (
                 <div className="mb-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 space-y-3">
@@ -1344,7 +1659,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                     <div className="flex justify-between">
                       <span className="text-gray-600 dark:text-gray-400">Total Value</span>
                       <span className="font-medium text-gray-900 dark:text-white">
-                        ${((parseFloat(amount0) * (token0.price || 0)) + (parseFloat(amount1) * (token1.price || 0))).toFixed(2)}
+                        ${((parseFloat(amount0) * (token0Price || 0)) + (parseFloat(amount1) * (token1Price || 0))).toFixed(2)}
                       </span>
                     </div>
                     
@@ -1374,7 +1689,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
                 <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                   <div className="flex items-center space-x-2">
                     <AlertCircle className="w-4 h-4 text-red-500" />
-                    <span className="text-sm text-red-700 dark:text-red-400">{liquidityError}</span>
+                    <span className="text-sm text-red-700 dark:text-red-400">{formatTxError(liquidityError)}</span>
                   </div>
                 </div>
               )}
@@ -1502,8 +1817,10 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
         amount1={amount1}
         poolShare={poolShare}
         estimatedAPR={estimatedAPR}
-        gasPrice={gasPrice}
+        networkFee={getNetworkFee(liquiditySimulation?.gasEstimate)}
         isLoading={showProgress}
+        simulation={liquiditySimulation}
+        isSimulating={isSimulatingLiquidity}
       />
 
       <RemoveLiquidityModal
@@ -1511,6 +1828,7 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
         onClose={() => setShowRemoveModal(false)}
         onConfirm={handleRemoveLiquidity}
         position={selectedLiquidityPosition}
+        slippage={parseFloat(slippage)}
         isLoading={false} // RemoveLiquidityModal handles its own loading state
       />
 
@@ -1519,8 +1837,9 @@ const LiquidityInterface: React.FC<LiquidityInterfaceProps> = ({
         onClose={() => setShowSettingsModal(false)}
         slippage={slippage}
         onSlippageChange={setSlippage}
-        gasPrice={gasPrice}
-        onGasPriceChange={setGasPrice}
+        gasSpeed={gasSpeed}
+        onGasSpeedChange={setGasSpeed}
+        feeData={feeData}
         expertMode={false}
         onExpertModeChange={() => {}}
       />
@@ -0,0 +1,24 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useLoopUsdPrice } from '../hooks/useLoopUsdPrice';
+
+interface LoopPriceNoticeProps {
+  className?: string;
+}
+
+// Shown wherever USD values are listed while LOOP/USD comes from the fallback price, not a stable pair
+const LoopPriceNotice: React.FC<LoopPriceNoticeProps> = ({ className = '' }) => {
+  const { loopPrice, isFallback } = useLoopUsdPrice();
+  if (!isFallback) return null;
+
+  return (
+    <div className={`flex items-center space-x-2 p-3 rounded-xl border bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 ${className}`}>
+      <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+      <p className="text-xs text-yellow-700 dark:text-yellow-400">
+        USD values are estimates: no wLOOP/stablecoin pair was found among the built-in tokens and enabled token lists, so LOOP is valued at ${loopPrice.toFixed(2)}
+      </p>
+    </div>
+  );
+};
+
+export default LoopPriceNotice;
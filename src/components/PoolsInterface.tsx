@@ -0,0 +1,393 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { RefreshCw, Search, Plus, Minus, ArrowUpDown, Droplets, AlertCircle } from 'lucide-react';
+import { ExplorerPool, PoolDex, Token } from '../types';
+import { TOKENS } from '../constants/tokens';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { usePoolExplorer } from '../hooks/usePoolExplorer';
+import { LiquidityPosition } from '../hooks/usePortfolioData';
+import { getReadProvider } from '../utils/rpcProvider';
+import { formatTxError } from '../utils/txErrors';
+import { formatLpAmount } from '../utils/tokenUtils';
+import RemoveLiquidityModal from './RemoveLiquidityModal';
+import LoopPriceNotice from './LoopPriceNotice';
+
+interface PoolsInterfaceProps {
+  isWalletConnected: boolean;
+  onConnectWallet: () => void;
+  onAddLiquidity: (token0: Token, token1: Token) => void;
+}
+
+type SortKey = 'tvl' | 'volume' | 'apr';
+type DexFilter = 'all' | PoolDex;
+
+const DEX_LABELS: Record<PoolDex, string> = {
+  reachswap: 'ReachSwap',
+  sphynx: 'Sphynx'
+};
+
+// Null is a value that could not be priced
+const formatUsd = (value: number | null): string => {
+  if (value === null) return '--';
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(2)}K`;
+  return `$${value.toFixed(2)}`;
+};
+
+const formatAmount = (value: number): string => {
+  if (value === 0) return '0';
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  if (value < 0.0001) return '<0.0001';
+  return value.toFixed(4).replace(/\.?0+$/, '');
+};
+
+// Add/remove goes through the native-LOOP router paths, so wLOOP is offered as LOOP
+const toLiquidityToken = (token: Token): Token =>
+  token.address.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase() ? TOKENS.LOOP : token;
+
+const TokenLogo: React.FC<{ token: Token }> = ({ token }) => (
+  <div className="w-7 h-7 rounded-full overflow-hidden bg-gray-100 dark:bg-gray-600 flex items-center justify-center border-2 border-white dark:border-gray-800">
+    {token.logoUrl ? (
+      <img src={token.logoUrl} alt={token.symbol} className="w-6 h-6 object-contain" />
+    ) : (
+      <div className="w-full h-full bg-gradient-to-br from-orange-400 to-blue-500 flex items-center justify-center">
+        <span className="text-white font-bold text-xs">{token.symbol.charAt(0)}</span>
+      </div>
+    )}
+  </div>
+);
+
+const PoolsInterface: React.FC<PoolsInterfaceProps> = ({
+  isWalletConnected,
+  onConnectWallet,
+  onAddLiquidity
+}) => {
+  const { pools, isLoading, error, lastUpdated, totalPairs, hasMorePairs, refreshPools, loadMorePools } = usePoolExplorer();
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dexFilter, setDexFilter] = useState<DexFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('tvl');
+  const [sortDescending, setSortDescending] = useState(true);
+
+  const [removePosition, setRemovePosition] = useState<LiquidityPosition | null>(null);
+  const [checkingPool, setCheckingPool] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const visiblePools = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const sortValue = (pool: ExplorerPool) =>
+      sortKey === 'tvl' ? pool.tvlUsd ?? 0 : sortKey === 'volume' ? pool.volume24hUsd : pool.feeApr;
+
+    return pools
+      .filter(pool => dexFilter === 'all' || pool.dex === dexFilter)
+      .filter(pool => !query || [pool.token0, pool.token1].some(token =>
+        token.symbol.toLowerCase().includes(query) ||
+        token.name.toLowerCase().includes(query) ||
+        token.address.toLowerCase() === query
+      ) || pool.address.toLowerCase() === query)
+      .sort((a, b) => sortDescending ? sortValue(b) - sortValue(a) : sortValue(a) - sortValue(b));
+  }, [pools, searchQuery, dexFilter, sortKey, sortDescending]);
+
+  const totals = useMemo(() => ({
+    tvl: pools.reduce((sum, pool) => sum + (pool.tvlUsd ?? 0), 0),
+    volume: pools.reduce((sum, pool) => sum + pool.volume24hUsd, 0)
+  }), [pools]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(true);
+    }
+  };
+
+  const handleAdd = (pool: ExplorerPool) => {
+    onAddLiquidity(toLiquidityToken(pool.token0), toLiquidityToken(pool.token1));
+  };
+
+  // Remove needs the user's LP balance, read when the row is clicked
+  const handleRemove = useCallback(async (pool: ExplorerPool) => {
+    if (!isWalletConnected) {
+      onConnectWallet();
+      return;
+    }
+
+    const walletAddress = localStorage.getItem('reachswap_wallet_address');
+    if (!walletAddress) return;
+
+    setCheckingPool(pool.address);
+    setNotice(null);
+
+    try {
+      const result = await getReadProvider().request({
+        method: 'eth_call',
+        params: [{
+          to: pool.address,
+          data: '0x70a08231' + walletAddress.slice(2).toLowerCase().padStart(64, '0') // balanceOf(address)
+        }, 'latest']
+      });
+
+      const lpBalance = BigInt(result || '0x0');
+      if (lpBalance === BigInt(0)) {
+        setNotice(`You have no ${pool.token0.symbol}/${pool.token1.symbol} liquidity to remove.`);
+        return;
+      }
+
+      const totalSupply = BigInt(pool.totalSupply);
+      const poolShare = totalSupply > BigInt(0) ? Number(lpBalance * BigInt(1000000) / totalSupply) / 10000 : 0;
+      const token0 = toLiquidityToken(pool.token0);
+      const token1 = toLiquidityToken(pool.token1);
+
+      setRemovePosition({
+        pair: `${token0.symbol}/${token1.symbol}`,
+        token0,
+        token1,
+        lpTokenBalance: formatLpAmount(lpBalance),
+        poolShare,
+        value: pool.tvlUsd === null ? null : pool.tvlUsd * poolShare / 100,
+        rewards: 0,
+        apr: `${pool.feeApr.toFixed(2)}%`,
+        pairAddress: pool.address
+      });
+    } catch (balanceError) {
+      console.error('Error reading LP balance:', balanceError);
+      setNotice('Could not read your LP balance. Please try again.');
+    } finally {
+      setCheckingPool(null);
+    }
+  }, [isWalletConnected, onConnectWallet]);
+
+  const renderSortHeader = (label: string, column: SortKey) => (
+    <button
+      onClick={() => handleSort(column)}
+      className={`flex items-center justify-end space-x-1 w-full font-medium transition-colors ${
+        sortKey === column ? 'text-orange-600 dark:text-orange-400' : 'hover:text-gray-700 dark:hover:text-gray-200'
+      }`}
+    >
+      <span>{label}</span>
+      <ArrowUpDown className="w-3 h-3" />
+    </button>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Pools</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {hasMorePairs ? `${pools.length} of ${totalPairs}` : pools.length} pairs on ReachSwap and Sphynx · TVL {formatUsd(totals.tvl)} · 24h volume {formatUsd(totals.volume)}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              {lastUpdated && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  Updated {new Date(lastUpdated).toLocaleTimeString()}
+                </span>
+              )}
+              <button
+                onClick={() => refreshPools(true)}
+                disabled={isLoading}
+                className="flex items-center space-x-2 px-3 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                <span>Refresh</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Search and DEX filter */}
+          <div className="mt-4 flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by token symbol, name or address"
+                className="w-full pl-10 pr-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <div className="flex space-x-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+              {(['all', 'reachswap', 'sphynx'] as DexFilter[]).map(filter => (
+                <button
+                  key={filter}
+                  onClick={() => setDexFilter(filter)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    dexFilter === filter
+                      ? 'bg-white dark:bg-gray-800 text-orange-600 dark:text-orange-400 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  {filter === 'all' ? 'All' : DEX_LABELS[filter]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <LoopPriceNotice className="mt-4" />
+
+          {notice && (
+            <div className="mt-4 flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-sm text-blue-700 dark:text-blue-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Pool list */}
+        {error && pools.length === 0 ? (
+          <div className="p-12 text-center">
+            <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{formatTxError(error)}</p>
+            <button
+              onClick={() => refreshPools(true)}
+              className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-lg font-medium transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : isLoading && pools.length === 0 ? (
+          <div className="p-6 space-y-3">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="h-14 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : visiblePools.length === 0 ? (
+          <div className="p-12 text-center">
+            <Droplets className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-sm text-gray-500 dark:text-gray-400">No pools match your search.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left font-medium px-6 py-3">Pool</th>
+                  <th className="text-right font-medium px-4 py-3">Reserves</th>
+                  <th className="text-right font-medium px-4 py-3">Price</th>
+                  <th className="text-right px-4 py-3">{renderSortHeader('TVL', 'tvl')}</th>
+                  <th className="text-right px-4 py-3">{renderSortHeader('Volume 24h', 'volume')}</th>
+                  <th className="text-right px-4 py-3">{renderSortHeader('Fee APR', 'apr')}</th>
+                  <th className="text-right font-medium px-6 py-3">Liquidity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visiblePools.map(pool => {
+                  const reserve0 = Number(pool.reserve0) / Math.pow(10, pool.token0.decimals);
+                  const reserve1 = Number(pool.reserve1) / Math.pow(10, pool.token1.decimals);
+                  const isReachSwap = pool.dex === 'reachswap';
+
+                  return (
+                    <tr
+                      key={pool.address}
+                      className="border-b border-gray-100 dark:border-gray-700/50 hover:bg-gray-50 dark:hover:bg-gray-700/30 transition-colors"
+                    >
+                      <td className="px-6 py-3">
+                        <div className="flex items-center space-x-3">
+                          <div className="flex items-center -space-x-2">
+                            <TokenLogo token={pool.token0} />
+                            <TokenLogo token={pool.token1} />
+                          </div>
+                          <div>
+                            <div className="font-semibold text-gray-900 dark:text-white">
+                              {pool.token0.symbol}/{pool.token1.symbol}
+                            </div>
+                            <span className={`text-xs px-1.5 py-0.5 rounded ${
+                              isReachSwap
+                                ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400'
+                                : 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
+                            }`}>
+                              {DEX_LABELS[pool.dex]}
+                            </span>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                        <div>{formatAmount(reserve0)} {pool.token0.symbol}</div>
+                        <div>{formatAmount(reserve1)} {pool.token1.symbol}</div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                        <div>1 {pool.token0.symbol} = {formatAmount(pool.price0)} {pool.token1.symbol}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          1 {pool.token1.symbol} = {formatAmount(pool.price1)} {pool.token0.symbol}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-white">
+                        {formatUsd(pool.tvlUsd)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                        <div>{formatUsd(pool.volume24hUsd)}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{pool.swapCount24h} swaps</div>
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium text-green-600 dark:text-green-400">
+                        {pool.feeApr.toFixed(2)}%
+                      </td>
+                      <td className="px-6 py-3">
+                        {isReachSwap ? (
+                          <div className="flex items-center justify-end space-x-1">
+                            <button
+                              onClick={() => handleAdd(pool)}
+                              title="Add liquidity"
+                              className="p-1.5 text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30 rounded transition-colors"
+                            >
+                              <Plus className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRemove(pool)}
+                              disabled={checkingPool === pool.address}
+                              title="Remove liquidity"
+                              className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-colors disabled:opacity-50"
+                            >
+                              {checkingPool === pool.address
+                                ? <RefreshCw className="w-4 h-4 animate-spin" />
+                                : <Minus className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="text-right text-xs text-gray-400 dark:text-gray-500">Managed on Sphynx</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Older pairs are listed a page at a time */}
+        {hasMorePairs && pools.length > 0 && (
+          <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Showing {pools.length} of {totalPairs} pairs, newest first
+            </span>
+            <button
+              onClick={loadMorePools}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <RemoveLiquidityModal
+        isOpen={removePosition !== null}
+        onClose={() => setRemovePosition(null)}
+        onConfirm={() => {
+          setRemovePosition(null);
+          setTimeout(() => refreshPools(true), 3000);
+        }}
+        position={removePosition}
+        isLoading={false}
+      />
+    </div>
+  );
+};
+
+export default PoolsInterface;
@@ -7,6 +7,9 @@ import LiquidityPositions from './portfolio/LiquidityPositions';
 import RecentTransactions from './portfolio/RecentTransactions';
 import TotalRewards from './portfolio/TotalRewards';
 import ActivePools from './portfolio/ActivePools';
+import DcaSummary from './portfolio/DcaSummary';
+import LoopPriceNotice from './LoopPriceNotice';
+import { formatTxError } from '../utils/txErrors';
 
 interface PortfolioInterfaceProps {
   isWalletConnected: boolean;
@@ -88,6 +91,8 @@ const PortfolioInterface: React.FC<PortfolioInterfaceProps> = ({
         </button>
       </div>
 
+      <LoopPriceNotice />
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4">
@@ -97,7 +102,7 @@ const PortfolioInterface: React.FC<PortfolioInterfaceProps> = ({
             </div>
             <div>
               <p className="text-red-700 dark:text-red-400 font-medium">Error loading portfolio data</p>
-              <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+              <p className="text-red-600 dark:text-red-400 text-sm">{formatTxError(error)}</p>
               <button
                 onClick={refreshPortfolioData}
                 className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm font-medium hover:underline mt-1 transition-colors"
@@ -125,6 +130,7 @@ const PortfolioInterface: React.FC<PortfolioInterfaceProps> = ({
         <TotalRewards
           totalRewards={portfolioData.totalRewards}
           rewardsToday={portfolioData.rewardsToday}
+          positions={portfolioData.liquidityPositions}
           isLoading={isLoading}
         />
 
@@ -150,6 +156,12 @@ const PortfolioInterface: React.FC<PortfolioInterfaceProps> = ({
         />
       </div>
 
+      {/* Recurring Buys - Full Width */}
+      <DcaSummary
+        walletAddress={walletAddress}
+        isLoading={isLoading}
+      />
+
       {/* Recent Transactions - Full Width */}
       <RecentTransactions
         transactions={portfolioData.recentTransactions}
@@ -182,7 +194,7 @@ const PortfolioInterface: React.FC<PortfolioInterfaceProps> = ({
               <div className="font-semibold text-green-600 dark:text-green-400">
                 ${portfolioData.totalRewards.toFixed(2)}
               </div>
-              <div className="text-gray-600 dark:text-gray-400">Total Rewards</div>
+              <div className="text-gray-600 dark:text-gray-400">Fees Earned</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,224 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart3, RefreshCw, AlertCircle } from 'lucide-react';
+import { CandleInterval, Token } from '../types';
+import { usePriceChart } from '../hooks/usePriceChart';
+import { formatTxError } from '../utils/txErrors';
+
+interface PriceChartProps {
+  tokenIn: Token;
+  tokenOut: Token;
+}
+
+const INTERVALS: CandleInterval[] = ['1h', '4h', '1d'];
+
+// SVG layout in viewBox units
+const WIDTH = 600;
+const PRICE_HEIGHT = 220;
+const VOLUME_HEIGHT = 60;
+const GAP = 10;
+const HEIGHT = PRICE_HEIGHT + GAP + VOLUME_HEIGHT;
+
+const formatPrice = (value: number): string => {
+  if (value === 0 || !isFinite(value)) return '0';
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  if (value >= 1) return value.toFixed(4);
+  return value.toPrecision(4);
+};
+
+const formatVolume = (value: number): string => {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}K`;
+  return value.toFixed(2);
+};
+
+const formatTime = (time: number, interval: CandleInterval): string => {
+  const date = new Date(time * 1000);
+  return interval === '1d'
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({ tokenIn, tokenOut }) => {
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1h');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const { candles, route, routeTokens, isLoading, error, refreshChart } = usePriceChart(tokenIn, tokenOut, candleInterval);
+
+  const scale = useMemo(() => {
+    if (candles.length === 0) return null;
+
+    const low = Math.min(...candles.map(candle => candle.low));
+    const high = Math.max(...candles.map(candle => candle.high));
+    const padding = (high - low) * 0.05 || high * 0.01 || 1;
+    const min = low - padding;
+    const max = high + padding;
+    const maxVolume = Math.max(...candles.map(candle => candle.volume));
+
+    return {
+      slot: WIDTH / candles.length,
+      priceY: (price: number) => (max - price) / (max - min) * PRICE_HEIGHT,
+      volumeHeight: (volume: number) => maxVolume > 0 ? volume / maxVolume * VOLUME_HEIGHT : 0
+    };
+  }, [candles]);
+
+  const selected = hoverIndex !== null ? candles[hoverIndex] : candles[candles.length - 1];
+  const change = candles.length > 0 && candles[0].open > 0
+    ? (candles[candles.length - 1].close - candles[0].open) / candles[0].open * 100
+    : 0;
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (candles.length === 0) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor((event.clientX - bounds.left) / bounds.width * candles.length);
+    setHoverIndex(Math.min(candles.length - 1, Math.max(0, index)));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5 text-orange-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {tokenIn.symbol}/{tokenOut.symbol}
+            </h3>
+            {route && (
+              <span className="text-xs bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 px-1.5 py-0.5 rounded-full font-medium">
+                {route.router === 'sphynx' ? 'Sphynx' : 'ReachSwap'}{route.isMultiHop ? ` · via ${routeTokens.slice(1, -1).map(token => token.symbol).join(', ')}` : ''}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-1">
+            {INTERVALS.map(option => (
+              <button
+                key={option}
+                onClick={() => setCandleInterval(option)}
+                className={`px-2 py-1 text-xs rounded-lg font-medium transition-colors ${
+                  candleInterval === option
+                    ? 'bg-orange-500 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+            <button
+              onClick={refreshChart}
+              disabled={isLoading}
+              className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+              title="Refresh chart"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {selected && (
+          <div className="mt-2">
+            <div className="flex items-baseline space-x-2">
+              <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                {formatPrice(selected.close)}
+              </span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{tokenOut.symbol} per {tokenIn.symbol}</span>
+              {hoverIndex === null && (
+                <span className={`text-sm font-medium ${change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>{formatTime(selected.time, candleInterval)}</span>
+              <span>O {formatPrice(selected.open)}</span>
+              <span>H {formatPrice(selected.high)}</span>
+              <span>L {formatPrice(selected.low)}</span>
+              <span>C {formatPrice(selected.close)}</span>
+              <span>Vol {formatVolume(selected.volume)} {tokenIn.symbol}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Chart */}
+      <div className="p-4">
+        {error ? (
+          <div className="h-64 flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400">
+            <AlertCircle className="w-8 h-8 mb-2 text-gray-400" />
+            <p className="text-sm">{formatTxError(error)}</p>
+          </div>
+        ) : candles.length === 0 || !scale ? (
+          <div className="h-64 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            {isLoading ? (
+              <div className="w-full h-full bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+            ) : (
+              `${tokenIn.symbol} and ${tokenOut.symbol} convert 1:1 by wrapping`
+            )}
+          </div>
+        ) : (
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-64 cursor-crosshair"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            {candles.map((candle, i) => {
+              const x = i * scale.slot;
+              const center = x + scale.slot / 2;
+              const bodyWidth = Math.max(1, scale.slot * 0.6);
+              const isUp = candle.close >= candle.open;
+              const color = isUp ? '#16a34a' : '#dc2626';
+              const bodyTop = scale.priceY(Math.max(candle.open, candle.close));
+              const bodyBottom = scale.priceY(Math.min(candle.open, candle.close));
+              const volumeHeight = scale.volumeHeight(candle.volume);
+
+              return (
+                <g key={candle.time} opacity={hoverIndex === null || hoverIndex === i ? 1 : 0.6}>
+                  <line
+                    x1={center}
+                    x2={center}
+                    y1={scale.priceY(candle.high)}
+                    y2={scale.priceY(candle.low)}
+                    stroke={color}
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <rect
+                    x={center - bodyWidth / 2}
+                    y={bodyTop}
+                    width={bodyWidth}
+                    height={Math.max(1, bodyBottom - bodyTop)}
+                    fill={color}
+                  />
+                  <rect
+                    x={center - bodyWidth / 2}
+                    y={HEIGHT - volumeHeight}
+                    width={bodyWidth}
+                    height={volumeHeight}
+                    fill={color}
+                    opacity={0.35}
+                  />
+                </g>
+              );
+            })}
+
+            {hoverIndex !== null && (
+              <line
+                x1={hoverIndex * scale.slot + scale.slot / 2}
+                x2={hoverIndex * scale.slot + scale.slot / 2}
+                y1={0}
+                y2={HEIGHT}
+                stroke="#9ca3af"
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
 import { X, Minus, AlertTriangle, Info, Zap, RefreshCcw } from 'lucide-react';
 import { LiquidityPosition } from '../hooks/usePortfolioData';
 import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
 import { useLiquidityManagement } from '../hooks/useLiquidityManagement';
+import { useTokenFeeDetection } from '../hooks/useTokenFeeDetection';
+import { useZap } from '../hooks/useZap';
+import { ZapOutResult } from '../types';
+import { getAmountOut } from '../utils/zap';
 import { 
   waitForTransaction, 
   checkAllowance, 
@@ -10,6 +15,11 @@ import {
   formatUserError,
   retryTransaction
 } from '../utils/web3Utils';
+import { getReadProvider, getSignerProvider } from '../utils/rpcProvider';
+import { recordTransaction } from '../utils/activityStore';
+import { withGasFees } from '../utils/gasEngine';
+import { supportsLpPermit, signLpPermit, LpPermitSignature } from '../utils/lpPermit';
+import { formatLpAmount } from '../utils/tokenUtils';
 
 interface RemoveLiquidityModalProps {
   isOpen: boolean;
@@ -17,51 +27,164 @@ interface RemoveLiquidityModalProps {
   onConfirm: (position: LiquidityPosition, percentage: number) => void;
   position: LiquidityPosition | null;
   isLoading?: boolean;
+  slippage?: number; // Percent, applied to the removal minimums and the zap-out swap
 }
 
 interface RemovalState {
-  step: 'input' | 'approving' | 'approved' | 'removing' | 'success' | 'error';
+  step: 'input' | 'approving' | 'approved' | 'signing' | 'removing' | 'swapping' | 'success' | 'error';
   approvalTxHash?: string;
+  usedPermit?: boolean; // Approval was replaced by a signed permit
   removalTxHash?: string;
+  zapOut?: ZapOutResult;
   error?: string;
 }
 
+// Pair state oriented to position.token0 / position.token1
+interface RemovalQuote {
+  reserve0: bigint;
+  reserve1: bigint;
+  totalSupply: bigint;
+}
+
+const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+
 const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
   isOpen,
   onClose,
   onConfirm,
   position,
+  slippage = 1,
 }) => {
   // ALL STATE HOOKS FIRST
   const [removePercentage, setRemovePercentage] = useState('0');
   const [customPercentage, setCustomPercentage] = useState('');
   const [removalState, setRemovalState] = useState<RemovalState>({ step: 'input' });
   const [currentAllowance, setCurrentAllowance] = useState<string>('0');
+  const [permitSupported, setPermitSupported] = useState(false);
+  const [removalQuote, setRemovalQuote] = useState<RemovalQuote | null>(null);
+  const [tokenFees, setTokenFees] = useState({ token0: 0, token1: 0 }); // Transfer tax fractions
+  const [zapOutTarget, setZapOutTarget] = useState<'token0' | 'token1' | null>(null); // Receive a single token
 
   const {
     executeRemoveLiquidityETH,
     executeRemoveLiquidity,
+    executeRemoveLiquidityETHWithPermit,
+    executeRemoveLiquidityWithPermit,
   } = useLiquidityManagement();
+  const { detectTokenFees } = useTokenFeeDetection();
+  const { executeZapOutSwap, getBalanceWei, measureReceived } = useZap();
 
   // CALCULATE DERIVED VALUES SAFELY
   const percentage = parseFloat(removePercentage);
   const lpTokensToRemove = position ? (parseFloat(position.lpTokenBalance) * percentage / 100) : 0;
-  const lpTokensToRemoveWei = (lpTokensToRemove * Math.pow(10, 18)).toString();
-  const valueToRemove = position ? (position.value * percentage / 100) : 0;
+  // Exact amount sent to the router (and signed in a permit), truncated so it never exceeds the balance
+  const lpTokensToRemoveAmount = formatLpAmount(position && percentage > 0
+    ? ethers.parseUnits(position.lpTokenBalance, 18) * BigInt(Math.round(Math.min(percentage, 100) * 100)) / BigInt(10000)
+    : BigInt(0));
+  const lpTokensToRemoveWei = ethers.parseUnits(lpTokensToRemoveAmount, 18).toString();
+  const valueToRemove = position && position.value !== null ? position.value * percentage / 100 : null;
   
-  // Calculate estimated token outputs (simplified calculation)
-  const estimatedToken0 = lpTokensToRemove * 0.5;
-  const estimatedToken1 = lpTokensToRemove * 0.5;
+  // Calculate estimated token outputs from the pair's reserves (simplified until they load)
+  const totalLpSupply = removalQuote ? Number(removalQuote.totalSupply) / 1e18 : 0;
+  const shareToRemove = totalLpSupply > 0 ? lpTokensToRemove / totalLpSupply : null;
+  const estimatedToken0 = removalQuote && shareToRemove !== null
+    ? shareToRemove * Number(removalQuote.reserve0) / Math.pow(10, position?.token0.decimals ?? 18)
+    : lpTokensToRemove * 0.5;
+  const estimatedToken1 = removalQuote && shareToRemove !== null
+    ? shareToRemove * Number(removalQuote.reserve1) / Math.pow(10, position?.token1.decimals ?? 18)
+    : lpTokensToRemove * 0.5;
+
+  // Fee-on-transfer tokens are taxed on every transfer: once from the pair to the wallet on token
+  // pairs, twice on LOOP pairs, where the router takes the token from the pair and forwards it
+  const isNativePosition = position?.token0.address === NATIVE_LOOP || position?.token1.address === NATIVE_LOOP;
+  const transferHops = isNativePosition ? 2 : 1;
+  const netToken0 = estimatedToken0 * Math.pow(1 - tokenFees.token0, transferHops);
+  const netToken1 = estimatedToken1 * Math.pow(1 - tokenFees.token1, transferHops);
+  const hasFeeToken = tokenFees.token0 > 0 || tokenFees.token1 > 0;
+  const slippageFactor = 1 - slippage / 100;
+
+  // Zap out: the other token is swapped into the target in the pool left after the removal
+  const zapOutEstimate = (() => {
+    if (!zapOutTarget || !removalQuote || !position || shareToRemove === null) return null;
+
+    const targetIs0 = zapOutTarget === 'token0';
+    const fromToken = targetIs0 ? position.token1 : position.token0;
+    const toToken = targetIs0 ? position.token0 : position.token1;
+    const toWei = (amount: number, decimals: number) => ethers.parseUnits(amount.toFixed(Math.min(decimals, 6)), decimals);
+
+    const reserveFrom = (targetIs0 ? removalQuote.reserve1 : removalQuote.reserve0) - toWei(targetIs0 ? estimatedToken1 : estimatedToken0, fromToken.decimals);
+    const reserveTo = (targetIs0 ? removalQuote.reserve0 : removalQuote.reserve1) - toWei(targetIs0 ? estimatedToken0 : estimatedToken1, toToken.decimals);
+    if (reserveFrom <= BigInt(0) || reserveTo <= BigInt(0)) return null;
+
+    const swapOut = getAmountOut(toWei(targetIs0 ? netToken1 : netToken0, fromToken.decimals), reserveFrom, reserveTo);
+    return (targetIs0 ? netToken0 : netToken1) + Number(ethers.formatUnits(swapOut, toToken.decimals));
+  })();
   
   const estimatedGasFee = '0.05'; // Mock gas fee
   const priceImpact = percentage > 50 ? '0.5' : '0.1'; // Mock price impact
 
-  // Check if approval is needed
-  const needsApproval = lpTokensToRemoveWei ? 
+  // Check if approval is needed - pairs with permit are approved by signature during removal
+  const needsApproval = permitSupported ? false : lpTokensToRemoveWei ? 
   BigInt(currentAllowance) < BigInt(lpTokensToRemoveWei) : 
   true;
 
   // ALL CALLBACK HOOKS NEXT
+  const loadRemovalQuote = useCallback(async () => {
+    if (!position) return;
+
+    try {
+      const provider = getReadProvider();
+      const callPair = (data: string) => provider.request({
+        method: 'eth_call',
+        params: [{ to: position.pairAddress, data }, 'latest']
+      });
+
+      const [token0Result, reservesResult, supplyResult] = await Promise.all([
+        callPair('0x0dfe1681'), // token0()
+        callPair('0x0902f1ac'), // getReserves()
+        callPair('0x18160ddd')  // totalSupply()
+      ]);
+
+      const pairToken0 = '0x' + token0Result.slice(-40).toLowerCase();
+      const reserveA = BigInt('0x' + reservesResult.slice(2, 66));
+      const reserveB = BigInt('0x' + reservesResult.slice(66, 130));
+      const positionToken0 = position.token0.address === NATIVE_LOOP
+        ? REACHSWAP_CONTRACTS.WLOOP
+        : position.token0.address;
+      const isSorted = pairToken0 === positionToken0.toLowerCase();
+
+      setRemovalQuote({
+        reserve0: isSorted ? reserveA : reserveB,
+        reserve1: isSorted ? reserveB : reserveA,
+        totalSupply: BigInt(supplyResult)
+      });
+    } catch (error) {
+      console.warn('Failed to load pair reserves:', error);
+      setRemovalQuote(null);
+    }
+  }, [position]);
+
+  const loadTokenFees = useCallback(async () => {
+    if (!position) return;
+
+    // Tokens leaving the pair pay the token's buy-side tax
+    const feeFor = async (address: string) => {
+      if (address === NATIVE_LOOP) return 0;
+      const feeInfo = await detectTokenFees(address);
+      return feeInfo.hasTransferFee ? feeInfo.buyFee ?? 0 : 0;
+    };
+
+    const [token0, token1] = await Promise.all([
+      feeFor(position.token0.address),
+      feeFor(position.token1.address)
+    ]);
+    setTokenFees({ token0, token1 });
+
+    if (token0 > 0 || token1 > 0) {
+      console.log(`💸 Fee-on-transfer removal: ${position.token0.symbol} ${(token0 * 100).toFixed(2)}% / ${position.token1.symbol} ${(token1 * 100).toFixed(2)}%`);
+    }
+  }, [position, detectTokenFees]);
+
   const checkCurrentAllowance = useCallback(async () => {
     if (!position) return;
 
@@ -117,11 +240,7 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
 
       // Wait for approval transaction to be mined
       console.log('⏳ Waiting for approval transaction to be mined...');
-      const approvalSuccess = await waitForTransaction(approvalTxHash);
-
-      if (!approvalSuccess) {
-        throw new Error('Approval transaction failed');
-      }
+      await waitForTransaction(approvalTxHash);
 
       // Update current allowance
       await checkCurrentAllowance();
@@ -155,17 +274,7 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       console.log('🔥 Starting liquidity removal process...');
 
       // 🔥 CRITICAL FIX 1: Check LP balance BEFORE transfer
-      // Get provider using the same pattern as your existing code
-      const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-      let provider;
-      
-      if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-        provider = (window as any).ethereum;
-      } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-        provider = (window as any).okxwallet;
-      }
-      
-      if (!provider) throw new Error('No provider available');
+      const provider = getSignerProvider();
 
       // Check user's LP balance
       const balanceOfSignature = '0x70a08231';
@@ -209,7 +318,38 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       const currentAllowance = BigInt(allowanceResult);
       console.log(`🔐 Current allowance: ${currentAllowance.toString()}`);
 
-      if (currentAllowance < requiredLP) {
+      // Pairs with EIP-2612 permit: sign instead of sending an approval transaction
+      const deadline = Math.floor(Date.now() / 1000) + (20 * 60);
+      let permit: LpPermitSignature | null = null;
+
+      if (currentAllowance < requiredLP && permitSupported) {
+        setRemovalState(prev => ({ ...prev, step: 'signing', usedPermit: true }));
+
+        try {
+          permit = await signLpPermit(
+            position.pairAddress,
+            walletAddr,
+            REACHSWAP_CONTRACTS.ROUTER,
+            BigInt(lpTokensToRemoveWei),
+            deadline
+          );
+          console.log('🔏 LP permit signed');
+        } catch (permitError) {
+          const { code, message } = permitError as { code?: number; message?: string };
+          if (code === 4001 || /user denied|user rejected/i.test(message || '')) {
+            throw permitError;
+          }
+          // Wallets without eth_signTypedData_v4 fall back to a regular approval
+          console.warn('⚠️ Permit signing failed, falling back to approval:', permitError);
+          setRemovalState(prev => ({ ...prev, step: 'removing', usedPermit: false }));
+        }
+
+        if (permit) {
+          setRemovalState(prev => ({ ...prev, step: 'removing' }));
+        }
+      }
+
+      if (!permit && currentAllowance < requiredLP) {
         console.log('🔐 Approving LP tokens for router...');
         
         // Approve LP tokens for router
@@ -221,23 +361,35 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
 
         const approveTx = await provider.request({
           method: 'eth_sendTransaction',
-          params: [{
+          params: [await withGasFees({
             from: walletAddr,
             to: position.pairAddress,
             data: approveData,
             gas: '0x15F90' // 90,000 gas for approval
-          }]
+          })]
         });
 
         console.log(`🔐 Approval transaction: ${approveTx}`);
+        recordTransaction({
+          hash: approveTx,
+          type: 'approve',
+          summary: `Approve ${position.token0.symbol}/${position.token1.symbol} LP tokens`,
+          tokenIn: { symbol: 'LP', address: position.pairAddress },
+          router: 'reachswap'
+        });
         
         // Wait for approval
-        const approvalSuccess = await waitForTransaction(approveTx);
-        if (!approvalSuccess) {
-          throw new Error('LP token approval failed');
-        }
+        await waitForTransaction(approveTx);
       }
 
+      // Zap out swaps whatever the removal pays out in the other token
+      const zapOutTokens = zapOutTarget
+        ? zapOutTarget === 'token0'
+          ? { from: position.token1, to: position.token0 }
+          : { from: position.token0, to: position.token1 }
+        : null;
+      const zapFromBalanceBefore = zapOutTokens ? await getBalanceWei(zapOutTokens.from, walletAddr) : BigInt(0);
+
       // Determine if this is an ETH pair
       const isNativeLoop0 = position.token0.address === '0x0000000000000000000000000000000000000000';
       const isNativeLoop1 = position.token1.address === '0x0000000000000000000000000000000000000000';
@@ -248,37 +400,63 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       if (isETHPair) {
         // 🔥 CRITICAL FIX 3: Use correct parameters for ETH pairs
         const nonNativeToken = isNativeLoop0 ? position.token1 : position.token0;
+        const supportingFeeOnTransfer = (isNativeLoop0 ? tokenFees.token1 : tokenFees.token0) > 0;
         
-        // Calculate minimums with slippage (5% slippage)
-        const tokenAmountMin = "0.001";  // Very low minimum for any token
-        const ethAmountMin = "0.001";    // Very low minimum for LOOP/ETH
+        // Minimums within the slippage tolerance of the after-tax amounts once reserves are known
+        const tokenAmountMin = removalQuote
+          ? ((isNativeLoop0 ? netToken1 : netToken0) * slippageFactor).toFixed(6)
+          : "0.001";  // Very low minimum for any token
+        const ethAmountMin = removalQuote
+          ? ((isNativeLoop0 ? estimatedToken0 : estimatedToken1) * slippageFactor).toFixed(6)
+          : "0.001";  // Very low minimum for LOOP/ETH
         
-        console.log(`🔥 Using MINIMAL slippage protection (for testing):`);
-        console.log(`   Token: ${nonNativeToken.symbol}`);
-        console.log(`   Liquidity: ${lpTokensToRemove.toFixed(6)}`);
-        console.log(`   Token Min: ${tokenAmountMin} (MINIMAL)`);
-        console.log(`   ETH Min: ${ethAmountMin} (MINIMAL)`);
-
-        removalTxHash = await executeRemoveLiquidityETH(
-          nonNativeToken,
-          lpTokensToRemove.toFixed(6),
-          tokenAmountMin,  // ← MINIMAL minimum
-          ethAmountMin,    // ← MINIMAL minimum
-          walletAddr
-        );
+        console.log(`🔥 Removal minimums${removalQuote ? '' : ' (MINIMAL - reserves unavailable)'}:`);
+        console.log(`   Token: ${nonNativeToken.symbol}${supportingFeeOnTransfer ? ' (fee-on-transfer)' : ''}`);
+        console.log(`   Liquidity: ${lpTokensToRemoveAmount}`);
+        console.log(`   Token Min: ${tokenAmountMin}`);
+        console.log(`   ETH Min: ${ethAmountMin}`);
+
+        removalTxHash = permit
+          ? await executeRemoveLiquidityETHWithPermit(
+              nonNativeToken,
+              lpTokensToRemoveAmount,
+              tokenAmountMin,
+              ethAmountMin,
+              walletAddr,
+              permit,
+              supportingFeeOnTransfer
+            )
+          : await executeRemoveLiquidityETH(
+              nonNativeToken,
+              lpTokensToRemoveAmount,
+              tokenAmountMin,
+              ethAmountMin,
+              walletAddr,
+              supportingFeeOnTransfer
+            );
       } else {
         // Use hook's executeRemoveLiquidity for token-token pairs
-        const amount0Min = (estimatedToken0 * 0.95).toFixed(6);
-        const amount1Min = (estimatedToken1 * 0.95).toFixed(6);
-
-        removalTxHash = await executeRemoveLiquidity(
-          position.token0,
-          position.token1,
-          lpTokensToRemove.toFixed(6), // 🔥 FIX: Use decimal amount, not wei
-          amount0Min,
-          amount1Min,
-          walletAddr
-        );
+        const amount0Min = (netToken0 * slippageFactor).toFixed(6);
+        const amount1Min = (netToken1 * slippageFactor).toFixed(6);
+
+        removalTxHash = permit
+          ? await executeRemoveLiquidityWithPermit(
+              position.token0,
+              position.token1,
+              lpTokensToRemoveAmount,
+              amount0Min,
+              amount1Min,
+              walletAddr,
+              permit
+            )
+          : await executeRemoveLiquidity(
+              position.token0,
+              position.token1,
+              lpTokensToRemoveAmount, // 🔥 FIX: Use decimal amount, not wei
+              amount0Min,
+              amount1Min,
+              walletAddr
+            );
       }
 
       setRemovalState(prev => ({ 
@@ -288,17 +466,35 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
 
       // Wait for removal transaction
       console.log('⏳ Waiting for removal transaction to be mined...');
-      const removalSuccess = await waitForTransaction(removalTxHash);
-
-      if (!removalSuccess) {
-        throw new Error('Liquidity removal transaction failed');
+      await waitForTransaction(removalTxHash);
+
+      let zapOut: ZapOutResult | undefined;
+      if (zapOutTokens) {
+        setRemovalState(prev => ({ ...prev, step: 'swapping' }));
+        try {
+          const received = await measureReceived(zapOutTokens.from, walletAddr, zapFromBalanceBefore, removalTxHash);
+          if (received > BigInt(0)) {
+            zapOut = await executeZapOutSwap(zapOutTokens.from, zapOutTokens.to, received, slippage);
+          }
+        } catch (zapError) {
+          // The removal itself went through - the unswapped token is already in the wallet
+          console.error('❌ Zap-out swap failed:', zapError);
+          setRemovalState(prev => ({
+            ...prev,
+            step: 'error',
+            error: `Liquidity removed, but the swap to ${zapOutTokens.to.symbol} failed: ${formatUserError(zapError)}. Your ${zapOutTokens.from.symbol} is in your wallet.`
+          }));
+          return;
+        }
       }
 
-      setRemovalState({ 
+      setRemovalState(prev => ({ 
         step: 'success', 
-        approvalTxHash: removalState.approvalTxHash,
-        removalTxHash 
-      });
+        approvalTxHash: prev.approvalTxHash,
+        usedPermit: prev.usedPermit,
+        removalTxHash,
+        zapOut
+      }));
 
       console.log('🎉 Liquidity removal completed successfully!');
 
@@ -320,13 +516,25 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
     position, 
     lpTokensToRemoveWei, 
     percentage, 
-    removalState.approvalTxHash, 
+    permitSupported,
     onConfirm, 
     executeRemoveLiquidityETH,
     executeRemoveLiquidity,
+    executeRemoveLiquidityETHWithPermit,
+    executeRemoveLiquidityWithPermit,
     estimatedToken0,
     estimatedToken1,
-    lpTokensToRemove
+    netToken0,
+    netToken1,
+    tokenFees,
+    removalQuote,
+    lpTokensToRemoveAmount,
+    zapOutTarget,
+    slippage,
+    slippageFactor,
+    getBalanceWei,
+    measureReceived,
+    executeZapOutSwap
   ]);
 
   // ALL EFFECT HOOKS NEXT
@@ -336,11 +544,26 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       setCustomPercentage('');
       setRemovalState({ step: 'input' });
       setCurrentAllowance('0');
+      setPermitSupported(false);
+      setRemovalQuote(null);
+      setTokenFees({ token0: 0, token1: 0 });
+      setZapOutTarget(null);
     } else if (isOpen && position) {
-      // Check current allowance when modal opens
+      // Check current allowance, permit support and reserves when modal opens
       checkCurrentAllowance();
+      loadRemovalQuote();
+      supportsLpPermit(position.pairAddress)
+        .then(setPermitSupported)
+        .catch(() => setPermitSupported(false));
+    }
+  }, [isOpen, position, checkCurrentAllowance, loadRemovalQuote]);
+
+  // Token taxes (detection results are cached, so re-runs are cheap)
+  useEffect(() => {
+    if (isOpen && position) {
+      loadTokenFees();
     }
-  }, [isOpen, position, checkCurrentAllowance]);
+  }, [isOpen, position, loadTokenFees]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -435,12 +658,18 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       case 'approving':
         return { text: 'Approving...', disabled: true, color: 'blue' };
       
+      case 'signing':
+        return { text: 'Sign in Wallet...', disabled: true, color: 'blue' };
+      
       case 'approved':
         return { text: 'Remove Liquidity', disabled: false, color: 'red' };
       
       case 'removing':
         return { text: 'Removing...', disabled: true, color: 'red' };
       
+      case 'swapping':
+        return { text: 'Swapping...', disabled: true, color: 'blue' };
+      
       case 'success':
         return { text: 'Success!', disabled: true, color: 'green' };
       
@@ -455,7 +684,7 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
   const buttonConfig = getButtonConfig();
   const canConfirm = percentage > 0 && percentage <= 100 && !buttonConfig.disabled;
   const isHighPercentage = percentage > 75;
-  const showProgress = ['approving', 'removing'].includes(removalState.step);
+  const showProgress = ['approving', 'signing', 'removing', 'swapping'].includes(removalState.step);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 modal-backdrop">
@@ -529,7 +758,7 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                     {position.lpTokenBalance} LP
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
-                    ${position.value.toFixed(2)}
+                    {position.value === null ? '--' : `$${position.value.toFixed(2)}`}
                   </div>
                 </div>
               </div>
@@ -543,21 +772,21 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                     Removal Progress
                   </h4>
                   
-                  {/* Step 1: Approval */}
+                  {/* Step 1: Approval (or permit signature) */}
                   <div className="flex items-center space-x-3">
                     <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                      removalState.step === 'approving' ? 'bg-blue-500 text-white' :
-                      ['approved', 'removing', 'success'].includes(removalState.step) ? 'bg-green-500 text-white' :
+                      ['approving', 'signing'].includes(removalState.step) ? 'bg-blue-500 text-white' :
+                      ['approved', 'removing', 'swapping', 'success'].includes(removalState.step) ? 'bg-green-500 text-white' :
                       removalState.step === 'error' ? 'bg-red-500 text-white' :
                       'bg-gray-300 text-gray-600'
                     }`}>
-                      {removalState.step === 'approving' ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
-                       ['approved', 'removing', 'success'].includes(removalState.step) ? '✓' :
+                      {['approving', 'signing'].includes(removalState.step) ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
+                       ['approved', 'removing', 'swapping', 'success'].includes(removalState.step) ? '✓' :
                        removalState.step === 'error' ? '✗' : '1'}
                     </div>
                     <div>
                       <div className="text-sm font-medium text-gray-900 dark:text-white">
-                        Approve LP Tokens
+                        {removalState.usedPermit ? 'Sign LP Permit' : 'Approve LP Tokens'}
                       </div>
                       {removalState.approvalTxHash && (
                         <div className="text-xs text-gray-500 dark:text-gray-400">
@@ -571,12 +800,12 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                   <div className="flex items-center space-x-3">
                     <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
                       removalState.step === 'removing' ? 'bg-blue-500 text-white' :
-                      removalState.step === 'success' ? 'bg-green-500 text-white' :
+                      ['swapping', 'success'].includes(removalState.step) ? 'bg-green-500 text-white' :
                       removalState.step === 'error' ? 'bg-red-500 text-white' :
                       'bg-gray-300 text-gray-600'
                     }`}>
                       {removalState.step === 'removing' ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
-                       removalState.step === 'success' ? '✓' :
+                       ['swapping', 'success'].includes(removalState.step) ? '✓' :
                        removalState.step === 'error' ? '✗' : '2'}
                     </div>
                     <div>
@@ -590,6 +819,32 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                       )}
                     </div>
                   </div>
+
+                  {/* Step 3: Zap-out swap */}
+                  {zapOutTarget && (
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                        removalState.step === 'swapping' ? 'bg-blue-500 text-white' :
+                        removalState.step === 'success' ? 'bg-green-500 text-white' :
+                        removalState.step === 'error' ? 'bg-red-500 text-white' :
+                        'bg-gray-300 text-gray-600'
+                      }`}>
+                        {removalState.step === 'swapping' ? <RefreshCcw className="w-3 h-3 animate-spin" /> :
+                         removalState.step === 'success' ? '✓' :
+                         removalState.step === 'error' ? '✗' : '3'}
+                      </div>
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          Swap to {position[zapOutTarget].symbol}
+                        </div>
+                        {removalState.zapOut && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {parseFloat(removalState.zapOut.amountIn).toFixed(6)} → {parseFloat(removalState.zapOut.amountOut).toFixed(6)} {position[zapOutTarget].symbol}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 
                 {/* Error Display */}
@@ -669,6 +924,28 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
               </div>
             )}
 
+            {/* Receive As (zap out) */}
+            {removalState.step === 'input' && percentage > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Receive as</span>
+                <div className="flex space-x-1">
+                  {([null, 'token0', 'token1'] as const).map(target => (
+                    <button
+                      key={target ?? 'both'}
+                      onClick={() => setZapOutTarget(target)}
+                      className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        zapOutTarget === target
+                          ? 'bg-orange-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      {target ? position[target].symbol : 'Both'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Estimated Outputs */}
             {percentage > 0 && (
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 space-y-3">
@@ -700,7 +977,7 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                       </span>
                     </div>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      {estimatedToken0.toFixed(6)}
+                      {netToken0.toFixed(6)}
                     </span>
                   </div>
                   
@@ -727,23 +1004,34 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
                       </span>
                     </div>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      {estimatedToken1.toFixed(6)}
+                      {netToken1.toFixed(6)}
                     </span>
                   </div>
                 </div>
 
+                {zapOutTarget && (
+                  <div className="flex items-center justify-between text-sm pt-2 border-t border-blue-200 dark:border-blue-800">
+                    <span className="text-gray-600 dark:text-gray-400">
+                      After swapping to {position[zapOutTarget].symbol}
+                    </span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {zapOutEstimate !== null ? `~${zapOutEstimate.toFixed(6)}` : '---'}
+                    </span>
+                  </div>
+                )}
+
                 <div className="pt-2 border-t border-blue-200 dark:border-blue-800 space-y-1.5">
                   <div className="flex items-center justify-between text-xs">
                     <span className="text-gray-600 dark:text-gray-400">LP Tokens to Remove</span>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      {lpTokensToRemove.toFixed(6)}
+                      {lpTokensToRemoveAmount}
                     </span>
                   </div>
                   
                   <div className="flex items-center justify-between text-xs">
                     <span className="text-gray-600 dark:text-gray-400">Total Value</span>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      ${valueToRemove.toFixed(2)}
+                      {valueToRemove === null ? '--' : `$${valueToRemove.toFixed(2)}`}
                     </span>
                   </div>
                   
@@ -781,6 +1069,31 @@ const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
               </div>
             )}
 
+            {/* Fee-on-transfer Notice */}
+            {hasFeeToken && percentage > 0 && removalState.step === 'input' && (
+              <div className="bg-orange-50 dark:bg-orange-900/20 rounded-xl p-3 border border-orange-200 dark:border-orange-800">
+                <div className="flex items-start space-x-2">
+                  <AlertTriangle className="w-4 h-4 text-orange-500 flex-shrink-0" />
+                  <div className="text-xs text-orange-700 dark:text-orange-400 space-y-0.5">
+                    <p className="font-medium">Token Transfer Tax</p>
+                    {[
+                      { token: position.token0, fee: tokenFees.token0, gross: estimatedToken0, net: netToken0 },
+                      { token: position.token1, fee: tokenFees.token1, gross: estimatedToken1, net: netToken1 }
+                    ].filter(({ fee }) => fee > 0).map(({ token, fee, gross, net }) => (
+                      <p key={token.address}>
+                        {token.symbol} charges a {(fee * 100).toFixed(2)}% tax on each transfer
+                        {transferHops > 1 ? ' (pool to router, then router to you)' : ''}: {gross.toFixed(6)} withdrawn, about {net.toFixed(6)} received.
+                      </p>
+                    ))}
+                    <p>
+                      Minimum amounts are set from the after-tax amounts
+                      {isNativePosition && ', and the router\'s fee-on-transfer removal method is used'}.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* High Percentage Warning */}
             {isHighPercentage && removalState.step === 'input' && (
               <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-xl p-3 border border-yellow-200 dark:border-yellow-800">
@@ -3,6 +3,10 @@ import { X, RefreshCw, Search } from 'lucide-react';
 import { LiquidityPosition } from '../hooks/usePortfolioData';
 import { TOKENS } from '../constants/tokens';
 import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { getReadProvider } from '../utils/rpcProvider';
+import { getLoopUsdPrice, estimateTvlUsd } from '../utils/priceOracle';
+import { applyPoolAnalytics } from '../utils/poolAnalytics';
+import { formatLpAmount } from '../utils/tokenUtils';
 
 interface SelectPoolModalProps {
   isOpen: boolean;
@@ -23,24 +27,9 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
   const [error, setError] = useState<string | null>(null);
 
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Helper to fetch token metadata for any ERC20 token
   const fetchTokenMetadata = useCallback(async (tokenAddress: string) => {
-    const provider = getProvider();
+    const provider = getReadProvider();
     if (!provider) return null;
 
     try {
@@ -75,7 +64,7 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
       console.error(`Error fetching metadata for ${tokenAddress}:`, error);
       return null;
     }
-  }, [getProvider]);
+  }, []);
 
   // Helper to decode contract string responses
   const decodeString = (hexData: string): string => {
@@ -120,7 +109,7 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
     if (!walletAddress) return [];
 
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       console.log('🔍 Fetching REAL liquidity positions from ReachSwap contracts...');
@@ -284,17 +273,19 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
                   // Filter out dust balances (< 0.0001 LP tokens)
                   if (lpBalanceNumber <= 0.0001) continue;
                   
-                  const lpBalanceFormatted = lpBalanceNumber.toFixed(6);
+                  const lpBalanceFormatted = formatLpAmount(lpBalance);
                   
-                  // Get reserves for value calculation
-                  const getReservesSignature = '0x0902f1ac';
-                  const reservesResult = await provider.request({
-                    method: 'eth_call',
-                    params: [{
-                      to: pairAddress,
-                      data: getReservesSignature
-                    }, 'latest']
-                  });
+                  // Reserves and LP supply for the position's share and value
+                  const [reservesResult, totalSupplyResult] = await Promise.all([
+                    provider.request({
+                      method: 'eth_call',
+                      params: [{ to: pairAddress, data: '0x0902f1ac' }, 'latest'] // getReserves()
+                    }),
+                    provider.request({
+                      method: 'eth_call',
+                      params: [{ to: pairAddress, data: '0x18160ddd' }, 'latest'] // totalSupply()
+                    })
+                  ]);
 
                   let reserve0 = '0';
                   let reserve1 = '0';
@@ -305,20 +296,21 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
                     reserve1 = BigInt('0x' + reservesData.slice(64, 128)).toString();
                   }
 
-                  // Calculate position value (simplified)
-                  const reserve0Number = Number(reserve0) / Math.pow(10, token0.decimals);
-                  const reserve1Number = Number(reserve1) / Math.pow(10, token1.decimals);
-                  const estimatedValue = (reserve0Number + reserve1Number) * 0.15 * parseFloat(lpBalanceFormatted) / 1000; // Rough estimate
+                  // token0/token1 come from the pair itself, so they match the reserve order
+                  const totalSupply = BigInt(totalSupplyResult || '0x0');
+                  const poolShare = totalSupply > BigInt(0) ? Number(lpBalance * BigInt(1000000) / totalSupply) / 10000 : 0;
+                  const tvlUsd = await estimateTvlUsd(token0, token1, reserve0, reserve1);
+                  const estimatedValue = tvlUsd === null ? null : tvlUsd * poolShare / 100;
 
                   const position: LiquidityPosition = {
                     pair: `${token0.symbol}/${token1.symbol}`,
                     token0,
                     token1,
                     lpTokenBalance: lpBalanceFormatted,
-                    poolShare: 0.01, // Mock pool share
-                    value: Math.max(estimatedValue, 1),
-                    rewards: estimatedValue * 0.005,
-                    apr: '24.5%',
+                    poolShare,
+                    value: estimatedValue,
+                    rewards: 0, // Fees earned are only tracked in the portfolio
+                    apr: '--', // Filled in from pool analytics
                     pairAddress
                   };
 
@@ -337,17 +329,20 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
         console.warn('Error scanning factory pairs:', error);
       }
 
+      // Value, share and APR from the pools' Swap activity
+      const valuedPositions = await applyPoolAnalytics(positions);
+
       // Sort positions by value (highest first)
-      positions.sort((a, b) => b.value - a.value);
+      valuedPositions.sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
 
-      console.log(`✅ Found ${positions.length} REAL liquidity positions from ReachSwap contracts`);
-      return positions;
+      console.log(`✅ Found ${valuedPositions.length} REAL liquidity positions from ReachSwap contracts`);
+      return valuedPositions;
 
     } catch (error) {
       console.error('Error fetching liquidity positions:', error);
       throw error;
     }
-  }, [isWalletConnected, getProvider]);
+  }, [isWalletConnected]);
 
   // Helper function to get token info from address
   const getTokenFromAddress = useCallback(async (address: string, provider: any) => {
@@ -502,27 +497,23 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
         }
       }
 
-      // Calculate position value (simplified - would need token prices for accurate value)
-      const reserve0Number = Number(reserve0) / Math.pow(10, finalToken0.decimals);
-      const reserve1Number = Number(reserve1) / Math.pow(10, finalToken1.decimals);
-      
-      // Estimate value based on pool share and reserves
-      // This is simplified - in production you'd use real token prices
-      const estimatedValue = poolShare > 0 ? Math.max(1, (reserve0Number + reserve1Number) * (poolShare / 100) * 0.15) : 1; // Minimum $1 for display
-
-      // Calculate estimated rewards (0.25% fee * position value * estimated volume multiplier)
-      const estimatedRewards = estimatedValue * 0.01; // 1% of position value as rewards estimate
+      // Position value as its share of TVL (reserves are in sorted token order); tokens that cannot
+      // be priced through a wLOOP pair leave it unknown
+      const [pairToken0, pairToken1] = tokenA.toLowerCase() === sortedToken0.toLowerCase() ? [finalToken0, finalToken1] : [finalToken1, finalToken0];
+      const loopPrice = await getLoopUsdPrice();
+      const tvlUsd = await estimateTvlUsd(pairToken0, pairToken1, reserve0, reserve1, loopPrice);
+      const estimatedValue = tvlUsd === null ? null : tvlUsd * poolShare / 100;
 
       // Create position object
       const position: LiquidityPosition = {
         pair: `${finalToken0.symbol}/${finalToken1.symbol}`,
         token0: finalToken0,
         token1: finalToken1,
-        lpTokenBalance: lpBalance.toFixed(6),
+        lpTokenBalance: formatLpAmount(lpBalanceWei),
         poolShare: poolShare,
         value: estimatedValue,
-        rewards: estimatedRewards,
-        apr: '24.5%', // Mock APR - would be calculated from historical data
+        rewards: 0, // Fees earned are only tracked in the portfolio
+        apr: '--', // Filled in from pool analytics
         pairAddress
       };
 
@@ -817,7 +808,7 @@ const SelectPoolModal: React.FC<SelectPoolModalProps> = ({
                     
                     <div className="text-right flex-shrink-0">
                       <div className="font-medium text-gray-900 dark:text-white text-sm">
-                        ${position.value.toFixed(2)}
+                        {position.value === null ? '--' : `$${position.value.toFixed(2)}`}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         {position.poolShare.toFixed(4)}% share
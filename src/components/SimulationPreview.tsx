@@ -0,0 +1,91 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, Info, AlertTriangle, Loader } from 'lucide-react';
+import { TransactionSimulation } from '../types';
+
+interface SimulationPreviewProps {
+  simulation: TransactionSimulation | null;
+  isSimulating: boolean;
+  results?: { label: string; value: string }[]; // Decoded results, shown when the simulation passed
+}
+
+const STATUS_STYLES: Record<TransactionSimulation['status'], { container: string; text: string; title: string }> = {
+  success: {
+    container: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800',
+    text: 'text-green-700 dark:text-green-400',
+    title: 'Simulation passed'
+  },
+  reverted: {
+    container: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+    text: 'text-red-700 dark:text-red-400',
+    title: 'Transaction would fail'
+  },
+  'needs-approval': {
+    container: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800',
+    text: 'text-blue-700 dark:text-blue-400',
+    title: 'Simulated after approval'
+  },
+  unavailable: {
+    container: 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600',
+    text: 'text-gray-600 dark:text-gray-400',
+    title: 'Simulation unavailable'
+  }
+};
+
+const STATUS_ICONS: Record<TransactionSimulation['status'], React.ElementType> = {
+  success: ShieldCheck,
+  reverted: ShieldAlert,
+  'needs-approval': Info,
+  unavailable: AlertTriangle
+};
+
+// Result of the pre-flight eth_call shown in the confirmation modals
+const SimulationPreview: React.FC<SimulationPreviewProps> = ({ simulation, isSimulating, results = [] }) => {
+  if (isSimulating && !simulation) {
+    return (
+      <div className="flex items-center space-x-2 p-3 rounded-xl border bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-400">
+        <Loader className="w-4 h-4 animate-spin" />
+        <span>Simulating transaction...</span>
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+
+  const style = STATUS_STYLES[simulation.status];
+  const Icon = STATUS_ICONS[simulation.status];
+  const deviation = simulation.quoteDeviation;
+
+  return (
+    <div className={`p-3 rounded-xl border space-y-1.5 ${style.container}`}>
+      <div className={`flex items-center space-x-2 text-sm font-medium ${style.text}`}>
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        <span>{style.title}</span>
+      </div>
+
+      {simulation.reason && (
+        <p className={`text-xs ${style.text}`}>{simulation.reason}</p>
+      )}
+
+      {simulation.status === 'success' && (
+        <div className="space-y-1">
+          {results.map(({ label, value }) => (
+            <div key={label} className="flex items-center justify-between text-xs">
+              <span className="text-gray-600 dark:text-gray-400">{label}</span>
+              <span className="font-medium text-gray-900 dark:text-white">{value}</span>
+            </div>
+          ))}
+          {deviation !== undefined && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-600 dark:text-gray-400">vs. quote</span>
+              <span className={`font-medium ${deviation < -0.1 ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-900 dark:text-white'}`}>
+                {deviation >= 0 ? '+' : ''}{deviation.toFixed(2)}%
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationPreview;
@@ -1,8 +1,15 @@
 import React, { useEffect } from 'react';
-import { X, AlertTriangle, ArrowDown, Clock, Zap } from 'lucide-react';
-import { Token } from '../types';
+import { X, AlertTriangle, ArrowDown, Clock, Zap, GitBranch, CheckCircle, Loader } from 'lucide-react';
+import { NetworkFeeEstimate, Token, TransactionSimulation } from '../types';
+import { SplitRoutePlan } from '../hooks/useSplitRouting';
+import { SplitSwapProgress } from '../hooks/useSwapExecution';
+import { useDynamicTokenPricing } from '../hooks/useDynamicTokenPricing';
 import SwapMetricsDisplay from './SwapMetricsDisplay';
+import TokenRiskPanel from './TokenRiskPanel';
+import SimulationPreview from './SimulationPreview';
+import { TOKENS } from '../constants/tokens';
 import { getTokenDisplayName } from '../utils/tokenUtils';
+import { formatNetworkFee } from '../utils/gasEngine';
 
 interface SwapConfirmModalProps {
   isOpen: boolean;
@@ -15,9 +22,14 @@ interface SwapConfirmModalProps {
   priceImpact: string;
   minimumReceived: string;
   slippage: string;
-  gasPrice: string;
+  networkFee?: NetworkFeeEstimate | null; // Expected cost at the selected speed, from the simulation's gas estimate
   isLoading?: boolean;
   swapMetrics?: any;
+  splitProgress?: SplitSwapProgress | null;
+  tradeType?: 'exactIn' | 'exactOut';
+  maximumSold?: string;
+  simulation?: TransactionSimulation | null;
+  isSimulating?: boolean;
 }
 
 // Helper function to detect wrap/unwrap operations
@@ -41,6 +53,10 @@ const isWrapUnwrapPair = (tokenIn: Token, tokenOut: Token): 'wrap' | 'unwrap' |
   return null;
 };
 
+// Tokens outside the built-in set get a safety report before swapping
+const needsRiskScan = (token: Token): boolean =>
+  !Object.values(TOKENS).some(builtIn => builtIn.address.toLowerCase() === token.address.toLowerCase());
+
 const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
   isOpen,
   onClose,
@@ -52,13 +68,30 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
   priceImpact,
   minimumReceived,
   slippage,
-  gasPrice,
+  networkFee,
   isLoading = false,
-  swapMetrics
+  swapMetrics,
+  splitProgress,
+  tradeType = 'exactIn',
+  maximumSold,
+  simulation = null,
+  isSimulating = false
 }) => {
   // Detect if this is a wrap/unwrap operation
   const wrapUnwrapMode = isWrapUnwrapPair(tokenIn, tokenOut);
   const isWrapUnwrap = wrapUnwrapMode !== null;
+  const splitRoute: SplitRoutePlan | undefined = swapMetrics?.splitRoute;
+  const confirmedLegs = splitProgress?.legs.filter(leg => leg.status === 'confirmed').length || 0;
+  const isExactOutput = tradeType === 'exactOut' && !!maximumSold;
+  const isBlockedBySimulation = simulation?.status === 'reverted';
+  const { getTokenPrice, batchFetchPrices } = useDynamicTokenPricing();
+
+  // Price both sides (LOOP/USD oracle based) for the USD estimates
+  useEffect(() => {
+    if (isOpen && !isWrapUnwrap) {
+      batchFetchPrices([tokenIn, tokenOut]);
+    }
+  }, [isOpen, isWrapUnwrap, tokenIn, tokenOut, batchFetchPrices]);
 
   // Handle click outside to close modal
   useEffect(() => {
@@ -82,6 +115,9 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
 
   if (!isOpen) return null;
 
+  const tokenInPrice = tokenIn.price || getTokenPrice(tokenIn);
+  const tokenOutPrice = tokenOut.price || getTokenPrice(tokenOut);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 modal-backdrop">
       <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-sm max-h-[85vh] overflow-hidden shadow-2xl flex flex-col">
@@ -138,12 +174,12 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-semibold text-gray-900 dark:text-white">
-                      {amountIn}
+                      {isExactOutput ? `~${amountIn}` : amountIn}
                     </div>
                     {/* Only show USD value for regular swaps, not wrap/unwrap */}
-                    {!isWrapUnwrap && tokenIn.price && (
+                    {!isWrapUnwrap && tokenInPrice && (
                       <div className="text-xs text-gray-500 dark:text-gray-400">
-                        ~${(parseFloat(amountIn) * tokenIn.price).toFixed(2)}
+                        ~${(parseFloat(amountIn) * tokenInPrice).toFixed(2)}
                       </div>
                     )}
                   </div>
@@ -188,12 +224,12 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-semibold text-gray-900 dark:text-white">
-                      {amountOut}
+                      {isExactOutput ? amountOut : `~${amountOut}`}
                     </div>
                     {/* Only show USD value for regular swaps, not wrap/unwrap */}
-                    {!isWrapUnwrap && tokenOut.price && (
+                    {!isWrapUnwrap && tokenOutPrice && (
                       <div className="text-xs text-gray-500 dark:text-gray-400">
-                        ~${(parseFloat(amountOut) * tokenOut.price).toFixed(2)}
+                        ~${(parseFloat(amountOut) * tokenOutPrice).toFixed(2)}
                       </div>
                     )}
                   </div>
@@ -247,6 +283,25 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
             ) : (
               /* Regular Swap Metrics - Only for non-wrap/unwrap operations */
               <>
+                {/* Token Safety - unlisted tokens only */}
+                {[tokenIn, tokenOut].filter(needsRiskScan).map(token => (
+                  <TokenRiskPanel
+                    key={token.address}
+                    tokenAddress={token.address}
+                    tokenSymbol={getTokenDisplayName(token)}
+                  />
+                ))}
+
+                {/* Pre-flight simulation of the exact transaction */}
+                <SimulationPreview
+                  simulation={simulation}
+                  isSimulating={isSimulating}
+                  results={[
+                    ...(simulation?.amountIn ? [{ label: 'Simulated input', value: `${parseFloat(simulation.amountIn).toFixed(6)} ${getTokenDisplayName(tokenIn)}` }] : []),
+                    ...(simulation?.amountOut ? [{ label: 'Simulated output', value: `${parseFloat(simulation.amountOut).toFixed(6)} ${getTokenDisplayName(tokenOut)}` }] : [])
+                  ]}
+                />
+
                 {swapMetrics ? (
                   <SwapMetricsDisplay
                     metrics={swapMetrics}
@@ -278,9 +333,13 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                       </div>
                       
                       <div className="flex items-center justify-between text-xs">
-                        <span className="text-gray-600 dark:text-gray-400">Minimum Received</span>
+                        <span className="text-gray-600 dark:text-gray-400">
+                          {isExactOutput ? 'Maximum Sold' : 'Minimum Received'}
+                        </span>
                         <span className="font-medium text-gray-900 dark:text-white">
-                          {minimumReceived} {getTokenDisplayName(tokenOut)}
+                          {isExactOutput
+                            ? `${parseFloat(maximumSold!).toFixed(6)} ${getTokenDisplayName(tokenIn)}`
+                            : `${minimumReceived} ${getTokenDisplayName(tokenOut)}`}
                         </span>
                       </div>
                       
@@ -295,16 +354,89 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                           <Zap className="w-2.5 h-2.5 text-yellow-500" />
                         </div>
                         <span className="font-medium text-gray-900 dark:text-white">
-                          ~${(parseFloat(gasPrice) * 0.000021 * 2000).toFixed(4)}
+                          {formatNetworkFee(networkFee)}
                         </span>
                       </div>
                     </div>
                   </div>
                 )}
 
+                {/* Split Route - order divided across routers */}
+                {splitRoute && (
+                  <div className="bg-purple-50 dark:bg-purple-900/20 rounded-xl p-3 space-y-2">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <GitBranch className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+                      <h4 className="font-medium text-gray-900 dark:text-white text-sm">Split Route</h4>
+                      <span className="text-xs text-green-600 dark:text-green-400">
+                        +{splitRoute.improvementPercent.toFixed(2)}% vs single route
+                      </span>
+                    </div>
+
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-gray-600 dark:text-gray-400">ReachSwap / Sphynx</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {splitRoute.routerShares.reachswap}% / {splitRoute.routerShares.sphynx}%
+                      </span>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      {splitRoute.legs.map((leg, index) => {
+                        const legProgress = splitProgress?.legs[index];
+                        return (
+                          <div key={index} className="flex items-center justify-between text-xs">
+                            <div className="flex items-center space-x-1">
+                              {legProgress?.status === 'confirmed' ? (
+                                <CheckCircle className="w-3 h-3 text-green-500" />
+                              ) : legProgress?.status === 'failed' ? (
+                                <AlertTriangle className="w-3 h-3 text-red-500" />
+                              ) : legProgress && legProgress.status !== 'pending' ? (
+                                <Loader className="w-3 h-3 text-purple-500 animate-spin" />
+                              ) : null}
+                              <span className="text-gray-600 dark:text-gray-400">
+                                {leg.share}% via {leg.router === 'reachswap' ? 'ReachSwap' : 'Sphynx'} ({leg.path.length - 1} hop{leg.path.length > 2 ? 's' : ''})
+                              </span>
+                            </div>
+                            <span className="font-medium text-gray-900 dark:text-white">
+                              {parseFloat(leg.expectedAmountOut).toFixed(6)} {getTokenDisplayName(tokenOut)}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    <div className="flex items-center justify-between text-xs pt-1 border-t border-purple-200 dark:border-purple-800">
+                      <span className="text-gray-600 dark:text-gray-400">Combined Minimum</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {minimumReceived} {getTokenDisplayName(tokenOut)}
+                      </span>
+                    </div>
+
+                    {splitProgress && (
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between text-xs text-purple-700 dark:text-purple-300">
+                          <span>Progress</span>
+                          <span>{confirmedLegs} of {splitProgress.totalLegs} legs confirmed</span>
+                        </div>
+                        <div className="w-full bg-purple-200 dark:bg-purple-800 rounded-full h-1.5">
+                          <div
+                            className="bg-purple-600 h-1.5 rounded-full transition-all duration-300"
+                            style={{ width: `${confirmedLegs / splitProgress.totalLegs * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-purple-700 dark:text-purple-300">
+                      Each leg is a separate transaction sent in order. If a leg fails, the remaining legs are not sent.
+                    </p>
+                  </div>
+                )}
+
                 {/* AMM Disclaimer - Only for regular swaps */}
                 <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-                  Output is estimated. You will receive at least {minimumReceived} {getTokenDisplayName(tokenOut)} or the transaction will revert.
+                  {isExactOutput
+                    ? `Input is estimated. You will receive exactly ${amountOut} ${getTokenDisplayName(tokenOut)} and sell at most ${parseFloat(maximumSold!).toFixed(6)} ${getTokenDisplayName(tokenIn)} or the transaction will revert.`
+                    : `Output is estimated. You will receive at least ${minimumReceived} ${getTokenDisplayName(tokenOut)} or the transaction will revert.`}
                 </p>
               </>
             )}
@@ -315,9 +447,9 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
         <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
           <button
             onClick={onConfirm}
-            disabled={isLoading}
+            disabled={isLoading || isBlockedBySimulation}
             className={`w-full py-3 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center space-x-2 ${
-              isLoading
+              isLoading || isBlockedBySimulation
                 ? 'bg-gray-400 dark:bg-gray-600 text-gray-200 cursor-not-allowed'
                 : 'bg-gradient-to-r from-orange-500 to-blue-600 hover:from-orange-600 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transform hover:scale-105'
             }`}
@@ -328,7 +460,9 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                 <span>
                   {isWrapUnwrap 
                     ? `${wrapUnwrapMode === 'wrap' ? 'Wrapping' : 'Unwrapping'}...`
-                    : 'Swapping...'
+                    : splitProgress
+                      ? `Swapping leg ${splitProgress.currentLeg + 1}/${splitProgress.totalLegs}...`
+                      : 'Swapping...'
                   }
                 </span>
               </>
@@ -338,7 +472,7 @@ const SwapConfirmModal: React.FC<SwapConfirmModalProps> = ({
                 <span>
                   {isWrapUnwrap 
                     ? `Confirm ${wrapUnwrapMode === 'wrap' ? 'Wrap' : 'Unwrap'}`
-                    : 'Confirm Swap'
+                    : isBlockedBySimulation ? 'Swap Would Fail' : 'Confirm Swap'
                   }
                 </span>
               </>
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { ethers } from 'ethers';
 import { ArrowUpDown, Settings, RefreshCcw, AlertCircle } from 'lucide-react';
-import { Token } from '../types';
+import { Token, TransactionSimulation } from '../types';
 import { TOKENS } from '../constants/tokens';
 import { useTokenBalances } from '../hooks/useTokenBalances';
 import { useSwapMetrics } from '../hooks/useSwapMetrics';
@@ -11,11 +12,18 @@ import { useWrapUnwrap } from '../hooks/useWrapUnwrap';
 import { useDebounce } from '../hooks/useDebounce';
 import { useInstantEstimate } from '../hooks/useInstantEstimate';
 import { useOptimizedMulticall } from '../hooks/useOptimizedMulticall';
+import { useSplitRouting } from '../hooks/useSplitRouting';
+import { useGasFees } from '../hooks/useGasFees';
+import { SPLIT_ROUTE_CONFIG } from '../constants/reachswap';
 import { normalizeToken, isValidToken, getTokenDisplayName, getTokenLogoUrl } from '../utils/tokenUtils';
+import { formatTxError, toTxError } from '../utils/txErrors';
 import TokenModal from './TokenModal';
 import SwapConfirmModal from './SwapConfirmModal';
 import SwapSettingsModal from './SwapSettingsModal';
 import SwapMetricsDisplay from './SwapMetricsDisplay';
+import PriceChart from './PriceChart';
+import LimitOrdersPanel from './LimitOrdersPanel';
+import DcaPanel from './DcaPanel';
 import { LoadingState, SwapLoading } from './LoadingStates';
 
 interface SwapInterfaceProps {
@@ -58,11 +66,12 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
   
   // Settings state
   const [slippage, setSlippage] = useState('0.5');
-  const [gasPrice, setGasPrice] = useState('10');
   const [expertMode, setExpertMode] = useState(false);
   
   // Swap metrics state
   const [swapMetrics, setSwapMetrics] = useState<any>(null);
+  const [swapSimulation, setSwapSimulation] = useState<TransactionSimulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
   
   // Loading states
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -78,7 +87,9 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
   const { getTokenBalance, fetchBalanceForToken } = useTokenBalances(isWalletConnected, walletAddress || undefined);
   const { calculateSwapMetrics, compareRouters, isCalculating, metricsError, clearError } = useSwapMetrics();
   const { calculateForwardQuote, calculateReverseQuote } = useBidirectionalSwap();
-  const { executeSwap, isSwapping, swapError } = useSwapExecution();
+  const { executeSwap, executeSplitSwap, simulateSwap, isSwapping, swapError, splitProgress } = useSwapExecution();
+  const { calculateSplitRoute } = useSplitRouting();
+  const { feeData, gasSpeed, setGasSpeed, getNetworkFee } = useGasFees();
   const { verifyTokenDecimals, getTokenDecimals } = useDynamicTokenDecimals();
   const { 
     executeWrap, 
@@ -266,6 +277,21 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
       if (lastEditedField === 'in' && inputAmount) {
         // Forward calculation: From → To
         metrics = await calculateSwapMetrics(tokenIn, tokenOut, inputAmount, parseFloat(slippage));
+
+        // Large orders: try splitting across routers to reduce price impact
+        if (metrics.priceImpact >= SPLIT_ROUTE_CONFIG.MIN_PRICE_IMPACT && !metrics.hasFeeOnTransfer) {
+          const splitRoute = await calculateSplitRoute(tokenIn, tokenOut, inputAmount);
+          if (splitRoute) {
+            const splitAmountOut = parseFloat(splitRoute.totalAmountOut);
+            metrics = {
+              ...metrics,
+              splitRoute,
+              amountOut: splitAmountOut.toFixed(6),
+              minimumReceived: (splitAmountOut * (1 - parseFloat(slippage) / 100)).toFixed(6)
+            };
+          }
+        }
+
         setAmountOut(metrics.amountOut);
       } else if (lastEditedField === 'out' && outputAmount) {
         // Reverse calculation only after liquidity verification
@@ -274,12 +300,20 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
         // Only set the input amount if we get a valid result
         if (reverseQuote.liquidityAvailable && reverseQuote.amountOut !== '0') {
           setAmountIn(reverseQuote.amountOut); // This is actually the required input amount
+
+          // Exact output: slippage bounds the input side instead of the output
+          const requiredInWei = BigInt(reverseQuote.amountInWei || '0');
+          const slippageBps = BigInt(Math.round(parseFloat(slippage) * 100));
+          const amountInMaxWei = requiredInWei * (BigInt(10000) + slippageBps) / BigInt(10000);
+          const amountInMax = ethers.formatUnits(amountInMaxWei, tokenIn.decimals);
           
           // Create metrics object for reverse calculation
           metrics = {
             exchangeRate: (parseFloat(outputAmount) / parseFloat(reverseQuote.amountOut)).toFixed(6),
             priceImpact: reverseQuote.priceImpact,
             minimumReceived: outputAmount,
+            tradeType: 'exactOut',
+            amountInMax,
             slippageTolerance: parseFloat(slippage),
             routerUsed: reverseQuote.router,
             estimatedGas: reverseQuote.gasEstimate,
@@ -309,7 +343,7 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
         setAmountIn('');
       }
     }
-  }, [tokenIn, tokenOut, debouncedAmountIn, debouncedAmountOut, lastEditedField, slippage, calculateSwapMetrics, calculateReverseQuote, clearEstimate, isWrapUnwrap, clearError]);
+  }, [tokenIn, tokenOut, debouncedAmountIn, debouncedAmountOut, lastEditedField, slippage, calculateSwapMetrics, calculateSplitRoute, calculateReverseQuote, clearEstimate, isWrapUnwrap, clearError]);
 
   // Only trigger swap metrics calculation when debounced amounts or dependencies change
   useEffect(() => {
@@ -494,6 +528,42 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
     }
   };
 
+  // Single-route swap as executeSwap receives it, shared by the simulation preview and execution
+  const getSwapParams = useCallback(() => ({
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOutMin: swapMetrics.minimumReceived,
+    slippage,
+    routerUsed: swapMetrics.routerUsed,
+    path: swapMetrics.path || [tokenIn.address, tokenOut.address],
+    hasFeeOnTransfer: swapMetrics.hasFeeOnTransfer,
+    tradeType: swapMetrics.tradeType,
+    amountOut: swapMetrics.tradeType === 'exactOut' ? amountOut : undefined,
+    amountInMax: swapMetrics.amountInMax
+  }), [tokenIn, tokenOut, amountIn, amountOut, slippage, swapMetrics]);
+
+  // Simulate the swap while the confirmation modal is open; split orders are checked leg by leg when sent
+  useEffect(() => {
+    setSwapSimulation(null);
+    if (!isSwapConfirmModalOpen || isWrapUnwrap || !swapMetrics || swapMetrics.splitRoute) return;
+
+    let isCurrent = true;
+    const quotedAmount = swapMetrics.tradeType === 'exactOut' ? amountIn : amountOut;
+    setIsSimulating(true);
+    simulateSwap(getSwapParams(), quotedAmount)
+      .then(simulation => {
+        if (isCurrent) setSwapSimulation(simulation);
+      })
+      .finally(() => {
+        if (isCurrent) setIsSimulating(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isSwapConfirmModalOpen, isWrapUnwrap, swapMetrics, amountIn, amountOut, simulateSwap, getSwapParams]);
+
   // Handle swap/wrap/unwrap execution
   const handleSwap = async () => {
     if (!isWalletConnected || !amountIn || !amountOut) return;
@@ -525,11 +595,11 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
           const operation = wrapUnwrapMode === 'wrap' ? 'wrapped' : 'unwrapped';
           alert(`${operation.charAt(0).toUpperCase() + operation.slice(1)} completed! Transaction: ${result.txHash}`);
         } else {
-          alert(`${wrapUnwrapMode.charAt(0).toUpperCase() + wrapUnwrapMode.slice(1)} failed: ${result.error}`);
+          alert(`${wrapUnwrapMode.charAt(0).toUpperCase() + wrapUnwrapMode.slice(1)} failed: ${result.error ? formatTxError(result.error) : 'unknown error'}`);
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error(`❌ ${wrapUnwrapMode} error:`, error);
-        alert(`${wrapUnwrapMode.charAt(0).toUpperCase() + wrapUnwrapMode.slice(1)} error: ${error.message}`);
+        alert(`${wrapUnwrapMode.charAt(0).toUpperCase() + wrapUnwrapMode.slice(1)} error: ${formatTxError(toTxError(error))}`);
       }
       return;
     }
@@ -544,16 +614,15 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
       setSwapStage('swap');
       setSwapProgress(75);
       
-      const result = await executeSwap({
-        tokenIn,
-        tokenOut,
-        amountIn,
-        amountOutMin: swapMetrics.minimumReceived,
-        slippage,
-        routerUsed: swapMetrics.routerUsed,
-        path: swapMetrics.path || [tokenIn.address, tokenOut.address],
-        hasFeeOnTransfer: swapMetrics.hasFeeOnTransfer
-      });
+      const result = swapMetrics.splitRoute
+        ? await executeSplitSwap({
+            tokenIn,
+            tokenOut,
+            legs: swapMetrics.splitRoute.legs,
+            amountOutMin: swapMetrics.minimumReceived,
+            slippage
+          })
+        : await executeSwap(getSwapParams());
 
       if (result.success) {
         setSwapProgress(100);
@@ -571,14 +640,14 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
         
         alert(`Swap completed! Transaction: ${result.txHash}`);
       } else {
-        alert(`Swap failed: ${result.error}`);
+        alert(`Swap failed: ${result.error ? formatTxError(result.error) : 'unknown error'}`);
       }
       
       // Reset progress
       setTimeout(() => setSwapProgress(0), 1000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Swap error:', error);
-      alert(`Swap error: ${error.message}`);
+      alert(`Swap error: ${formatTxError(toTxError(error))}`);
       setSwapProgress(0);
     }
   };
@@ -659,8 +728,25 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
   };
 
   return (
-    <div className="max-w-md mx-auto">
-      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+    <div className="max-w-6xl mx-auto flex flex-col lg:flex-row lg:items-start gap-6">
+      {/* Price chart, limit orders and recurring buys beside the swap card on wide screens, below it on narrow ones */}
+      <div className="w-full lg:flex-1 min-w-0 order-2 lg:order-1 space-y-6">
+        <PriceChart tokenIn={tokenIn} tokenOut={tokenOut} />
+        <LimitOrdersPanel
+          tokenIn={tokenIn}
+          tokenOut={tokenOut}
+          isWalletConnected={isWalletConnected}
+          onConnectWallet={onConnectWallet}
+        />
+        <DcaPanel
+          tokenIn={tokenIn}
+          tokenOut={tokenOut}
+          isWalletConnected={isWalletConnected}
+          onConnectWallet={onConnectWallet}
+        />
+      </div>
+
+      <div className="w-full max-w-md mx-auto lg:mx-0 order-1 lg:order-2 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
         {/* Header */}
         <div className="p-4 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between">
@@ -860,7 +946,10 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
                 <p className="font-medium">
                   {wrapError ? 'Wrap Error' : unwrapError ? 'Unwrap Error' : 'Swap Error'}
                 </p>
-                <p className="mt-1">{swapError || wrapError || unwrapError}</p>
+                <p className="mt-1">{(swapError || wrapError || unwrapError)?.message}</p>
+                {(swapError || wrapError || unwrapError)?.hint && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">{(swapError || wrapError || unwrapError)?.hint}</p>
+                )}
               </div>
             </div>
           )}
@@ -939,10 +1028,15 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
         amountOut={amountOut}
         priceImpact={swapMetrics?.priceImpact?.toFixed(2) || '0'}
         minimumReceived={swapMetrics?.minimumReceived || amountOut}
+        tradeType={swapMetrics?.tradeType}
+        maximumSold={swapMetrics?.amountInMax}
         slippage={slippage}
-        gasPrice={gasPrice}
+        networkFee={getNetworkFee(swapSimulation?.gasEstimate)}
         isLoading={isSwapping || isWrapping || isUnwrapping}
         swapMetrics={swapMetrics}
+        splitProgress={splitProgress}
+        simulation={swapSimulation}
+        isSimulating={isSimulating}
       />
 
       <SwapSettingsModal
@@ -950,8 +1044,9 @@ const SwapInterface: React.FC<SwapInterfaceProps> = ({ isWalletConnected, onConn
         onClose={() => setIsSwapSettingsModalOpen(false)}
         slippage={slippage}
         onSlippageChange={setSlippage}
-        gasPrice={gasPrice}
-        onGasPriceChange={setGasPrice}
+        gasSpeed={gasSpeed}
+        onGasSpeedChange={setGasSpeed}
+        feeData={feeData}
         expertMode={expertMode}
         onExpertModeChange={setExpertMode}
       />
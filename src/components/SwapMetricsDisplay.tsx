@@ -1,5 +1,7 @@
 import React from 'react';
-import { Info, TrendingUp, TrendingDown, ExternalLink, Zap, Shield, Star, AlertTriangle } from 'lucide-react';
+import { Info, TrendingUp, TrendingDown, ExternalLink, Zap, Shield, Star, AlertTriangle, Scale } from 'lucide-react';
+import { NetOutputBreakdown, RouteSelection } from '../hooks/useSwapMetrics';
+import { useLoopUsdPrice } from '../hooks/useLoopUsdPrice';
 
 interface SwapMetrics {
   exchangeRate: string;
@@ -14,6 +16,8 @@ interface SwapMetrics {
   liquidityAvailable?: boolean;
   recommendedSlippage?: number;
   swapStrategy?: 'exactInput' | 'exactOutput' | 'supportingFee';
+  tradeType?: 'exactIn' | 'exactOut';
+  amountInMax?: string;
   isPriceImpactCalculated?: boolean;
   priceImpactError?: string;
   routerAddress?: string;
@@ -39,6 +43,8 @@ interface SwapMetrics {
     priceImpactWarning: boolean;
     slippageRecommendation: number;
   };
+  netOutput?: NetOutputBreakdown;
+  routeSelection?: RouteSelection;
 }
 
 interface SwapMetricsDisplayProps {
@@ -60,6 +66,7 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
   showRouterComparison = false,
   onRouterChange
 }) => {
+  const { loopPrice } = useLoopUsdPrice();
   const shouldShowPriceImpact = metrics.isPriceImpactCalculated !== false;
   const isHighPriceImpact = shouldShowPriceImpact && metrics.priceImpact > 5;
   const isMediumPriceImpact = shouldShowPriceImpact && metrics.priceImpact > 1;
@@ -152,16 +159,16 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
               ReachSwap Native DEX
             </span>
             <div className="px-2 py-0.5 bg-blue-600 text-white rounded-full text-xs font-medium">
-              PRIORITY
+              {metrics.routeSelection?.mode === 'bestPrice' ? 'BEST PRICE' : 'PRIORITY'}
             </div>
           </div>
           <p className="text-xs text-blue-700 dark:text-blue-300">
-            ⚡ Lower fees ({metrics.feeStructure?.swapFee || '0.25%'}) • 🔐 Enhanced security • 🚀 Optimized for LOOP Network
+            ⚡ LP fee {metrics.feeStructure?.swapFee || '0.30%'} • 🔐 Enhanced security • 🚀 Optimized for LOOP Network
           </p>
           {metrics.executionDetails && (
             <div className="mt-2 flex items-center space-x-4 text-xs">
               <span className="text-blue-600 dark:text-blue-400">
-                💰 Total Fees: {metrics.executionDetails.totalFees} LOOP
+                💰 Total Fees: {metrics.executionDetails.totalFees} {tokenInSymbol}
               </span>
               <span className="text-blue-600 dark:text-blue-400">
                 ⛽ Gas: ~{metrics.estimatedGas} LOOP
@@ -179,19 +186,19 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
           <div className="flex items-center space-x-2 mb-1">
             <Star className="w-4 h-4 text-purple-600 dark:text-purple-400" />
             <span className="text-sm text-purple-800 dark:text-purple-200 font-semibold">
-              Sphynx DEX Fallback
+              Sphynx DEX
             </span>
             <div className="px-2 py-0.5 bg-orange-500 text-white rounded-full text-xs font-medium">
-              FALLBACK
+              {metrics.routeSelection?.mode === 'bestPrice' ? 'BEST PRICE' : 'FALLBACK'}
             </div>
           </div>
           <p className="text-xs text-purple-700 dark:text-purple-300">
-            🔄 Using Sphynx DEX (ReachSwap pair not available) • Fee: {metrics.feeStructure?.swapFee || '0.30%'}
+            🔄 {metrics.routeSelection?.reason || 'Using Sphynx DEX'} • Fee: {metrics.feeStructure?.swapFee || '0.25%'}
           </p>
           {metrics.executionDetails && (
             <div className="mt-2 flex items-center space-x-4 text-xs">
               <span className="text-purple-600 dark:text-purple-400">
-                💰 Total Fees: {metrics.executionDetails.totalFees} LOOP
+                💰 Total Fees: {metrics.executionDetails.totalFees} {tokenInSymbol}
               </span>
               <span className="text-purple-600 dark:text-purple-400">
                 ⛽ Gas: ~{metrics.estimatedGas} LOOP
@@ -239,21 +246,38 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
           </div>
         </div>
         
-        {/* Minimum Received */}
-        <div className="flex items-center justify-between text-sm">
-          <div className="flex items-center space-x-1">
-            <span className="text-gray-700 dark:text-gray-300 font-medium">Minimum Received</span>
-            <div className="group relative">
-              <Info className="w-3 h-3 text-gray-400 cursor-help" />
-              <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
-                Minimum amount guaranteed after slippage tolerance
+        {/* Minimum Received / Maximum Sold */}
+        {metrics.tradeType === 'exactOut' && metrics.amountInMax ? (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-1">
+              <span className="text-gray-700 dark:text-gray-300 font-medium">Maximum Sold</span>
+              <div className="group relative">
+                <Info className="w-3 h-3 text-gray-400 cursor-help" />
+                <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+                  Most you will pay for the exact output after slippage tolerance
+                </div>
               </div>
             </div>
+            <span className="font-semibold text-gray-900 dark:text-white">
+              {parseFloat(metrics.amountInMax).toFixed(6)} {tokenInSymbol}
+            </span>
           </div>
-          <span className="font-semibold text-gray-900 dark:text-white">
-            {metrics.minimumReceived === '0.000000' ? '0 (Auto)' : `${metrics.minimumReceived} ${tokenOutSymbol}`}
-          </span>
-        </div>
+        ) : (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-1">
+              <span className="text-gray-700 dark:text-gray-300 font-medium">Minimum Received</span>
+              <div className="group relative">
+                <Info className="w-3 h-3 text-gray-400 cursor-help" />
+                <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+                  Minimum amount guaranteed after slippage tolerance
+                </div>
+              </div>
+            </div>
+            <span className="font-semibold text-gray-900 dark:text-white">
+              {metrics.minimumReceived === '0.000000' ? '0 (Auto)' : `${metrics.minimumReceived} ${tokenOutSymbol}`}
+            </span>
+          </div>
+        )}
         
         {/* Enhanced Slippage Tolerance */}
         <div className="flex items-center justify-between text-sm">
@@ -286,11 +310,41 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-700 dark:text-gray-300 font-medium">Route</span>
             <span className="font-semibold text-gray-900 dark:text-white text-right">
-              {metrics.path.length - 1} hop{metrics.path.length > 2 ? 's' : ''} via wLOOP
+              {metrics.path.length - 1} hop{metrics.path.length > 2 ? 's' : ''}
             </span>
           </div>
         )}
 
+        {/* Route Selection: why the winning router was chosen */}
+        {metrics.routeSelection && metrics.routeSelection.candidates.length > 0 && (
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+            <div className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400 mb-2 font-medium">
+              <Scale className="w-3 h-3" />
+              <span>Why this route</span>
+            </div>
+            <div className="space-y-1">
+              {metrics.routeSelection.candidates.map(candidate => (
+                <div key={candidate.router} className="flex items-center justify-between text-xs">
+                  <span className={`${getRouterColor(candidate.router)} ${candidate.router === metrics.routerUsed ? 'font-semibold' : ''}`}>
+                    {getRouterDisplayName(candidate.router)} ({candidate.hops} hop{candidate.hops > 1 ? 's' : ''})
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {candidate.netAmountOut} {tokenOutSymbol} net • ⛽ {parseFloat(candidate.gasCostLoop).toFixed(4)} LOOP
+                  </span>
+                </div>
+              ))}
+            </div>
+            {metrics.netOutput && parseFloat(metrics.netOutput.taxLoss) > 0 && (
+              <div className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                Token taxes: -{metrics.netOutput.taxLoss} {tokenOutSymbol}
+              </div>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {metrics.routeSelection.reason}
+            </p>
+          </div>
+        )}
+
         {/* Liquidity Information */}
         {metrics.liquidityInfo && (
           <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
@@ -308,7 +362,7 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
               <div className="flex items-center justify-between text-xs">
                 <span className="text-gray-600 dark:text-gray-400">Total Value Locked</span>
                 <span className="text-gray-600 dark:text-gray-400">
-                  ${(Number(metrics.liquidityInfo.totalLiquidity) / 1e36 * 0.15).toFixed(0)}
+                  ${(Number(metrics.liquidityInfo.totalLiquidity) / 1e36 * loopPrice).toFixed(0)}
                 </span>
               </div>
             </div>
@@ -342,7 +396,7 @@ const SwapMetricsDisplay: React.FC<SwapMetricsDisplayProps> = ({
           <div className="flex items-center space-x-2">
             <Shield className="w-3 h-3 text-green-600 dark:text-green-400" />
             <span className="text-xs text-green-800 dark:text-green-200 font-medium">
-              Optimal Routing: Native ReachSwap DEX selected for best rates and lower fees
+              Optimal Routing: {metrics.routeSelection?.reason || 'Native ReachSwap DEX selected'}
             </span>
           </div>
           {metrics.performance && (
@@ -1,29 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { X, Info, AlertTriangle } from 'lucide-react';
+import { ethers } from 'ethers';
+import { GasFeeData, GasSpeed } from '../types';
+import { GAS_SPEEDS, getEffectiveGasPrice } from '../utils/gasEngine';
 
 interface SwapSettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   slippage: string;
   onSlippageChange: (value: string) => void;
-  gasPrice: string;
-  onGasPriceChange: (value: string) => void;
+  gasSpeed: GasSpeed;
+  onGasSpeedChange: (speed: GasSpeed) => void;
+  feeData: GasFeeData | null;
   expertMode: boolean;
   onExpertModeChange: (enabled: boolean) => void;
 }
 
+const SPEED_LABELS: Record<GasSpeed, string> = {
+  slow: 'Slow',
+  standard: 'Standard',
+  fast: 'Fast'
+};
+
+const formatGwei = (wei: bigint): string => parseFloat(ethers.formatUnits(wei, 'gwei')).toFixed(2);
+
 const SwapSettingsModal: React.FC<SwapSettingsModalProps> = ({
   isOpen,
   onClose,
   slippage,
   onSlippageChange,
-  gasPrice,
-  onGasPriceChange,
+  gasSpeed,
+  onGasSpeedChange,
+  feeData,
   expertMode,
   onExpertModeChange
 }) => {
   const [customSlippage, setCustomSlippage] = useState('');
-  const [customGasPrice, setCustomGasPrice] = useState('');
   const [showExpertWarning, setShowExpertWarning] = useState(false);
 
   // Handle click outside to close modal
@@ -49,7 +61,6 @@ const SwapSettingsModal: React.FC<SwapSettingsModalProps> = ({
   if (!isOpen) return null;
 
   const presetSlippages = ['0.1', '0.5', '1.0'];
-  const presetGasPrices = ['5', '10', '15', '20'];
 
   const handleSlippageSelect = (value: string) => {
     onSlippageChange(value);
@@ -63,18 +74,6 @@ const SwapSettingsModal: React.FC<SwapSettingsModalProps> = ({
     }
   };
 
-  const handleGasPriceSelect = (value: string) => {
-    onGasPriceChange(value);
-    setCustomGasPrice('');
-  };
-
-  const handleCustomGasPriceChange = (value: string) => {
-    setCustomGasPrice(value);
-    if (value) {
-      onGasPriceChange(value);
-    }
-  };
-
   const handleExpertModeToggle = () => {
     if (!expertMode) {
       setShowExpertWarning(true);
@@ -172,52 +171,53 @@ const SwapSettingsModal: React.FC<SwapSettingsModalProps> = ({
               )}
             </div>
 
-            {/* Gas Price */}
+            {/* Transaction Speed */}
             <div>
               <div className="flex items-center space-x-2 mb-3">
                 <h4 className="text-base font-medium text-gray-900 dark:text-white">
-                  Transaction Speed (GWEI)
+                  Transaction Speed
                 </h4>
                 <div className="group relative">
                   <Info className="w-3 h-3 text-gray-400 cursor-help" />
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
-                    Higher gas price = faster confirmation
+                    Fees from recent blocks - a higher tip confirms faster
                   </div>
                 </div>
               </div>
-              
-              <div className="grid grid-cols-2 gap-1.5 mb-3">
-                {presetGasPrices.map((preset) => (
-                  <button
-                    key={preset}
-                    onClick={() => handleGasPriceSelect(preset)}
-                    className={`px-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${
-                      gasPrice === preset && !customGasPrice
-                        ? 'bg-orange-500 text-white'
-                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                    }`}
-                  >
-                    <div className="font-semibold">{preset} GWEI</div>
-                    <div className="text-xs opacity-75 leading-tight">
-                      {preset === '5' && 'Slow'}
-                      {preset === '10' && 'Standard'}
-                      {preset === '15' && 'Fast'}
-                      {preset === '20' && 'Instant'}
-                    </div>
-                  </button>
-                ))}
+
+              <div className="grid grid-cols-3 gap-1.5">
+                {GAS_SPEEDS.map((speed) => {
+                  const preset = feeData?.presets[speed];
+                  const gasPrice = feeData ? getEffectiveGasPrice(feeData, speed) : null;
+                  return (
+                    <button
+                      key={speed}
+                      onClick={() => onGasSpeedChange(speed)}
+                      className={`px-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                        gasSpeed === speed
+                          ? 'bg-orange-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <div className="font-semibold">{SPEED_LABELS[speed]}</div>
+                      <div className="text-xs opacity-75 leading-tight">
+                        {gasPrice !== null ? `${formatGwei(gasPrice)} GWEI` : '-'}
+                      </div>
+                      <div className="text-xs opacity-75 leading-tight">
+                        {preset ? `~${preset.estimatedSeconds}s` : ''}
+                      </div>
+                    </button>
+                  );
+                })}
               </div>
-              
-              <input
-                type="number"
-                placeholder="Custom GWEI"
-                value={customGasPrice}
-                onChange={(e) => handleCustomGasPriceChange(e.target.value)}
-                className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white placeholder-gray-500 focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                min="1"
-                max="1000"
-                step="1"
-              />
+
+              {feeData && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {feeData.supportsEip1559
+                    ? `Base fee ${formatGwei(BigInt(feeData.baseFeePerGas || '0'))} GWEI · ${feeData.blockTime.toFixed(1)}s blocks`
+                    : `Legacy gas pricing · ${feeData.blockTime.toFixed(1)}s blocks`}
+                </p>
+              )}
             </div>
 
             {/* Expert Mode */}
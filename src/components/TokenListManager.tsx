@@ -0,0 +1,148 @@
+import React, { useState, useRef } from 'react';
+import { Link, Upload, Trash2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { TokenListEntry } from '../types';
+import { getListTokens } from '../utils/tokenLists';
+
+interface TokenListManagerProps {
+  lists: TokenListEntry[];
+  onAddUrl: (url: string) => Promise<void>;
+  onAddFile: (file: File) => Promise<void>;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  isAdding: boolean;
+  error: string | null;
+}
+
+const ORIGIN_LABELS: Record<TokenListEntry['origin'], string> = {
+  bundled: 'Bundled',
+  url: 'URL',
+  file: 'File'
+};
+
+const TokenListManager: React.FC<TokenListManagerProps> = ({
+  lists,
+  onAddUrl,
+  onAddFile,
+  onToggle,
+  onRemove,
+  isAdding,
+  error
+}) => {
+  const [listUrl, setListUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddUrl = async () => {
+    if (!listUrl.trim()) return;
+    await onAddUrl(listUrl);
+    setListUrl('');
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      await onAddFile(file);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="p-3 space-y-3">
+      {/* Add list */}
+      <div className="space-y-2">
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="url"
+              placeholder="https:// token list URL"
+              value={listUrl}
+              onChange={(e) => setListUrl(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddUrl()}
+              className="w-full pl-9 pr-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent text-gray-900 dark:text-white placeholder-gray-500 text-sm"
+            />
+          </div>
+          <button
+            onClick={handleAddUrl}
+            disabled={isAdding || !listUrl.trim()}
+            className="px-3 py-2 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-xl text-sm font-medium transition-colors"
+          >
+            {isAdding ? <RefreshCw className="w-4 h-4 animate-spin" /> : 'Add'}
+          </button>
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isAdding}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 border border-dashed border-gray-300 dark:border-gray-600 rounded-xl text-sm text-gray-600 dark:text-gray-400 hover:border-orange-400 hover:text-orange-600 dark:hover:text-orange-400 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Upload token list JSON</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+
+        {error && (
+          <div className="flex items-start space-x-2 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+            <span className="text-xs text-red-700 dark:text-red-400 break-words">{error}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Lists */}
+      <div className="space-y-2">
+        {lists.map(entry => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900 dark:text-white text-sm truncate">{entry.list.name}</span>
+                <span className="px-1.5 py-0.5 bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 text-xs rounded-full">
+                  {ORIGIN_LABELS[entry.origin]}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {getListTokens(entry.list).length} tokens • v{entry.list.version.major}.{entry.list.version.minor}.{entry.list.version.patch}
+                {entry.url && ` • ${entry.url}`}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+              {entry.origin !== 'bundled' && (
+                <button
+                  onClick={() => onRemove(entry.id)}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors"
+                  title="Remove list"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-gray-400 hover:text-red-500" />
+                </button>
+              )}
+              <button
+                onClick={() => onToggle(entry.id)}
+                className={`relative w-9 h-5 rounded-full transition-colors ${
+                  entry.enabled ? 'bg-orange-500' : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+                title={entry.enabled ? 'Disable list' : 'Enable list'}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+                    entry.enabled ? 'translate-x-4' : ''
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TokenListManager;
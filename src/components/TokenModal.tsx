@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Search, X, RefreshCw, Copy, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Search, X, RefreshCw, Copy, AlertTriangle, CheckCircle, List } from 'lucide-react';
 import { Token } from '../types';
 import { TOKENS } from '../constants/tokens';
+import { REACHSWAP_DEFAULT_LIST } from '../constants/tokenLists';
 import { useVisibleTokenBalances } from '../hooks/useVisibleTokenBalances';
 import { useTokenImport } from '../hooks/useTokenImport';
 import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { useTokenLists } from '../hooks/useTokenLists';
 import { normalizeToken, isValidToken, validateImportedToken, getTokenDisplayName } from '../utils/tokenUtils';
+import { mergeTokenSources } from '../utils/tokenLists';
 import TokenModalRow from './TokenModalRow';
+import TokenListManager from './TokenListManager';
+import TokenRiskPanel from './TokenRiskPanel';
 
 interface TokenModalProps {
   isOpen: boolean;
@@ -21,8 +26,11 @@ interface SearchResult {
   type: 'official' | 'imported' | 'contract';
   token: Token;
   isImported?: boolean;
+  sources?: string[];
 }
 
+const IMPORTED_SOURCE = 'Imported';
+
 const TokenModal: React.FC<TokenModalProps> = ({
   isOpen,
   onClose,
@@ -37,6 +45,7 @@ const TokenModal: React.FC<TokenModalProps> = ({
   const [showImportWarning, setShowImportWarning] = useState(false);
   const [importSuccess, setImportSuccess] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [showManageLists, setShowManageLists] = useState(false);
 
   // Get wallet address for balance fetching
   const walletAddress = localStorage.getItem('reachswap_wallet_address');
@@ -62,6 +71,56 @@ const TokenModal: React.FC<TokenModalProps> = ({
     isLoading: isLoadingMetadata
   } = useTokenMetadata();
 
+  const {
+    lists: tokenLists,
+    enabledListTokens,
+    addListFromUrl,
+    addListFromFile,
+    removeList,
+    toggleList,
+    isAddingList,
+    listError
+  } = useTokenLists();
+
+  // The built-in tokens are the default list's tokens, so they follow that list's toggle
+  const isDefaultListEnabled = tokenLists.some(
+    entry => entry.origin === 'bundled' && entry.list.name === REACHSWAP_DEFAULT_LIST.name && entry.enabled
+  );
+
+  // Built-in tokens, enabled token lists and imported tokens, de-duplicated by address
+  const listedTokens = useMemo(() => {
+    // Validate and normalize imported tokens
+    const validImportedTokens = importedTokens
+      .filter(token => {
+        try {
+          return isValidToken(token);
+        } catch (error) {
+          console.warn('Invalid imported token filtered out:', token);
+          return false;
+        }
+      })
+      .map(token => {
+        try {
+          return normalizeToken(token);
+        } catch (error) {
+          console.warn('Failed to normalize imported token, skipping:', token);
+          return null;
+        }
+      })
+      .filter(Boolean) as Token[];
+
+    return mergeTokenSources([
+      { source: REACHSWAP_DEFAULT_LIST.name, tokens: isDefaultListEnabled ? Object.values(TOKENS) : [] },
+      ...enabledListTokens,
+      { source: IMPORTED_SOURCE, tokens: validImportedTokens }
+    ]);
+  }, [importedTokens, enabledListTokens, isDefaultListEnabled]);
+
+  const tokenSources = useMemo(
+    () => new Map(listedTokens.map(({ token, sources }) => [token.address.toLowerCase(), sources])),
+    [listedTokens]
+  );
+
   // Handle token becoming visible
   const handleTokenVisible = useCallback((token: Token) => {
     if (isWalletConnected && walletAddress && isValidToken(token)) {
@@ -84,23 +143,8 @@ const TokenModal: React.FC<TokenModalProps> = ({
 
     const normalizedAddress = address.toLowerCase();
 
-    // Check if it's already in official tokens
-    const officialToken = Object.values(TOKENS).find(
-      token => token.address.toLowerCase() === normalizedAddress
-    );
-    
-    if (officialToken) {
-      setContractSearchResult(null);
-      setSearchError(null);
-      return;
-    }
-
-    // Check if it's already imported
-    const importedToken = importedTokens.find(
-      token => token.address.toLowerCase() === normalizedAddress
-    );
-    
-    if (importedToken) {
+    // Check if it's already listed (built-in, token lists or imported)
+    if (tokenSources.has(normalizedAddress)) {
       setContractSearchResult(null);
       setSearchError(null);
       return;
@@ -142,7 +186,7 @@ const TokenModal: React.FC<TokenModalProps> = ({
       setSearchError('Failed to fetch token information');
       setContractSearchResult(null);
     }
-  }, [isContractAddress, importedTokens, fetchTokenMetadata]);
+  }, [isContractAddress, tokenSources, fetchTokenMetadata]);
 
   // Handle search query changes
   useEffect(() => {
@@ -158,31 +202,9 @@ const TokenModal: React.FC<TokenModalProps> = ({
     return () => clearTimeout(timeoutId);
   }, [searchQuery, searchByContractAddress, isContractAddress]);
 
-  // Get all available tokens with sorting and validation
+  // Get all available tokens with sorting
   const allTokens = useMemo(() => {
-    const officialTokens = Object.values(TOKENS);
-    
-    // Validate and normalize imported tokens
-    const validImportedTokens = importedTokens
-      .filter(token => {
-        try {
-          return isValidToken(token);
-        } catch (error) {
-          console.warn('Invalid imported token filtered out:', token);
-          return false;
-        }
-      })
-      .map(token => {
-        try {
-          return normalizeToken(token);
-        } catch (error) {
-          console.warn('Failed to normalize imported token, skipping:', token);
-          return null;
-        }
-      })
-      .filter(Boolean) as Token[];
-
-    const allAvailableTokens = [...officialTokens, ...validImportedTokens];
+    const allAvailableTokens = listedTokens.map(({ token }) => token);
     
     if (!isWalletConnected) {
       // If wallet not connected, just sort alphabetically with LOOP first
@@ -209,21 +231,25 @@ const TokenModal: React.FC<TokenModalProps> = ({
       // If both have balance or both don't have balance, sort alphabetically
       return a.symbol.localeCompare(b.symbol);
     });
-  }, [importedTokens, isWalletConnected, getTokenBalance]);
+  }, [listedTokens, isWalletConnected, getTokenBalance]);
 
   // Filter and search tokens
   const searchResults = useMemo((): SearchResult[] => {
     const query = searchQuery.toLowerCase().trim();
     const results: SearchResult[] = [];
 
+    const toResult = (token: Token): SearchResult => ({
+      type: isTokenImported(token.address) ? 'imported' : 'official',
+      token,
+      isImported: isTokenImported(token.address),
+      // Imports already carry their own badge
+      sources: tokenSources.get(token.address.toLowerCase())?.filter(source => source !== IMPORTED_SOURCE)
+    });
+
     if (!query) {
       // No search query - return all tokens
       allTokens.forEach(token => {
-        results.push({
-          type: isTokenImported(token.address) ? 'imported' : 'official',
-          token,
-          isImported: isTokenImported(token.address)
-        });
+        results.push(toResult(token));
       });
     } else if (isContractAddress(query)) {
       // Contract address search
@@ -243,11 +269,7 @@ const TokenModal: React.FC<TokenModalProps> = ({
           token.address.toLowerCase() === query
         )
         .forEach(token => {
-          results.push({
-            type: isTokenImported(token.address) ? 'imported' : 'official',
-            token,
-            isImported: isTokenImported(token.address)
-          });
+          results.push(toResult(token));
         });
     } else {
       // Text search
@@ -257,16 +279,12 @@ const TokenModal: React.FC<TokenModalProps> = ({
           token.name.toLowerCase().includes(query)
         )
         .forEach(token => {
-          results.push({
-            type: isTokenImported(token.address) ? 'imported' : 'official',
-            token,
-            isImported: isTokenImported(token.address)
-          });
+          results.push(toResult(token));
         });
     }
 
     return results;
-  }, [searchQuery, allTokens, contractSearchResult, isContractAddress, isTokenImported]);
+  }, [searchQuery, allTokens, contractSearchResult, isContractAddress, isTokenImported, tokenSources]);
 
   // Handle manual refresh
   const handleRefresh = useCallback(async () => {
@@ -365,6 +383,7 @@ const TokenModal: React.FC<TokenModalProps> = ({
       setShowImportWarning(false);
       setImportSuccess(false);
       setSearchError(null);
+      setShowManageLists(false);
     }
   }, [isOpen]);
 
@@ -376,11 +395,23 @@ const TokenModal: React.FC<TokenModalProps> = ({
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
           <h3 className="text-base font-semibold text-gray-900 dark:text-white truncate">
-            {title}
+            {showManageLists ? 'Manage Token Lists' : title}
           </h3>
           <div className="flex items-center space-x-1">
+            {/* Token Lists Button */}
+            <button
+              onClick={() => setShowManageLists(!showManageLists)}
+              className={`p-1.5 rounded-lg transition-colors ${
+                showManageLists
+                  ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400'
+              }`}
+              title="Manage token lists"
+            >
+              <List className="w-4 h-4" />
+            </button>
             {/* Refresh Button */}
-            {isWalletConnected && (
+            {isWalletConnected && !showManageLists && (
               <button
                 onClick={handleRefresh}
                 disabled={isRefreshing}
@@ -403,6 +434,20 @@ const TokenModal: React.FC<TokenModalProps> = ({
           </div>
         </div>
 
+        {showManageLists ? (
+          <div className="flex-1 overflow-y-auto min-h-0">
+            <TokenListManager
+              lists={tokenLists}
+              onAddUrl={addListFromUrl}
+              onAddFile={addListFromFile}
+              onToggle={toggleList}
+              onRemove={removeList}
+              isAdding={isAddingList}
+              error={listError}
+            />
+          </div>
+        ) : (
+        <>
         {/* Search */}
         <div className="p-3 flex-shrink-0">
           <div className="relative">
@@ -525,6 +570,7 @@ const TokenModal: React.FC<TokenModalProps> = ({
                         showCopyButton={true}
                         onCopyAddress={() => copyToClipboard(result.token.address)}
                         isImported={result.isImported}
+                        sources={result.sources}
                       />
                     </div>
                   ))}
@@ -556,11 +602,13 @@ const TokenModal: React.FC<TokenModalProps> = ({
             )}
           </div>
         </div>
+        </>
+        )}
 
         {/* Import Warning Modal */}
         {showImportWarning && contractSearchResult && (
           <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-            <div className="bg-white dark:bg-gray-800 rounded-2xl p-4 max-w-xs w-full">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl p-4 max-w-xs w-full max-h-full overflow-y-auto">
               <div className="flex items-center space-x-2 mb-3">
                 <div className="w-8 h-8 bg-yellow-100 dark:bg-yellow-900/30 rounded-full flex items-center justify-center">
                   <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
@@ -582,6 +630,11 @@ const TokenModal: React.FC<TokenModalProps> = ({
                     {contractSearchResult.address}
                   </div>
                 </div>
+                <TokenRiskPanel
+                  tokenAddress={contractSearchResult.address}
+                  tokenSymbol={getTokenDisplayName(contractSearchResult)}
+                  defaultExpanded
+                />
               </div>
               
               <div className="flex space-x-2">
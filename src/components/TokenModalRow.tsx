@@ -12,6 +12,7 @@ interface TokenModalRowProps {
   showCopyButton?: boolean;
   onCopyAddress?: () => void;
   isImported?: boolean;
+  sources?: string[];
 }
 
 const TokenModalRow: React.FC<TokenModalRowProps> = ({
@@ -23,7 +24,8 @@ const TokenModalRow: React.FC<TokenModalRowProps> = ({
   onVisible,
   showCopyButton = false,
   onCopyAddress,
-  isImported = false
+  isImported = false,
+  sources = []
 }) => {
   const rowRef = useRef<HTMLButtonElement>(null);
   const hasTriggeredRef = useRef(false);
@@ -113,8 +115,13 @@ const TokenModalRow: React.FC<TokenModalRowProps> = ({
             </span>
           )}
         </div>
-        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={sources.join(', ')}>
           {token.name}
+          {sources.length > 0 && (
+            <span className="text-gray-400 dark:text-gray-500">
+              {' • '}{sources[0]}{sources.length > 1 && ` +${sources.length - 1}`}
+            </span>
+          )}
         </div>
       </div>
       
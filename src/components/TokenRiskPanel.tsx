@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Shield, ShieldAlert, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { RiskSeverity, TokenRiskReport } from '../types';
+import { useTokenFeeDetection } from '../hooks/useTokenFeeDetection';
+
+interface TokenRiskPanelProps {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  defaultExpanded?: boolean;
+}
+
+const SEVERITY_STYLES: Record<RiskSeverity, { badge: string; dot: string; label: string }> = {
+  info: { badge: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400', dot: 'bg-green-500', label: 'Low risk' },
+  low: { badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400', dot: 'bg-blue-500', label: 'Low risk' },
+  medium: { badge: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400', dot: 'bg-yellow-500', label: 'Caution' },
+  high: { badge: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400', dot: 'bg-orange-500', label: 'High risk' },
+  critical: { badge: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400', dot: 'bg-red-500', label: 'Danger' }
+};
+
+const formatTax = (tax: number | null) => tax === null ? 'Unknown' : `${tax.toFixed(2)}%`;
+
+const TokenRiskPanel: React.FC<TokenRiskPanelProps> = ({ tokenAddress, tokenSymbol, defaultExpanded = false }) => {
+  const { scanTokenRisk, isScanning } = useTokenFeeDetection();
+  const [report, setReport] = useState<TokenRiskReport | null>(null);
+  const [scanFailed, setScanFailed] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setScanFailed(false);
+
+    scanTokenRisk(tokenAddress).then(result => {
+      if (cancelled) return;
+      setReport(result);
+      setScanFailed(result === null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenAddress, scanTokenRisk]);
+
+  const handleRescan = async () => {
+    setScanFailed(false);
+    const result = await scanTokenRisk(tokenAddress, true);
+    setReport(result);
+    setScanFailed(result === null);
+  };
+
+  const style = report ? SEVERITY_STYLES[report.riskLevel] : null;
+  const isRisky = report ? report.riskLevel === 'high' || report.riskLevel === 'critical' : false;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-3 space-y-2">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {isRisky ? (
+            <ShieldAlert className="w-4 h-4 text-red-500" />
+          ) : (
+            <Shield className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          )}
+          <span className="text-sm font-medium text-gray-900 dark:text-white">
+            {tokenSymbol ? `${tokenSymbol} Safety` : 'Token Safety'}
+          </span>
+          {style && (
+            <span className={`px-1.5 py-0.5 text-xs rounded-full font-medium ${style.badge}`}>
+              {style.label}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={handleRescan}
+          disabled={isScanning}
+          className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors disabled:opacity-50"
+          title="Rescan token"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 text-gray-500 dark:text-gray-400 ${isScanning ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {!report && !scanFailed && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">Simulating trades and checking the contract...</div>
+      )}
+
+      {scanFailed && (
+        <div className="text-xs text-red-600 dark:text-red-400">Safety scan failed. Trade with caution.</div>
+      )}
+
+      {report && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Buy tax</span>
+              <span className="font-medium text-gray-900 dark:text-white">{formatTax(report.buyTax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Sell tax</span>
+              <span className="font-medium text-gray-900 dark:text-white">{formatTax(report.sellTax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Honeypot</span>
+              <span className={`font-medium ${report.isHoneypot ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                {report.isHoneypot === null ? 'Unknown' : report.isHoneypot ? 'Yes' : 'No'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Verified</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {report.isVerified === null ? 'Unknown' : report.isVerified ? 'Yes' : 'No'}
+              </span>
+            </div>
+          </div>
+
+          {/* Findings */}
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="w-full flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <span>{report.findings.length} findings</span>
+            {isExpanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          </button>
+
+          {isExpanded && (
+            <div className="space-y-1.5">
+              {report.findings.map(finding => (
+                <div key={finding.id} className="flex items-start space-x-2">
+                  <span className={`w-2 h-2 rounded-full mt-1 flex-shrink-0 ${SEVERITY_STYLES[finding.severity].dot}`} />
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium text-gray-900 dark:text-white">{finding.title}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 break-words">{finding.description}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TokenRiskPanel;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Wallet, AlertCircle, CheckCircle, ExternalLink, RefreshCw } from 'lucide-react';
+import { LOOP_NETWORK } from '../constants/network';
 
 interface WalletModalProps {
   isOpen: boolean;
@@ -28,14 +29,6 @@ const walletOptions = [
   },
 ];
 
-const LOOP_NETWORK = {
-  chainId: '0x3CBF', // 15551 in hex
-  chainName: 'LOOP Mainnet',
-  nativeCurrency: { name: 'LOOP', symbol: 'LOOP', decimals: 18 },
-  rpcUrls: ['https://api.mainnetloop.com'],
-  blockExplorerUrls: ['https://explorer.mainnetloop.com']
-};
-
 const WalletModal: React.FC<WalletModalProps> = ({
   isOpen,
   onClose,
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { Repeat, AlertTriangle } from 'lucide-react';
+import { getDcaStats, getMissedDcaFills, loadDcaSchedules } from '../../utils/dca';
+
+interface DcaSummaryProps {
+  walletAddress: string;
+  isLoading: boolean;
+}
+
+const formatNumber = (value: number): string => {
+  if (value === 0) return '0';
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value.toPrecision(6).replace(/\.?0+$/, '');
+};
+
+// Read-only overview of the wallet's recurring buys; they are managed from the swap page
+const DcaSummary: React.FC<DcaSummaryProps> = ({ walletAddress, isLoading }) => {
+  // Re-read storage whenever the portfolio refreshes
+  const schedules = useMemo(
+    () => (isLoading ? [] : loadDcaSchedules(walletAddress)).filter(schedule => schedule.status !== 'cancelled'),
+    [walletAddress, isLoading]
+  );
+
+  if (isLoading || schedules.length === 0) return null;
+
+  const activeCount = schedules.filter(schedule => schedule.status === 'active').length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recurring Buys</h3>
+        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>{activeCount} active</span>
+          <Repeat className="w-5 h-5 text-orange-500" />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+              <th className="pb-2 font-medium">Pair</th>
+              <th className="pb-2 font-medium">Progress</th>
+              <th className="pb-2 font-medium text-right">Spent</th>
+              <th className="pb-2 font-medium text-right">Received</th>
+              <th className="pb-2 font-medium text-right">Avg. cost</th>
+              <th className="pb-2 font-medium text-right">Next buy</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {schedules.map(schedule => {
+              const stats = getDcaStats(schedule);
+              const missed = getMissedDcaFills(schedule);
+              return (
+                <tr key={schedule.id}>
+                  <td className="py-2 text-gray-900 dark:text-white">
+                    {schedule.tokenIn.symbol} → {schedule.tokenOut.symbol}
+                  </td>
+                  <td className="py-2 text-gray-600 dark:text-gray-400">
+                    {stats.fillsDone}/{schedule.totalFills}
+                  </td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">
+                    {formatNumber(stats.totalIn)} {schedule.tokenIn.symbol}
+                  </td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">
+                    {formatNumber(stats.totalOut)} {schedule.tokenOut.symbol}
+                  </td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">
+                    {stats.averageCost > 0 ? `${formatNumber(stats.averageCost)} ${schedule.tokenIn.symbol}` : '-'}
+                  </td>
+                  <td className="py-2 text-right text-gray-600 dark:text-gray-400">
+                    {schedule.status === 'completed' ? (
+                      'Completed'
+                    ) : missed > 0 ? (
+                      <span className="inline-flex items-center space-x-1 text-yellow-600 dark:text-yellow-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        <span>{missed} missed</span>
+                      </span>
+                    ) : (
+                      new Date(schedule.nextFillAt * 1000).toLocaleString()
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DcaSummary;
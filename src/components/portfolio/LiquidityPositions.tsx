@@ -8,6 +8,9 @@ interface LiquidityPositionsProps {
   isLoading: boolean;
 }
 
+const formatSignedUsd = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+const formatSignedPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
 const LiquidityPositions: React.FC<LiquidityPositionsProps> = ({ positions, isLoading }) => {
   const [isRemoveModalOpen, setIsRemoveModalOpen] = useState(false);
   const [selectedPosition, setSelectedPosition] = useState<LiquidityPosition | null>(null);
@@ -151,7 +154,7 @@ const LiquidityPositions: React.FC<LiquidityPositionsProps> = ({ positions, isLo
                     
                     <div className="text-right">
                       <div className="font-medium text-gray-900 dark:text-white">
-                        ${position.value.toFixed(2)}
+                        {position.value === null ? '--' : `$${position.value.toFixed(2)}`}
                       </div>
                       <div className="flex items-center space-x-1">
                         <div className="text-sm bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 px-2 py-1 rounded-full">
@@ -164,13 +167,41 @@ const LiquidityPositions: React.FC<LiquidityPositionsProps> = ({ positions, isLo
                     </div>
                   </div>
                   
+                  {position.pnl && (
+                    <div className="grid grid-cols-3 gap-2 text-xs bg-gray-50 dark:bg-gray-700/50 rounded-lg p-2">
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">Net P&L</div>
+                        <div className={`font-medium ${position.pnl.netPnlUsd >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {formatSignedUsd(position.pnl.netPnlUsd)} ({formatSignedPercent(position.pnl.netPnlPercent)})
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">Impermanent Loss</div>
+                        <div className={`font-medium ${position.pnl.impermanentLossUsd < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                          {formatSignedUsd(position.pnl.impermanentLossUsd)} ({formatSignedPercent(position.pnl.impermanentLossPercent)})
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">Entry / HODL</div>
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          ${position.pnl.entryValueUsd.toFixed(2)} / ${position.pnl.hodlValueUsd.toFixed(2)}
+                        </div>
+                      </div>
+                      {!position.pnl.isComplete && (
+                        <div className="col-span-3 text-yellow-600 dark:text-yellow-400">
+                          Part of this LP balance is not in your indexed history - figures assume the same entry
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between text-sm">
                     <div className="flex items-center space-x-4">
                       <span className="text-gray-500 dark:text-gray-400">
                         Pool Share: {position.poolShare.toFixed(4)}%
                       </span>
                       <span className="text-blue-600 dark:text-blue-400">
-                        Rewards: ${position.rewards.toFixed(2)}
+                        Fees: {position.pnl ? `$${position.rewards.toFixed(2)}` : '--'}
                       </span>
                       <span className="text-purple-600 dark:text-purple-400">
                         ReachSwap
@@ -42,14 +42,16 @@ const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transactions, i
     switch (tx.type) {
       case 'swap':
         // Check if this is a wrap/unwrap transaction
-        if ((tx as any).isWrapUnwrap) {
-          const wrapType = (tx as any).wrapUnwrapType;
-          if (wrapType === 'wrap') {
+        if (tx.isWrapUnwrap) {
+          if (tx.wrapUnwrapType === 'wrap') {
             return `Wrapped ${tx.amount} ${tx.from} → ${tx.to}`;
-          } else if (wrapType === 'unwrap') {
+          } else if (tx.wrapUnwrapType === 'unwrap') {
             return `Unwrapped ${tx.amount} ${tx.from} → ${tx.to}`;
           }
         }
+        if (tx.amountOut) {
+          return `Swap ${tx.amount} ${tx.from} → ${tx.amountOut} ${tx.to}`;
+        }
         return `Swap ${tx.from} → ${tx.to}`;
       case 'add':
         return `Add Liquidity to ${tx.pair}`;
@@ -157,7 +159,7 @@ const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transactions, i
                       )}
                       <span className="inline-flex items-center space-x-1 text-xs bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 px-1.5 py-0.5 rounded-full">
                           <Zap className="w-2.5 h-2.5" />
-                          <span>via ReachSwap</span>
+                          <span>via {tx.routedThroughSphynx ? 'Sphynx' : 'ReachSwap'}</span>
                       </span>
                       <button 
                         onClick={() => handleViewTransaction(tx.hash)}
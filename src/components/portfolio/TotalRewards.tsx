@@ -1,17 +1,29 @@
 import React from 'react';
 import { Gift, TrendingUp } from 'lucide-react';
+import { LiquidityPosition } from '../../hooks/usePortfolioData';
+import { REACHSWAP_FEES } from '../../constants/reachswap';
 
 interface TotalRewardsProps {
   totalRewards: number;
   rewardsToday: number;
+  positions: LiquidityPosition[];
   isLoading: boolean;
 }
 
+const formatSignedUsd = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
 const TotalRewards: React.FC<TotalRewardsProps> = ({ 
   totalRewards, 
   rewardsToday, 
+  positions,
   isLoading 
 }) => {
+  // Only positions with entries in the indexed history can be accounted
+  const trackedPositions = positions.filter(position => position.pnl);
+  const impermanentLoss = trackedPositions.reduce((sum, position) => sum + position.pnl!.impermanentLossUsd, 0);
+  const netPnl = trackedPositions.reduce((sum, position) => sum + position.pnl!.netPnlUsd, 0);
+  const lpFeePercent = (REACHSWAP_FEES.SWAP_FEE - REACHSWAP_FEES.PROTOCOL_FEE) / 100;
+
   if (isLoading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-gray-200 dark:border-gray-700">
@@ -31,7 +43,7 @@ const TotalRewards: React.FC<TotalRewardsProps> = ({
     <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-gray-200 dark:border-gray-700">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400">
-          Total Rewards
+          Fees Earned
         </h3>
         <Gift className="w-5 h-5 text-blue-500" />
       </div>
@@ -47,14 +59,31 @@ const TotalRewards: React.FC<TotalRewardsProps> = ({
             +${rewardsToday.toFixed(2)} today
           </span>
         </div>
+
+        {trackedPositions.length > 0 && (
+          <div className="pt-2 space-y-1 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Impermanent loss</span>
+              <span className={impermanentLoss < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}>
+                {formatSignedUsd(impermanentLoss)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Net LP P&L</span>
+              <span className={netPnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                {formatSignedUsd(netPnl)}
+              </span>
+            </div>
+          </div>
+        )}
       </div>
       
       <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
         <div className="text-xs text-blue-700 dark:text-blue-300">
           <p className="font-medium mb-1">Liquidity Rewards</p>
           <p>
-            Earn 0.3% of trading fees from your liquidity positions. 
-            Rewards compound automatically.
+            Your share of the {lpFeePercent}% swap fee is added to the pool reserves and paid out when you
+            remove liquidity. Fees are measured from reserve growth per LP token since your deposits.
           </p>
         </div>
       </div>
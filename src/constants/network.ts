@@ -0,0 +1,40 @@
+// LOOP Mainnet network configuration
+export const LOOP_NETWORK = {
+  chainId: '0x3CBF', // 15551 in hex
+  chainName: 'LOOP Mainnet',
+  nativeCurrency: { name: 'LOOP', symbol: 'LOOP', decimals: 18 },
+  rpcUrls: ['https://api.mainnetloop.com'],
+  blockExplorerUrls: ['https://explorer.mainnetloop.com']
+};
+
+// Read-only JSON-RPC transport settings
+export const RPC_CONFIG = {
+  REQUEST_TIMEOUT: 15000, // 15 seconds
+  URL_STORAGE_KEY: 'reachswap_rpc_url' // Optional override, e.g. a local node for testing
+};
+
+// Multicall aggregator used by useOptimizedMulticall (Multicall2 or Multicall3 - both expose tryAggregate)
+export const MULTICALL_CONFIG = {
+  ADDRESS: '0xcA11bde05977b3631167028862bE2a173976CA11', // Canonical Multicall3 address; checked for code before use
+  ADDRESS_STORAGE_KEY: 'reachswap_multicall_address', // Optional override for a custom deployment
+  MAX_CALLS_PER_AGGREGATE: 100,
+  MAX_REQUESTS_PER_RPC_BATCH: 50
+};
+
+// Gas engine - fee presets from eth_feeHistory (type-2) or eth_gasPrice (legacy), and gas limits
+// learned from the wallet's own receipts
+export const GAS_CONFIG = {
+  FEE_HISTORY_BLOCKS: 20,
+  REWARD_PERCENTILES: { slow: 10, standard: 50, fast: 90 }, // Priority fee percentile per speed
+  LEGACY_MULTIPLIERS: { slow: 1, standard: 1.1, fast: 1.3 }, // Applied to eth_gasPrice
+  LEGACY_CONFIRMATION_BLOCKS: { slow: 6, standard: 3, fast: 1 },
+  BASE_FEE_HEADROOM: 2,            // maxFeePerGas still covers a base fee that doubles before inclusion
+  DEFAULT_BLOCK_TIME: 3,           // Seconds, until measured
+  CACHE_TTL: 15 * 1000,
+  DEFAULT_SPEED: 'standard' as 'slow' | 'standard' | 'fast',
+  SPEED_STORAGE_KEY: 'reachswap_gas_speed',
+  USAGE_STORAGE_KEY: 'reachswap_gas_usage',
+  MAX_USAGE_SAMPLES: 10,           // Receipts remembered per contract call
+  LIMIT_BUFFER: 1.2,               // Headroom over the most gas a call has used
+  DEFAULT_GAS_LIMIT: 300000        // Only for calls that can neither be estimated nor were seen before
+};
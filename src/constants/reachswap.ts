@@ -94,10 +94,34 @@ export const REACHSWAP_FEES = {
   PROTOCOL_FEE: 0, // No protocol fee initially
 };
 
-// Router priority configuration
+// Router priority configuration - only breaks ties between equal quotes,
+// routing otherwise picks the better net output
 export const ROUTER_PRIORITY = {
-  REACHSWAP: 1, // Highest priority - use ReachSwap first
-  SPHYNX: 2,    // Fallback to Sphynx if ReachSwap doesn't have liquidity
+  REACHSWAP: 1, // Preferred when outputs are equal
+  SPHYNX: 2,
+};
+
+// Multi-hop route search configuration
+export const ROUTE_SEARCH_CONFIG = {
+  MAX_HOPS: 3,                 // Maximum pairs in a single route (4 tokens)
+  MAX_CANDIDATES_PER_ROUTER: 12, // Shortest paths quoted per router
+  PAIR_CACHE_TTL: 5 * 60 * 1000, // Pair existence cache (5 minutes)
+  ROUTE_CACHE_TTL: 30 * 1000,    // Chosen route cache (30 seconds)
+};
+
+// Split-route configuration for large trades on thin pools
+export const SPLIT_ROUTE_CONFIG = {
+  STEPS: 10,                    // Order is allocated in 10% slices
+  MAX_ROUTES: 4,                // Pool-disjoint routes considered across both routers
+  MIN_PRICE_IMPACT: 1,          // Only try splitting above 1% single-route impact
+  MIN_IMPROVEMENT_PERCENT: 0.25 // Splitting must beat the best single route by 0.25%
+};
+
+// Gas units used to price a swap when comparing router quotes
+export const QUOTE_GAS_UNITS = {
+  BASE_SWAP: 120000,      // Single-pair swap
+  PER_EXTRA_HOP: 70000,   // Each additional pair in the path
+  FEE_ON_TRANSFER: 40000, // Supporting-fee variants re-read balances
 };
 
 // Function signatures for ReachSwap router
@@ -126,4 +150,67 @@ export const REACHSWAP_FUNCTION_SIGNATURES = {
   getAmountsIn: '0x1f00ca74',
   getAmountOut: '0x054d50d4',
   getAmountIn: '0x85f8c259'
-};
\ No newline at end of file
+};
+// LOOP/USD price oracle - LOOP is priced against the deepest wLOOP/stablecoin pair
+export const PRICE_ORACLE_CONFIG = {
+  STABLE_SYMBOLS: ['USDT', 'USDC', 'DAI', 'BUSD', 'USDC.E', 'USDT.E'], // Built-in and enabled token list tokens with these symbols are stablecoin candidates
+  MIN_STABLE_LIQUIDITY: 1000,      // Stablecoins a wLOOP pair must hold to price LOOP
+  STABLE_PAIR_TTL: 10 * 60 * 1000, // Candidate pairs are re-checked every 10 minutes
+  USE_TWAP: false,                 // Average price0/1CumulativeLast over TWAP_WINDOW instead of spot reserves
+  TWAP_WINDOW: 30 * 60,            // TWAP window in seconds
+  CACHE_TTL: 60 * 1000,            // Oracle price cache (1 minute)
+  FALLBACK_PRICE: 0.15             // Used while no stable pair is readable; the UI flags USD values as estimates
+};
+
+// Pool explorer - pairs enumerated from the ReachSwap and Sphynx factories
+export const POOL_EXPLORER_CONFIG = {
+  PAIRS_PAGE_SIZE: 500,            // Pairs listed per factory at first, newest first; each "load more" adds as many
+  VOLUME_WINDOW: 24 * 60 * 60,     // Swap events aggregated over the last 24 hours
+  CACHE_TTL: 2 * 60 * 1000         // Pool list is reused for 2 minutes
+};
+
+// Pool analytics - volume, LP fees and APR from pair Swap events
+export const POOL_ANALYTICS_CONFIG = {
+  LOG_PAGE_SIZE: 5000,             // Blocks per eth_getLogs page
+  MIN_LOG_PAGE_SIZE: 250,          // Pages shrink on RPC range/result limits, down to this size
+  PARALLEL_PAGES: 4,               // Pages requested at once
+  MAX_FILTER_ADDRESSES: 50,        // Larger pair sets query by topic only and filter locally
+  CACHE_TTL: 5 * 60 * 1000         // Analytics are reused for 5 minutes
+};
+
+// Swap price charts - OHLC candles from pair Sync and Swap events
+export const PRICE_CHART_CONFIG = {
+  INTERVAL_SECONDS: { '1h': 3600, '4h': 4 * 3600, '1d': 24 * 3600 },
+  CANDLE_COUNT: { '1h': 48, '4h': 42, '1d': 30 },
+  LOG_PAGE_SIZE: 5000,             // Blocks per eth_getLogs page
+  MIN_LOG_PAGE_SIZE: 250,          // Pages shrink on RPC range/result limits, down to this size
+  PARALLEL_PAGES: 4,               // Pages requested at once
+  REFRESH_INTERVAL: 60 * 1000      // New blocks are fetched every minute while the chart is open
+};
+
+// Limit orders - signed off-chain (EIP-712), stored per wallet and filled through the ReachSwap router
+export const LIMIT_ORDER_CONFIG = {
+  STORAGE_KEY_PREFIX: 'reachswap_limit_orders_',
+  CHECK_INTERVAL: 15 * 1000,       // Open orders are matched against reserves every 15 seconds
+  RETRY_DELAY: 60 * 1000,          // Wait after a failed fill before trying the same order again
+  MAX_FILL_ATTEMPTS: 3,            // Failed fills before an order is paused until the user resumes it
+  DEFAULT_EXPIRY_HOURS: 24 * 7,
+  DOMAIN_NAME: 'ReachSwap Limit Orders',
+  DOMAIN_VERSION: '1',
+  CHAIN_ID: 15551                  // LOOP Mainnet
+};
+
+// Recurring buys (DCA) - schedules are stored per wallet and filled through useSwapExecution
+export const DCA_CONFIG = {
+  STORAGE_KEY_PREFIX: 'reachswap_dca_',
+  CHECK_INTERVAL: 30 * 1000,       // Due fills are looked for every 30 seconds
+  INTERVALS: [
+    { seconds: 3600, label: 'Hourly' },
+    { seconds: 24 * 3600, label: 'Daily' },
+    { seconds: 7 * 24 * 3600, label: 'Weekly' },
+    { seconds: 14 * 24 * 3600, label: 'Every 2 weeks' },
+    { seconds: 30 * 24 * 3600, label: 'Monthly' }
+  ],
+  MAX_FILLS: 520,
+  DEFAULT_SLIPPAGE: '1'            // Percent
+};
@@ -96,12 +96,22 @@ export const SPHYNX_FEES = {
 
 // Function signature mappings for dynamic detection
 export const FEE_FUNCTION_SIGNATURES = {
-  '_taxFee': '0x83e3bdb4',
-  '_liquidityFee': '0x28c61f41',
-  '_burnFee': '0x4549b039',
+  // Fee getters (no arguments) - a non-zero value suggests a transfer tax
+  '_taxFee': '0x3b124fe7',
+  '_liquidityFee': '0x6bc87c3a',
+  '_burnFee': '0xc0b0fda2',
+  'buyTotalFees': '0xd85ba063',
+  'sellTotalFees': '0x6a486a8e',
+  'buyFee': '0x47062402',
+  'sellFee': '0x2b14ca56',
+  'buyTaxFee': '0x941fa5cd',
+  'sellTaxFee': '0xf8a25a94',
+  // Per-address checks (take an address argument)
   'isExcludedFromFee': '0x5342acb4',
-  '_isExcluded': '0x437823ec',
-  '_rOwned': '0x88f82020',
-  'sellTaxFee': '0x8da5cb5b', // Example - actual signature may vary
-  'buyTaxFee': '0x70a08231', // Example - actual signature may vary
-};
\ No newline at end of file
+  'isExcludedFromReward': '0x88f82020',
+};
+
+// Fee getters probed by useTokenFeeDetection
+export const FEE_GETTER_NAMES: (keyof typeof FEE_FUNCTION_SIGNATURES)[] = [
+  '_taxFee', '_liquidityFee', '_burnFee', 'buyTotalFees', 'sellTotalFees', 'buyFee', 'sellFee', 'buyTaxFee', 'sellTaxFee'
+];
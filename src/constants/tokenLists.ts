@@ -0,0 +1,29 @@
+import { TokenList } from '../types';
+import { TOKENS } from './tokens';
+
+export const TOKEN_LIST_CONFIG = {
+  CHAIN_ID: 15551, // LOOP Mainnet - tokens for other chains are ignored
+  STORAGE_KEY: 'reachswap_token_lists',
+  MAX_TOKENS: 10000, // Schema limit per list
+  FETCH_TIMEOUT: 15000, // 15 seconds
+  MAX_FILE_SIZE: 5 * 1024 * 1024 // 5 MB
+};
+
+// Default ReachSwap list, published from the built-in TOKENS
+export const REACHSWAP_DEFAULT_LIST: TokenList = {
+  name: 'ReachSwap Default',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  keywords: ['reachswap', 'loop'],
+  tokens: Object.values(TOKENS).map(token => ({
+    chainId: TOKEN_LIST_CONFIG.CHAIN_ID,
+    address: token.address,
+    name: token.name,
+    decimals: token.decimals,
+    symbol: token.symbol,
+    logoURI: token.logoUrl
+  }))
+};
+
+// Lists shipped with the app; users can disable them but not remove them
+export const BUNDLED_TOKEN_LISTS: TokenList[] = [REACHSWAP_DEFAULT_LIST];
@@ -0,0 +1,61 @@
+// Buy/sell tax measurement through router eth_call simulations
+export const TAX_SIMULATION_CONFIG = {
+  MAX_BUY_LOOP: 10,                // Simulated buy size cap in LOOP
+  BUY_RESERVE_FRACTION: 1000,      // ...and at most 0.1% of the pair's wLOOP reserve
+  SEARCH_ITERATIONS: 14,           // amountOutMin bisection steps (~0.01% precision)
+  MAX_STORAGE_SLOT: 30,            // Balance/allowance mapping slots probed with state overrides
+  FALLBACK_SENDER: '0x3936D20a39eD4b0d44EaBfC91757B182f14A38d5', // wLOOP holds native LOOP when state overrides are unsupported
+  MIN_FEE: 0.001,                  // Measured fees below 0.1% are rounding, not a tax
+  CACHE_TTL: 60 * 60 * 1000,       // Measurements are reused for 1 hour
+  MAX_STORED: 200,
+  STORAGE_KEY: 'reachswap_measured_taxes'
+};
+
+// Token risk scanner configuration
+export const TOKEN_RISK_CONFIG = {
+  CACHE_TTL: 10 * 60 * 1000,       // Reports are reused for 10 minutes
+  EXPLORER_API: 'https://explorer.mainnetloop.com/api',
+  EXPLORER_TIMEOUT: 8000,
+  HIGH_TAX: 10,                    // Percent at or above which a tax is high severity
+  MEDIUM_TAX: 5,
+  LOW_TAX: 0.5                     // Below this a measured tax is treated as rounding
+};
+
+// Addresses that mean ownership has been renounced
+export const RENOUNCED_OWNERS = [
+  '0x0000000000000000000000000000000000000000',
+  '0x000000000000000000000000000000000000dead'
+];
+
+// Function selectors looked up in the token bytecode (PUSH4 <selector> in the dispatcher)
+export const RISK_FUNCTION_SELECTORS = {
+  BLACKLIST: {
+    '0xf9f92be4': 'blacklist(address)',
+    '0x44337ea1': 'addToBlacklist(address)',
+    '0x153b0d1e': 'setBlacklist(address,bool)',
+    '0x455a4396': 'blacklistAddress(address,bool)',
+    '0xfe575a87': 'isBlacklisted(address)',
+    '0x1cdd3be3': '_isBlacklisted(address)',
+    '0xd34628cc': 'addBots(address[])',
+    '0xb515566a': 'setBots(address[])',
+    '0xbfd79284': 'bots(address)',
+    '0x3bbac579': 'isBot(address)'
+  },
+  REFLECTION: {
+    '0x4549b039': 'reflectionFromToken(uint256,bool)',
+    '0x2d838119': 'tokenFromReflection(uint256)',
+    '0x52390c02': 'excludeFromReward(address)',
+    '0x88f82020': 'isExcludedFromReward(address)',
+    '0x3bd5d173': 'deliver(uint256)'
+  },
+  MAX_TX_SETTERS: {
+    '0xec28438a': 'setMaxTxAmount(uint256)',
+    '0xd543dbeb': 'setMaxTxPercent(uint256)'
+  }
+} as const;
+
+// View functions returning a max transaction / wallet amount
+export const MAX_AMOUNT_GETTERS = {
+  MAX_TX: ['0x7d1db4a5', '0x8c0b5e22', '0xc8c8ebe4'],   // _maxTxAmount(), maxTxAmount(), maxTransactionAmount()
+  MAX_WALLET: ['0x8f9a55c0', '0xaa4bde28', '0x6c0a24eb'] // _maxWalletSize(), maxWalletAmount(), _maxWalletAmount()
+};
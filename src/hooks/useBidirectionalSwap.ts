@@ -1,6 +1,8 @@
 import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
 import { Token } from '../types';
 import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface SwapQuote {
   amountOut: string;
@@ -9,8 +11,15 @@ interface SwapQuote {
   gasEstimate: string;
   router: 'sphynx' | 'reachswap';
   liquidityAvailable: boolean;
+  amountInWei?: string; // Reverse quotes: unrounded required input
 }
 
+const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+
+// Router paths use wLOOP in place of native LOOP
+const toRouterPath = (tokenIn: Token, tokenOut: Token): string[] =>
+  [tokenIn.address, tokenOut.address].map(address => (address === NATIVE_LOOP ? SPHYNX_CONTRACTS.WLOOP : address));
+
 interface UseBidirectionalSwapReturn {
   calculateForwardQuote: (
     tokenIn: Token,
@@ -30,25 +39,10 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
   const [isCalculating, setIsCalculating] = useState(false);
   const [quoteError, setQuoteError] = useState<string | null>(null);
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Get pair reserves for accurate calculations
   const getPairReserves = useCallback(async (tokenA: string, tokenB: string) => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       // Get pair address
@@ -109,7 +103,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
       console.error('Error getting pair reserves:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Get amounts out (forward calculation: From → To)
   const getSphynxAmountsOut = useCallback(async (
@@ -117,7 +111,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
     path: string[]
   ): Promise<string[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       const getAmountsOutSignature = '0xd06ca61f'; // getAmountsOut(uint256,address[])
@@ -157,7 +151,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
       console.error('Error getting Sphynx amounts out:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // CRITICAL FIX: Get amounts in (reverse calculation: To → From) using live reserves
   const getSphynxAmountsIn = useCallback(async (
@@ -165,7 +159,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
     path: string[]
   ): Promise<string[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       // ENHANCED: Use getAmountsIn for accurate reverse calculation
@@ -206,7 +200,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
       console.error('Error getting Sphynx amounts in:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Calculate forward quote (From → To)
   const calculateForwardQuote = useCallback(async (
@@ -251,12 +245,12 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
     setQuoteError(null);
 
     try {
-      const amountOutWei = BigInt(parseFloat(amountOut) * Math.pow(10, tokenOut.decimals)).toString();
-      const path = [tokenIn.address, tokenOut.address];
+      const amountOutWei = ethers.parseUnits(amountOut, tokenOut.decimals).toString();
+      const path = toRouterPath(tokenIn, tokenOut);
 
       // CRITICAL FIX: Verify liquidity exists before calculating
       try {
-        await getPairReserves(tokenIn.address, tokenOut.address);
+        await getPairReserves(path[0], path[1]);
       } catch (error) {
         console.log('No liquidity available for reverse calculation');
         return {
@@ -282,7 +276,8 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
         priceImpact: 0.1,
         gasEstimate: '0.002',
         router: 'sphynx',
-        liquidityAvailable: true
+        liquidityAvailable: true,
+        amountInWei: amountIn
       };
     } catch (error: any) {
       console.error('Reverse calculation failed:', error);
@@ -291,7 +286,7 @@ export const useBidirectionalSwap = (): UseBidirectionalSwapReturn => {
       // Return failed quote instead of throwing
       return {
         amountOut: '0',
-        path: [tokenIn.address, tokenOut.address],
+        path: toRouterPath(tokenIn, tokenOut),
         priceImpact: 0,
         gasEstimate: '0.002',
         router: 'sphynx',
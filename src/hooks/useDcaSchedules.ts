@@ -0,0 +1,234 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { DcaFill, DcaSchedule, Token } from '../types';
+import { DCA_CONFIG } from '../constants/reachswap';
+import { useSwapExecution } from './useSwapExecution';
+import { useUniversalRouter } from './useUniversalRouter';
+import { waitForTransaction } from '../utils/web3Utils';
+import { InvalidInputError, TxError, formatTxError, toTxError } from '../utils/txErrors';
+import {
+  isDcaFillDue,
+  loadDcaSchedules,
+  readSwapOutput,
+  recordDcaFill,
+  saveDcaSchedules,
+  skipMissedDcaFills
+} from '../utils/dca';
+
+interface CreateDcaScheduleParams {
+  tokenIn: Token;
+  tokenOut: Token;
+  amountPerFill: string;
+  totalFills: number;
+  intervalSeconds: number;
+  maxSlippage: string;
+}
+
+interface UseDcaSchedulesReturn {
+  schedules: DcaSchedule[];
+  createSchedule: (params: CreateDcaScheduleParams) => DcaSchedule | null;
+  cancelSchedule: (id: string) => void;
+  fillMissedNow: (id: string) => Promise<void>;
+  skipMissed: (id: string) => void;
+  executingScheduleId: string | null;
+  error: TxError | null;
+}
+
+// Recurring buys of the connected wallet; due fills run through useSwapExecution while the app is open
+export const useDcaSchedules = (isWalletConnected: boolean): UseDcaSchedulesReturn => {
+  const [schedules, setSchedules] = useState<DcaSchedule[]>([]);
+  const [executingScheduleId, setExecutingScheduleId] = useState<string | null>(null);
+  const [error, setError] = useState<TxError | null>(null);
+
+  const { executeSwap } = useSwapExecution();
+  const { getRouterForPair } = useUniversalRouter();
+  const isExecutingRef = useRef(false);
+
+  const getOwner = () => localStorage.getItem('reachswap_wallet_address');
+
+  // Storage is the source of truth - every update re-reads it so concurrent changes are kept
+  const updateSchedule = useCallback((owner: string, id: string, update: (schedule: DcaSchedule) => DcaSchedule) => {
+    const next = loadDcaSchedules(owner).map(schedule => schedule.id === id ? update(schedule) : schedule);
+    saveDcaSchedules(owner, next);
+    setSchedules(next);
+  }, []);
+
+  // Buy one interval at the best quoted route, bounded by the schedule's max slippage
+  const executeFill = useCallback(async (owner: string, schedule: DcaSchedule) => {
+    if (isExecutingRef.current) return;
+    isExecutingRef.current = true;
+    setExecutingScheduleId(schedule.id);
+
+    const scheduledFor = schedule.nextFillAt;
+    const baseFill = { scheduledFor, amountIn: schedule.amountPerFill };
+    let fill: DcaFill;
+
+    try {
+      console.log(`🔁 DCA fill: ${schedule.amountPerFill} ${schedule.tokenIn.symbol} → ${schedule.tokenOut.symbol}`);
+
+      const route = await getRouterForPair(schedule.tokenIn, schedule.tokenOut, schedule.amountPerFill);
+      if (!route.pairExists || !route.expectedAmountOut) {
+        throw new Error(`No route for ${schedule.tokenIn.symbol}/${schedule.tokenOut.symbol}`);
+      }
+
+      const slippageBps = BigInt(Math.round(parseFloat(schedule.maxSlippage) * 100));
+      const amountOutMinWei = BigInt(route.expectedAmountOut) * (BigInt(10000) - slippageBps) / BigInt(10000);
+
+      const result = await executeSwap({
+        tokenIn: schedule.tokenIn,
+        tokenOut: schedule.tokenOut,
+        amountIn: schedule.amountPerFill,
+        amountOutMin: ethers.formatUnits(amountOutMinWei, schedule.tokenOut.decimals),
+        slippage: schedule.maxSlippage,
+        routerUsed: route.router,
+        path: route.path,
+        hasFeeOnTransfer: false, // Detected again by the swap itself
+        amountInWei: ethers.parseUnits(schedule.amountPerFill, schedule.tokenIn.decimals).toString(),
+        amountOutMinWei: amountOutMinWei.toString()
+      });
+
+      if (!result.success || !result.txHash) {
+        throw result.error || new Error('Swap failed');
+      }
+
+      await waitForTransaction(result.txHash, 60);
+      const receivedWei = await readSwapOutput(result.txHash, owner, schedule.tokenOut);
+      if (receivedWei === null) {
+        throw new Error(`Swap ${result.txHash} did not confirm`);
+      }
+
+      const amountOut = ethers.formatUnits(receivedWei, schedule.tokenOut.decimals);
+      fill = {
+        ...baseFill,
+        executedAt: Date.now(),
+        status: 'filled',
+        amountOut,
+        price: parseFloat(amountOut) / parseFloat(schedule.amountPerFill),
+        txHash: result.txHash,
+        router: route.router
+      };
+      console.log(`✅ DCA fill received ${amountOut} ${schedule.tokenOut.symbol}`);
+    } catch (fillError) {
+      console.error('DCA fill failed:', fillError);
+      fill = {
+        ...baseFill,
+        executedAt: Date.now(),
+        status: 'failed',
+        error: formatTxError(toTxError(fillError))
+      };
+    } finally {
+      isExecutingRef.current = false;
+      setExecutingScheduleId(null);
+    }
+
+    // The schedule may have been cancelled while the swap was pending
+    updateSchedule(owner, schedule.id, current =>
+      current.status === 'active' && current.nextFillAt === scheduledFor ? recordDcaFill(current, fill) : current
+    );
+  }, [getRouterForPair, executeSwap, updateSchedule]);
+
+  const createSchedule = useCallback((params: CreateDcaScheduleParams): DcaSchedule | null => {
+    const owner = getOwner();
+    if (!isWalletConnected || !owner) {
+      setError(new InvalidInputError('Connect your wallet to schedule recurring buys'));
+      return null;
+    }
+
+    const amount = parseFloat(params.amountPerFill);
+    const slippage = parseFloat(params.maxSlippage);
+    if (!(amount > 0)) {
+      setError(new InvalidInputError('Enter an amount per buy'));
+      return null;
+    }
+    if (!Number.isInteger(params.totalFills) || params.totalFills < 1 || params.totalFills > DCA_CONFIG.MAX_FILLS) {
+      setError(new InvalidInputError(`Number of buys must be between 1 and ${DCA_CONFIG.MAX_FILLS}`));
+      return null;
+    }
+    if (!(slippage > 0) || slippage >= 50) {
+      setError(new InvalidInputError('Max slippage must be between 0 and 50%'));
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const schedule: DcaSchedule = {
+      id: `dca_${Date.now()}`,
+      owner,
+      tokenIn: params.tokenIn,
+      tokenOut: params.tokenOut,
+      amountPerFill: params.amountPerFill,
+      totalFills: params.totalFills,
+      intervalSeconds: params.intervalSeconds,
+      maxSlippage: params.maxSlippage,
+      createdAt: Date.now(),
+      nextFillAt: now, // The first buy runs right away
+      status: 'active',
+      fills: []
+    };
+
+    const next = [schedule, ...loadDcaSchedules(owner)];
+    saveDcaSchedules(owner, next);
+    setSchedules(next);
+    setError(null);
+    console.log(`✅ DCA schedule created: ${params.totalFills} × ${params.amountPerFill} ${params.tokenIn.symbol} → ${params.tokenOut.symbol}`);
+    return schedule;
+  }, [isWalletConnected]);
+
+  const cancelSchedule = useCallback((id: string) => {
+    const owner = getOwner();
+    if (!owner) return;
+    updateSchedule(owner, id, schedule => ({ ...schedule, status: 'cancelled' }));
+  }, [updateSchedule]);
+
+  // Skip the missed intervals and buy the current one now
+  const fillMissedNow = useCallback(async (id: string) => {
+    const owner = getOwner();
+    if (!owner) return;
+
+    updateSchedule(owner, id, schedule => skipMissedDcaFills(schedule));
+    const schedule = loadDcaSchedules(owner).find(current => current.id === id);
+    if (schedule && isDcaFillDue(schedule)) {
+      await executeFill(owner, schedule);
+    }
+  }, [updateSchedule, executeFill]);
+
+  // Skip the missed intervals and the current one; the next buy is at the following interval
+  const skipMissed = useCallback((id: string) => {
+    const owner = getOwner();
+    if (!owner) return;
+    updateSchedule(owner, id, schedule => skipMissedDcaFills(schedule, true));
+  }, [updateSchedule]);
+
+  // Only schedules on time fill automatically - missed ones wait for fillMissedNow or skipMissed
+  const checkSchedules = useCallback(async () => {
+    const owner = getOwner();
+    if (!owner || isExecutingRef.current) return;
+
+    const due = loadDcaSchedules(owner).find(schedule => isDcaFillDue(schedule));
+    if (due) await executeFill(owner, due);
+  }, [executeFill]);
+
+  // Load the wallet's schedules on connect
+  useEffect(() => {
+    const owner = getOwner();
+    setSchedules(isWalletConnected && owner ? loadDcaSchedules(owner) : []);
+  }, [isWalletConnected]);
+
+  const hasActiveSchedules = schedules.some(schedule => schedule.status === 'active');
+  useEffect(() => {
+    if (!isWalletConnected || !hasActiveSchedules) return;
+
+    checkSchedules();
+    const timer = setInterval(checkSchedules, DCA_CONFIG.CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isWalletConnected, hasActiveSchedules, checkSchedules]);
+
+  return {
+    schedules,
+    createSchedule,
+    cancelSchedule,
+    fillMissedNow,
+    skipMissed,
+    executingScheduleId,
+    error
+  };
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { Token } from '../types';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface TokenDecimalsCache {
   [address: string]: {
@@ -33,21 +34,6 @@ export const useDynamicTokenDecimals = (): UseDynamicTokenDecimalsReturn => {
   
   const fetchingRef = useRef<Set<string>>(new Set());
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Save cache to localStorage
   const saveCache = useCallback((cache: TokenDecimalsCache) => {
     try {
@@ -92,7 +78,7 @@ export const useDynamicTokenDecimals = (): UseDynamicTokenDecimalsReturn => {
     fetchingRef.current.add(normalizedAddress);
 
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         throw new Error('No provider available');
       }
@@ -157,7 +143,7 @@ export const useDynamicTokenDecimals = (): UseDynamicTokenDecimalsReturn => {
     } finally {
       fetchingRef.current.delete(normalizedAddress);
     }
-  }, [decimalsCache, getProvider, saveCache]);
+  }, [decimalsCache, saveCache]);
 
   // Get decimals for a token (from cache or fetch)
   const getTokenDecimals = useCallback((token: Token): number => {
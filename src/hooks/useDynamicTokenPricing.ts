@@ -3,6 +3,8 @@ import { Token } from '../types';
 import { SPHYNX_CONTRACTS } from '../constants/sphynx';
 import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
 import { useUniversalRouter } from './useUniversalRouter';
+import { getReadProvider } from '../utils/rpcProvider';
+import { getLoopUsdPrice } from '../utils/priceOracle';
 
 interface TokenPrice {
   price: number;
@@ -20,28 +22,12 @@ interface UseDynamicTokenPricingReturn {
 }
 
 const PRICE_CACHE_TTL = 30000; // 30 seconds cache
-const LOOP_REFERENCE_PRICE = 0.15; // Base reference price for LOOP
 
 export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
   const [priceCache, setPriceCache] = useState<{ [address: string]: TokenPrice }>({});
   const fetchingRef = useRef<Set<string>>(new Set());
   const { getRouterForPair } = useUniversalRouter();
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Get pair reserves for price calculation
   const getPairReserves = useCallback(async (
     factoryAddress: string,
@@ -49,7 +35,7 @@ export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
     tokenB: string
   ): Promise<{ reserve0: string; reserve1: string; token0: string; token1: string } | null> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return null;
 
       // Get pair address
@@ -110,7 +96,7 @@ export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
       console.error('Error getting pair reserves:', error);
       return null;
     }
-  }, [getProvider]);
+  }, []);
 
   // Calculate token price from reserves
   const calculatePriceFromReserves = useCallback((
@@ -155,12 +141,16 @@ export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
       return;
     }
 
-    // Handle native LOOP
-    if (token.address === '0x0000000000000000000000000000000000000000') {
+    // Native LOOP and wLOOP come straight from the LOOP/USD oracle
+    if (
+      token.address === '0x0000000000000000000000000000000000000000' ||
+      token.address.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase()
+    ) {
+      const loopPrice = await getLoopUsdPrice();
       setPriceCache(prev => ({
         ...prev,
         [token.address]: {
-          price: LOOP_REFERENCE_PRICE,
+          price: loopPrice,
           source: 'none',
           timestamp: Date.now(),
           isLoading: false
@@ -204,7 +194,10 @@ export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
         // Use WLOOP for calculations since that's what's in the pairs
         const wloopAddress = SPHYNX_CONTRACTS.WLOOP;
         
-        const reserves = await getPairReserves(factoryAddress, token.address, wloopAddress);
+        const [reserves, loopPrice] = await Promise.all([
+          getPairReserves(factoryAddress, token.address, wloopAddress),
+          getLoopUsdPrice()
+        ]);
         
         if (reserves) {
           price = calculatePriceFromReserves(
@@ -217,7 +210,7 @@ export const useDynamicTokenPricing = (): UseDynamicTokenPricingReturn => {
               decimals: 18,
               logoUrl: '/wloop_logo-removebg-preview.png'
             },
-            LOOP_REFERENCE_PRICE
+            loopPrice
           );
           source = routerInfo.router;
         }
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { GasFeeData, GasSpeed, NetworkFeeEstimate } from '../types';
+import { GAS_CONFIG } from '../constants/network';
+import { getGasCost, getGasFeeData, getGasSpeed, setGasSpeed as persistGasSpeed } from '../utils/gasEngine';
+
+interface UseGasFeesReturn {
+  feeData: GasFeeData | null;
+  gasSpeed: GasSpeed;
+  setGasSpeed: (speed: GasSpeed) => void;
+  getNetworkFee: (gasEstimate?: string) => NetworkFeeEstimate | null;
+  isLoading: boolean;
+  refreshFees: () => Promise<void>;
+}
+
+// Fee presets from the gas engine, refreshed while mounted, and the speed chosen in settings
+export const useGasFees = (): UseGasFeesReturn => {
+  const [feeData, setFeeData] = useState<GasFeeData | null>(null);
+  const [gasSpeed, setGasSpeedState] = useState<GasSpeed>(getGasSpeed);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshFees = useCallback(async (forceRefresh: boolean = false) => {
+    setIsLoading(true);
+    try {
+      setFeeData(await getGasFeeData(forceRefresh));
+    } catch (error) {
+      console.warn('⚠️ Failed to load gas fees:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshFees();
+    const interval = setInterval(() => refreshFees(), GAS_CONFIG.CACHE_TTL);
+    return () => clearInterval(interval);
+  }, [refreshFees]);
+
+  const setGasSpeed = useCallback((speed: GasSpeed) => {
+    persistGasSpeed(speed);
+    setGasSpeedState(speed);
+  }, []);
+
+  // Expected LOOP cost of a simulated transaction at the selected speed
+  const getNetworkFee = useCallback((gasEstimate?: string): NetworkFeeEstimate | null => {
+    if (!feeData || !gasEstimate) return null;
+    return {
+      costLoop: ethers.formatEther(getGasCost(BigInt(gasEstimate), feeData, gasSpeed)),
+      speed: gasSpeed,
+      estimatedSeconds: feeData.presets[gasSpeed].estimatedSeconds
+    };
+  }, [feeData, gasSpeed]);
+
+  return {
+    feeData,
+    gasSpeed,
+    setGasSpeed,
+    getNetworkFee,
+    isLoading,
+    refreshFees: () => refreshFees(true)
+  };
+};
@@ -0,0 +1,252 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { LimitOrder, Token } from '../types';
+import { REACHSWAP_CONTRACTS, LIMIT_ORDER_CONFIG } from '../constants/reachswap';
+import { usePriceImpactCalculation } from './usePriceImpactCalculation';
+import { useSwapExecution } from './useSwapExecution';
+import {
+  OrderReserves,
+  checkLimitOrders,
+  getLimitMinAmountOut,
+  loadLimitOrders,
+  orientOrderReserves,
+  saveLimitOrders,
+  signLimitOrder,
+  toPathAddress,
+  verifyLimitOrder
+} from '../utils/limitOrders';
+import { InvalidInputError, TxError, UserRejectedError, formatTxError, toTxError } from '../utils/txErrors';
+
+interface PlaceLimitOrderParams {
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn: string;
+  limitPrice: string; // tokenOut per tokenIn
+  expiryHours?: number;
+}
+
+interface UseLimitOrdersReturn {
+  orders: LimitOrder[];
+  placeOrder: (params: PlaceLimitOrderParams) => Promise<LimitOrder | null>;
+  cancelOrder: (id: string) => void;
+  resumeOrder: (id: string) => void;
+  getMarketPrice: (tokenIn: Token, tokenOut: Token) => Promise<number | null>;
+  isPlacing: boolean;
+  executingOrderId: string | null;
+  error: TxError | null;
+}
+
+// Limit orders of the connected wallet: signing, storage, and filling open orders when their price is reached
+export const useLimitOrders = (isWalletConnected: boolean): UseLimitOrdersReturn => {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [executingOrderId, setExecutingOrderId] = useState<string | null>(null);
+  const [error, setError] = useState<TxError | null>(null);
+
+  const { getPairAddress, getPairReserves } = usePriceImpactCalculation();
+  const { executeSwap } = useSwapExecution();
+  const isCheckingRef = useRef(false);
+
+  const getMaker = () => localStorage.getItem('reachswap_wallet_address');
+
+  // Storage is the source of truth - every update re-reads it so concurrent changes are kept
+  const updateOrders = useCallback((maker: string, update: (orders: LimitOrder[]) => LimitOrder[]) => {
+    const next = update(loadLimitOrders(maker));
+    saveLimitOrders(maker, next);
+    setOrders(next);
+  }, []);
+
+  const updateOrder = useCallback((maker: string, id: string, changes: Partial<LimitOrder>) => {
+    updateOrders(maker, current => current.map(order => order.id === id ? { ...order, ...changes } : order));
+  }, [updateOrders]);
+
+  // ReachSwap reserves in the order's direction
+  const readReserves = useCallback(async (order: LimitOrder): Promise<OrderReserves> =>
+    orientOrderReserves(order, await getPairReserves(order.pairAddress)), [getPairReserves]);
+
+  // Spot price (tokenOut per tokenIn) on ReachSwap, for pre-filling the limit price
+  const getMarketPrice = useCallback(async (tokenIn: Token, tokenOut: Token): Promise<number | null> => {
+    try {
+      const pairAddress = await getPairAddress(toPathAddress(tokenIn), toPathAddress(tokenOut), REACHSWAP_CONTRACTS.FACTORY);
+      const reserves = await getPairReserves(pairAddress);
+      const inIsToken0 = reserves.token0.toLowerCase() === toPathAddress(tokenIn).toLowerCase();
+      const reserveIn = Number(inIsToken0 ? reserves.reserve0 : reserves.reserve1) / Math.pow(10, tokenIn.decimals);
+      const reserveOut = Number(inIsToken0 ? reserves.reserve1 : reserves.reserve0) / Math.pow(10, tokenOut.decimals);
+      return reserveIn > 0 ? reserveOut / reserveIn : null;
+    } catch {
+      return null;
+    }
+  }, [getPairAddress, getPairReserves]);
+
+  const placeOrder = useCallback(async (params: PlaceLimitOrderParams): Promise<LimitOrder | null> => {
+    const maker = getMaker();
+    if (!isWalletConnected || !maker) {
+      setError(new InvalidInputError('Connect your wallet to place limit orders'));
+      return null;
+    }
+
+    setIsPlacing(true);
+    setError(null);
+
+    try {
+      const price = parseFloat(params.limitPrice);
+      if (!(price > 0)) throw new InvalidInputError('Enter a limit price above zero');
+      if (toPathAddress(params.tokenIn).toLowerCase() === toPathAddress(params.tokenOut).toLowerCase()) {
+        throw new InvalidInputError('LOOP and wLOOP convert 1:1', 'Use wrap or unwrap instead');
+      }
+
+      const amountIn = ethers.parseUnits(params.amountIn, params.tokenIn.decimals);
+      if (amountIn <= BigInt(0)) throw new InvalidInputError('Enter an amount to sell');
+
+      // Minimum output at the limit price, at the output token's precision
+      let minAmountOut: bigint;
+      try {
+        minAmountOut = getLimitMinAmountOut(amountIn, params.limitPrice, params.tokenIn, params.tokenOut);
+      } catch {
+        throw new InvalidInputError('Enter the limit price as a plain number');
+      }
+      if (minAmountOut <= BigInt(0)) throw new InvalidInputError('Limit price is too low for this amount');
+
+      let pairAddress: string;
+      try {
+        pairAddress = await getPairAddress(toPathAddress(params.tokenIn), toPathAddress(params.tokenOut), REACHSWAP_CONTRACTS.FACTORY);
+      } catch {
+        throw new InvalidInputError(`No ReachSwap pair for ${params.tokenIn.symbol}/${params.tokenOut.symbol}`);
+      }
+
+      const expiryHours = params.expiryHours ?? LIMIT_ORDER_CONFIG.DEFAULT_EXPIRY_HOURS;
+      const order = await signLimitOrder({
+        maker,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn,
+        minAmountOut,
+        limitPrice: params.limitPrice,
+        pairAddress,
+        expiry: Math.floor(Date.now() / 1000) + Math.round(expiryHours * 3600)
+      });
+
+      updateOrders(maker, current => [order, ...current]);
+      console.log(`✅ Limit order ${order.id} placed`);
+      return order;
+    } catch (placeError) {
+      console.error('Error placing limit order:', placeError);
+      setError(toTxError(placeError));
+      return null;
+    } finally {
+      setIsPlacing(false);
+    }
+  }, [isWalletConnected, getPairAddress, updateOrders]);
+
+  // Orders are only held by this app, so cancelling just stops it from filling them
+  const cancelOrder = useCallback((id: string) => {
+    const maker = getMaker();
+    if (!maker) return;
+    updateOrder(maker, id, { status: 'cancelled' });
+  }, [updateOrder]);
+
+  // Put a paused order back in the fill queue with a fresh attempt count
+  const resumeOrder = useCallback((id: string) => {
+    const maker = getMaker();
+    if (!maker) return;
+    updateOrder(maker, id, { status: 'open', failedAttempts: 0, lastAttemptAt: undefined });
+  }, [updateOrder]);
+
+  // Expire stale orders and fill the oldest matched one; fills run one at a time
+  const checkOrders = useCallback(async () => {
+    const maker = getMaker();
+    if (!maker || isCheckingRef.current) return;
+
+    const open = loadLimitOrders(maker).filter(order => order.status === 'open');
+    if (open.length === 0) return;
+
+    isCheckingRef.current = true;
+    try {
+      const { fillable, expired } = await checkLimitOrders(open, readReserves);
+
+      if (expired.length > 0) {
+        const expiredIds = new Set(expired.map(order => order.id));
+        updateOrders(maker, current => current.map(order =>
+          expiredIds.has(order.id) && order.status === 'open' ? { ...order, status: 'expired' } : order
+        ));
+      }
+
+      const next = fillable.find(({ order }) =>
+        !order.lastAttemptAt || Date.now() - order.lastAttemptAt >= LIMIT_ORDER_CONFIG.RETRY_DELAY
+      );
+      if (!next) return;
+
+      const { order, amountOut } = next;
+      if (!verifyLimitOrder(order)) {
+        console.warn(`⚠️ Limit order ${order.id} has an invalid signature - cancelling`);
+        updateOrder(maker, order.id, { status: 'cancelled', lastError: 'Invalid signature' });
+        return;
+      }
+
+      console.log(`🎯 Limit order ${order.id} reached its price (quote ${amountOut.toString()} ≥ ${order.minAmountOut})`);
+      setExecutingOrderId(order.id);
+
+      const result = await executeSwap({
+        tokenIn: order.tokenIn,
+        tokenOut: order.tokenOut,
+        amountIn: ethers.formatUnits(order.amountIn, order.tokenIn.decimals),
+        amountOutMin: ethers.formatUnits(order.minAmountOut, order.tokenOut.decimals),
+        slippage: '0', // The signed minimum is the bound
+        routerUsed: 'reachswap',
+        path: [toPathAddress(order.tokenIn), toPathAddress(order.tokenOut)],
+        hasFeeOnTransfer: false, // Detected again by the swap itself
+        amountInWei: order.amountIn,
+        amountOutMinWei: order.minAmountOut
+      });
+
+      if (result.success) {
+        updateOrder(maker, order.id, { status: 'filled', filledAt: Date.now(), txHash: result.txHash, lastError: undefined });
+        console.log(`✅ Limit order ${order.id} filled: ${result.txHash}`);
+      } else {
+        // A declined fill is not retried, and repeated failures stop once the attempt limit is hit;
+        // either way the order waits for the user to resume it
+        const failedAttempts = (order.failedAttempts || 0) + 1;
+        const shouldPause = result.error instanceof UserRejectedError || failedAttempts >= LIMIT_ORDER_CONFIG.MAX_FILL_ATTEMPTS;
+        updateOrder(maker, order.id, {
+          status: shouldPause ? 'paused' : 'open',
+          failedAttempts,
+          lastAttemptAt: Date.now(),
+          lastError: result.error ? formatTxError(result.error) : 'Swap failed'
+        });
+        if (shouldPause) console.warn(`⏸️ Limit order ${order.id} paused after ${failedAttempts} failed fill attempt(s)`);
+      }
+    } catch (checkError) {
+      console.error('Error checking limit orders:', checkError);
+    } finally {
+      isCheckingRef.current = false;
+      setExecutingOrderId(null);
+    }
+  }, [readReserves, executeSwap, updateOrder, updateOrders]);
+
+  // Load the wallet's orders on connect
+  useEffect(() => {
+    const maker = getMaker();
+    setOrders(isWalletConnected && maker ? loadLimitOrders(maker) : []);
+  }, [isWalletConnected]);
+
+  // Watch while there are open orders; filling needs the app open and the wallet connected
+  const hasOpenOrders = orders.some(order => order.status === 'open');
+  useEffect(() => {
+    if (!isWalletConnected || !hasOpenOrders) return;
+
+    checkOrders();
+    const timer = setInterval(checkOrders, LIMIT_ORDER_CONFIG.CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isWalletConnected, hasOpenOrders, checkOrders]);
+
+  return {
+    orders,
+    placeOrder,
+    cancelOrder,
+    resumeOrder,
+    getMarketPrice,
+    isPlacing,
+    executingOrderId,
+    error
+  };
+};
@@ -1,7 +1,29 @@
 import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
-import { Token } from '../types';
-import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { Token, PoolAnalytics, TransactionSimulation } from '../types';
+import { REACHSWAP_CONTRACTS, REACHSWAP_FEES } from '../constants/reachswap';
+import { getReadProvider, getSignerProvider } from '../utils/rpcProvider';
+import { recordTransaction } from '../utils/activityStore';
+import { estimateTvlUsd } from '../utils/priceOracle';
+import { LpPermitSignature } from '../utils/lpPermit';
+import { getPoolsAnalytics, getCachedPoolAnalytics } from '../utils/poolAnalytics';
+import {
+  SimulationTx,
+  assertSimulationSucceeds,
+  decodeUints,
+  getQuoteDeviation,
+  simulateWithApprovals
+} from '../utils/txSimulation';
+import { TxError, formatTxError, toRevertError, toTxError } from '../utils/txErrors';
+import { estimateGasUnits, withGasFees } from '../utils/gasEngine';
+import { formatLpAmount } from '../utils/tokenUtils';
+
+// A deposit transaction ready to send; tokens and amounts follow the router call's return order
+export interface PreparedAddLiquidity {
+  tx: SimulationTx;
+  tokens: [Token, Token];
+  amountsWei: [string, string]; // Desired amounts
+}
 
 interface LiquidityPool {
   pairAddress: string;
@@ -16,7 +38,7 @@ interface LiquidityPool {
   fee: string;
   apy: string;
   volume24h: string;
-  tvl: string;
+  tvl: string; // USD, empty when the pair cannot be priced
   userLPBalance?: string;
   userLPBalanceFormatted?: string;
   userShareOfPool?: number;
@@ -83,7 +105,8 @@ interface UseLiquidityManagementReturn {
     liquidity: string,
     tokenAmountMin: string,
     ethAmountMin: string,
-    walletAddress: string
+    walletAddress: string,
+    supportingFeeOnTransfer?: boolean
   ) => Promise<string>;
   executeRemoveLiquidity: (
     tokenA: Token,
@@ -93,8 +116,27 @@ interface UseLiquidityManagementReturn {
     amountBMin: string,
     walletAddress: string
   ) => Promise<string>;
+  executeRemoveLiquidityETHWithPermit: (
+    token: Token,
+    liquidity: string,
+    tokenAmountMin: string,
+    ethAmountMin: string,
+    walletAddress: string,
+    permit: LpPermitSignature,
+    supportingFeeOnTransfer?: boolean
+  ) => Promise<string>;
+  executeRemoveLiquidityWithPermit: (
+    tokenA: Token,
+    tokenB: Token,
+    liquidity: string,
+    amountAMin: string,
+    amountBMin: string,
+    walletAddress: string,
+    permit: LpPermitSignature
+  ) => Promise<string>;
+  simulateAddLiquidity: (prepared: PreparedAddLiquidity) => Promise<TransactionSimulation>;
   isLoading: boolean;
-  error: string | null;
+  error: TxError | null;
 }
 
 // ============ ENHANCED WITH REACHSWAP-SPECIFIC FUNCTION SIGNATURES ============
@@ -106,29 +148,24 @@ const ADD_LIQUIDITY_ETH_SIGNATURE = '0x7fd4e7e5'; // addLiquidityETH with skipME
 const REMOVE_LIQUIDITY_SIGNATURE = '0x8a2c8e97'; // removeLiquidity with skipMEVProtection
 // const REMOVE_LIQUIDITY_ETH_SIGNATURE = '0x7c4d4b87'; // removeLiquidityETH with skipMEVProtection
 
+// LiquidityPool TVL string; empty when the pair cannot be priced in USD
+const formatTvl = (tvlUsd: number | null): string => tvlUsd === null ? '' : tvlUsd.toFixed(0);
+
+// LiquidityPool display stats from pool analytics
+const toPoolStats = (analytics: PoolAnalytics | null | undefined): Partial<LiquidityPool> => analytics ? {
+  apy: analytics.apr.toFixed(2),
+  volume24h: analytics.volume24hUsd.toFixed(0),
+  tvl: formatTvl(analytics.tvlUsd)
+} : {};
+
 export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
+  const [error, setError] = useState<TxError | null>(null);
 
   // ✅ ENHANCED: Check if pair exists on ReachSwap with proper validation
   const checkPairExists = useCallback(async (tokenA: Token, tokenB: Token): Promise<boolean> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return false;
 
       // Handle native LOOP conversion to WLOOP for contract calls
@@ -176,7 +213,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
       console.error('Error checking ReachSwap pair exists:', error);
       return false;
     }
-  }, [getProvider]);
+  }, []);
 
   // ✅ ENHANCED: Get pair information from ReachSwap factory with validation
   const getPairInfo = useCallback(async (
@@ -192,7 +229,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     hasLiquidity: boolean;
   } | null> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return null;
 
       console.log(`🔍 Getting ReachSwap pair info for: ${tokenA} / ${tokenB}`);
@@ -279,7 +316,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
       console.error('Error getting ReachSwap pair info:', error);
       return null;
     }
-  }, [getProvider]);
+  }, []);
 
   // ✅ ENHANCED: Get user's LP balance for a specific ReachSwap pool
   const getUserLPBalance = useCallback(async (
@@ -293,7 +330,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     token1Amount: string;
   } | null> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return null;
 
       console.log(`🔍 Fetching ReachSwap LP balance for user ${userAddress} in pair ${pairAddress}`);
@@ -339,7 +376,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
       }
 
       // Format LP balance
-      const lpBalanceFormatted = (Number(lpBalance) / Math.pow(10, 18)).toFixed(6);
+      const lpBalanceFormatted = formatLpAmount(lpBalance);
 
       // Calculate share of pool
       const shareOfPool = totalSupply > BigInt(0) 
@@ -368,7 +405,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
       console.error('Error getting ReachSwap user LP balance:', error);
       return null;
     }
-  }, [getProvider]);
+  }, []);
 
   // ✅ ENHANCED: Get all pools on ReachSwap with better validation
   const getAllPools = useCallback(async (userAddress?: string): Promise<LiquidityPool[]> => {
@@ -397,6 +434,11 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
           const reachSwapPair = await getPairInfo(token0.address, token1.address);
 
           if (reachSwapPair && BigInt(reachSwapPair.totalSupply) > BigInt(0)) {
+            // Reserves follow the pair's sorted token order
+            const [sorted0, sorted1] = reachSwapPair.token0.toLowerCase() === token0.address.toLowerCase()
+              ? [token0, token1]
+              : [token1, token0];
+
             const pool: LiquidityPool = {
               pairAddress: reachSwapPair.pairAddress,
               token0: token0 as Token,
@@ -407,10 +449,10 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
               router: 'reachswap',
               factoryAddress: REACHSWAP_CONTRACTS.FACTORY,
               routerAddress: REACHSWAP_CONTRACTS.ROUTER,
-              fee: '0.25', // ReachSwap default fee
-              apy: '28.7',
-              volume24h: '15000',
-              tvl: (Number(reachSwapPair.reserve0) * 0.15 + Number(reachSwapPair.reserve1) * 0.15).toFixed(0)
+              fee: (REACHSWAP_FEES.SWAP_FEE / 100).toString(),
+              apy: '0',
+              volume24h: '0',
+              tvl: formatTvl(await estimateTvlUsd(sorted0 as Token, sorted1 as Token, reachSwapPair.reserve0, reachSwapPair.reserve1))
             };
 
             // Add user-specific data if userAddress is provided
@@ -430,14 +472,26 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
         }
       }
 
+      // Volume, APR and TVL from the pools' Swap activity, read in one scan
+      try {
+        const analytics = await getPoolsAnalytics(pools.map(pool => ({
+          pairAddress: pool.pairAddress,
+          tokenA: pool.token0,
+          tokenB: pool.token1
+        })));
+        pools.forEach(pool => Object.assign(pool, toPoolStats(analytics.get(pool.pairAddress.toLowerCase()))));
+      } catch (analyticsError) {
+        console.warn('⚠️ Pool analytics unavailable:', analyticsError);
+      }
+
       // Sort by TVL descending
-      pools.sort((a, b) => parseFloat(b.tvl) - parseFloat(a.tvl));
+      pools.sort((a, b) => Number(b.tvl) - Number(a.tvl));
 
       console.log(`✅ Found ${pools.length} ReachSwap pools`);
       return pools;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error getting ReachSwap pools:', error);
-      setError(error.message || 'Failed to fetch ReachSwap pools');
+      setError(toTxError(error));
       return [];
     } finally {
       setIsLoading(false);
@@ -471,6 +525,11 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
         return null;
       }
 
+      // Reserves follow the pair's sorted token order
+      const [sorted0, sorted1] = pairInfo.token0.toLowerCase() === tokenAAddr.toLowerCase()
+        ? [tokenA, tokenB]
+        : [tokenB, tokenA];
+
       const pool: LiquidityPool = {
         pairAddress: pairInfo.pairAddress,
         token0: tokenA,
@@ -481,10 +540,12 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
         router: 'reachswap',
         factoryAddress: REACHSWAP_CONTRACTS.FACTORY,
         routerAddress: REACHSWAP_CONTRACTS.ROUTER,
-        fee: '0.25', // ReachSwap default fee
-        apy: '28.7',
-        volume24h: '12500',
-        tvl: (Number(pairInfo.reserve0) * 0.15 + Number(pairInfo.reserve1) * 0.15).toFixed(0)
+        fee: (REACHSWAP_FEES.SWAP_FEE / 100).toString(),
+        apy: '0',
+        volume24h: '0',
+        tvl: formatTvl(await estimateTvlUsd(sorted0, sorted1, pairInfo.reserve0, pairInfo.reserve1)),
+        // Only analytics that are already cached - a pool lookup should not wait for a log scan
+        ...toPoolStats(getCachedPoolAnalytics(pairInfo.pairAddress))
       };
 
       // Add user-specific data if userAddress is provided
@@ -501,9 +562,9 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
       console.log(`✅ ReachSwap pool found with ${pairInfo.hasLiquidity ? 'liquidity' : 'no liquidity'}`);
       return pool;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error getting ReachSwap pool:', error);
-      setError(error.message || 'Failed to fetch ReachSwap pool');
+      setError(toTxError(error));
       return null;
     } finally {
       setIsLoading(false);
@@ -519,7 +580,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
     try {
       const positions: UserLiquidityPosition[] = [];
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return positions;
 
       console.log(`🔍 Getting ReachSwap positions for: ${userAddress}`);
@@ -545,7 +606,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
           const lpBalance = BigInt(lpBalanceResult || '0x0');
           
           if (lpBalance > BigInt(0)) {
-            const lpBalanceFormatted = (Number(lpBalance) / Math.pow(10, 18)).toFixed(6);
+            const lpBalanceFormatted = formatLpAmount(lpBalance);
             const totalSupply = BigInt(pool.totalSupply);
             const shareOfPool = Number((lpBalance * BigInt(10000) / totalSupply)) / 100;
 
@@ -575,14 +636,14 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
       // Sort by value descending
       return positions.sort((a, b) => b.value - a.value);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error getting ReachSwap user positions:', error);
-      setError(error.message || 'Failed to fetch ReachSwap user positions');
+      setError(toTxError(error));
       return [];
     } finally {
       setIsLoading(false);
     }
-  }, [getAllPools, getProvider]);
+  }, [getAllPools]);
 
   // ✅ ENHANCED: Calculate add liquidity quote with ReachSwap logic
   const calculateAddLiquidityQuote = useCallback(async (
@@ -687,10 +748,11 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
         isFirstLiquidity: false,
         pairExists: true
       };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error calculating ReachSwap add liquidity quote:', error);
-      setError(error.message || 'Failed to calculate ReachSwap quote');
-      throw error;
+      const liquidityFailure = toTxError(error);
+      setError(liquidityFailure);
+      throw liquidityFailure;
     } finally {
       setIsLoading(false);
     }
@@ -731,10 +793,11 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
         token1Amount,
         minimumAmounts: { token0Min, token1Min }
       };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error calculating ReachSwap remove liquidity quote:', error);
-      setError(error.message || 'Failed to calculate ReachSwap remove quote');
-      throw error;
+      const liquidityFailure = toTxError(error);
+      setError(liquidityFailure);
+      throw liquidityFailure;
     } finally {
       setIsLoading(false);
     }
@@ -751,7 +814,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     setError(null);
 
     try {
-      const provider = getProvider();
+      const provider = getSignerProvider();
       if (!provider) throw new Error('No provider available');
 
       const walletAddress = localStorage.getItem('reachswap_wallet_address');
@@ -790,14 +853,15 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
       console.log(`✅ ReachSwap pool creation and initial liquidity transaction sent: ${txHash}`);
       return txHash;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating ReachSwap pool and adding liquidity:', error);
-      setError(error.message || 'Failed to create ReachSwap pool');
-      throw error;
+      const liquidityFailure = toTxError(error);
+      setError(liquidityFailure);
+      throw liquidityFailure;
     } finally {
       setIsLoading(false);
     }
-  }, [getProvider, checkPairExists]);
+  }, [checkPairExists]);
 
   // ✅ ENHANCED: Helper function for addLiquidityETH with ReachSwap signature
   const executeAddLiquidityETH = useCallback(async (
@@ -806,7 +870,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     ethAmount: string,
     walletAddress: string
   ): Promise<string> => {
-    const provider = getProvider();
+    const provider = getSignerProvider();
     if (!provider) throw new Error('No provider available');
 
     console.log('🔥 Executing ReachSwap addLiquidityETH...');
@@ -838,6 +902,13 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     const txData = ADD_LIQUIDITY_ETH_SIGNATURE + paddedToken + paddedTokenDesired + 
                   paddedTokenMin + paddedETHMin + paddedTo + paddedDeadline + paddedSkipMEV;
 
+    await assertSimulationSucceeds('Liquidity deposit', {
+      from: walletAddress,
+      to: REACHSWAP_CONTRACTS.ROUTER,
+      data: txData,
+      value: '0x' + BigInt(ethAmountWei).toString(16)
+    });
+
     // Estimate gas with buffer
     const gasEstimate = await provider.request({
       method: 'eth_estimateGas',
@@ -851,17 +922,30 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
     const gasLimit = '0x' + (BigInt(gasEstimate) * BigInt(150) / BigInt(100)).toString(16); // 50% buffer
 
-    return await provider.request({
+    const txHash = await provider.request({
       method: 'eth_sendTransaction',
-      params: [{
+      params: [await withGasFees({
         from: walletAddress,
         to: REACHSWAP_CONTRACTS.ROUTER,
         data: txData,
         value: '0x' + BigInt(ethAmountWei).toString(16),
         gas: gasLimit
-      }]
+      })]
+    });
+
+    recordTransaction({
+      hash: txHash,
+      type: 'addLiquidity',
+      summary: `Add ${tokenAmount} ${token.symbol} and ${ethAmount} LOOP liquidity`,
+      tokenIn: { symbol: token.symbol, address: token.address },
+      tokenOut: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+      amountIn: tokenAmount,
+      amountOut: ethAmount,
+      router: 'reachswap'
     });
-  }, [getProvider]);
+
+    return txHash;
+  }, []);
 
   // ✅ ENHANCED: Helper function for addLiquidity with ReachSwap signature
   const executeAddLiquidity = useCallback(async (
@@ -871,7 +955,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     amountB: string,
     walletAddress: string
   ): Promise<string> => {
-    const provider = getProvider();
+    const provider = getSignerProvider();
     if (!provider) throw new Error('No provider available');
 
     console.log('🔥 Executing ReachSwap addLiquidity...');
@@ -907,6 +991,12 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
                   paddedAmountBDesired + paddedAmountAMin + paddedAmountBMin + paddedTo + 
                   paddedDeadline + paddedSkipMEV;
 
+    await assertSimulationSucceeds('Liquidity deposit', {
+      from: walletAddress,
+      to: REACHSWAP_CONTRACTS.ROUTER,
+      data: txData
+    });
+
     // Estimate gas with buffer
     const gasEstimate = await provider.request({
       method: 'eth_estimateGas',
@@ -919,16 +1009,29 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
     const gasLimit = '0x' + (BigInt(gasEstimate) * BigInt(150) / BigInt(100)).toString(16); // 50% buffer
 
-    return await provider.request({
+    const txHash = await provider.request({
       method: 'eth_sendTransaction',
-      params: [{
+      params: [await withGasFees({
         from: walletAddress,
         to: REACHSWAP_CONTRACTS.ROUTER,
         data: txData,
         gas: gasLimit
-      }]
+      })]
+    });
+
+    recordTransaction({
+      hash: txHash,
+      type: 'addLiquidity',
+      summary: `Add ${amountA} ${tokenA.symbol} and ${amountB} ${tokenB.symbol} liquidity`,
+      tokenIn: { symbol: tokenA.symbol, address: tokenA.address },
+      tokenOut: { symbol: tokenB.symbol, address: tokenB.address },
+      amountIn: amountA,
+      amountOut: amountB,
+      router: 'reachswap'
     });
-  }, [getProvider]);
+
+    return txHash;
+  }, []);
 
   // ✅ ENHANCED: Helper function for removeLiquidityETH with ReachSwap signature
   // 🔥 FIXED: executeRemoveLiquidityETH in useLiquidityManagement.ts
@@ -938,12 +1041,17 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     liquidity: string,
     tokenAmountMin: string,
     ethAmountMin: string,
-    walletAddress: string
+    walletAddress: string,
+    supportingFeeOnTransfer: boolean = false
   ): Promise<string> => {
-    const provider = getProvider();
+    const provider = getSignerProvider();
     if (!provider) throw new Error('No provider available');
 
-    console.log('🔥 Executing ReachSwap removeLiquidityETH (FIXED VERSION)...');
+    // Taxed tokens reach the router short, so plain removeLiquidityETH cannot forward the full amount
+    const method = supportingFeeOnTransfer
+      ? 'removeLiquidityETHSupportingFeeOnTransferTokens'
+      : 'removeLiquidityETH';
+    console.log(`🔥 Executing ReachSwap ${method} (FIXED VERSION)...`);
     
     // 🔍 ENHANCED DEBUG: Log all input parameters
     console.log(`📊 Input Parameters:`);
@@ -969,10 +1077,11 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
 
       // 🔥 CRITICAL FIX 2: Use ethers Interface for proper encoding
       const routerInterface = new ethers.Interface([
-        "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool skipMEVProtection) external returns (uint256 amountToken, uint256 amountETH)"
+        "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool skipMEVProtection) external returns (uint256 amountToken, uint256 amountETH)",
+        "function removeLiquidityETHSupportingFeeOnTransferTokens(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool skipMEVProtection) external returns (uint256 amountETH)"
       ]);
 
-      const txData = routerInterface.encodeFunctionData("removeLiquidityETH", [
+      const txData = routerInterface.encodeFunctionData(method, [
         token.address,
         liquidityWei,
         tokenAmountMinWei,
@@ -1000,19 +1109,34 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
       console.log(`   To: ${txParams.to}`);
       console.log(`   Gas: ${txParams.gas || 'auto-estimated'}`); // ← Handle undefined gas
 
+      await assertSimulationSucceeds('Liquidity removal', txParams);
+
       // 🔥 CRITICAL FIX 3: Remove pre-transaction validation that was causing issues
       console.log('🚀 Sending transaction with ethers-encoded data...');
       
-      return await provider.request({
+      const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [txParams]
+        params: [await withGasFees(txParams)]
+      });
+
+      recordTransaction({
+        hash: txHash,
+        type: 'removeLiquidity',
+        summary: `Remove ${token.symbol}/LOOP liquidity`,
+        tokenIn: { symbol: token.symbol, address: token.address },
+        tokenOut: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+        router: 'reachswap'
       });
 
-    } catch (conversionError: any) {
+      return txHash;
+
+    } catch (conversionError) {
+      const removalFailure = toTxError(conversionError);
+      if (removalFailure.kind !== 'unknown') throw removalFailure;
       console.error('❌ Amount conversion failed:', conversionError);
-      throw new Error(`Amount conversion failed: ${conversionError.message}`);
+      throw new Error(`Amount conversion failed: ${removalFailure.message}`);
     }
-  }, [getProvider]);
+  }, []);
 
   const executeRemoveLiquidity = useCallback(async (
     tokenA: Token,
@@ -1022,7 +1146,7 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     amountBMin: string,
     walletAddress: string
   ): Promise<string> => {
-    const provider = getProvider();
+    const provider = getSignerProvider();
     if (!provider) throw new Error('No provider available');
 
     console.log('🔥 Executing ReachSwap removeLiquidity...');
@@ -1054,15 +1178,220 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
     const txData = REMOVE_LIQUIDITY_SIGNATURE + paddedTokenA + paddedTokenB + paddedLiquidity + 
                   paddedAmountAMin + paddedAmountBMin + paddedTo + paddedDeadline + paddedSkipMEV;
 
-    return await provider.request({
+    await assertSimulationSucceeds('Liquidity removal', {
+      from: walletAddress,
+      to: REACHSWAP_CONTRACTS.ROUTER,
+      data: txData
+    });
+
+    const txHash = await provider.request({
       method: 'eth_sendTransaction',
-      params: [{
+      params: [await withGasFees({
         from: walletAddress,
         to: REACHSWAP_CONTRACTS.ROUTER,
         data: txData,
-      }]
+      })]
     });
-  }, [getProvider]);
+
+    recordTransaction({
+      hash: txHash,
+      type: 'removeLiquidity',
+      summary: `Remove ${tokenA.symbol}/${tokenB.symbol} liquidity`,
+      tokenIn: { symbol: tokenA.symbol, address: tokenA.address },
+      tokenOut: { symbol: tokenB.symbol, address: tokenB.address },
+      router: 'reachswap'
+    });
+
+    return txHash;
+  }, []);
+
+  // Single-transaction removal: the signed permit replaces the LP approval
+  const executeRemoveLiquidityETHWithPermit = useCallback(async (
+    token: Token,
+    liquidity: string,
+    tokenAmountMin: string,
+    ethAmountMin: string,
+    walletAddress: string,
+    permit: LpPermitSignature,
+    supportingFeeOnTransfer: boolean = false
+  ): Promise<string> => {
+    const provider = getSignerProvider();
+    if (!provider) throw new Error('No provider available');
+
+    const method = supportingFeeOnTransfer
+      ? 'removeLiquidityETHWithPermitSupportingFeeOnTransferTokens'
+      : 'removeLiquidityETHWithPermit';
+    console.log(`🔏 Executing ReachSwap ${method}...`);
+
+    const liquidityWei = ethers.parseUnits(liquidity, 18);
+    if (liquidityWei > permit.value) {
+      throw new Error('Permit does not cover the liquidity being removed');
+    }
+
+    const routerInterface = new ethers.Interface([
+      `function ${method}(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool approveMax, uint8 v, bytes32 r, bytes32 s, bool skipMEVProtection) external`
+    ]);
+
+    const txData = routerInterface.encodeFunctionData(method, [
+      token.address,
+      liquidityWei,
+      ethers.parseUnits(tokenAmountMin, token.decimals),
+      ethers.parseUnits(ethAmountMin, 18),
+      walletAddress,
+      permit.deadline,
+      false, // approveMax - the permit covers exactly this removal
+      permit.v,
+      permit.r,
+      permit.s,
+      false // skipMEVProtection
+    ]);
+
+    await assertSimulationSucceeds('Liquidity removal', {
+      from: walletAddress,
+      to: REACHSWAP_CONTRACTS.ROUTER,
+      data: txData
+    });
+
+    const txHash = await provider.request({
+      method: 'eth_sendTransaction',
+      params: [await withGasFees({
+        from: walletAddress,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data: txData
+      })]
+    });
+
+    recordTransaction({
+      hash: txHash,
+      type: 'removeLiquidity',
+      summary: `Remove ${token.symbol}/LOOP liquidity`,
+      tokenIn: { symbol: token.symbol, address: token.address },
+      tokenOut: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+      router: 'reachswap'
+    });
+
+    return txHash;
+  }, []);
+
+  const executeRemoveLiquidityWithPermit = useCallback(async (
+    tokenA: Token,
+    tokenB: Token,
+    liquidity: string,
+    amountAMin: string,
+    amountBMin: string,
+    walletAddress: string,
+    permit: LpPermitSignature
+  ): Promise<string> => {
+    const provider = getSignerProvider();
+    if (!provider) throw new Error('No provider available');
+
+    console.log('🔏 Executing ReachSwap removeLiquidityWithPermit...');
+
+    const liquidityWei = ethers.parseUnits(liquidity, 18);
+    if (liquidityWei > permit.value) {
+      throw new Error('Permit does not cover the liquidity being removed');
+    }
+
+    const routerInterface = new ethers.Interface([
+      'function removeLiquidityWithPermit(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline, bool approveMax, uint8 v, bytes32 r, bytes32 s, bool skipMEVProtection) external returns (uint256 amountA, uint256 amountB)'
+    ]);
+
+    const txData = routerInterface.encodeFunctionData('removeLiquidityWithPermit', [
+      tokenA.address,
+      tokenB.address,
+      liquidityWei,
+      ethers.parseUnits(amountAMin, tokenA.decimals),
+      ethers.parseUnits(amountBMin, tokenB.decimals),
+      walletAddress,
+      permit.deadline,
+      false, // approveMax
+      permit.v,
+      permit.r,
+      permit.s,
+      false // skipMEVProtection
+    ]);
+
+    await assertSimulationSucceeds('Liquidity removal', {
+      from: walletAddress,
+      to: REACHSWAP_CONTRACTS.ROUTER,
+      data: txData
+    });
+
+    const txHash = await provider.request({
+      method: 'eth_sendTransaction',
+      params: [await withGasFees({
+        from: walletAddress,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data: txData
+      })]
+    });
+
+    recordTransaction({
+      hash: txHash,
+      type: 'removeLiquidity',
+      summary: `Remove ${tokenA.symbol}/${tokenB.symbol} liquidity`,
+      tokenIn: { symbol: tokenA.symbol, address: tokenA.address },
+      tokenOut: { symbol: tokenB.symbol, address: tokenB.address },
+      router: 'reachswap'
+    });
+
+    return txHash;
+  }, []);
+
+  // Pre-flight preview of a deposit: LP minted and how much of each token the router would take.
+  // The router deposits at the pool ratio, so a moved price leaves part of one side unused.
+  const simulateAddLiquidity = useCallback(async (prepared: PreparedAddLiquidity): Promise<TransactionSimulation> => {
+    const simulatedAt = Date.now();
+    const desired = prepared.amountsWei.map(amount => BigInt(amount));
+
+    try {
+      const result = await simulateWithApprovals(
+        prepared.tx,
+        prepared.tokens.map((token, index) => ({ token: token.address, amount: desired[index] }))
+      );
+
+      if (result === 'needs-approval') {
+        return {
+          status: 'needs-approval',
+          reason: 'Token approvals are sent first - the deposit is simulated again right before you sign it',
+          gasEstimate: (await estimateGasUnits(prepared.tx)).toString(),
+          simulatedAt
+        };
+      }
+      if (!result.success) {
+        return {
+          status: 'reverted',
+          reason: formatTxError(toRevertError(result.revertReason)),
+          revertReason: result.revertReason,
+          simulatedAt
+        };
+      }
+
+      const gasEstimate = (await estimateGasUnits(prepared.tx)).toString();
+      const [usedA, usedB, liquidity] = decodeUints(result.returnData, 3);
+      if (liquidity === undefined) return { status: 'success', gasEstimate, simulatedAt };
+
+      console.log(`🧪 Deposit simulation passed: ${liquidity} LP for ${usedA} / ${usedB}`);
+      return {
+        status: 'success',
+        liquidity: ethers.formatUnits(liquidity, 18),
+        depositAmounts: [
+          { symbol: prepared.tokens[0].symbol, amount: ethers.formatUnits(usedA, prepared.tokens[0].decimals) },
+          { symbol: prepared.tokens[1].symbol, amount: ethers.formatUnits(usedB, prepared.tokens[1].decimals) }
+        ],
+        quoteDeviation: Math.min(getQuoteDeviation(usedA, desired[0]), getQuoteDeviation(usedB, desired[1])),
+        gasEstimate,
+        simulatedAt
+      };
+    } catch (simulationError) {
+      console.warn('⚠️ Deposit simulation unavailable:', simulationError);
+      return {
+        status: 'unavailable',
+        reason: simulationError instanceof Error ? simulationError.message : 'Simulation failed',
+        simulatedAt
+      };
+    }
+  }, []);
 
   return {
   getAllPools,
@@ -1075,6 +1404,9 @@ export const useLiquidityManagement = (): UseLiquidityManagementReturn => {
   createPool,
   executeRemoveLiquidityETH,
   executeRemoveLiquidity,
+  executeRemoveLiquidityETHWithPermit,
+  executeRemoveLiquidityWithPermit,
+  simulateAddLiquidity,
   isLoading,
   error
 };
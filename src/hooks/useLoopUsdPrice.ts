@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  LoopUsdPrice,
+  getLoopUsdPriceInfo,
+  refreshLoopUsdPrice,
+  subscribeLoopUsdPrice
+} from '../utils/priceOracle';
+
+interface UseLoopUsdPriceReturn {
+  loopPrice: number;
+  source: LoopUsdPrice['source'];
+  isFallback: boolean;
+  refresh: () => Promise<void>;
+}
+
+// LOOP/USD from the price oracle; re-renders whenever the oracle price changes
+export const useLoopUsdPrice = (): UseLoopUsdPriceReturn => {
+  const [price, setPrice] = useState<LoopUsdPrice>(getLoopUsdPriceInfo);
+
+  useEffect(() => {
+    const unsubscribe = subscribeLoopUsdPrice(setPrice);
+    refreshLoopUsdPrice().then(setPrice);
+    return unsubscribe;
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setPrice(await refreshLoopUsdPrice(true));
+  }, []);
+
+  return {
+    loopPrice: price.price,
+    source: price.source,
+    isFallback: price.source === 'fallback',
+    refresh
+  };
+};
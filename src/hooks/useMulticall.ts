@@ -1,4 +1,5 @@
 import { useCallback } from 'react';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface MulticallRequest {
   target: string;
@@ -17,25 +18,10 @@ interface UseMulticallReturn {
 }
 
 export const useMulticall = (): UseMulticallReturn => {
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Execute multiple calls in parallel (simulated multicall)
   const multicall = useCallback(async (calls: MulticallRequest[]): Promise<MulticallResult[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         throw new Error('No provider available');
       }
@@ -75,7 +61,7 @@ export const useMulticall = (): UseMulticallReturn => {
       console.error('Multicall batch failed:', error);
       return calls.map(() => ({ success: false, returnData: '0x' }));
     }
-  }, [getProvider]);
+  }, []);
 
   // Batch token balance calls
   const batchTokenBalances = useCallback(async (
@@ -1,9 +1,16 @@
 import { useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import { getReadProvider, batchRequest } from '../utils/rpcProvider';
+import { MULTICALL_CONFIG } from '../constants/network';
+
+// Determines how long a result stays cached
+export type CallKind = 'metadata' | 'balance' | 'reserves' | 'default';
 
 interface MulticallRequest {
   target: string;
   callData: string;
   key: string;
+  kind?: CallKind; // Inferred from the selector when omitted
 }
 
 interface MulticallResult {
@@ -31,27 +38,61 @@ interface UseOptimizedMulticallReturn {
 const CACHE_TTL = {
   METADATA: 5 * 60 * 1000, // 5 minutes
   BALANCES: 30 * 1000,     // 30 seconds
-  RESERVES: 15 * 1000      // 15 seconds
+  RESERVES: 15 * 1000,     // 15 seconds
+  DEFAULT: 15 * 1000       // 15 seconds
+};
+
+// Selectors whose results never (or rarely) change
+const METADATA_SELECTORS = new Set([
+  '0x95d89b41', // symbol()
+  '0x06fdde03', // name()
+  '0x313ce567', // decimals()
+  '0x0dfe1681', // token0()
+  '0xd21220a7', // token1()
+  '0xc45a0155', // factory()
+  '0xe6a43905'  // getPair(address,address)
+]);
+
+const inferCallKind = (callData: string): CallKind => {
+  const selector = callData.slice(0, 10).toLowerCase();
+  if (selector === '0x70a08231') return 'balance';  // balanceOf(address)
+  if (selector === '0x0902f1ac') return 'reserves'; // getReserves()
+  if (METADATA_SELECTORS.has(selector)) return 'metadata';
+  return 'default';
+};
+
+const getCacheTtl = (request: MulticallRequest): number => {
+  switch (request.kind || inferCallKind(request.callData)) {
+    case 'metadata':
+      return CACHE_TTL.METADATA;
+    case 'balance':
+      return CACHE_TTL.BALANCES;
+    case 'reserves':
+      return CACHE_TTL.RESERVES;
+    default:
+      return CACHE_TTL.DEFAULT;
+  }
+};
+
+// tryAggregate is implemented by both Multicall2 and Multicall3
+const MULTICALL_INTERFACE = new ethers.Interface([
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)'
+]);
+
+// Whether an aggregator is deployed at a given address, checked once per session
+const aggregatorAvailability = new Map<string, boolean>();
+
+const getMulticallAddress = (): string => {
+  if (typeof window !== 'undefined') {
+    const storedAddress = localStorage.getItem(MULTICALL_CONFIG.ADDRESS_STORAGE_KEY);
+    if (storedAddress && /^0x[a-fA-F0-9]{40}$/.test(storedAddress)) return storedAddress;
+  }
+  return MULTICALL_CONFIG.ADDRESS;
 };
 
 export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
   const cacheRef = useRef<Map<string, CacheEntry>>(new Map());
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Cache management
   const getCached = useCallback((key: string): any => {
     const entry = cacheRef.current.get(key);
@@ -73,22 +114,102 @@ export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
     });
   }, []);
 
-  // Optimized batch call with parallel execution
-  const batchCall = useCallback(async (requests: MulticallRequest[]): Promise<MulticallResult[]> => {
+  // Check for aggregator bytecode before relying on it
+  const isAggregatorAvailable = useCallback(async (address: string): Promise<boolean> => {
+    const known = aggregatorAvailability.get(address.toLowerCase());
+    if (known !== undefined) return known;
+
     try {
-      const provider = getProvider();
-      if (!provider) {
-        throw new Error('No provider available');
+      const code = await getReadProvider().request({
+        method: 'eth_getCode',
+        params: [address, 'latest']
+      });
+      const available = !!code && code !== '0x';
+      aggregatorAvailability.set(address.toLowerCase(), available);
+
+      if (!available) {
+        console.log(`📦 No multicall aggregator at ${address}, using JSON-RPC batches`);
       }
+      return available;
+    } catch (error) {
+      console.warn('Could not check multicall aggregator:', error);
+      return false;
+    }
+  }, []);
+
+  // Aggregate calls into a single eth_call via tryAggregate(false, calls)
+  const aggregateCalls = useCallback(async (
+    aggregatorAddress: string,
+    requests: MulticallRequest[]
+  ): Promise<MulticallResult[]> => {
+    const data = MULTICALL_INTERFACE.encodeFunctionData('tryAggregate', [
+      false,
+      requests.map(request => ({ target: request.target, callData: request.callData }))
+    ]);
+
+    const result = await getReadProvider().request({
+      method: 'eth_call',
+      params: [{ to: aggregatorAddress, data }, 'latest']
+    });
+
+    const [decoded] = MULTICALL_INTERFACE.decodeFunctionResult('tryAggregate', result);
+
+    return requests.map((request, index) => ({
+      success: decoded[index].success,
+      returnData: decoded[index].returnData,
+      key: request.key
+    }));
+  }, []);
 
+  // Fallback: one HTTP round trip per chunk using JSON-RPC batching
+  const rpcBatchCalls = useCallback(async (requests: MulticallRequest[]): Promise<MulticallResult[]> => {
+    const responses = await batchRequest(requests.map(request => ({
+      method: 'eth_call',
+      params: [{ to: request.target, data: request.callData }, 'latest']
+    })));
+
+    return requests.map((request, index) => {
+      const response = responses[index];
+      if (response.error) {
+        console.warn(`Multicall failed for ${request.key}:`, response.error.message);
+      }
+      return {
+        success: !response.error,
+        returnData: response.result || '0x',
+        key: request.key
+      };
+    });
+  }, []);
+
+  // Last resort for endpoints without batch support: individual eth_calls in parallel
+  const individualCalls = useCallback(async (requests: MulticallRequest[]): Promise<MulticallResult[]> => {
+    const provider = getReadProvider();
+
+    return Promise.all(requests.map(async request => {
+      try {
+        const result = await provider.request({
+          method: 'eth_call',
+          params: [{ to: request.target, data: request.callData }, 'latest']
+        });
+        return { success: true, returnData: result || '0x', key: request.key };
+      } catch (error) {
+        console.warn(`Multicall failed for ${request.key}:`, error);
+        return { success: false, returnData: '0x', key: request.key };
+      }
+    }));
+  }, []);
+
+  // Batch eth_calls through the on-chain aggregator, falling back to JSON-RPC batches
+  const batchCall = useCallback(async (requests: MulticallRequest[]): Promise<MulticallResult[]> => {
+    try {
       // Filter out cached requests
       const uncachedRequests: MulticallRequest[] = [];
-      const results: MulticallResult[] = [];
+      const resultMap = new Map<string, MulticallResult>();
 
       for (const request of requests) {
         const cached = getCached(request.key);
         if (cached) {
-          results.push({
+          resultMap.set(request.key, {
             success: true,
             returnData: cached,
             key: request.key
@@ -98,50 +219,40 @@ export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
         }
       }
 
-      // Execute uncached requests in parallel with limited concurrency
-      const BATCH_SIZE = 10; // Limit concurrent requests to avoid rate limiting
-      const batches: MulticallRequest[][] = [];
-      
-      for (let i = 0; i < uncachedRequests.length; i += BATCH_SIZE) {
-        batches.push(uncachedRequests.slice(i, i + BATCH_SIZE));
-      }
+      const aggregatorAddress = getMulticallAddress();
+      const useAggregator = uncachedRequests.length > 1 && await isAggregatorAvailable(aggregatorAddress);
+      const chunkSize = useAggregator
+        ? MULTICALL_CONFIG.MAX_CALLS_PER_AGGREGATE
+        : MULTICALL_CONFIG.MAX_REQUESTS_PER_RPC_BATCH;
 
-      for (const batch of batches) {
-        const batchPromises = batch.map(async (request) => {
-          try {
-            const result = await provider.request({
-              method: 'eth_call',
-              params: [{
-                to: request.target,
-                data: request.callData
-              }, 'latest']
-            });
-            
-            // Cache successful results
-            if (result && result !== '0x') {
-              setCache(request.key, result, CACHE_TTL.METADATA);
-            }
-            
-            return {
-              success: true,
-              returnData: result || '0x',
-              key: request.key
-            };
-          } catch (error) {
-            console.warn(`Multicall failed for ${request.key}:`, error);
-            return {
-              success: false,
-              returnData: '0x',
-              key: request.key
-            };
+      for (let i = 0; i < uncachedRequests.length; i += chunkSize) {
+        const chunk = uncachedRequests.slice(i, i + chunkSize);
+        let chunkResults: MulticallResult[];
+
+        try {
+          chunkResults = useAggregator
+            ? await aggregateCalls(aggregatorAddress, chunk)
+            : await rpcBatchCalls(chunk);
+        } catch (error) {
+          console.warn(`Batch of ${chunk.length} calls failed, retrying with individual calls:`, error);
+          chunkResults = await individualCalls(chunk);
+        }
+
+        chunkResults.forEach((result, index) => {
+          // Cache successful results with a TTL based on what was called
+          if (result.success && result.returnData && result.returnData !== '0x') {
+            setCache(result.key, result.returnData, getCacheTtl(chunk[index]));
           }
+          resultMap.set(result.key, result);
         });
-
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
       }
 
-      return results;
+      // Preserve request order
+      return requests.map(request => resultMap.get(request.key) || {
+        success: false,
+        returnData: '0x',
+        key: request.key
+      });
     } catch (error) {
       console.error('Batch call failed:', error);
       return requests.map(req => ({
@@ -150,7 +261,7 @@ export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
         key: req.key
       }));
     }
-  }, [getProvider, getCached, setCache]);
+  }, [getCached, setCache, isAggregatorAvailable, aggregateCalls, rpcBatchCalls, individualCalls]);
 
   // Optimized token data fetching
   const batchTokenData = useCallback(async (
@@ -246,25 +357,20 @@ export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
       if (userAddress) {
         const balanceResult = resultMap.get(`balance_${address}_${userAddress}`);
         
-        // CRITICAL FIX: Get token decimals for proper formatting
-        const token = Object.values(require('../constants/tokens').TOKENS).find(
-          (t: any) => t.address.toLowerCase() === tokenAddress.toLowerCase()
-        );
-        const decimals = token?.decimals || 18;
-        
+        // Format with the decimals decoded in the same batch
         if (balanceResult?.success && balanceResult.returnData !== '0x') {
           try {
             const balance = BigInt(balanceResult.returnData);
             
             // CRITICAL FIX: Format balance with correct decimals
             const balanceFormatted = (Number(balance) / Math.pow(10, decimals)).toFixed(6);
-            balances[tokenAddress] = balanceFormatted;
+            balances[address] = balanceFormatted;
             
-            console.log(`💰 Batch balance for ${tokenAddress}: ${balanceFormatted} (${decimals} decimals)`);
+            console.log(`💰 Batch balance for ${address}: ${balanceFormatted} (${decimals} decimals)`);
           } catch (error) {
-            console.error(`Error formatting balance for ${tokenAddress}:`, error);
+            console.error(`Error formatting balance for ${address}:`, error);
             const precision = Math.min(6, decimals);
-            balances[tokenAddress] = '0'.padEnd(precision + 2, '0').replace(/^0/, '0.');
+            balances[address] = '0'.padEnd(precision + 2, '0').replace(/^0/, '0.');
           }
         } else {
           balances[address] = '0';
@@ -308,8 +414,7 @@ export const useOptimizedMulticall = (): UseOptimizedMulticallReturn => {
               result += String.fromCharCode(byte);
             }
           }
-          const precision = Math.min(6, decimals);
-          balances[tokenAddress] = '0'.padEnd(precision + 2, '0').replace(/^0/, '0.');
+          return result.trim();
         }
       }
       
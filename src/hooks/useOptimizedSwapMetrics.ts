@@ -5,6 +5,7 @@ import { REACHSWAP_CONTRACTS, REACHSWAP_ROUTER_ABI } from '../constants/reachswa
 import { useOptimizedMulticall } from './useOptimizedMulticall';
 import { useUniversalRouter } from './useUniversalRouter';
 import { usePriceImpactCalculation } from './usePriceImpactCalculation';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface SwapMetrics {
   exchangeRate: string;
@@ -58,28 +59,13 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
   const { calculatePriceImpact, clearCache: clearPriceImpactCache } = usePriceImpactCalculation();
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Fast Sphynx amounts out calculation
   const getSphynxAmountsOut = useCallback(async (
     amountIn: string,
     path: string[]
   ): Promise<string[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       const getAmountsOutSignature = '0xd06ca61f'; // getAmountsOut(uint256,address[])
@@ -97,7 +83,7 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
             data: data
           }, 'latest']
         }),
-        new Promise((_, reject) => 
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Request timeout')), 3000)
         )
       ]);
@@ -124,7 +110,7 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
       console.error('Error getting Sphynx amounts out:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Get optimized Sphynx quote with accurate price impact
   const getSphynxQuote = useCallback(async (
@@ -298,7 +284,7 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
     path: string[]
   ): Promise<string[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       const getAmountsOutSignature = '0xd06ca61f'; // getAmountsOut(uint256,address[])
@@ -316,7 +302,7 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
             data: data
           }, 'latest']
         }),
-        new Promise((_, reject) => 
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Request timeout')), 3000)
         )
       ]);
@@ -343,7 +329,7 @@ export const useOptimizedSwapMetrics = (): UseOptimizedSwapMetricsReturn => {
       console.error('Error getting ReachSwap amounts out:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Main optimized swap metrics calculation
   const calculateSwapMetrics = useCallback(async (
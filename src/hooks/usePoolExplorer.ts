@@ -0,0 +1,260 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ExplorerPool, PoolDex, Token } from '../types';
+import { TOKENS } from '../constants/tokens';
+import { REACHSWAP_CONTRACTS, POOL_EXPLORER_CONFIG } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { useOptimizedMulticall } from './useOptimizedMulticall';
+import { extractTokenMetadata, normalizeToken } from '../utils/tokenUtils';
+import { fetchSwapVolumes, valueSwapVolumeUsd, LP_FEE_BPS, SwapVolume } from '../utils/poolAnalytics';
+import { estimateTvlUsd, getLoopUsdPrice } from '../utils/priceOracle';
+import { getReadProvider } from '../utils/rpcProvider';
+import { TxError, toTxError } from '../utils/txErrors';
+
+interface UsePoolExplorerReturn {
+  pools: ExplorerPool[];
+  isLoading: boolean;
+  error: TxError | null;
+  lastUpdated: number | null;
+  totalPairs: number; // Pairs across both factories, listed or not
+  hasMorePairs: boolean;
+  refreshPools: (force?: boolean) => Promise<void>;
+  loadMorePools: () => void;
+}
+
+interface PairData {
+  address: string;
+  dex: PoolDex;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  totalSupply: bigint;
+}
+
+const FACTORIES: { dex: PoolDex; address: string }[] = [
+  { dex: 'reachswap', address: REACHSWAP_CONTRACTS.FACTORY },
+  { dex: 'sphynx', address: SPHYNX_CONTRACTS.FACTORY }
+];
+
+// Shared across mounts so switching tabs does not re-enumerate every factory
+let cachedPools: {
+  pools: ExplorerPool[];
+  loadedAt: number;
+  pairLimit: number;
+  totalPairs: number;
+  hasMorePairs: boolean;
+} | null = null;
+
+const word = (result: string, index = 0) => BigInt('0x' + (result.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+const toAddress = (result: string) => '0x' + result.slice(-40).toLowerCase();
+const isWord = (result: string) => !!result && result.length >= 66;
+
+const toAmount = (raw: bigint, decimals: number) => Number(raw) / Math.pow(10, decimals);
+
+const buildPool = async (
+  pair: PairData,
+  token0: Token,
+  token1: Token,
+  volume: SwapVolume | undefined,
+  loopPrice: number,
+  blockNumber: number
+): Promise<ExplorerPool> => {
+  const reserve0 = toAmount(pair.reserve0, token0.decimals);
+  const reserve1 = toAmount(pair.reserve1, token1.decimals);
+  const tvlUsd = await estimateTvlUsd(token0, token1, pair.reserve0, pair.reserve1, loopPrice, blockNumber);
+  const volume24hUsd = valueSwapVolumeUsd(volume, token0, token1, pair.reserve0, pair.reserve1, tvlUsd);
+  const fees24hUsd = volume24hUsd * LP_FEE_BPS[pair.dex] / 10000;
+
+  return {
+    address: pair.address,
+    dex: pair.dex,
+    token0,
+    token1,
+    reserve0: pair.reserve0.toString(),
+    reserve1: pair.reserve1.toString(),
+    totalSupply: pair.totalSupply.toString(),
+    price0: reserve0 > 0 ? reserve1 / reserve0 : 0,
+    price1: reserve1 > 0 ? reserve0 / reserve1 : 0,
+    tvlUsd,
+    volume24hUsd,
+    fees24hUsd,
+    feeApr: tvlUsd ? fees24hUsd * 365 / tvlUsd * 100 : 0,
+    swapCount24h: volume?.swaps || 0
+  };
+};
+
+// All ReachSwap and Sphynx pairs with reserves, TVL, 24h volume and fee APR
+export const usePoolExplorer = (): UsePoolExplorerReturn => {
+  const [pools, setPools] = useState<ExplorerPool[]>(cachedPools?.pools || []);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<TxError | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(cachedPools?.loadedAt || null);
+  const [pairLimit, setPairLimit] = useState(cachedPools?.pairLimit || POOL_EXPLORER_CONFIG.PAIRS_PAGE_SIZE);
+  const [totalPairs, setTotalPairs] = useState(cachedPools?.totalPairs || 0);
+  const [hasMorePairs, setHasMorePairs] = useState(cachedPools?.hasMorePairs || false);
+
+  const { batchCall } = useOptimizedMulticall();
+
+  // Pair addresses from allPairsLength/allPairs, the newest `limit` of the factory, with its pair count
+  const listPairs = useCallback(async (dex: PoolDex, factory: string, limit: number): Promise<{ addresses: string[]; total: number }> => {
+    const [lengthResult] = await batchCall([
+      { target: factory, callData: '0x574f2ba3', key: `${dex}_allPairsLength` } // allPairsLength()
+    ]);
+    if (!lengthResult.success || !isWord(lengthResult.returnData)) {
+      throw new Error(`Could not read the ${dex} factory`);
+    }
+
+    const total = Number(word(lengthResult.returnData));
+    const start = Math.max(0, total - limit);
+    console.log(`🏊 ${dex} factory has ${total} pairs, listing ${total - start}`);
+
+    const indexes = Array.from({ length: total - start }, (_, i) => start + i);
+    const results = await batchCall(indexes.map(index => ({
+      target: factory,
+      callData: '0x1e3dd18b' + index.toString(16).padStart(64, '0'), // allPairs(uint256)
+      key: `${dex}_allPairs_${index}`,
+      kind: 'metadata' as const
+    })));
+
+    const addresses = results
+      .filter(result => result.success && isWord(result.returnData))
+      .map(result => toAddress(result.returnData));
+    return { addresses, total };
+  }, [batchCall]);
+
+  const loadPairData = useCallback(async (dex: PoolDex, pairAddresses: string[]): Promise<PairData[]> => {
+    const results = await batchCall(pairAddresses.flatMap(address => [
+      { target: address, callData: '0x0dfe1681', key: `${address}_token0` }, // token0()
+      { target: address, callData: '0xd21220a7', key: `${address}_token1` }, // token1()
+      { target: address, callData: '0x0902f1ac', key: `${address}_reserves` }, // getReserves()
+      { target: address, callData: '0x18160ddd', key: `${address}_totalSupply` } // totalSupply()
+    ]));
+
+    const pairs: PairData[] = [];
+    pairAddresses.forEach((address, i) => {
+      const [token0, token1, reserves, totalSupply] = results.slice(i * 4, i * 4 + 4);
+      if (!isWord(token0.returnData) || !isWord(token1.returnData) || !isWord(reserves.returnData)) return;
+
+      pairs.push({
+        address,
+        dex,
+        token0: toAddress(token0.returnData),
+        token1: toAddress(token1.returnData),
+        reserve0: word(reserves.returnData, 0),
+        reserve1: word(reserves.returnData, 1),
+        totalSupply: isWord(totalSupply.returnData) ? word(totalSupply.returnData) : BigInt(0)
+      });
+    });
+    return pairs;
+  }, [batchCall]);
+
+  // Known tokens keep their list metadata and logos; others are read from the contract
+  const resolveTokens = useCallback(async (addresses: string[]): Promise<Map<string, Token>> => {
+    const tokens = new Map<string, Token>();
+    const unknown: string[] = [];
+
+    addresses.forEach(address => {
+      const known = Object.values(TOKENS).find(token => token.address.toLowerCase() === address);
+      if (known) {
+        tokens.set(address, known);
+      } else {
+        unknown.push(address);
+      }
+    });
+
+    const results = await batchCall(unknown.flatMap(address => [
+      { target: address, callData: '0x95d89b41', key: `symbol_${address}` }, // symbol()
+      { target: address, callData: '0x06fdde03', key: `name_${address}` }, // name()
+      { target: address, callData: '0x313ce567', key: `decimals_${address}` } // decimals()
+    ]));
+
+    unknown.forEach((address, i) => {
+      const [symbol, name, decimals] = results.slice(i * 3, i * 3 + 3);
+      tokens.set(address, normalizeToken(extractTokenMetadata(address, symbol.returnData, name.returnData, decimals.returnData)));
+    });
+
+    return tokens;
+  }, [batchCall]);
+
+  const refreshPools = useCallback(async (force = false) => {
+    if (!force && cachedPools && cachedPools.pairLimit >= pairLimit && Date.now() - cachedPools.loadedAt < POOL_EXPLORER_CONFIG.CACHE_TTL) {
+      setPools(cachedPools.pools);
+      setLastUpdated(cachedPools.loadedAt);
+      setTotalPairs(cachedPools.totalPairs);
+      setHasMorePairs(cachedPools.hasMorePairs);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const listed = await Promise.all(FACTORIES.map(async ({ dex, address }) => {
+        const { addresses, total } = await listPairs(dex, address, pairLimit);
+        return { pairs: await loadPairData(dex, addresses), total };
+      }));
+      const pairs = listed.flatMap(factory => factory.pairs);
+      const factoryPairs = listed.reduce((sum, factory) => sum + factory.total, 0);
+      const morePairs = listed.some(factory => factory.total > pairLimit);
+
+      const tokenAddresses = [...new Set(pairs.flatMap(pair => [pair.token0, pair.token1]))];
+      const [tokens, loopPrice, latestBlock] = await Promise.all([
+        resolveTokens(tokenAddresses),
+        getLoopUsdPrice(),
+        getReadProvider().request({ method: 'eth_blockNumber', params: [] }).then((block: string) => parseInt(block, 16))
+      ]);
+
+      // Volume is optional - the list is still useful when the node refuses log queries
+      let volumes = new Map<string, SwapVolume>();
+      try {
+        volumes = await fetchSwapVolumes(
+          pairs.map(pair => pair.address),
+          Math.floor(Date.now() / 1000) - POOL_EXPLORER_CONFIG.VOLUME_WINDOW
+        );
+      } catch (volumeError) {
+        console.warn('⚠️ Could not read swap volume for pools:', volumeError);
+      }
+
+      const explorerPools = await Promise.all(pairs.map(pair => buildPool(
+        pair,
+        tokens.get(pair.token0)!,
+        tokens.get(pair.token1)!,
+        volumes.get(pair.address),
+        loopPrice,
+        latestBlock
+      )));
+
+      cachedPools = { pools: explorerPools, loadedAt: Date.now(), pairLimit, totalPairs: factoryPairs, hasMorePairs: morePairs };
+      setPools(explorerPools);
+      setLastUpdated(cachedPools.loadedAt);
+      setTotalPairs(factoryPairs);
+      setHasMorePairs(morePairs);
+      console.log(`✅ Pool explorer loaded ${explorerPools.length} pools`);
+    } catch (loadError) {
+      console.error('Error loading pools:', loadError);
+      setError(toTxError(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pairLimit, listPairs, loadPairData, resolveTokens]);
+
+  // List the next page of older pairs from each factory; the effect below reloads with the new limit
+  const loadMorePools = useCallback(() => {
+    setPairLimit(limit => limit + POOL_EXPLORER_CONFIG.PAIRS_PAGE_SIZE);
+  }, []);
+
+  useEffect(() => {
+    refreshPools();
+  }, [refreshPools]);
+
+  return {
+    pools,
+    isLoading,
+    error,
+    lastUpdated,
+    totalPairs,
+    hasMorePairs,
+    refreshPools,
+    loadMorePools
+  };
+};
@@ -1,10 +1,18 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Token } from '../types';
+import { Token, HistoryEvent, HistoryTokenAmount, PositionPnl } from '../types';
 import { TOKENS } from '../constants/tokens';
 import { SPHYNX_CONTRACTS } from '../constants/sphynx';
 import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
 import { useDynamicTokenPricing } from './useDynamicTokenPricing';
 import { useUniversalRouter } from './useUniversalRouter';
+import { getReadProvider } from '../utils/rpcProvider';
+import { indexHistory, getIndexedHistory } from '../utils/historyIndexer';
+import { getPriceChanges24h } from '../utils/priceHistory';
+import { estimateTvlUsd, getLoopUsdPriceAtBlock } from '../utils/priceOracle';
+import { applyPoolAnalytics, getCachedPoolAnalytics } from '../utils/poolAnalytics';
+import { applyPositionPnl } from '../utils/positionPnl';
+import { TxError, toTxError } from '../utils/txErrors';
+import { formatLpAmount } from '../utils/tokenUtils';
 
 export interface TokenHolding {
   token: Token;
@@ -20,10 +28,11 @@ export interface LiquidityPosition {
   token1: Token;
   lpTokenBalance: string;
   poolShare: number;
-  value: number;
-  rewards: number;
+  value: number | null; // USD, null when the pair cannot be priced
+  rewards: number; // Fees earned, from the position's P&L
   apr: string;
   pairAddress: string;
+  pnl?: PositionPnl;
 }
 
 export interface Transaction {
@@ -32,6 +41,7 @@ export interface Transaction {
   to?: string;
   pair?: string;
   amount: string;
+  amountOut?: string;
   value: number;
   time: string;
   status: 'success' | 'pending' | 'failed';
@@ -40,6 +50,8 @@ export interface Transaction {
   gasUsed?: string;
   routedThroughSphynx?: boolean;
   swapPath?: string[];
+  isWrapUnwrap?: boolean;
+  wrapUnwrapType?: 'wrap' | 'unwrap';
 }
 
 export interface PortfolioData {
@@ -116,7 +128,7 @@ export const usePortfolioData = (
     recentTransactions: []
   });
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TxError | null>(null);
   const lastRefreshRef = useRef<number>(0);
   const cacheRef = useRef<CachedPortfolioData | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -167,21 +179,6 @@ export const usePortfolioData = (
     }
   }, []);
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Helper to decode contract string responses
   const decodeString = useCallback((hexData: string): string => {
     if (!hexData || hexData === '0x' || hexData === '0x0') return '';
@@ -242,7 +239,7 @@ export const usePortfolioData = (
     }
     
     try {
-      const currentProvider = provider || getProvider();
+      const currentProvider = provider || getReadProvider();
       if (!currentProvider) return null;
 
       const [symbolResult, nameResult, decimalsResult] = await Promise.all([
@@ -285,7 +282,7 @@ export const usePortfolioData = (
   )
   // Optimized batch balance fetching
   const batchFetchBalances = useCallback(async (address: string, tokens: Token[]): Promise<{ [tokenAddress: string]: string }> => {
-    const provider = getProvider();
+    const provider = getReadProvider();
     if (!provider) throw new Error('No provider available');
 
     const balances: { [tokenAddress: string]: string } = {};
@@ -366,7 +363,7 @@ export const usePortfolioData = (
     }
 
     return balances;
-  }, [getProvider]);
+  }, []);
 
   // Optimized token holdings with smart filtering and sorting
   const fetchTokenHoldings = useCallback(async (address: string): Promise<TokenHolding[]> => {
@@ -388,14 +385,21 @@ export const usePortfolioData = (
       return [];
     }
 
-    // Batch fetch prices for tokens with balance
-    await batchFetchPrices(tokensWithBalance.map(item => item.token));
+    // Batch fetch prices and 24h changes for tokens with balance
+    const heldTokens = tokensWithBalance.map(item => item.token);
+    const [, priceChanges] = await Promise.all([
+      batchFetchPrices(heldTokens),
+      getPriceChanges24h(heldTokens, getLoopUsdPriceAtBlock).catch(error => {
+        console.warn('Error fetching 24h price changes:', error);
+        return {} as Record<string, number>;
+      })
+    ]);
 
     // Create holdings with live prices and calculate values
     const holdings: TokenHolding[] = tokensWithBalance.map(({ token, balance }) => {
       const price = getTokenPrice(token) || 0;
       const value = balance * price;
-      const change24h = (Math.random() - 0.5) * 10; // Mock 24h change for now
+      const change24h = priceChanges[token.address.toLowerCase()] || 0;
       
       return {
         token,
@@ -422,7 +426,7 @@ export const usePortfolioData = (
     console.log('🔄 Fetching REAL liquidity positions from ReachSwap contracts...');
     
     const positions: LiquidityPosition[] = [];
-    const provider = getProvider();
+    const provider = getReadProvider();
     if (!provider) return positions;
 
     try {
@@ -552,22 +556,26 @@ export const usePortfolioData = (
                 const token0Address = '0x' + token0Result.slice(-40);
                 const token1Address = '0x' + token1Result.slice(-40);
 
-                // Get token metadata
-                const token0 = await getTokenFromAddress(token0Address);
-                const token1 = await getTokenFromAddress(token1Address);
+                // Get token metadata (lookups for unlisted tokens carry no address or logo)
+                const metadata0 = await getTokenFromAddress(token0Address);
+                const metadata1 = await getTokenFromAddress(token1Address);
 
-                if (token0 && token1) {
-                  const lpBalanceFormatted = (Number(lpBalance) / Math.pow(10, 18)).toFixed(6);
+                if (metadata0 && metadata1) {
+                  const token0: Token = { address: token0Address, logoUrl: '', ...metadata0 };
+                  const token1: Token = { address: token1Address, logoUrl: '', ...metadata1 };
+                  const lpBalanceFormatted = formatLpAmount(lpBalance);
                   
-                  // Get reserves for value calculation
-                  const getReservesSignature = '0x0902f1ac';
-                  const reservesResult = await provider.request({
-                    method: 'eth_call',
-                    params: [{
-                      to: pairAddress,
-                      data: getReservesSignature
-                    }, 'latest']
-                  });
+                  // Reserves and LP supply for the position's share and value
+                  const [reservesResult, totalSupplyResult] = await Promise.all([
+                    provider.request({
+                      method: 'eth_call',
+                      params: [{ to: pairAddress, data: '0x0902f1ac' }, 'latest'] // getReserves()
+                    }),
+                    provider.request({
+                      method: 'eth_call',
+                      params: [{ to: pairAddress, data: '0x18160ddd' }, 'latest'] // totalSupply()
+                    })
+                  ]);
 
                   let reserve0 = '0';
                   let reserve1 = '0';
@@ -578,20 +586,21 @@ export const usePortfolioData = (
                     reserve1 = BigInt('0x' + reservesData.slice(64, 128)).toString();
                   }
 
-                  // Calculate position value
-                  const reserve0Number = Number(reserve0) / Math.pow(10, token0.decimals);
-                  const reserve1Number = Number(reserve1) / Math.pow(10, token1.decimals);
-                  const estimatedValue = (reserve0Number + reserve1Number) * 0.15 * parseFloat(lpBalanceFormatted) / 1000;
+                  // token0/token1 come from the pair itself, so they match the reserve order
+                  const totalSupply = BigInt(totalSupplyResult || '0x0');
+                  const poolShare = totalSupply > BigInt(0) ? Number(lpBalance * BigInt(1000000) / totalSupply) / 10000 : 0;
+                  const tvlUsd = await estimateTvlUsd(token0, token1, reserve0, reserve1);
+                  const estimatedValue = tvlUsd === null ? null : tvlUsd * poolShare / 100;
 
                   const position: LiquidityPosition = {
                     pair: `${token0.symbol}/${token1.symbol}`,
                     token0,
                     token1,
                     lpTokenBalance: lpBalanceFormatted,
-                    poolShare: 0.01,
-                    value: Math.max(estimatedValue, 1),
-                    rewards: estimatedValue * 0.005,
-                    apr: '28.7%',
+                    poolShare,
+                    value: estimatedValue,
+                    rewards: 0, // Filled in from position P&L
+                    apr: '--', // Filled in from pool analytics
                     pairAddress
                   };
 
@@ -610,17 +619,20 @@ export const usePortfolioData = (
         console.warn('Error scanning factory pairs:', error);
       }
 
+      // Value, share and APR from the pools' Swap activity
+      const valuedPositions = await applyPoolAnalytics(positions);
+
       // Sort positions by value (highest first)
-      positions.sort((a, b) => b.value - a.value);
+      valuedPositions.sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
 
-      console.log(`✅ Found ${positions.length} REAL liquidity positions from ReachSwap contracts`);
-      return positions;
+      console.log(`✅ Found ${valuedPositions.length} REAL liquidity positions from ReachSwap contracts`);
+      return valuedPositions;
 
     } catch (error) {
       console.error('Error fetching liquidity positions:', error);
       return [];
     }
-  }, [getProvider]);
+  }, []);
 
   // Helper function to get token info from address
   const getTokenFromAddress = useCallback(async (address: string) => {
@@ -720,46 +732,37 @@ export const usePortfolioData = (
       const totalSupplyNumber = Number(totalSupply) / Math.pow(10, 18);
       const poolShare = totalSupplyNumber > 0 ? (lpBalance / totalSupplyNumber) * 100 : 0;
 
-      // Calculate position value using token prices
-      const token0Price = getTokenPrice(token0) || 0.15; // Fallback price
-      const token1Price = getTokenPrice(token1) || 0.15; // Fallback price
-      
-      const reserve0Number = Number(reserve0) / Math.pow(10, token0.decimals);
-      const reserve1Number = Number(reserve1) / Math.pow(10, token1.decimals);
-      
-      // Calculate actual position value based on pool share
-      const totalPoolValue = (reserve0Number * token0Price) + (reserve1Number * token1Price);
-      const positionValue = totalPoolValue * (poolShare / 100);
-      const value = Math.max(positionValue, 1); // Minimum $1 for display
-
-      // Calculate estimated rewards (0.25% fee * position value * estimated volume multiplier)
-      const estimatedRewards = value * 0.01; // 1% of position value as rewards estimate
+      // Position value as its share of TVL (reserves are in sorted token order); tokens that cannot
+      // be priced through a wLOOP pair leave it unknown
+      const [pairToken0, pairToken1] = tokenA.toLowerCase() === sortedToken0.toLowerCase() ? [token0, token1] : [token1, token0];
+      const tvlUsd = await estimateTvlUsd(pairToken0, pairToken1, reserve0, reserve1);
+      const value = tvlUsd === null ? null : tvlUsd * poolShare / 100;
 
       const position: LiquidityPosition = {
         pair: `${token0.symbol}/${token1.symbol}`,
         token0,
         token1,
-        lpTokenBalance: lpBalance.toFixed(6),
+        lpTokenBalance: formatLpAmount(lpBalanceWei),
         poolShare: poolShare,
         value: value,
-        rewards: estimatedRewards,
-        apr: '28.7%', // ReachSwap APR
+        rewards: 0, // Filled in from position P&L
+        apr: '--', // Filled in from pool analytics
         pairAddress
       };
 
-      console.log(`✅ Found LP position: ${position.pair} - ${position.lpTokenBalance} LP tokens - $${value.toFixed(2)}`);
+      console.log(`✅ Found LP position: ${position.pair} - ${position.lpTokenBalance} LP tokens - ${value === null ? 'unpriced' : `$${value.toFixed(2)}`}`);
       return position;
 
     } catch (error) {
       console.error(`Error checking pair ${token0.symbol || 'UNKNOWN'}/${token1.symbol || 'UNKNOWN'}:`, error);
       return null;
     }
-  }, [getTokenPrice]);
+  }, []);
 
   // Fetch native LOOP balance
   const fetchNativeBalance = useCallback(async (address: string): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return '0';
 
       const result = await provider.request({
@@ -773,12 +776,12 @@ export const usePortfolioData = (
       console.error('Error fetching native balance:', error);
       return '0';
     }
-  }, [getProvider]);
+  }, []);
 
   // Fetch ERC-20 token balance
   const fetchTokenBalance = useCallback(async (address: string, tokenAddress: string, token: Token): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return '0';
 
       const balanceOfSignature = '0x70a08231';
@@ -804,335 +807,58 @@ export const usePortfolioData = (
       console.error('Error fetching token balance:', error);
       return '0.000000';
     }
-  }, [getProvider]);
-
-  // REAL transaction history fetching from ReachSwap contracts on blockchain
-  const fetchRecentTransactions = useCallback(async (address: string): Promise<Transaction[]> => {
-    console.log('🔄 Fetching REAL ReachSwap transaction history from blockchain...');
-    
-    try {
-      const provider = getProvider();
-      if (!provider) return [];
-
-      const transactions: Transaction[] = [];
-      
-      // Get latest block for scanning range
-      const latestBlock = await provider.request({
-        method: 'eth_blockNumber',
-        params: []
-      });
-      const latestBlockNum = parseInt(latestBlock, 16);
-      const fromBlock = Math.max(0, latestBlockNum - 50000); // Scan last 50k blocks for more comprehensive history
-
-      console.log(`📊 Scanning blocks ${fromBlock} to ${latestBlockNum} for REAL ReachSwap transactions...`);
-
-      // ReachSwap router function signatures
-      const TRANSACTION_SIGNATURES = {
-        // Swap functions
-        swapExactETHForTokens: '0x7ff36ab5',
-        swapExactTokensForETH: '0x18cbafe5', 
-        swapExactTokensForTokens: '0x38ed1739',
-        swapExactETHForTokensSupportingFeeOnTransferTokens: '0xb6f9de95',
-        swapExactTokensForETHSupportingFeeOnTransferTokens: '0x791ac947',
-        swapExactTokensForTokensSupportingFeeOnTransferTokens: '0x5c11d795',
-        
-        // Liquidity functions
-        addLiquidity: '0xe8e33700',
-        addLiquidityETH: '0xf305d719',
-        removeLiquidity: '0xbaa2abde',
-        removeLiquidityETH: '0x02751cec',
-        
-        // Wrap/Unwrap functions (wLOOP contract)
-        deposit: '0xd0e30db0', // wLOOP.deposit()
-        withdraw: '0x2e1a7d4d' // wLOOP.withdraw(uint256)
-      };
-      
-      // Method 1: Scan for transactions to ReachSwap router
-      try {
-        // Get transaction logs for ReachSwap router interactions
-        const logs = await provider.request({
-          method: 'eth_getLogs',
-          params: [{
-            fromBlock: '0x' + fromBlock.toString(16),
-            toBlock: '0x' + latestBlockNum.toString(16),
-            address: REACHSWAP_CONTRACTS.ROUTER,
-            topics: [null] // Get all events
-          }]
-        });
-
-        console.log(`📊 Found ${logs.length} ReachSwap router events`);
-
-        // Process logs to extract user transactions
-        for (const log of logs.slice(-50)) { // Last 50 events
-          try {
-            // Check if this log involves the user's address
-            const logData = log.data;
-            const topics = log.topics || [];
-            
-            // Look for user address in topics or data
-            const userInvolved = topics.some((topic: string) => 
-              topic.toLowerCase().includes(address.slice(2).toLowerCase())
-            ) || logData.toLowerCase().includes(address.slice(2).toLowerCase());
-
-            if (userInvolved) {
-              // Get transaction details
-              const txHash = log.transactionHash;
-              const blockNumber = parseInt(log.blockNumber, 16);
-              
-              // Get transaction receipt for more details
-              const txReceipt = await provider.request({
-                method: 'eth_getTransactionReceipt',
-                params: [txHash]
-              });
-
-              if (txReceipt && txReceipt.from.toLowerCase() === address.toLowerCase()) {
-                // This is a transaction from the user
-                const tx = await provider.request({
-                  method: 'eth_getTransactionByHash',
-                  params: [txHash]
-                });
-
-                if (tx && tx.input && tx.input.length >= 10) {
-                  const methodSignature = tx.input.slice(0, 10);
-                  const txType = getTransactionType(methodSignature, TRANSACTION_SIGNATURES);
-                  
-                  if (txType) {
-                    const timestamp = await getBlockTimestamp(blockNumber, provider);
-                    const timeAgo = formatTimeAgo(timestamp * 1000);
-                    
-                    // Decode transaction details
-                    const txDetails = await decodeTransactionDetails(tx, txType, provider);
-                    
-                    const transaction: Transaction = {
-                      id: txHash,
-                      type: txDetails.type,
-                      tokenIn: txDetails.tokenIn,
-                      tokenOut: txDetails.tokenOut,
-                      amountIn: txDetails.amountIn,
-                      amountOut: txDetails.amountOut,
-                      timestamp: timestamp,
-                      hash: txHash,
-                      status: txReceipt.status === '0x1' ? 'success' : 'failed',
-                      blockNumber: blockNumber,
-                      gasUsed: (parseInt(txReceipt.gasUsed, 16) / 1e18).toFixed(6),
-                      time: timeAgo,
-                      value: txDetails.value,
-                      pair: txDetails.pair
-                    };
-
-                    transactions.push(transaction);
-                    console.log(`✅ Found ReachSwap transaction: ${txType} - ${txHash}`);
-                  }
-                }
-              }
-            }
-          } catch (error) {
-            console.warn('Error processing log:', error);
-            continue;
-          }
-        }
-      } catch (error) {
-        console.warn('Error fetching ReachSwap router logs:', error);
-      }
-
-      // Method 2: Check for wrap/unwrap transactions on wLOOP contract
-      try {
-        const wrapUnwrapTxs = await checkForWrapUnwrapTransactions(address, fromBlock, latestBlockNum, provider);
-        transactions.push(...wrapUnwrapTxs);
-      } catch (error) {
-        console.warn('Error checking wrap/unwrap transactions:', error);
-      }
-
-      // Method 3: Scan user's transaction history for ReachSwap interactions
-      try {
-        // Get user's recent transactions
-        const userTxs = await getUserRecentTransactions(address, fromBlock, latestBlockNum, provider);
-        
-        for (const tx of userTxs) {
-          if (tx.to && (
-            tx.to.toLowerCase() === REACHSWAP_CONTRACTS.ROUTER.toLowerCase() ||
-            tx.to.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase()
-          )) {
-            // This is a ReachSwap transaction
-            const txReceipt = await provider.request({
-              method: 'eth_getTransactionReceipt',
-              params: [tx.hash]
-            });
-
-            if (txReceipt && tx.input && tx.input.length >= 10) {
-              const methodSignature = tx.input.slice(0, 10);
-              const txType = getTransactionType(methodSignature, TRANSACTION_SIGNATURES);
-              
-              if (txType) {
-                const timestamp = await getBlockTimestamp(parseInt(tx.blockNumber, 16), provider);
-                const timeAgo = formatTimeAgo(timestamp * 1000);
-                
-                // Decode transaction details
-                const txDetails = await decodeTransactionDetails(tx, txType, provider);
-                
-                const transaction: Transaction = {
-                  id: tx.hash,
-                  type: txDetails.type,
-                  tokenIn: txDetails.tokenIn,
-                  tokenOut: txDetails.tokenOut,
-                  amountIn: txDetails.amountIn,
-                  amountOut: txDetails.amountOut,
-                  timestamp: timestamp,
-                  hash: tx.hash,
-                  status: txReceipt.status === '0x1' ? 'success' : 'failed',
-                  blockNumber: parseInt(tx.blockNumber, 16),
-                  gasUsed: (parseInt(txReceipt.gasUsed, 16) / 1e18).toFixed(6),
-                  time: timeAgo,
-                  value: txDetails.value,
-                  pair: txDetails.pair
-                };
-
-                transactions.push(transaction);
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.warn('Error scanning user transactions:', error);
-      }
-
-      // Remove duplicates and sort by timestamp (newest first)
-      const uniqueTransactions = transactions.filter((tx, index, self) => 
-        index === self.findIndex(t => t.hash === tx.hash)
-      );
-      
-      uniqueTransactions.sort((a, b) => b.timestamp - a.timestamp);
-
-      console.log(`✅ Found ${uniqueTransactions.length} REAL ReachSwap transactions`);
-      return uniqueTransactions.slice(0, TRANSACTION_LIMIT);
-    } catch (error) {
-      console.error('Error fetching real transactions:', error);
-      return [];
-    }
-  }, [getProvider]);
-
-  // Helper function to get transaction type from method signature
-  const getTransactionType = useCallback((signature: string, signatures: any) => {
-    for (const [method, sig] of Object.entries(signatures)) {
-      if (signature === sig) {
-        return method;
-      }
-    }
-    return null;
   }, []);
 
-  // Helper function to get block timestamp
-  const getBlockTimestamp = useCallback(async (blockNumber: number, provider: any) => {
-    try {
-      const block = await provider.request({
-        method: 'eth_getBlockByNumber',
-        params: ['0x' + blockNumber.toString(16), false]
-      });
-      return parseInt(block.timestamp, 16);
-    } catch (error) {
-      console.error('Error getting block timestamp:', error);
-      return Math.floor(Date.now() / 1000);
-    }
-  }, []);
+  // Map an indexed history event to the portfolio transaction shape, valued at current prices
+  const toTransaction = useCallback((event: HistoryEvent): Transaction => {
+    const [first, second] = event.tokens;
+    const isLiquidity = event.type === 'add' || event.type === 'remove';
+    const isWrapUnwrap = event.type === 'wrap' || event.type === 'unwrap';
+
+    const valueOf = (tokenAmount: HistoryTokenAmount) => {
+      const token = Object.values(TOKENS).find(t => t.address.toLowerCase() === tokenAmount.address.toLowerCase()) || {
+        symbol: tokenAmount.symbol,
+        name: tokenAmount.symbol,
+        address: tokenAmount.address,
+        decimals: tokenAmount.decimals,
+        logoUrl: ''
+      };
+      return parseFloat(tokenAmount.amount) * (getTokenPrice(token) || 0);
+    };
+    const formatAmount = (amount: string) => parseFloat(amount).toFixed(6).replace(/\.?0+$/, '');
+
+    return {
+      type: isLiquidity ? event.type as 'add' | 'remove' : 'swap',
+      from: first.symbol,
+      to: second.symbol,
+      pair: isLiquidity ? `${first.symbol}/${second.symbol}` : undefined,
+      amount: formatAmount(first.amount),
+      amountOut: formatAmount(second.amount),
+      value: isLiquidity ? valueOf(first) + valueOf(second) : valueOf(first),
+      time: formatTimeAgo(event.timestamp * 1000),
+      status: 'success', // Logs only exist for successful transactions
+      hash: event.hash,
+      blockNumber: event.blockNumber,
+      gasUsed: event.gasFee ? parseFloat(event.gasFee).toFixed(6) : undefined,
+      routedThroughSphynx: event.router === 'sphynx',
+      isWrapUnwrap,
+      wrapUnwrapType: isWrapUnwrap ? event.type as 'wrap' | 'unwrap' : undefined
+    };
+  }, [getTokenPrice]);
 
-  // Helper function to get user's recent transactions
-  const getUserRecentTransactions = useCallback(async (address: string, fromBlock: number, toBlock: number, provider: any) => {
-    try {
-      // This would typically use a block explorer API or indexing service
-      // For now, we'll return empty array as direct RPC calls for user tx history are limited
-      return [];
-    } catch (error) {
-      console.error('Error getting user transactions:', error);
-      return [];
-    }
-  }, []);
+  // Transaction history from the event indexer - only blocks after the stored cursor are fetched
+  const fetchRecentTransactions = useCallback(async (address: string): Promise<Transaction[]> => {
+    console.log('🔄 Fetching indexed ReachSwap transaction history...');
 
-  // Check for wrap/unwrap transactions on wLOOP contract
-  const checkForWrapUnwrapTransactions = useCallback(async (
-    address: string, 
-    fromBlock: number, 
-    toBlock: number,
-    provider: any
-  ): Promise<Transaction[]> => {
     try {
-      const wrapUnwrapTxs: Transaction[] = [];
-      const wLOOPAddress = REACHSWAP_CONTRACTS.WLOOP;
-
-      // Get logs for wLOOP contract
-      const logs = await provider.request({
-        method: 'eth_getLogs',
-        params: [{
-          fromBlock: '0x' + fromBlock.toString(16),
-          toBlock: '0x' + toBlock.toString(16),
-          address: wLOOPAddress,
-          topics: [null] // Get all events
-        }]
-      });
-
-      for (const log of logs.slice(-10)) { // Last 10 wrap/unwrap events
-        try {
-          // Check if this log involves the user
-          const topics = log.topics || [];
-          const userInvolved = topics.some((topic: string) => 
-            topic.toLowerCase().includes(address.slice(2).toLowerCase())
-          );
-
-          if (userInvolved) {
-            const txHash = log.transactionHash;
-            const blockNumber = parseInt(log.blockNumber, 16);
-            
-            const txReceipt = await provider.request({
-              method: 'eth_getTransactionReceipt',
-              params: [txHash]
-            });
-
-            if (txReceipt && txReceipt.from.toLowerCase() === address.toLowerCase()) {
-              const tx = await provider.request({
-                method: 'eth_getTransactionByHash',
-                params: [txHash]
-              });
-
-              if (tx) {
-                const timestamp = await getBlockTimestamp(blockNumber, provider);
-                const timeAgo = formatTimeAgo(timestamp * 1000);
-                const value = parseInt(tx.value, 16) / 1e18;
-                
-                // Determine if wrap or unwrap based on transaction value
-                const isWrap = value > 0;
-                
-                const transaction: Transaction = {
-                  id: txHash,
-                  type: 'swap' as const,
-                  tokenIn: isWrap ? 'LOOP' : 'wLOOP',
-                  tokenOut: isWrap ? 'wLOOP' : 'LOOP',
-                  amountIn: value.toFixed(6),
-                  amountOut: value.toFixed(6),
-                  timestamp: timestamp,
-                  hash: txHash,
-                  status: txReceipt.status === '0x1' ? 'success' : 'failed',
-                  blockNumber: blockNumber,
-                  gasUsed: (parseInt(txReceipt.gasUsed, 16) / 1e18).toFixed(6),
-                  time: timeAgo,
-                  value: value * 0.15
-                };
-
-                wrapUnwrapTxs.push(transaction);
-              }
-            }
-          }
-        } catch (error) {
-          console.warn('Error processing wrap/unwrap log:', error);
-          continue;
-        }
-      }
-
-      return wrapUnwrapTxs;
+      const events = await indexHistory(address, tokenAddress => getTokenMetadata(tokenAddress));
+      return events.slice(0, TRANSACTION_LIMIT).map(toTransaction);
     } catch (error) {
-      console.error('Error checking wrap/unwrap transactions:', error);
-      return [];
+      console.error('Error fetching indexed transactions:', error);
+      // Show what earlier loads indexed rather than nothing
+      return getIndexedHistory(address).slice(0, TRANSACTION_LIMIT).map(toTransaction);
     }
-  }, [getBlockTimestamp]);
-        
+  }, [getTokenMetadata, toTransaction]);
 
   // Format time ago helper
   const formatTimeAgo = (timestamp: number): string => {
@@ -1193,25 +919,33 @@ export const usePortfolioData = (
       const startTime = Date.now();
 
       // Fetch all REAL data in parallel for maximum speed
-      const [tokenHoldings, liquidityPositions, recentTransactions] = await Promise.all([
+      const [tokenHoldings, positions, recentTransactions] = await Promise.all([
         fetchTokenHoldings(fullAddress),
         fetchLiquidityPositions(fullAddress),
         fetchRecentTransactions(fullAddress)
       ]);
 
+      // Entry amounts come from the Mint/Burn events indexed with the transactions above
+      const liquidityPositions = await applyPositionPnl(fullAddress, positions, getIndexedHistory(fullAddress));
+
       // Calculate totals with REAL on-chain data
       const tokenValue = tokenHoldings.reduce((sum, holding) => sum + holding.value, 0);
-      const lpValue = liquidityPositions.reduce((sum, position) => sum + position.value, 0);
+      const lpValue = liquidityPositions.reduce((sum, position) => sum + (position.value ?? 0), 0);
       const totalValue = tokenValue + lpValue;
       
       const totalRewards = liquidityPositions.reduce((sum, position) => sum + position.rewards, 0);
-      const rewardsToday = totalRewards * 0.1;
+      // The position's share of its pool's LP fees over the last 24 hours
+      const rewardsToday = liquidityPositions.reduce((sum, position) => {
+        const analytics = getCachedPoolAnalytics(position.pairAddress);
+        return sum + (analytics ? analytics.fees24hUsd * position.poolShare / 100 : 0);
+      }, 0);
       
-      // Calculate daily change based on REAL portfolio composition
+      // Daily P&L of current holdings: today's value minus their value at yesterday's prices
       const dailyChange = tokenHoldings.reduce((sum, holding) => {
-        return sum + (holding.value * holding.change24h / 100);
+        return sum + holding.value - holding.value / (1 + holding.change24h / 100);
       }, 0);
-      const dailyChangePercent = totalValue > 0 ? (dailyChange / totalValue) * 100 : 0;
+      const previousValue = totalValue - dailyChange;
+      const dailyChangePercent = previousValue > 0 ? (dailyChange / previousValue) * 100 : 0;
 
       const newPortfolioData = {
         totalValue,
@@ -1232,13 +966,13 @@ export const usePortfolioData = (
       const endTime = Date.now();
       console.log(`✅ REAL portfolio refresh completed in ${endTime - startTime}ms`);
 
-    } catch (error: any) {
+    } catch (error) {
       if (abortControllerRef.current?.signal.aborted) {
         console.log('Portfolio fetch was cancelled');
         return;
       }
       console.error('Error fetching portfolio data:', error);
-      setError(error.message || 'Failed to fetch portfolio data');
+      setError(toTxError(error));
     } finally {
       setIsLoading(false);
     }
@@ -0,0 +1,108 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CandleInterval, PriceCandle, Token } from '../types';
+import { TOKENS } from '../constants/tokens';
+import { REACHSWAP_CONTRACTS, PRICE_CHART_CONFIG } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { useUniversalRouter, RouterInfo } from './useUniversalRouter';
+import { loadPriceCandles } from '../utils/priceChart';
+import { TxError, toTxError } from '../utils/txErrors';
+
+interface UsePriceChartReturn {
+  candles: PriceCandle[];
+  route: RouterInfo | null;
+  routeTokens: Token[]; // Tokens along the charted route, including the pair itself
+  isLoading: boolean;
+  error: TxError | null;
+  refreshChart: () => Promise<void>;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const toPathToken = (token: Token): Token => token.address === ZERO_ADDRESS ? TOKENS.wLOOP : token;
+
+// Tokens along the router's path: the charted pair at the ends, built-in tokens for intermediate hops
+const toRouteTokens = (path: string[], pathIn: Token, pathOut: Token): Token[] => {
+  const known = [pathIn, pathOut, ...Object.values(TOKENS).map(toPathToken)];
+  return path.map(address => {
+    const token = known.find(candidate => candidate.address.toLowerCase() === address.toLowerCase());
+    if (!token) throw new Error(`Unknown token ${address} in route`);
+    return token;
+  });
+};
+
+// Candles for tokenIn -> tokenOut along the router and path useUniversalRouter picks
+export const usePriceChart = (tokenIn: Token, tokenOut: Token, interval: CandleInterval): UsePriceChartReturn => {
+  const [candles, setCandles] = useState<PriceCandle[]>([]);
+  const [route, setRoute] = useState<RouterInfo | null>(null);
+  const [routeTokens, setRouteTokens] = useState<Token[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<TxError | null>(null);
+
+  const { getRouterForPair } = useUniversalRouter();
+
+  // getRouterForPair changes with every route it caches; reading it through a ref keeps loads from re-triggering
+  const getRouterRef = useRef(getRouterForPair);
+  getRouterRef.current = getRouterForPair;
+  const requestRef = useRef(0);
+
+  const loadChart = useCallback(async (showLoading: boolean) => {
+    const requestId = ++requestRef.current;
+    const pathIn = toPathToken(tokenIn);
+    const pathOut = toPathToken(tokenOut);
+
+    // LOOP and wLOOP trade 1:1 through wrapping - there is no pair to chart
+    if (pathIn.address.toLowerCase() === pathOut.address.toLowerCase()) {
+      setCandles([]);
+      setRoute(null);
+      setRouteTokens([]);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    if (showLoading) setIsLoading(true);
+
+    try {
+      const routerInfo = await getRouterRef.current(tokenIn, tokenOut);
+      if (!routerInfo.pairExists) {
+        throw new Error(`No liquidity for ${tokenIn.symbol}/${tokenOut.symbol}`);
+      }
+
+      const path = toRouteTokens(routerInfo.path, pathIn, pathOut);
+      const factory = routerInfo.router === 'sphynx' ? SPHYNX_CONTRACTS.FACTORY : REACHSWAP_CONTRACTS.FACTORY;
+
+      const result = await loadPriceCandles(factory, path, interval);
+      if (requestId !== requestRef.current) return;
+
+      setCandles(result);
+      setRoute(routerInfo);
+      setRouteTokens(path);
+      setError(null);
+    } catch (chartError) {
+      if (requestId !== requestRef.current) return;
+      console.error('Error loading price chart:', chartError);
+      setCandles([]);
+      setError(toTxError(chartError));
+    } finally {
+      if (requestId === requestRef.current) setIsLoading(false);
+    }
+  }, [tokenIn, tokenOut, interval]);
+
+  const refreshChart = useCallback(() => loadChart(true), [loadChart]);
+
+  // Load on pair or interval change, then pick up new blocks periodically
+  useEffect(() => {
+    loadChart(true);
+    const timer = setInterval(() => loadChart(false), PRICE_CHART_CONFIG.REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadChart]);
+
+  return {
+    candles,
+    route,
+    routeTokens,
+    isLoading,
+    error,
+    refreshChart
+  };
+};
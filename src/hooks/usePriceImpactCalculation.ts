@@ -1,8 +1,9 @@
 import { useState, useCallback, useRef } from 'react';
 import { Token } from '../types';
 import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { getReadProvider } from '../utils/rpcProvider';
 
-interface PairReserves {
+export interface PairReserves {
   reserve0: string;
   reserve1: string;
   token0: string;
@@ -28,6 +29,8 @@ interface UsePriceImpactCalculationReturn {
     path: string[]
   ) => Promise<PriceImpactResult>;
   getCachedPriceImpact: (tokenInAddress: string, tokenOutAddress: string) => PriceImpactResult | null;
+  getPairAddress: (tokenA: string, tokenB: string, factory?: string) => Promise<string>;
+  getPairReserves: (pairAddress: string) => Promise<PairReserves>;
   clearCache: () => void;
   isCalculating: boolean;
 }
@@ -49,25 +52,14 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
   const reservesCacheRef = useRef<ReservesCache>({});
   const priceImpactCacheRef = useRef<{ [key: string]: PriceImpactResult }>({});
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
-  // Get pair address from factory
-  const getPairAddress = useCallback(async (tokenA: string, tokenB: string): Promise<string> => {
+  // Get pair address from factory (Sphynx unless another factory is given)
+  const getPairAddress = useCallback(async (
+    tokenA: string,
+    tokenB: string,
+    factory: string = SPHYNX_CONTRACTS.FACTORY
+  ): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       const getPairSignature = '0xe6a43905'; // getPair(address,address)
@@ -80,7 +72,7 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
       const result = await provider.request({
         method: 'eth_call',
         params: [{
-          to: SPHYNX_CONTRACTS.FACTORY,
+          to: factory,
           data: data
         }, 'latest']
       });
@@ -94,7 +86,7 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
       console.error('Error getting pair address:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Get pair reserves with caching
   const getPairReserves = useCallback(async (pairAddress: string): Promise<PairReserves> => {
@@ -107,7 +99,7 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
     }
 
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       // Get reserves, token0, and token1 in parallel
@@ -156,7 +148,7 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
       console.error('Error getting pair reserves:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
 
   // Calculate price impact using correct formula with BigNumber precision
   const calculatePriceImpactForPair = useCallback(async (
@@ -338,6 +330,8 @@ export const usePriceImpactCalculation = (): UsePriceImpactCalculationReturn =>
   return {
     calculatePriceImpact,
     getCachedPriceImpact,
+    getPairAddress,
+    getPairReserves,
     clearCache,
     isCalculating
   };
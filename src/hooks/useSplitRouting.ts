@@ -0,0 +1,190 @@
+import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { Token } from '../types';
+import { SPLIT_ROUTE_CONFIG } from '../constants/reachswap';
+import { useUniversalRouter, RouterInfo, RouterType } from './useUniversalRouter';
+import { allocateSlices } from '../utils/splitRouting';
+
+export interface SplitRouteLeg {
+  router: RouterType;
+  path: string[];
+  amountIn: string;          // Human-readable input for this leg
+  amountInWei: string;
+  expectedAmountOut: string; // Human-readable expected output for this leg
+  expectedAmountOutWei: string;
+  share: number;             // Percentage of the order routed through this leg
+}
+
+export interface SplitRoutePlan {
+  legs: SplitRouteLeg[];
+  totalAmountOut: string;
+  bestSingleAmountOut: string;
+  improvementPercent: number;
+  routerShares: { reachswap: number; sphynx: number };
+}
+
+interface UseSplitRoutingReturn {
+  calculateSplitRoute: (tokenIn: Token, tokenOut: Token, amountIn: string) => Promise<SplitRoutePlan | null>;
+  isSplitting: boolean;
+}
+
+// Two routes compete for the same liquidity if they share a pool on the same router
+const getPoolKeys = (route: RouterInfo): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < route.path.length - 1; i++) {
+    const [a, b] = [route.path[i].toLowerCase(), route.path[i + 1].toLowerCase()].sort();
+    keys.push(`${route.router}-${a}-${b}`);
+  }
+  return keys;
+};
+
+export const useSplitRouting = (): UseSplitRoutingReturn => {
+  const [isSplitting, setIsSplitting] = useState(false);
+  const { findRouteCandidates, quoteRoute } = useUniversalRouter();
+
+  // Pick up to MAX_ROUTES pool-disjoint routes across both routers
+  const selectDisjointRoutes = useCallback(async (
+    tokenIn: Token,
+    tokenOut: Token,
+    amountIn: string
+  ): Promise<RouterInfo[]> => {
+    const [reachSwapRoutes, sphynxRoutes] = await Promise.all([
+      findRouteCandidates('reachswap', tokenIn, tokenOut, amountIn),
+      findRouteCandidates('sphynx', tokenIn, tokenOut, amountIn)
+    ]);
+
+    const ranked = [...reachSwapRoutes, ...sphynxRoutes].sort((a, b) => {
+      const outA = BigInt(a.expectedAmountOut || '0');
+      const outB = BigInt(b.expectedAmountOut || '0');
+      return outA === outB ? 0 : outA > outB ? -1 : 1;
+    });
+
+    const usedPools = new Set<string>();
+    const selected: RouterInfo[] = [];
+
+    for (const route of ranked) {
+      if (selected.length >= SPLIT_ROUTE_CONFIG.MAX_ROUTES) break;
+
+      const poolKeys = getPoolKeys(route);
+      if (poolKeys.some(key => usedPools.has(key))) continue;
+
+      poolKeys.forEach(key => usedPools.add(key));
+      selected.push(route);
+    }
+
+    return selected;
+  }, [findRouteCandidates]);
+
+  // Split an order across routers and paths to minimise total price impact
+  const calculateSplitRoute = useCallback(async (
+    tokenIn: Token,
+    tokenOut: Token,
+    amountIn: string
+  ): Promise<SplitRoutePlan | null> => {
+    if (!amountIn || parseFloat(amountIn) <= 0) return null;
+
+    setIsSplitting(true);
+
+    try {
+      const routes = await selectDisjointRoutes(tokenIn, tokenOut, amountIn);
+      if (routes.length < 2) {
+        console.log('🔀 Split routing skipped: fewer than two independent routes');
+        return null;
+      }
+
+      const steps = SPLIT_ROUTE_CONFIG.STEPS;
+      const amountInWei = ethers.parseUnits(amountIn, tokenIn.decimals);
+      const sliceAmount = (slices: number) => amountInWei * BigInt(slices) / BigInt(steps);
+
+      // Output curve per route: curve[i] = output for i slices (curve[0] = 0)
+      const curves = await Promise.all(routes.map(async route => {
+        const quotes = await Promise.all(
+          Array.from({ length: steps }, (_, i) => quoteRoute(route.router, route.path, sliceAmount(i + 1)))
+        );
+
+        // A reverting quote means the route cannot take more - flatten the curve from there
+        const curve: bigint[] = [BigInt(0)];
+        quotes.forEach(quote => {
+          const previous = curve[curve.length - 1];
+          curve.push(quote !== null && quote > previous ? quote : previous);
+        });
+        return curve;
+      }));
+
+      const allocation = allocateSlices(curves, steps);
+      const activeRoutes = allocation.filter(slices => slices > 0).length;
+
+      const bestSingle = curves.reduce(
+        (best, curve) => (curve[steps] > best ? curve[steps] : best),
+        BigInt(0)
+      );
+      const totalOut = allocation.reduce(
+        (sum, slices, index) => sum + curves[index][slices],
+        BigInt(0)
+      );
+
+      if (activeRoutes < 2 || bestSingle === BigInt(0)) {
+        return null;
+      }
+
+      const improvementPercent = Number((totalOut - bestSingle) * BigInt(1000000) / bestSingle) / 10000;
+      if (improvementPercent < SPLIT_ROUTE_CONFIG.MIN_IMPROVEMENT_PERCENT) {
+        console.log(`🔀 Split routing skipped: only ${improvementPercent.toFixed(3)}% better than a single route`);
+        return null;
+      }
+
+      // Build legs; rounding dust goes to the largest leg so inputs sum exactly
+      const legs: SplitRouteLeg[] = [];
+      let allocatedWei = BigInt(0);
+
+      allocation.forEach((slices, index) => {
+        if (slices === 0) return;
+
+        const legAmountWei = sliceAmount(slices);
+        allocatedWei += legAmountWei;
+
+        legs.push({
+          router: routes[index].router,
+          path: routes[index].path,
+          amountIn: ethers.formatUnits(legAmountWei, tokenIn.decimals),
+          amountInWei: legAmountWei.toString(),
+          expectedAmountOut: ethers.formatUnits(curves[index][slices], tokenOut.decimals),
+          expectedAmountOutWei: curves[index][slices].toString(),
+          share: slices / steps * 100
+        });
+      });
+
+      legs.sort((a, b) => b.share - a.share);
+      const dust = amountInWei - allocatedWei;
+      if (dust > BigInt(0)) {
+        legs[0].amountInWei = (BigInt(legs[0].amountInWei) + dust).toString();
+        legs[0].amountIn = ethers.formatUnits(legs[0].amountInWei, tokenIn.decimals);
+      }
+
+      const routerShares = legs.reduce(
+        (shares, leg) => ({ ...shares, [leg.router]: shares[leg.router] + leg.share }),
+        { reachswap: 0, sphynx: 0 }
+      );
+
+      console.log(`🔀 Split route: ${legs.map(leg => `${leg.share}% ${leg.router} (${leg.path.length - 1} hop)`).join(', ')} → +${improvementPercent.toFixed(2)}%`);
+
+      return {
+        legs,
+        totalAmountOut: ethers.formatUnits(totalOut, tokenOut.decimals),
+        bestSingleAmountOut: ethers.formatUnits(bestSingle, tokenOut.decimals),
+        improvementPercent,
+        routerShares
+      };
+    } catch (error) {
+      console.error('Error calculating split route:', error);
+      return null;
+    } finally {
+      setIsSplitting(false);
+    }
+  }, [selectDisjointRoutes, quoteRoute]);
+
+  return {
+    calculateSplitRoute,
+    isSplitting
+  };
+};
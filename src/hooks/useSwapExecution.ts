@@ -1,10 +1,22 @@
 import { useState, useCallback } from 'react';
-import { Token } from '../types';
+import { ethers } from 'ethers';
+import { Token, TransactionSimulation } from '../types';
 import { SPHYNX_CONTRACTS, SPHYNX_ROUTER_ABI, ERC20_ABI } from '../constants/sphynx';
 import { REACHSWAP_CONTRACTS, REACHSWAP_ROUTER_ABI } from '../constants/reachswap';
 import { getProviderAndSigner, waitForTransaction } from '../utils/web3Utils';
-import { useTokenFeeDetection } from './useTokenFeeDetection';
+import { useTokenFeeDetection, getFeeSlippageRecommendation } from './useTokenFeeDetection';
 import { useUniversalRouter } from './useUniversalRouter';
+import { SplitRouteLeg } from './useSplitRouting';
+import { recordTransaction } from '../utils/activityStore';
+import { splitMinimumOutput } from '../utils/splitRouting';
+import { estimateGasUnits, getFallbackGasLimit, withGasFees } from '../utils/gasEngine';
+import {
+  assertSimulationSucceeds,
+  decodeUintArray,
+  getQuoteDeviation,
+  simulateWithApprovals
+} from '../utils/txSimulation';
+import { InvalidInputError, TxError, formatTxError, toRevertError, toTxError } from '../utils/txErrors';
 
 interface SwapParams {
   tokenIn: Token;
@@ -16,24 +28,78 @@ interface SwapParams {
   routerUsed: 'sphynx' | 'reachswap';
   path: string[];
   hasFeeOnTransfer: boolean;
+  amountInWei?: string;     // Exact raw amounts take precedence over the decimal strings
+  amountOutMinWei?: string;
+  tradeType?: TradeType;    // Defaults to 'exactIn'
+  amountOut?: string;       // exactOut: exact amount to receive
+  amountInMax?: string;     // exactOut: most the user is willing to sell
+}
+
+// 'exactIn' sells a fixed input, 'exactOut' buys a fixed output
+export type TradeType = 'exactIn' | 'exactOut';
+
+interface SplitSwapParams {
+  tokenIn: Token;
+  tokenOut: Token;
+  legs: SplitRouteLeg[];
+  amountOutMin: string; // Combined minimum across all legs
+  slippage: string;
+  deadline?: number;
+}
+
+type SplitLegStatus = 'pending' | 'sending' | 'confirming' | 'confirmed' | 'failed';
+
+export interface SplitSwapProgress {
+  currentLeg: number;
+  totalLegs: number;
+  legs: {
+    router: 'sphynx' | 'reachswap';
+    share: number;
+    status: SplitLegStatus;
+    txHash?: string;
+  }[];
 }
 
 interface SwapResult {
   success: boolean;
   txHash?: string;
-  error?: string;
+  error?: TxError;
   routerUsed: 'reachswap' | 'sphynx';
   amountOut?: string;
+  txHashes?: string[]; // Split swaps: one hash per executed leg
 }
 
 interface UseSwapExecutionReturn {
   executeSwap: (params: SwapParams) => Promise<SwapResult>;
+  executeSplitSwap: (params: SplitSwapParams) => Promise<SwapResult>;
+  simulateSwap: (params: SwapParams, quotedAmount: string) => Promise<TransactionSimulation>;
   isSwapping: boolean;
-  swapError: string | null;
+  swapError: TxError | null;
+  splitProgress: SplitSwapProgress | null;
 }
 
 // FIXED: Native LOOP token address detection
 const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+const WITHDRAWAL_TOPIC = ethers.id('Withdrawal(address,uint256)'); // wLOOP unwrap by the router
+
+// Add a sent swap to the activity store
+const recordSwap = (txHash: string, params: SwapParams, router: 'sphynx' | 'reachswap') => {
+  const isExactOutput = params.tradeType === 'exactOut';
+  const amountOut = isExactOutput ? params.amountOut : params.amountOutMin;
+
+  recordTransaction({
+    hash: txHash,
+    type: 'swap',
+    summary: isExactOutput
+      ? `Swap up to ${params.amountInMax} ${params.tokenIn.symbol} for ${amountOut} ${params.tokenOut.symbol}`
+      : `Swap ${params.amountIn} ${params.tokenIn.symbol} for at least ${amountOut} ${params.tokenOut.symbol}`,
+    tokenIn: { symbol: params.tokenIn.symbol, address: params.tokenIn.address },
+    tokenOut: { symbol: params.tokenOut.symbol, address: params.tokenOut.address },
+    amountIn: params.amountIn,
+    amountOut,
+    router
+  });
+};
 
 // FIXED: Swap type enumeration with correct native detection
 type SwapType = 'ETH_FOR_TOKENS' | 'TOKENS_FOR_ETH' | 'TOKENS_FOR_TOKENS';
@@ -45,12 +111,50 @@ type SwapMethod =
   | 'swapExactTokensForETH'
   | 'swapExactTokensForETHSupportingFeeOnTransferTokens'
   | 'swapExactTokensForTokens'
-  | 'swapExactTokensForTokensSupportingFeeOnTransferTokens';
+  | 'swapExactTokensForTokensSupportingFeeOnTransferTokens'
+  | 'swapETHForExactTokens'
+  | 'swapTokensForExactETH'
+  | 'swapTokensForExactTokens';
+
+// Raw amounts and native value of a swap. Exact output: amountInWei holds the maximum sold and
+// amountOutMinWei the exact amount bought. Fee-on-transfer swaps only require a non-zero output.
+const resolveSwapAmounts = (params: SwapParams, swapType: SwapType, hasFeeOnTransfer: boolean) => {
+  let amountInWei: string;
+  let amountOutMinWei: string;
+  let transactionValue = '0x0';
+
+  if (params.tradeType === 'exactOut') {
+    amountInWei = ethers.parseUnits(params.amountInMax!, params.tokenIn.decimals).toString();
+    amountOutMinWei = ethers.parseUnits(params.amountOut!, params.tokenOut.decimals).toString();
+    if (swapType === 'ETH_FOR_TOKENS') {
+      transactionValue = '0x' + BigInt(amountInWei).toString(16);
+    }
+  } else if (swapType === 'ETH_FOR_TOKENS') {
+    // LOOP → Token: amountIn is in LOOP (native)
+    amountInWei = params.amountInWei || BigInt(parseFloat(params.amountIn) * Math.pow(10, 18)).toString();
+    amountOutMinWei = hasFeeOnTransfer ? '1' : params.amountOutMinWei || BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
+    transactionValue = '0x' + BigInt(amountInWei).toString(16);
+  } else {
+    // Token → LOOP or Token → Token
+    amountInWei = params.amountInWei || BigInt(parseFloat(params.amountIn) * Math.pow(10, params.tokenIn.decimals)).toString();
+
+    if (swapType === 'TOKENS_FOR_ETH') {
+      // Token → LOOP: amountOutMin is in LOOP (18 decimals)
+      amountOutMinWei = hasFeeOnTransfer ? '1' : params.amountOutMinWei || BigInt(parseFloat(params.amountOutMin) * Math.pow(10, 18)).toString();
+    } else {
+      // Token → Token: amountOutMin is in output token decimals
+      amountOutMinWei = hasFeeOnTransfer ? '1' : params.amountOutMinWei || BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
+    }
+  }
+
+  return { amountInWei, amountOutMinWei, transactionValue };
+};
 
 export const useSwapExecution = (): UseSwapExecutionReturn => {
   const [isSwapping, setIsSwapping] = useState(false);
-  const [swapError, setSwapError] = useState<string | null>(null);
-  const { detectTokenFees } = useTokenFeeDetection();
+  const [swapError, setSwapError] = useState<TxError | null>(null);
+  const [splitProgress, setSplitProgress] = useState<SplitSwapProgress | null>(null);
+  const { detectTradeFees } = useTokenFeeDetection();
   const { getRouterForPair } = useUniversalRouter();
 
   // FIXED: Determine swap type based on native LOOP detection
@@ -68,7 +172,19 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
   }, []);
 
   // CRITICAL FIX: Get correct swap method - Fixed logic for Token → LOOP swaps
-  const getSwapMethod = useCallback((hasFeeOnTransfer: boolean, swapType: SwapType): SwapMethod => {
+  const getSwapMethod = useCallback((hasFeeOnTransfer: boolean, swapType: SwapType, tradeType: TradeType = 'exactIn'): SwapMethod => {
+    // Exact-output methods have no fee-on-transfer variants; callers reject those tokens first
+    if (tradeType === 'exactOut') {
+      switch (swapType) {
+        case 'ETH_FOR_TOKENS':
+          return 'swapETHForExactTokens';
+        case 'TOKENS_FOR_ETH':
+          return 'swapTokensForExactETH';
+        default:
+          return 'swapTokensForExactTokens';
+      }
+    }
+
     switch (swapType) {
       case 'ETH_FOR_TOKENS':
         // For LOOP → Token, use non-supporting variant to avoid INVALID_PATH
@@ -93,45 +209,50 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       'swapExactTokensForETH': '0x18cbafe5',
       'swapExactTokensForETHSupportingFeeOnTransferTokens': '0x791ac947',
       'swapExactTokensForTokens': '0x38ed1739',
-      'swapExactTokensForTokensSupportingFeeOnTransferTokens': '0x5c11d795'
+      'swapExactTokensForTokensSupportingFeeOnTransferTokens': '0x5c11d795',
+      'swapETHForExactTokens': '0xfb3bdb41',
+      'swapTokensForExactETH': '0x4a25d94a',
+      'swapTokensForExactTokens': '0x8803dbee'
     };
     
     return signatures[method];
   }, []);
 
-  // FIXED: Enhanced fee detection for input tokens
-  const detectInputTokenFees = useCallback(async (tokenAddress: string, swapType: SwapType) => {
+  // Direction-specific fee detection: the input token is sold (sell fee), the output token is bought (buy fee)
+  const detectSwapFees = useCallback(async (tokenIn: Token, tokenOut: Token, swapType: SwapType) => {
     try {
-      // For ETH_FOR_TOKENS (LOOP → Token), input is native LOOP (no fees)
-      if (swapType === 'ETH_FOR_TOKENS') {
-        return {
-          hasTransferFee: false,
-          requiresSpecialHandling: false,
-          recommendedSlippage: 1
-        };
-      }
+      const [inputFees, outputFees] = await detectTradeFees(tokenIn, tokenOut);
+
+      const inputSellFee = inputFees?.sellFee || 0;
+      const outputBuyFee = outputFees?.buyFee || 0;
+
+      // Supporting-fee methods are only needed when the token sent into the pair is taxed;
+      // a buy tax on the output only reduces what arrives, which slippage covers
+      const requiresSpecialHandling = inputFees
+        ? (inputFees.isMeasured ? inputSellFee > 0 : inputFees.hasTransferFee)
+        : false;
+
+      const recommendedSlippage = getFeeSlippageRecommendation(inputFees, outputFees);
 
-      // For other swap types, detect input token fees
-      const feeInfo = await detectTokenFees(tokenAddress);
-      
-      // CRITICAL FIX: Be more conservative with fee detection for Token → LOOP swaps
-      const requiresSpecialHandling = feeInfo.hasTransferFee || (swapType === 'TOKENS_FOR_ETH' && feeInfo.sellFee > 0);
-      
       return {
-        hasTransferFee: feeInfo.hasTransferFee,
+        hasTransferFee: !!inputFees?.hasTransferFee,
         requiresSpecialHandling,
-        recommendedSlippage: requiresSpecialHandling ? Math.max(8, (feeInfo.sellFee || 0.05) * 100 + 3) : 1
+        recommendedSlippage,
+        inputSellFee,
+        outputBuyFee
       };
     } catch (error) {
-      console.error('Error detecting input token fees:', error);
+      console.error('Error detecting swap fees:', error);
       // CRITICAL FIX: Default to safe handling for unknown tokens
       return {
         hasTransferFee: swapType === 'TOKENS_FOR_ETH', // Assume fees for Token → LOOP if detection fails
         requiresSpecialHandling: swapType === 'TOKENS_FOR_ETH',
-        recommendedSlippage: swapType === 'TOKENS_FOR_ETH' ? 8 : 1
+        recommendedSlippage: swapType === 'TOKENS_FOR_ETH' ? 8 : 1,
+        inputSellFee: 0,
+        outputBuyFee: 0
       };
     }
-  }, [detectTokenFees]);
+  }, [detectTradeFees]);
 
   // CRITICAL FIX: Enhanced token balance checking with fresh state and proper decimals
   const checkTokenBalance = useCallback(async (
@@ -263,7 +384,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       const data = approveSignature + paddedSpender + paddedAmount;
 
       // CRITICAL FIX: Enhanced gas estimation for approval
-      let gasLimit = '0x15F90'; // 90,000 gas (increased from default)
+      let gasLimit: string;
       
       try {
         // Try to estimate gas first
@@ -283,9 +404,8 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
         
         console.log(`⛽ Estimated gas for approval: ${estimatedGas}, using: ${bufferedGas}`);
       } catch (gasError) {
-        console.warn('Gas estimation failed, using default gas limit:', gasError);
-        // Use higher default gas limit for problematic tokens
-        gasLimit = '0x1C9C380'; // 30,000,000 gas
+        console.warn('Gas estimation failed, using learned gas limit:', gasError);
+        gasLimit = getFallbackGasLimit({ to: tokenAddress, data });
       }
 
       // CRITICAL FIX: Enhanced transaction parameters
@@ -306,38 +426,22 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
 
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [txParams]
+        params: [await withGasFees(txParams)]
       });
 
       console.log(`✅ Token approval transaction sent: ${txHash}`);
+      recordTransaction({
+        hash: txHash,
+        type: 'approve',
+        summary: requiredAmount === BigInt(0)
+          ? `Reset allowance for ${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}`
+          : `Approve ${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)} for trading`,
+        tokenIn: { symbol: '', address: tokenAddress }
+      });
       return txHash;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error approving token:', error);
-      
-      // CRITICAL FIX: Enhanced error analysis for better user feedback
-      let errorMessage = 'Failed to approve token';
-      
-      if (error.message) {
-        if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-          errorMessage = 'Transaction was cancelled by user';
-        } else if (error.message.includes('insufficient funds')) {
-          errorMessage = 'Insufficient LOOP for gas fees';
-        } else if (error.message.includes('gas required exceeds allowance')) {
-          errorMessage = 'Gas limit too low. Please try again with higher gas';
-        } else if (error.message.includes('nonce too low')) {
-          errorMessage = 'Transaction nonce error. Please try again';
-        } else if (error.message.includes('replacement transaction underpriced')) {
-          errorMessage = 'Transaction underpriced. Please try again';
-        } else if (error.message.includes('Internal JSON-RPC error')) {
-          errorMessage = 'Network error. Please check your connection and try again';
-        } else if (error.message.includes('execution reverted')) {
-          errorMessage = 'Token approval failed. This token may have restrictions';
-        } else {
-          errorMessage = `Approval failed: ${error.message}`;
-        }
-      }
-      
-      throw new Error(errorMessage);
+      throw toTxError(error);
     }
   }, [getProviderAndSigner, checkTokenBalance]);
 
@@ -393,6 +497,22 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
         return signature + paddedAmountIn + paddedAmountOutMin + pathOffset + paddedTo + paddedDeadline + pathLength + pathData;
       }
 
+      case 'swapETHForExactTokens': {
+        // swapETHForExactTokens(uint amountOut, address[] path, address to, uint deadline) - unused value is refunded
+        const pathOffset = '0000000000000000000000000000000000000000000000000000000000000080';
+        const paddedAmountOut = BigInt(params.amountOut!).toString(16).padStart(64, '0');
+        return signature + paddedAmountOut + pathOffset + paddedTo + paddedDeadline + pathLength + pathData;
+      }
+
+      case 'swapTokensForExactETH':
+      case 'swapTokensForExactTokens': {
+        // swapTokensForExactTokens(uint amountOut, uint amountInMax, address[] path, address to, uint deadline)
+        const pathOffset = '00000000000000000000000000000000000000000000000000000000000000a0';
+        const paddedAmountOut = BigInt(params.amountOut!).toString(16).padStart(64, '0');
+        const paddedAmountInMax = BigInt(params.amountInMax!).toString(16).padStart(64, '0');
+        return signature + paddedAmountOut + paddedAmountInMax + pathOffset + paddedTo + paddedDeadline + pathLength + pathData;
+      }
+
       default:
         throw new Error(`Unsupported swap method: ${method}`);
     }
@@ -421,37 +541,27 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       console.log(`🔄 Token IN: ${params.tokenIn.symbol} (${params.tokenIn.address})`);
       console.log(`🔄 Token OUT: ${params.tokenOut.symbol} (${params.tokenOut.address})`);
 
-      // Check input token fees for method selection
-      const inputTokenFees = await detectInputTokenFees(params.tokenIn.address, swapType);
-      const hasFeeOnTransfer = inputTokenFees.requiresSpecialHandling;
+      // Check sell fee on the input and buy fee on the output for method selection
+      const swapFees = await detectSwapFees(params.tokenIn, params.tokenOut, swapType);
+      const hasFeeOnTransfer = swapFees.requiresSpecialHandling;
+      if (parseFloat(params.slippage) < swapFees.recommendedSlippage) {
+        console.warn(`⚠️ Slippage ${params.slippage}% is below the recommended ${swapFees.recommendedSlippage}% (sell fee ${(swapFees.inputSellFee * 100).toFixed(2)}%, buy fee ${(swapFees.outputBuyFee * 100).toFixed(2)}%)`);
+      }
 
       // Get correct swap method
-      const swapMethod = getSwapMethod(hasFeeOnTransfer, swapType);
+      const isExactOutput = params.tradeType === 'exactOut';
+      if (isExactOutput && (hasFeeOnTransfer || !params.amountOut || !params.amountInMax)) {
+        throw new Error(hasFeeOnTransfer
+          ? 'Exact-output swaps are not supported for fee-on-transfer tokens. Enter the amount to sell instead'
+          : 'Missing exact-output amounts');
+      }
+
+      const swapMethod = getSwapMethod(hasFeeOnTransfer, swapType, params.tradeType);
       console.log(`🔄 Swap method selected: ${swapMethod}`);
       console.log(`🔍 Input token fee analysis: ${hasFeeOnTransfer ? 'Has fees' : 'No fees'}`);
 
       // Calculate amounts based on swap type
-      let amountInWei: string;
-      let amountOutMinWei: string;
-      let transactionValue = '0x0';
-
-      if (swapType === 'ETH_FOR_TOKENS') {
-        // LOOP → Token: amountIn is in LOOP (native)
-        amountInWei = BigInt(parseFloat(params.amountIn) * Math.pow(10, 18)).toString();
-        amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
-        transactionValue = '0x' + BigInt(amountInWei).toString(16);
-      } else {
-        // Token → LOOP or Token → Token
-        amountInWei = BigInt(parseFloat(params.amountIn) * Math.pow(10, params.tokenIn.decimals)).toString();
-        
-        if (swapType === 'TOKENS_FOR_ETH') {
-          // Token → LOOP: amountOutMin is in LOOP (18 decimals)
-          amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, 18)).toString();
-        } else {
-          // Token → Token: amountOutMin is in output token decimals
-          amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
-        }
-      }
+      const { amountInWei, amountOutMinWei, transactionValue } = resolveSwapAmounts(params, swapType, hasFeeOnTransfer);
 
       // CRITICAL FIX: Enhanced balance verification with proper decimals and precision
       if (swapType !== 'ETH_FOR_TOKENS') {
@@ -501,10 +611,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
             if (currentAllowanceBig > BigInt(0)) {
               console.log('🔄 Resetting allowance to 0 first...');
               const resetTx = await approveToken(params.tokenIn.address, SPHYNX_CONTRACTS.ROUTER, '0', params.tokenIn.decimals, 1.0);
-              const resetConfirmed = await waitForTransaction(resetTx, 30);
-              if (!resetConfirmed) {
-                console.warn('⚠️ Reset allowance transaction may have failed, but continuing...');
-              }
+              await waitForTransaction(resetTx, 30);
               await new Promise(resolve => setTimeout(resolve, 3000));
             }
           } catch (error) {
@@ -521,10 +628,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
           );
           
           // Wait for approval to be confirmed
-          const approvalConfirmed = await waitForTransaction(approvalTx, 60); // Increased timeout
-          if (!approvalConfirmed) {
-            throw new Error('Token approval transaction failed or timed out');
-          }
+          await waitForTransaction(approvalTx, 60); // Increased timeout
 
           // Additional wait to ensure blockchain state is updated
           await new Promise(resolve => setTimeout(resolve, 5000)); // Increased wait time
@@ -566,13 +670,23 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       const txData = buildSwapTransaction(swapMethod, {
         amountIn: amountInWei,
         amountOutMin: amountOutMinWei,
+        amountOut: amountOutMinWei,
+        amountInMax: amountInWei,
         path: params.path,
         to: walletAddress,
         deadline
       });
 
+      // Pre-flight: a swap that would revert is stopped before the wallet is asked to sign
+      await assertSimulationSucceeds('Swap', {
+        from: walletAddress,
+        to: SPHYNX_CONTRACTS.ROUTER,
+        data: txData,
+        value: transactionValue
+      });
+
       // CRITICAL FIX: Enhanced gas estimation for swap
-      let gasLimit = '0x7A120'; // 500,000 default
+      let gasLimit: string;
       
       try {
         const gasEstimate = await provider.request({
@@ -592,8 +706,8 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
         
         console.log(`⛽ Estimated gas for swap: ${estimatedGas}, using: ${bufferedGas}`);
       } catch (gasError) {
-        console.warn('Gas estimation failed, using higher default:', gasError);
-        gasLimit = '0xF4240'; // 1,000,000 gas for complex swaps
+        console.warn('Gas estimation failed, using learned gas limit:', gasError);
+        gasLimit = getFallbackGasLimit({ to: SPHYNX_CONTRACTS.ROUTER, data: txData });
       }
 
       // Execute the swap transaction
@@ -603,62 +717,32 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [{
+        params: [await withGasFees({
           from: walletAddress,
           to: SPHYNX_CONTRACTS.ROUTER,
           data: txData,
           value: transactionValue,
           gas: gasLimit,
           // Let wallet handle gas price automatically
-        }]
+        })]
       });
 
       console.log(`✅ Sphynx swap transaction sent (${swapMethod}): ${txHash}`);
+      recordSwap(txHash, params, 'sphynx');
 
       return {
         success: true,
         txHash,
         routerUsed: 'sphynx',
-        amountOut: params.amountOutMin
+        amountOut: isExactOutput ? params.amountOut : params.amountOutMin
       };
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Sphynx swap error:', error);
-      
-      // CRITICAL FIX: Enhanced error analysis to provide accurate feedback
-      let errorMessage = error.message || 'Sphynx swap failed';
-      
-      // Analyze the actual error to provide accurate feedback
-      if (error.message.includes('Failed to approve token')) {
-        // Pass through approval errors as-is since they're already user-friendly
-        errorMessage = error.message;
-      } else if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-        errorMessage = 'Transaction was cancelled by user';
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient LOOP for gas fees';
-      } else if (error.message.includes('transferFrom failed') || error.message.includes('TRANSFER_FROM_FAILED')) {
-        errorMessage = 'Token transfer failed. Please check token approval and try again';
-      } else if (error.message.includes('INVALID_PATH')) {
-        errorMessage = 'Invalid swap path. Please try a different token pair';
-      } else if (error.message.includes('Sphynx: K') || error.message.includes('UniswapV2: K')) {
-        errorMessage = 'Swap failed due to price impact. Try reducing amount or increasing slippage';
-      } else if (error.message.includes('INSUFFICIENT_OUTPUT_AMOUNT')) {
-        errorMessage = 'Insufficient output amount. Try increasing slippage tolerance';
-      } else if (error.message.includes('execution reverted')) {
-        errorMessage = 'Transaction failed. This may be due to slippage, insufficient liquidity, or network congestion';
-      } else if (error.message.includes('Internal JSON-RPC error')) {
-        errorMessage = 'Network error. Please check your connection and try again';
-      } else if (error.message.includes('network') || error.message.includes('timeout')) {
-        errorMessage = 'Network error. Please check your connection and try again';
-      } else if (error.message.includes('gas required exceeds allowance')) {
-        errorMessage = 'Gas limit too low. Please try again';
-      } else if (error.message.includes('nonce too low')) {
-        errorMessage = 'Transaction nonce error. Please try again';
-      }
 
       return {
         success: false,
-        error: errorMessage,
+        error: toTxError(error),
         routerUsed: 'sphynx'
       };
     }
@@ -667,7 +751,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
     getRouterForPair, 
     getSwapType,
     getSwapMethod,
-    detectInputTokenFees, 
+    detectSwapFees, 
     checkTokenBalance,
     checkTokenAllowance, 
     approveToken,
@@ -696,36 +780,26 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       const swapType = getSwapType(params.tokenIn, params.tokenOut);
       console.log(`🔄 ReachSwap ${swapType}: ${params.amountIn} ${params.tokenIn.symbol} → ${params.tokenOut.symbol}`);
 
-      // Check input token fees for method selection
-      const inputTokenFees = await detectInputTokenFees(params.tokenIn.address, swapType);
-      const hasFeeOnTransfer = inputTokenFees.requiresSpecialHandling;
+      // Check sell fee on the input and buy fee on the output for method selection
+      const swapFees = await detectSwapFees(params.tokenIn, params.tokenOut, swapType);
+      const hasFeeOnTransfer = swapFees.requiresSpecialHandling;
+      if (parseFloat(params.slippage) < swapFees.recommendedSlippage) {
+        console.warn(`⚠️ Slippage ${params.slippage}% is below the recommended ${swapFees.recommendedSlippage}% (sell fee ${(swapFees.inputSellFee * 100).toFixed(2)}%, buy fee ${(swapFees.outputBuyFee * 100).toFixed(2)}%)`);
+      }
 
       // Get correct swap method
-      const swapMethod = getSwapMethod(hasFeeOnTransfer, swapType);
+      const isExactOutput = params.tradeType === 'exactOut';
+      if (isExactOutput && (hasFeeOnTransfer || !params.amountOut || !params.amountInMax)) {
+        throw new Error(hasFeeOnTransfer
+          ? 'Exact-output swaps are not supported for fee-on-transfer tokens. Enter the amount to sell instead'
+          : 'Missing exact-output amounts');
+      }
+
+      const swapMethod = getSwapMethod(hasFeeOnTransfer, swapType, params.tradeType);
       console.log(`🔄 ReachSwap method selected: ${swapMethod}`);
 
       // Calculate amounts based on swap type
-      let amountInWei: string;
-      let amountOutMinWei: string;
-      let transactionValue = '0x0';
-
-      if (swapType === 'ETH_FOR_TOKENS') {
-        // LOOP → Token: amountIn is in LOOP (native)
-        amountInWei = BigInt(parseFloat(params.amountIn) * Math.pow(10, 18)).toString();
-        amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
-        transactionValue = '0x' + BigInt(amountInWei).toString(16);
-      } else {
-        // Token → LOOP or Token → Token
-        amountInWei = BigInt(parseFloat(params.amountIn) * Math.pow(10, params.tokenIn.decimals)).toString();
-        
-        if (swapType === 'TOKENS_FOR_ETH') {
-          // Token → LOOP: amountOutMin is in LOOP (18 decimals)
-          amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, 18)).toString();
-        } else {
-          // Token → Token: amountOutMin is in output token decimals
-          amountOutMinWei = hasFeeOnTransfer ? '1' : BigInt(parseFloat(params.amountOutMin) * Math.pow(10, params.tokenOut.decimals)).toString();
-        }
-      }
+      const { amountInWei, amountOutMinWei, transactionValue } = resolveSwapAmounts(params, swapType, hasFeeOnTransfer);
 
       // Enhanced balance verification for ReachSwap
       if (swapType !== 'ETH_FOR_TOKENS') {
@@ -769,10 +843,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
           );
           
           // Wait for approval to be confirmed
-          const approvalConfirmed = await waitForTransaction(approvalTx, 60);
-          if (!approvalConfirmed) {
-            throw new Error('Token approval transaction failed or timed out');
-          }
+          await waitForTransaction(approvalTx, 60);
 
           // Additional wait to ensure blockchain state is updated
           await new Promise(resolve => setTimeout(resolve, 5000));
@@ -785,13 +856,23 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       const txData = buildSwapTransaction(swapMethod, {
         amountIn: amountInWei,
         amountOutMin: amountOutMinWei,
+        amountOut: amountOutMinWei,
+        amountInMax: amountInWei,
         path: params.path,
         to: walletAddress,
         deadline
       });
 
+      // Pre-flight: a swap that would revert is stopped before the wallet is asked to sign
+      await assertSimulationSucceeds('Swap', {
+        from: walletAddress,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data: txData,
+        value: transactionValue
+      });
+
       // Enhanced gas estimation for ReachSwap
-      let gasLimit = '0x7A120'; // 500,000 default
+      let gasLimit: string;
       
       try {
         const gasEstimate = await provider.request({
@@ -811,8 +892,8 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
         
         console.log(`⛽ Estimated gas for ReachSwap swap: ${estimatedGas}, using: ${bufferedGas}`);
       } catch (gasError) {
-        console.warn('Gas estimation failed for ReachSwap, using higher default:', gasError);
-        gasLimit = '0xF4240'; // 1,000,000 gas for complex swaps
+        console.warn('Gas estimation failed for ReachSwap, using learned gas limit:', gasError);
+        gasLimit = getFallbackGasLimit({ to: REACHSWAP_CONTRACTS.ROUTER, data: txData });
       }
 
       // Execute the ReachSwap transaction
@@ -820,45 +901,31 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [{
+        params: [await withGasFees({
           from: walletAddress,
           to: REACHSWAP_CONTRACTS.ROUTER,
           data: txData,
           value: transactionValue,
           gas: gasLimit
-        }]
+        })]
       });
 
       console.log(`✅ ReachSwap swap transaction sent (${swapMethod}): ${txHash}`);
+      recordSwap(txHash, params, 'reachswap');
       
       return {
         success: true,
         txHash,
         routerUsed: 'reachswap',
-        amountOut: params.amountOutMin
+        amountOut: isExactOutput ? params.amountOut : params.amountOutMin
       };
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ ReachSwap swap error:', error);
-      
-      // Enhanced error analysis for ReachSwap
-      let errorMessage = error.message || 'ReachSwap swap failed';
-      
-      if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-        errorMessage = 'Transaction was cancelled by user';
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient LOOP for gas fees';
-      } else if (error.message.includes('transferFrom failed') || error.message.includes('TRANSFER_FROM_FAILED')) {
-        errorMessage = 'Token transfer failed. Please check token approval and try again';
-      } else if (error.message.includes('INSUFFICIENT_OUTPUT_AMOUNT')) {
-        errorMessage = 'Insufficient output amount. Try increasing slippage tolerance';
-      } else if (error.message.includes('execution reverted')) {
-        errorMessage = 'Transaction failed. This may be due to slippage, insufficient liquidity, or network congestion';
-      }
-      
+
       return {
         success: false,
-        error: errorMessage,
+        error: toTxError(error),
         routerUsed: 'reachswap'
       };
     }
@@ -867,7 +934,7 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
     getRouterForPair, 
     getSwapType,
     getSwapMethod,
-    detectInputTokenFees, 
+    detectSwapFees, 
     checkTokenBalance,
     checkTokenAllowance, 
     approveToken,
@@ -875,10 +942,107 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
     buildSwapTransaction
   ]);
 
+  // Pre-flight preview: simulates the transaction executeSwap would send for these params and compares
+  // the result with the quote (the output for exact-in trades, the input for exact-out trades)
+  const simulateSwap = useCallback(async (params: SwapParams, quotedAmount: string): Promise<TransactionSimulation> => {
+    const simulatedAt = Date.now();
+
+    try {
+      const walletAddress = localStorage.getItem('reachswap_wallet_address');
+      if (!walletAddress) throw new Error('No wallet address found');
+
+      const swapType = getSwapType(params.tokenIn, params.tokenOut);
+      const swapFees = await detectSwapFees(params.tokenIn, params.tokenOut, swapType);
+      const hasFeeOnTransfer = swapFees.requiresSpecialHandling;
+      const isExactOutput = params.tradeType === 'exactOut';
+      if (isExactOutput && hasFeeOnTransfer) {
+        return {
+          status: 'reverted',
+          reason: 'Exact-output swaps are not supported for fee-on-transfer tokens. Enter the amount to sell instead',
+          simulatedAt
+        };
+      }
+
+      const swapMethod = getSwapMethod(hasFeeOnTransfer, swapType, params.tradeType);
+      const { amountInWei, amountOutMinWei, transactionValue } = resolveSwapAmounts(params, swapType, hasFeeOnTransfer);
+      const txData = buildSwapTransaction(swapMethod, {
+        amountIn: amountInWei,
+        amountOutMin: amountOutMinWei,
+        amountOut: amountOutMinWei,
+        amountInMax: amountInWei,
+        path: params.path,
+        to: walletAddress,
+        deadline: params.deadline || Math.floor(Date.now() / 1000) + 1200
+      });
+
+      const tx = {
+        from: walletAddress,
+        to: params.routerUsed === 'sphynx' ? SPHYNX_CONTRACTS.ROUTER : REACHSWAP_CONTRACTS.ROUTER,
+        data: txData,
+        value: transactionValue
+      };
+      const result = await simulateWithApprovals(
+        tx,
+        swapType === 'ETH_FOR_TOKENS' ? [] : [{ token: params.tokenIn.address, amount: BigInt(amountInWei) }]
+      );
+
+      if (result === 'needs-approval') {
+        return {
+          status: 'needs-approval',
+          reason: `${params.tokenIn.symbol} is approved first - the swap is simulated again right before you sign it`,
+          gasEstimate: (await estimateGasUnits(tx)).toString(),
+          simulatedAt
+        };
+      }
+      if (!result.success) {
+        return {
+          status: 'reverted',
+          reason: formatTxError(toRevertError(result.revertReason)),
+          revertReason: result.revertReason,
+          simulatedAt
+        };
+      }
+
+      const gasEstimate = (await estimateGasUnits(tx)).toString();
+
+      // Fee-on-transfer methods return nothing, so only the absence of a revert is known
+      const amounts = decodeUintArray(result.returnData);
+      if (amounts.length < 2) {
+        console.log(`🧪 Swap simulation passed (${swapMethod}, no amounts returned)`);
+        return { status: 'success', gasEstimate, simulatedAt };
+      }
+
+      const simulatedIn = amounts[0];
+      const simulatedOut = amounts[amounts.length - 1];
+      const quotedToken = isExactOutput ? params.tokenIn : params.tokenOut;
+      const [whole, fraction = ''] = quotedAmount.split('.');
+      const quoted = ethers.parseUnits(`${whole || '0'}.${fraction.slice(0, quotedToken.decimals) || '0'}`, quotedToken.decimals);
+
+      console.log(`🧪 Swap simulation passed: ${simulatedIn} → ${simulatedOut} (${swapMethod})`);
+      return {
+        status: 'success',
+        amountIn: ethers.formatUnits(simulatedIn, params.tokenIn.decimals),
+        amountOut: ethers.formatUnits(simulatedOut, params.tokenOut.decimals),
+        // Paying more than quoted is as bad as receiving less
+        quoteDeviation: isExactOutput ? -getQuoteDeviation(simulatedIn, quoted) : getQuoteDeviation(simulatedOut, quoted),
+        gasEstimate,
+        simulatedAt
+      };
+    } catch (error) {
+      console.warn('⚠️ Swap simulation unavailable:', error);
+      return {
+        status: 'unavailable',
+        reason: error instanceof Error ? error.message : 'Simulation failed',
+        simulatedAt
+      };
+    }
+  }, [getSwapType, detectSwapFees, getSwapMethod, buildSwapTransaction]);
+
   // Main swap execution function
   const executeSwap = useCallback(async (params: SwapParams): Promise<SwapResult> => {
     setIsSwapping(true);
     setSwapError(null);
+    setSplitProgress(null);
 
     try {
       console.log(`🚀 Executing swap via ${params.routerUsed.toUpperCase()}:`, params);
@@ -892,18 +1056,18 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
       }
 
       if (!result.success) {
-        setSwapError(result.error || 'Swap failed');
+        setSwapError(result.error || toTxError(new Error('Swap failed')));
       }
 
       return result;
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Swap execution error:', error);
-      const errorMessage = error.message || 'Swap execution failed';
-      setSwapError(errorMessage);
+      const swapFailure = toTxError(error);
+      setSwapError(swapFailure);
       
       return {
         success: false,
-        error: errorMessage,
+        error: swapFailure,
         routerUsed: params.routerUsed
       };
     } finally {
@@ -911,9 +1075,179 @@ export const useSwapExecution = (): UseSwapExecutionReturn => {
     }
   }, [executeSwapOnSphynx, executeSwapOnReachSwap]);
 
+  // Execute a split order: legs are sent one after another, each waiting for its receipt. Each leg
+  // carries its share of the combined minimum so the router enforces it on-chain, and the combined
+  // output is checked against the combined minimum at the end
+  const executeSplitSwap = useCallback(async (params: SplitSwapParams): Promise<SwapResult> => {
+    setIsSwapping(true);
+    setSwapError(null);
+
+    const primaryRouter = params.legs[0]?.router || 'reachswap';
+    const updateLeg = (index: number, update: Partial<SplitSwapProgress['legs'][number]>) => {
+      setSplitProgress(prev => prev && {
+        ...prev,
+        currentLeg: index,
+        legs: prev.legs.map((leg, i) => (i === index ? { ...leg, ...update } : leg))
+      });
+    };
+
+    setSplitProgress({
+      currentLeg: 0,
+      totalLegs: params.legs.length,
+      legs: params.legs.map(leg => ({ router: leg.router, share: leg.share, status: 'pending' }))
+    });
+
+    try {
+      const { provider } = await getProviderAndSigner();
+      if (!provider) throw new Error('No provider available');
+
+      const walletAddress = localStorage.getItem('reachswap_wallet_address');
+      if (!walletAddress) throw new Error('No wallet address found');
+
+      const isNativeOut = params.tokenOut.address === NATIVE_LOOP;
+      // Supporting-fee methods take no usable minimum, so a taxed input could not be held to the
+      // leg minimums below - those orders go through a single route instead
+      const swapFees = await detectSwapFees(params.tokenIn, params.tokenOut, getSwapType(params.tokenIn, params.tokenOut));
+      if (swapFees.requiresSpecialHandling) {
+        throw new InvalidInputError(
+          `${params.tokenIn.symbol} charges a transfer fee, so this order cannot be split across routers`,
+          'Swap through a single route instead'
+        );
+      }
+      const { balanceBig: balanceBefore } = await checkTokenBalance(
+        params.tokenOut.address,
+        walletAddress,
+        params.tokenOut.decimals,
+        true
+      );
+
+      // The combined minimum is shared out in proportion to each leg's expected output
+      const [whole, fraction = ''] = params.amountOutMin.split('.');
+      const combinedMinWei = ethers.parseUnits(
+        `${whole || '0'}.${fraction.slice(0, params.tokenOut.decimals) || '0'}`,
+        params.tokenOut.decimals
+      );
+      const legMinimums = splitMinimumOutput(combinedMinWei, params.legs.map(leg => BigInt(leg.expectedAmountOutWei)));
+
+      const txHashes: string[] = [];
+      let nativeReceivedWei = BigInt(0);
+
+      for (let index = 0; index < params.legs.length; index++) {
+        const leg = params.legs[index];
+        updateLeg(index, { status: 'sending' });
+
+        const legMinWei = legMinimums[index];
+        const legParams: SwapParams = {
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          amountIn: leg.amountIn,
+          amountOutMin: leg.expectedAmountOut,
+          amountInWei: leg.amountInWei,
+          amountOutMinWei: legMinWei.toString(),
+          slippage: params.slippage,
+          deadline: params.deadline,
+          routerUsed: leg.router,
+          path: leg.path,
+          hasFeeOnTransfer: swapFees.requiresSpecialHandling
+        };
+
+        const legResult = leg.router === 'sphynx'
+          ? await executeSwapOnSphynx(legParams)
+          : await executeSwapOnReachSwap(legParams);
+
+        if (!legResult.success || !legResult.txHash) {
+          updateLeg(index, { status: 'failed' });
+          console.error(`❌ Leg ${index + 1}/${params.legs.length} (${leg.router}) failed`);
+          throw legResult.error || new Error(`Leg ${index + 1}/${params.legs.length} (${leg.router}) failed`);
+        }
+
+        txHashes.push(legResult.txHash);
+        updateLeg(index, { status: 'confirming', txHash: legResult.txHash });
+
+        try {
+          await waitForTransaction(legResult.txHash, 60);
+        } catch (legError) {
+          updateLeg(index, { status: 'failed' });
+          throw legError;
+        }
+
+        if (isNativeOut) {
+          // The native balance also pays gas for the legs and their approvals, so native output is
+          // read from the router's wLOOP Withdrawal in the leg's receipt instead
+          const receipt = await provider.request<{ logs: { address: string; topics: string[]; data: string }[] } | null>({
+            method: 'eth_getTransactionReceipt',
+            params: [legResult.txHash]
+          });
+          (receipt?.logs || [])
+            .filter(log =>
+              log.address.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase() && log.topics[0] === WITHDRAWAL_TOPIC)
+            .forEach(log => {
+              nativeReceivedWei += BigInt(log.data.slice(0, 66));
+            });
+        }
+
+        updateLeg(index, { status: 'confirmed' });
+      }
+
+      // Combined minimum-out check across all legs
+      const { balanceBig: balanceAfter } = await checkTokenBalance(
+        params.tokenOut.address,
+        walletAddress,
+        params.tokenOut.decimals,
+        true
+      );
+      const receivedWei = isNativeOut ? nativeReceivedWei : balanceAfter - balanceBefore;
+      // Leg minimums are checked on what the pairs send out; a buy tax on the output is taken after that
+      const receivedMinWei = combinedMinWei * BigInt(Math.round((1 - swapFees.outputBuyFee) * 10000)) / BigInt(10000);
+      const receivedFormatted = (Number(receivedWei) / Math.pow(10, params.tokenOut.decimals)).toFixed(6);
+
+      if (receivedWei < receivedMinWei) {
+        const shortfallError = new TxError(
+          'slippage',
+          `Split swap received ${receivedFormatted} ${params.tokenOut.symbol}, below the combined minimum of ${params.amountOutMin}`,
+          'Increase the slippage tolerance, or swap through a single route'
+        );
+        setSwapError(shortfallError);
+        return {
+          success: false,
+          error: shortfallError,
+          routerUsed: primaryRouter,
+          txHash: txHashes[txHashes.length - 1],
+          txHashes,
+          amountOut: receivedFormatted
+        };
+      }
+
+      console.log(`✅ Split swap completed in ${txHashes.length} legs, received ${receivedFormatted} ${params.tokenOut.symbol}`);
+
+      return {
+        success: true,
+        txHash: txHashes[txHashes.length - 1],
+        txHashes,
+        routerUsed: primaryRouter,
+        amountOut: receivedFormatted
+      };
+    } catch (error) {
+      console.error('❌ Split swap execution error:', error);
+      const splitFailure = toTxError(error);
+      setSwapError(splitFailure);
+
+      return {
+        success: false,
+        error: splitFailure,
+        routerUsed: primaryRouter
+      };
+    } finally {
+      setIsSwapping(false);
+    }
+  }, [checkTokenBalance, detectSwapFees, getSwapType, executeSwapOnSphynx, executeSwapOnReachSwap]);
+
   return {
     executeSwap,
+    executeSplitSwap,
+    simulateSwap,
     isSwapping,
-    swapError
+    swapError,
+    splitProgress
   };
 };
\ No newline at end of file
@@ -1,11 +1,37 @@
 import { useState, useCallback, useRef } from 'react';
 import { Token } from '../types';
-import { SPHYNX_CONTRACTS } from '../constants/sphynx';
-import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS, SPHYNX_FEES } from '../constants/sphynx';
+import { REACHSWAP_CONTRACTS, REACHSWAP_FEES, QUOTE_GAS_UNITS } from '../constants/reachswap';
 import { useOptimizedMulticall } from './useOptimizedMulticall';
 import { useUniversalRouter } from './useUniversalRouter';
 import { usePriceImpactCalculation } from './usePriceImpactCalculation';
-import { useTokenFeeDetection } from './useTokenFeeDetection';
+import { useTokenFeeDetection, getFeeSlippageRecommendation } from './useTokenFeeDetection';
+import { getReadProvider } from '../utils/rpcProvider';
+import { getEffectiveGasPrice, getGasFeeData, getGasSpeed } from '../utils/gasEngine';
+
+export type QuoteMode = 'bestPrice' | 'nativeFirst';
+
+// What the user actually ends up with from a router quote
+export interface NetOutputBreakdown {
+  grossAmountOut: string;   // getAmountsOut result (LP fees already deducted)
+  taxLoss: string;          // Fee-on-transfer losses on the input and output token
+  protocolFeeLoss: string;  // Router protocol/service fee not reflected in getAmountsOut
+  gasCostLoop: string;      // Estimated network fee in LOOP
+  gasCostInOutput: string;  // Network fee converted to output token units ('0' if unknown)
+  netAmountOut: string;
+}
+
+export interface RouteSelection {
+  mode: QuoteMode;
+  reason: string;
+  candidates: {
+    router: 'sphynx' | 'reachswap';
+    hops: number;
+    amountOut: string;
+    netAmountOut: string;
+    gasCostLoop: string;
+  }[];
+}
 
 interface SwapMetrics {
   exchangeRate: string;
@@ -46,6 +72,8 @@ interface SwapMetrics {
     priceImpactWarning: boolean;
     slippageRecommendation: number;
   };
+  netOutput?: NetOutputBreakdown;
+  routeSelection?: RouteSelection;
 }
 
 interface SwapQuote {
@@ -82,25 +110,41 @@ interface SwapQuote {
     priceImpactWarning: boolean;
     slippageRecommendation: number;
   };
+  netOutput?: NetOutputBreakdown;
 }
 
+interface RouterComparison {
+  reachSwapQuote: SwapQuote | null;
+  sphynxQuote: SwapQuote | null;
+  recommendedRouter: 'reachswap' | 'sphynx';
+  reason: string;
+  routeSelection: RouteSelection;
+}
+
+const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+
+// Router fee configuration (basis points)
+const ROUTER_FEES = {
+  reachswap: { swapFee: REACHSWAP_FEES.SWAP_FEE, protocolFee: REACHSWAP_FEES.PROTOCOL_FEE },
+  sphynx: { swapFee: SPHYNX_FEES.SWAP_FEE, protocolFee: SPHYNX_FEES.SERVICE_FEE }
+};
+
+const formatBps = (bps: number): string => `${(bps / 100).toFixed(2)}%`;
+
 interface UseSwapMetricsReturn {
   calculateSwapMetrics: (
     tokenIn: Token,
     tokenOut: Token,
     amountIn: string,
-    slippage: number
+    slippage: number,
+    quoteMode?: QuoteMode
   ) => Promise<SwapMetrics>;
   compareRouters: (
     tokenIn: Token,
     tokenOut: Token,
-    amountIn: string
-  ) => Promise<{
-    reachSwapQuote: SwapQuote | null;
-    sphynxQuote: SwapQuote | null;
-    recommendedRouter: 'reachswap' | 'sphynx';
-    reason: string;
-  }>;
+    amountIn: string,
+    quoteMode?: QuoteMode
+  ) => Promise<RouterComparison>;
   isCalculating: boolean;
   metricsError: string | null;
   clearError: () => void;
@@ -110,26 +154,11 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
   const [isCalculating, setIsCalculating] = useState(false);
   const [metricsError, setMetricsError] = useState<string | null>(null);
   const { batchCall } = useOptimizedMulticall();
-  const { getRouterForPair } = useUniversalRouter();
+  const { getRouterForPair, findBestRouteOnRouter } = useUniversalRouter();
   const { calculatePriceImpact, clearCache: clearPriceImpactCache } = usePriceImpactCalculation();
-  const { detectTokenFees } = useTokenFeeDetection();
+  const { detectTradeFees } = useTokenFeeDetection();
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Enhanced pair existence check with liquidity info
   const checkPairExistsWithLiquidity = useCallback(async (
     factoryAddress: string,
@@ -142,7 +171,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
     totalLiquidity?: string;
   }> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return { exists: false };
 
       const getPairSignature = '0xe6a43905';
@@ -160,7 +189,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
             data: data
           }, 'latest']
         }),
-        new Promise((_, reject) => 
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Request timeout')), 3000)
         )
       ]);
@@ -213,7 +242,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
       console.error(`Error checking enhanced pair existence:`, error);
       return { exists: false };
     }
-  }, [getProvider]);
+  }, []);
 
   // Enhanced amounts calculation
   const getAmountsOut = useCallback(async (
@@ -222,7 +251,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
     path: string[]
   ): Promise<string[]> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) throw new Error('No provider available');
 
       const getAmountsOutSignature = '0xd06ca61f';
@@ -240,7 +269,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
             data: data
           }, 'latest']
         }),
-        new Promise((_, reject) => 
+        new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Request timeout')), 3000)
         )
       ]);
@@ -266,7 +295,71 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
       console.error('Error getting amounts out:', error);
       throw error;
     }
-  }, [getProvider]);
+  }, []);
+
+  // Gas price in wei at the selected speed (the gas engine caches fees, both routers are priced together)
+  const getGasPrice = useCallback(async (): Promise<bigint> => {
+    try {
+      return getEffectiveGasPrice(await getGasFeeData(), getGasSpeed());
+    } catch (error) {
+      console.warn('Could not fetch gas price for quote comparison:', error);
+      return BigInt(0);
+    }
+  }, []);
+
+  // Net output after token taxes, router fees outside getAmountsOut, and gas
+  const calculateNetOutput = useCallback(async (
+    routerType: 'reachswap' | 'sphynx',
+    tokenIn: Token,
+    tokenOut: Token,
+    amountIn: string,
+    path: string[],
+    amounts: string[],
+    inputTax: number,
+    outputTax: number
+  ): Promise<NetOutputBreakdown> => {
+    const grossAmountOut = parseFloat(amounts[amounts.length - 1]) / Math.pow(10, tokenOut.decimals);
+
+    // Fee-on-transfer: the input tax shrinks what reaches the pair, the output tax what reaches the wallet
+    const afterTax = grossAmountOut * (1 - inputTax) * (1 - outputTax);
+    const taxLoss = grossAmountOut - afterTax;
+
+    const protocolFeeLoss = afterTax * ROUTER_FEES[routerType].protocolFee / 10000;
+
+    // Gas: units by route shape, priced at the current gas price
+    const hops = path.length - 1;
+    const gasUnits = QUOTE_GAS_UNITS.BASE_SWAP +
+      QUOTE_GAS_UNITS.PER_EXTRA_HOP * Math.max(0, hops - 1) +
+      (inputTax > 0 || outputTax > 0 ? QUOTE_GAS_UNITS.FEE_ON_TRANSFER : 0);
+    const gasPrice = await getGasPrice();
+    const gasCostLoop = Number(gasPrice * BigInt(gasUnits)) / 1e18;
+
+    // Convert the LOOP network fee into output token units using prices along the route
+    let loopToOutputRate = 0;
+    const wloop = REACHSWAP_CONTRACTS.WLOOP.toLowerCase();
+    const wloopIndex = path.findIndex(address => address.toLowerCase() === wloop);
+
+    if (tokenOut.address === NATIVE_LOOP || path[path.length - 1].toLowerCase() === wloop) {
+      loopToOutputRate = 1;
+    } else if (tokenIn.address === NATIVE_LOOP && parseFloat(amountIn) > 0) {
+      loopToOutputRate = grossAmountOut / parseFloat(amountIn);
+    } else if (wloopIndex > 0) {
+      const loopAmount = parseFloat(amounts[wloopIndex]) / 1e18;
+      loopToOutputRate = loopAmount > 0 ? grossAmountOut / loopAmount : 0;
+    }
+
+    const gasCostInOutput = gasCostLoop * loopToOutputRate;
+    const netAmountOut = Math.max(0, afterTax - protocolFeeLoss - gasCostInOutput);
+
+    return {
+      grossAmountOut: grossAmountOut.toFixed(6),
+      taxLoss: taxLoss.toFixed(6),
+      protocolFeeLoss: protocolFeeLoss.toFixed(6),
+      gasCostLoop: gasCostLoop.toFixed(6),
+      gasCostInOutput: gasCostInOutput.toFixed(6),
+      netAmountOut: netAmountOut.toFixed(6)
+    };
+  }, [getGasPrice]);
 
   // Enhanced quote calculation
   const getQuote = useCallback(async (
@@ -283,7 +376,6 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         ? REACHSWAP_CONTRACTS.WLOOP 
         : tokenOut.address;
 
-      const path = [tokenAAddr, tokenBAddr];
       const routerAddress = routerType === 'reachswap' 
         ? REACHSWAP_CONTRACTS.ROUTER 
         : SPHYNX_CONTRACTS.ROUTER;
@@ -291,10 +383,16 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         ? REACHSWAP_CONTRACTS.FACTORY 
         : SPHYNX_CONTRACTS.FACTORY;
 
-      // Check if pair exists with enhanced info
-      const pairInfo = await checkPairExistsWithLiquidity(factoryAddress, tokenAAddr, tokenBAddr);
+      // Search direct and multi-hop routes on this router, ranked by quoted output
+      const route = await findBestRouteOnRouter(routerType, tokenIn, tokenOut, amountIn);
+      const path = route ? route.path : [tokenAAddr, tokenBAddr];
+
+      // Reserve details are only meaningful for a direct pair
+      const pairInfo: Awaited<ReturnType<typeof checkPairExistsWithLiquidity>> = route && !route.isMultiHop
+        ? await checkPairExistsWithLiquidity(factoryAddress, tokenAAddr, tokenBAddr)
+        : { exists: !!route };
       
-      if (!pairInfo.exists) {
+      if (!route || !pairInfo.exists) {
         return {
           amountOut: '0',
           path,
@@ -306,9 +404,9 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
           routerAddress,
           routerPriority: routerType === 'reachswap' ? 1 : 2,
           feeStructure: {
-            swapFee: routerType === 'reachswap' ? '0.25%' : '0.30%',
-            protocolFee: '0.00%',
-            lpFee: routerType === 'reachswap' ? '0.25%' : '0.30%'
+            swapFee: formatBps(ROUTER_FEES[routerType].swapFee),
+            protocolFee: formatBps(ROUTER_FEES[routerType].protocolFee),
+            lpFee: formatBps(ROUTER_FEES[routerType].swapFee)
           },
           performance: {
             gasEstimate: routerType === 'reachswap' ? '0.001' : '0.002',
@@ -326,12 +424,9 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
       const amountOutFormatted = (parseFloat(amountOut) / Math.pow(10, tokenOut.decimals)).toFixed(6);
 
       // Detect token fees for strategy determination
-      const [tokenInFees, tokenOutFees] = await Promise.all([
-        detectTokenFees(tokenIn.address),
-        detectTokenFees(tokenOut.address)
-      ]);
+      const [tokenInFees, tokenOutFees] = await detectTradeFees(tokenIn, tokenOut);
 
-      const hasFeeOnTransfer = tokenInFees.hasTransferFee || tokenOutFees.hasTransferFee;
+      const hasFeeOnTransfer = !!tokenInFees?.hasTransferFee || !!tokenOutFees?.hasTransferFee;
       const swapStrategy: 'exactInput' | 'exactOutput' | 'supportingFee' = hasFeeOnTransfer ? 'supportingFee' : 'exactInput';
 
       // Calculate enhanced price impact
@@ -359,17 +454,30 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         priceImpactError = error.message;
       }
 
-      // Calculate execution details
-      const feeRate = routerType === 'reachswap' ? 0.25 : 0.30;
-      const totalFees = (parseFloat(amountIn) * feeRate / 100).toFixed(6);
+      // Calculate execution details (the LP fee is charged on every hop)
+      const feeRate = ROUTER_FEES[routerType].swapFee / 10000;
+      const totalFees = (parseFloat(amountIn) * (1 - Math.pow(1 - feeRate, path.length - 1))).toFixed(6);
+
+      const netOutput = await calculateNetOutput(
+        routerType,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        path,
+        amounts,
+        tokenInFees?.sellFee || 0,
+        tokenOutFees?.buyFee || 0
+      );
       const priceImpactWarning = priceImpactResult.priceImpact > 5;
-      const slippageRecommendation = priceImpactWarning ? 8 : (hasFeeOnTransfer ? 5 : 1);
+      // Covers the measured sell fee of the input and buy fee of the output for this direction
+      const feeSlippage = getFeeSlippageRecommendation(tokenInFees, tokenOutFees);
+      const slippageRecommendation = priceImpactWarning ? Math.max(8, feeSlippage) : feeSlippage;
 
       return {
         amountOut: amountOutFormatted,
         path,
         priceImpact: priceImpactResult.priceImpact,
-        gasEstimate: routerType === 'reachswap' ? '0.001' : '0.002',
+        gasEstimate: netOutput.gasCostLoop,
         router: routerType,
         liquidityAvailable: true,
         recommendedSlippage: slippageRecommendation,
@@ -385,12 +493,12 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
           totalLiquidity: pairInfo.totalLiquidity || '0'
         } : undefined,
         feeStructure: {
-          swapFee: routerType === 'reachswap' ? '0.25%' : '0.30%',
-          protocolFee: '0.00%',
-          lpFee: routerType === 'reachswap' ? '0.25%' : '0.30%'
+          swapFee: formatBps(ROUTER_FEES[routerType].swapFee),
+          protocolFee: formatBps(ROUTER_FEES[routerType].protocolFee),
+          lpFee: formatBps(ROUTER_FEES[routerType].swapFee)
         },
         performance: {
-          gasEstimate: routerType === 'reachswap' ? '0.001' : '0.002',
+          gasEstimate: netOutput.gasCostLoop,
           estimatedTime: routerType === 'reachswap' ? '3' : '4',
           reliability: 'high'
         },
@@ -398,7 +506,8 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
           totalFees,
           priceImpactWarning,
           slippageRecommendation
-        }
+        },
+        netOutput
       };
     } catch (error) {
       console.error(`Error getting ${routerType} quote:`, error);
@@ -413,9 +522,9 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         routerAddress: routerType === 'reachswap' ? REACHSWAP_CONTRACTS.ROUTER : SPHYNX_CONTRACTS.ROUTER,
         routerPriority: routerType === 'reachswap' ? 1 : 2,
         feeStructure: {
-          swapFee: routerType === 'reachswap' ? '0.25%' : '0.30%',
-          protocolFee: '0.00%',
-          lpFee: routerType === 'reachswap' ? '0.25%' : '0.30%'
+          swapFee: formatBps(ROUTER_FEES[routerType].swapFee),
+          protocolFee: formatBps(ROUTER_FEES[routerType].protocolFee),
+          lpFee: formatBps(ROUTER_FEES[routerType].swapFee)
         },
         performance: {
           gasEstimate: routerType === 'reachswap' ? '0.001' : '0.002',
@@ -424,19 +533,15 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         }
       };
     }
-  }, [checkPairExistsWithLiquidity, getAmountsOut, detectTokenFees, calculatePriceImpact]);
+  }, [findBestRouteOnRouter, checkPairExistsWithLiquidity, getAmountsOut, detectTradeFees, calculatePriceImpact, calculateNetOutput]);
 
-  // Compare routers and recommend the best one
+  // Compare routers and recommend the one with the better net output
   const compareRouters = useCallback(async (
     tokenIn: Token,
     tokenOut: Token,
-    amountIn: string
-  ): Promise<{
-    reachSwapQuote: SwapQuote | null;
-    sphynxQuote: SwapQuote | null;
-    recommendedRouter: 'reachswap' | 'sphynx';
-    reason: string;
-  }> => {
+    amountIn: string,
+    quoteMode: QuoteMode = 'bestPrice'
+  ): Promise<RouterComparison> => {
     try {
       // Get quotes from both routers in parallel
       const [reachSwapQuote, sphynxQuote] = await Promise.allSettled([
@@ -451,35 +556,62 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         ? sphynxQuote.value 
         : null;
 
-      // Determine recommendation with ReachSwap priority
+      const netOf = (quote: SwapQuote) => parseFloat(quote.netOutput?.netAmountOut || quote.amountOut);
+
       let recommendedRouter: 'reachswap' | 'sphynx' = 'reachswap';
-      let reason = 'ReachSwap is the native DEX with lower fees';
+      let reason = 'No liquidity available on either router';
 
-      if (!reachSwapResult && sphynxResult) {
+      if (reachSwapResult && !sphynxResult) {
+        reason = 'Only ReachSwap has a route for this pair';
+      } else if (!reachSwapResult && sphynxResult) {
         recommendedRouter = 'sphynx';
-        reason = 'Only Sphynx has liquidity for this pair';
+        reason = 'Only Sphynx has a route for this pair';
       } else if (reachSwapResult && sphynxResult) {
-        const reachSwapOutput = parseFloat(reachSwapResult.amountOut);
-        const sphynxOutput = parseFloat(sphynxResult.amountOut);
-        
-        // ReachSwap gets priority unless Sphynx is significantly better (>2% difference)
-        if (sphynxOutput > reachSwapOutput * 1.02) {
-          recommendedRouter = 'sphynx';
-          reason = `Sphynx offers ${((sphynxOutput - reachSwapOutput) / reachSwapOutput * 100).toFixed(2)}% better rate`;
+        const reachSwapNet = netOf(reachSwapResult);
+        const sphynxNet = netOf(sphynxResult);
+
+        if (quoteMode === 'nativeFirst') {
+          // Legacy behaviour: ReachSwap unless Sphynx is significantly better (>2%)
+          if (sphynxNet > reachSwapNet * 1.02) {
+            recommendedRouter = 'sphynx';
+            reason = `Sphynx pays ${((sphynxNet - reachSwapNet) / reachSwapNet * 100).toFixed(2)}% more after fees and gas`;
+          } else {
+            reason = 'ReachSwap preferred as the native DEX (within 2% of Sphynx)';
+          }
         } else {
-          reason = reachSwapOutput >= sphynxOutput 
-            ? `ReachSwap offers ${((reachSwapOutput - sphynxOutput) / sphynxOutput * 100).toFixed(2)}% better rate with lower fees`
-            : 'ReachSwap native DEX with lower fees (0.25% vs 0.30%)';
+          recommendedRouter = sphynxNet > reachSwapNet ? 'sphynx' : 'reachswap';
+          const winnerNet = Math.max(reachSwapNet, sphynxNet);
+          const loserNet = Math.min(reachSwapNet, sphynxNet);
+          const winnerName = recommendedRouter === 'reachswap' ? 'ReachSwap' : 'Sphynx';
+
+          reason = loserNet > 0 && winnerNet > loserNet
+            ? `${winnerName} pays ${((winnerNet - loserNet) / loserNet * 100).toFixed(2)}% more after fees, token taxes and gas`
+            : `${winnerName} and ${winnerName === 'ReachSwap' ? 'Sphynx' : 'ReachSwap'} pay the same; ${winnerName} chosen`;
         }
-      } else if (!reachSwapResult && !sphynxResult) {
-        reason = 'No liquidity available on either router';
       }
 
+      const routeSelection: RouteSelection = {
+        mode: quoteMode,
+        reason,
+        candidates: [reachSwapResult, sphynxResult]
+          .filter((quote): quote is SwapQuote => quote !== null)
+          .map(quote => ({
+            router: quote.router,
+            hops: quote.path.length - 1,
+            amountOut: quote.amountOut,
+            netAmountOut: quote.netOutput?.netAmountOut || quote.amountOut,
+            gasCostLoop: quote.netOutput?.gasCostLoop || quote.gasEstimate
+          }))
+      };
+
+      console.log(`⚖️ Router comparison (${quoteMode}): ${recommendedRouter.toUpperCase()} - ${reason}`);
+
       return {
         reachSwapQuote: reachSwapResult,
         sphynxQuote: sphynxResult,
         recommendedRouter,
-        reason
+        reason,
+        routeSelection
       };
     } catch (error: any) {
       console.error('Error comparing routers:', error);
@@ -487,7 +619,8 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         reachSwapQuote: null,
         sphynxQuote: null,
         recommendedRouter: 'reachswap',
-        reason: 'Error occurred during comparison'
+        reason: 'Error occurred during comparison',
+        routeSelection: { mode: quoteMode, reason: 'Error occurred during comparison', candidates: [] }
       };
     }
   }, [getQuote]);
@@ -497,7 +630,8 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
     tokenIn: Token,
     tokenOut: Token,
     amountIn: string,
-    slippage: number
+    slippage: number,
+    quoteMode: QuoteMode = 'bestPrice'
   ): Promise<SwapMetrics> => {
     // Cancel any existing calculation
     if (abortControllerRef.current) {
@@ -512,7 +646,7 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
 
     try {
       // Compare routers and get the best quote
-      const comparison = await compareRouters(tokenIn, tokenOut, amountIn);
+      const comparison = await compareRouters(tokenIn, tokenOut, amountIn, quoteMode);
 
       if (signal.aborted) {
         throw new Error('Calculation cancelled');
@@ -565,7 +699,9 @@ export const useSwapMetrics = (): UseSwapMetricsReturn => {
         liquidityInfo: bestQuote.liquidityInfo,
         feeStructure: bestQuote.feeStructure,
         performance: bestQuote.performance,
-        executionDetails: bestQuote.executionDetails
+        executionDetails: bestQuote.executionDetails,
+        netOutput: bestQuote.netOutput,
+        routeSelection: comparison.routeSelection
       };
 
       console.log('📊 Calculated swap metrics:', metrics);
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Token } from '../types';
 import { useDynamicTokenDecimals } from './useDynamicTokenDecimals';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface TokenBalances {
   [tokenAddress: string]: string;
@@ -30,25 +31,10 @@ export const useTokenBalances = (
   const fetchingRef = useRef<Set<string>>(new Set());
   const { getTokenDecimals } = useDynamicTokenDecimals();
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Fetch native LOOP balance
   const fetchNativeBalance = useCallback(async (address: string): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         throw new Error('No provider available');
       }
@@ -65,7 +51,7 @@ export const useTokenBalances = (
       console.error('Error fetching native balance:', error);
       return '0.000000';
     }
-  }, [getProvider]);
+  }, []);
 
   // Fetch ERC-20 token balance
   const fetchTokenBalance = useCallback(async (
@@ -74,7 +60,7 @@ export const useTokenBalances = (
     token: Token
   ): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         throw new Error('No provider available');
       }
@@ -138,7 +124,7 @@ export const useTokenBalances = (
       const precision = Math.min(6, getTokenDecimals(token));
       return '0'.padEnd(precision + 2, '0').replace(/^0/, '0.');
     }
-  }, [getProvider, getTokenDecimals]);
+  }, [getTokenDecimals]);
 
   // Fetch balance for a specific token
   const fetchBalanceForToken = useCallback(async (token: Token): Promise<void> => {
@@ -1,5 +1,9 @@
 import { useState, useCallback } from 'react';
-import { KNOWN_FEE_TOKENS, ERC20_ABI } from '../constants/sphynx';
+import { KNOWN_FEE_TOKENS, FEE_FUNCTION_SIGNATURES, FEE_GETTER_NAMES } from '../constants/sphynx';
+import { getReadProvider } from '../utils/rpcProvider';
+import { scanTokenRisk as runRiskScan } from '../utils/tokenRiskScanner';
+import { measureTokenTaxes } from '../utils/taxSimulation';
+import { Token, TokenRiskReport } from '../types';
 
 interface TokenFeeInfo {
   address: string;
@@ -9,54 +13,51 @@ interface TokenFeeInfo {
   isReflection?: boolean;
   isDeflationary?: boolean;
   requiresSpecialHandling?: boolean;
+  isMeasured?: boolean; // buyFee/sellFee come from simulated router swaps rather than heuristics
 }
 
 interface UseTokenFeeDetectionReturn {
   detectTokenFees: (tokenAddress: string) => Promise<TokenFeeInfo>;
+  detectTradeFees: (tokenIn: Token, tokenOut: Token) => Promise<[TokenFeeInfo | null, TokenFeeInfo | null]>;
   hasTransferFee: (tokenAddress: string) => Promise<boolean>;
   isDetecting: boolean;
   detectionCache: { [address: string]: TokenFeeInfo };
+  scanTokenRisk: (tokenAddress: string, force?: boolean) => Promise<TokenRiskReport | null>;
+  isScanning: boolean;
+  riskReports: { [address: string]: TokenRiskReport };
 }
 
+// Slippage to recommend for a trade from the sell fee of the token sold and the buy fee of the token bought
+// (null for native LOOP): measured fees get a 2% buffer, heuristic guesses keep the conservative 8% floor
+export const getFeeSlippageRecommendation = (inputFees: TokenFeeInfo | null, outputFees: TokenFeeInfo | null): number => {
+  const totalFeePercent = ((inputFees?.sellFee || 0) + (outputFees?.buyFee || 0)) * 100;
+  if (totalFeePercent <= 0) return 1;
+
+  const isMeasured = (!inputFees || !!inputFees.isMeasured) && (!outputFees || !!outputFees.isMeasured);
+  return Math.ceil(isMeasured ? totalFeePercent + 2 : Math.max(8, totalFeePercent + 3));
+};
+
+// Native LOOP and wLOOP carry no transfer tax
+const isFeeFreeToken = (tokenAddress: string): boolean => {
+  const normalizedAddress = tokenAddress.toLowerCase();
+  return normalizedAddress === '0x0000000000000000000000000000000000000000' ||
+    normalizedAddress === '0x3936d20a39ed4b0d44eabfc91757b182f14a38d5';
+};
+
 export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
   const [isDetecting, setIsDetecting] = useState(false);
   const [detectionCache, setDetectionCache] = useState<{ [address: string]: TokenFeeInfo }>({});
-
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
+  const [isScanning, setIsScanning] = useState(false);
+  const [riskReports, setRiskReports] = useState<{ [address: string]: TokenRiskReport }>({});
 
   // Enhanced runtime fee detection using multiple methods
   const detectFeeFunctions = useCallback(async (tokenAddress: string): Promise<boolean> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return false;
 
-      // Common fee function signatures found on LOOP network tokens
-      const feeFunctionSignatures = [
-        '0x83e3bdb4', // _taxFee()
-        '0x28c61f41', // _liquidityFee() 
-        '0x4549b039', // _burnFee()
-        '0x5342acb4', // isExcludedFromFee(address)
-        '0x437823ec', // _isExcluded(address)
-        '0x88f82020', // _rOwned(address) - reflection token
-        '0x70a08231', // balanceOf(address) - will be used for simulation
-        '0xa9059cbb', // transfer(address,uint256) - for simulation
-      ];
-
-      // Try calling fee-related functions
-      for (const signature of feeFunctionSignatures.slice(0, 6)) { // Skip transfer functions
+      // Try calling fee getters common on LOOP network tokens
+      for (const signature of FEE_GETTER_NAMES.map(name => FEE_FUNCTION_SIGNATURES[name])) {
         try {
           const result = await provider.request({
             method: 'eth_call',
@@ -85,12 +86,12 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
       console.error('Error checking fee functions:', error);
       return false;
     }
-  }, [getProvider]);
+  }, []);
 
   // Simulate transfer to detect fee behavior (most reliable method)
   const simulateTransferFee = useCallback(async (tokenAddress: string): Promise<{ hasFee: boolean; feePercentage: number }> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return { hasFee: false, feePercentage: 0 };
 
       const walletAddress = localStorage.getItem('reachswap_wallet_address');
@@ -181,12 +182,12 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
       console.error('Error simulating transfer fee:', error);
       return { hasFee: false, feePercentage: 0 };
     }
-  }, [getProvider]);
+  }, []);
 
   // Heuristic detection based on token name/symbol patterns
   const detectByHeuristics = useCallback(async (tokenAddress: string): Promise<{ hasFee: boolean; feePercentage: number }> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return { hasFee: false, feePercentage: 0 };
 
       const nameSignature = '0x06fdde03'; // name()
@@ -288,7 +289,7 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
       // Conservative fallback: assume fee for unknown tokens
       return { hasFee: true, feePercentage: 0.05 };
     }
-  }, [getProvider]);
+  }, []);
 
   // Main fee detection function with comprehensive approach
   const detectTokenFees = useCallback(async (tokenAddress: string): Promise<TokenFeeInfo> => {
@@ -334,8 +335,9 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
     setIsDetecting(true);
 
     try {
-      // Check known fee tokens first
-      const knownFeeToken = KNOWN_FEE_TOKENS[normalizedAddress];
+      // Check known fee tokens first (keys are checksummed)
+      const knownFeeToken = Object.entries(KNOWN_FEE_TOKENS)
+        .find(([address]) => address.toLowerCase() === normalizedAddress)?.[1];
       if (knownFeeToken) {
         const result: TokenFeeInfo = {
           address: normalizedAddress,
@@ -352,7 +354,31 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
         return result;
       }
 
-      // Run multiple detection methods in parallel
+      // Measure buy and sell tax separately by simulating router swaps
+      const measured = await measureTokenTaxes(normalizedAddress).catch(() => null);
+      if (measured && (measured.buyFee !== null || measured.sellFee !== null)) {
+        // A side that could not be simulated takes the other side's measurement as its estimate
+        const buyFee = measured.buyFee ?? measured.sellFee ?? 0;
+        const sellFee = measured.sellFee ?? measured.buyFee ?? 0;
+        const hasTransferFee = buyFee > 0 || sellFee > 0;
+
+        const result: TokenFeeInfo = {
+          address: normalizedAddress,
+          hasTransferFee,
+          buyFee,
+          sellFee,
+          isReflection: false,
+          isDeflationary: false,
+          requiresSpecialHandling: hasTransferFee,
+          isMeasured: true
+        };
+
+        setDetectionCache(prev => ({ ...prev, [normalizedAddress]: result }));
+        console.log(`🧪 Measured token fees: ${normalizedAddress} buy ${(buyFee * 100).toFixed(2)}% / sell ${(sellFee * 100).toFixed(2)}%`);
+        return result;
+      }
+
+      // Simulation unavailable - fall back to fee getters and heuristics
       const [hasFeeFunctions, simulationResult] = await Promise.all([
         detectFeeFunctions(normalizedAddress),
         simulateTransferFee(normalizedAddress)
@@ -409,10 +435,38 @@ export const useTokenFeeDetection = (): UseTokenFeeDetectionReturn => {
     return feeInfo.hasTransferFee;
   }, [detectTokenFees]);
 
+  // Full safety report: simulated buy/sell tax, honeypot and contract checks
+  const scanTokenRisk = useCallback(async (tokenAddress: string, force = false): Promise<TokenRiskReport | null> => {
+    setIsScanning(true);
+
+    try {
+      const report = await runRiskScan(tokenAddress, force);
+      setRiskReports(prev => ({ ...prev, [report.address]: report }));
+      return report;
+    } catch (error) {
+      console.error('Error scanning token risk:', error);
+      return null;
+    } finally {
+      setIsScanning(false);
+    }
+  }, []);
+
+  // Fee info for both sides of a trade, as getFeeSlippageRecommendation expects it: null for
+  // native LOOP and wLOOP so they count as known fee-free rather than as heuristic guesses
+  const detectTradeFees = useCallback(async (tokenIn: Token, tokenOut: Token): Promise<[TokenFeeInfo | null, TokenFeeInfo | null]> =>
+    Promise.all([
+      isFeeFreeToken(tokenIn.address) ? null : detectTokenFees(tokenIn.address),
+      isFeeFreeToken(tokenOut.address) ? null : detectTokenFees(tokenOut.address)
+    ]), [detectTokenFees]);
+
   return {
     detectTokenFees,
+    detectTradeFees,
     hasTransferFee,
     isDetecting,
-    detectionCache
+    detectionCache,
+    scanTokenRisk,
+    isScanning,
+    riskReports
   };
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { useState, useCallback, useMemo } from 'react';
+import { Token, TokenListEntry } from '../types';
+import { BUNDLED_TOKEN_LISTS, TOKEN_LIST_CONFIG } from '../constants/tokenLists';
+import {
+  StoredTokenLists,
+  bundledListId,
+  compactTokenList,
+  fetchTokenList,
+  getListTokens,
+  loadStoredTokenLists,
+  parseTokenList
+} from '../utils/tokenLists';
+
+interface UseTokenListsReturn {
+  lists: TokenListEntry[];
+  enabledListTokens: { source: string; tokens: Token[] }[];
+  addListFromUrl: (url: string) => Promise<void>;
+  addListFromFile: (file: File) => Promise<void>;
+  removeList: (id: string) => void;
+  toggleList: (id: string) => void;
+  isAddingList: boolean;
+  listError: string | null;
+  clearListError: () => void;
+}
+
+export const useTokenLists = (): UseTokenListsReturn => {
+  // List settings and user-added lists from localStorage
+  const [stored, setStored] = useState<StoredTokenLists>(loadStoredTokenLists);
+  const [isAddingList, setIsAddingList] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+
+  // Returns false (keeping the previous settings) when the browser refuses to store them, e.g. over quota
+  const saveStoredLists = useCallback((next: StoredTokenLists): boolean => {
+    try {
+      localStorage.setItem(TOKEN_LIST_CONFIG.STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving token lists:', error);
+      setListError('Token list settings could not be saved in this browser');
+      return false;
+    }
+    setStored(next);
+    return true;
+  }, []);
+
+  // Bundled lists first, then user lists in the order they were added
+  const lists = useMemo((): TokenListEntry[] => [
+    ...BUNDLED_TOKEN_LISTS.map(list => ({
+      id: bundledListId(list),
+      origin: 'bundled' as const,
+      enabled: !stored.disabledBundled.includes(bundledListId(list)),
+      list,
+      addedAt: 0
+    })),
+    ...stored.userLists
+  ], [stored]);
+
+  const enabledListTokens = useMemo(
+    () => lists
+      .filter(entry => entry.enabled)
+      .map(entry => ({ source: entry.list.name, tokens: getListTokens(entry.list) })),
+    [lists]
+  );
+
+  // Add (or replace) a validated user list; only its LOOP Mainnet entries are stored
+  const addUserList = useCallback((entry: TokenListEntry) => {
+    const compacted = { ...entry, list: compactTokenList(entry.list) };
+    const loopTokens = getListTokens(compacted.list).length;
+    if (loopTokens === 0) {
+      throw new Error(`"${entry.list.name}" has no LOOP Mainnet tokens`);
+    }
+
+    const current = loadStoredTokenLists();
+    const userLists = [...current.userLists.filter(existing => existing.id !== entry.id), compacted];
+    if (!saveStoredLists({ ...current, userLists })) {
+      throw new Error(`"${entry.list.name}" is too large to save in this browser - remove another list or use a smaller one`);
+    }
+
+    console.log(`📋 Added token list "${entry.list.name}" (${loopTokens} LOOP Mainnet tokens)`);
+  }, [saveStoredLists]);
+
+  const addListFromUrl = useCallback(async (url: string) => {
+    setIsAddingList(true);
+    setListError(null);
+
+    try {
+      const list = await fetchTokenList(url.trim());
+      addUserList({ id: `url:${url.trim()}`, origin: 'url', url: url.trim(), enabled: true, list, addedAt: Date.now() });
+    } catch (error) {
+      console.error('Error adding token list from URL:', error);
+      setListError(error instanceof Error ? error.message : 'Failed to add token list');
+    } finally {
+      setIsAddingList(false);
+    }
+  }, [addUserList]);
+
+  const addListFromFile = useCallback(async (file: File) => {
+    setIsAddingList(true);
+    setListError(null);
+
+    try {
+      if (file.size > TOKEN_LIST_CONFIG.MAX_FILE_SIZE) {
+        throw new Error('Token list file is too large');
+      }
+      const list = parseTokenList(await file.text());
+      addUserList({ id: `file:${list.name}`, origin: 'file', enabled: true, list, addedAt: Date.now() });
+    } catch (error) {
+      console.error('Error adding token list from file:', error);
+      setListError(error instanceof Error ? error.message : 'Failed to add token list');
+    } finally {
+      setIsAddingList(false);
+    }
+  }, [addUserList]);
+
+  // Remove a user-added list (bundled lists can only be disabled)
+  const removeList = useCallback((id: string) => {
+    const current = loadStoredTokenLists();
+    saveStoredLists({ ...current, userLists: current.userLists.filter(entry => entry.id !== id) });
+  }, [saveStoredLists]);
+
+  const toggleList = useCallback((id: string) => {
+    const current = loadStoredTokenLists();
+
+    if (id.startsWith('bundled:')) {
+      const disabledBundled = current.disabledBundled.includes(id)
+        ? current.disabledBundled.filter(disabledId => disabledId !== id)
+        : [...current.disabledBundled, id];
+      saveStoredLists({ ...current, disabledBundled });
+      return;
+    }
+
+    saveStoredLists({
+      ...current,
+      userLists: current.userLists.map(entry => entry.id === id ? { ...entry, enabled: !entry.enabled } : entry)
+    });
+  }, [saveStoredLists]);
+
+  const clearListError = useCallback(() => setListError(null), []);
+
+  return {
+    lists,
+    enabledListTokens,
+    addListFromUrl,
+    addListFromFile,
+    removeList,
+    toggleList,
+    isAddingList,
+    listError,
+    clearListError
+  };
+};
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { Token } from '../types';
 import { extractTokenMetadata, validateImportedToken } from '../utils/tokenUtils';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface TokenMetadata {
   symbol: string;
@@ -20,21 +21,6 @@ export const useTokenMetadata = (): UseTokenMetadataReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Validate Ethereum address format
   const isValidAddress = useCallback((address: string): boolean => {
     return /^0x[a-fA-F0-9]{40}$/.test(address);
@@ -46,7 +32,7 @@ export const useTokenMetadata = (): UseTokenMetadataReturn => {
     functionSignature: string,
     timeoutMs: number = 5000
   ): Promise<string> => {
-    const provider = getProvider();
+    const provider = getReadProvider();
     if (!provider) {
       throw new Error('No wallet provider available');
     }
@@ -68,7 +54,7 @@ export const useTokenMetadata = (): UseTokenMetadataReturn => {
     // Race between the call and timeout
     const result = await Promise.race([callPromise, timeoutPromise]);
     return result;
-  }, [getProvider]);
+  }, []);
 
   // Fetch token metadata from contract
   const fetchTokenMetadata = useCallback(async (address: string): Promise<TokenMetadata | null> => {
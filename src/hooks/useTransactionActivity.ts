@@ -0,0 +1,53 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ActivityRecord } from '../types';
+import {
+  getActivity,
+  subscribeActivity,
+  startPendingTracker,
+  clearActivity as clearStoredActivity
+} from '../utils/activityStore';
+
+interface UseTransactionActivityReturn {
+  activity: ActivityRecord[];
+  pendingCount: number;
+  recentActivity: ActivityRecord[];
+  clearActivity: () => void;
+}
+
+const RECENT_LIMIT = 10;
+
+// Subscribe to the local activity store, optionally filtered to one account
+export const useTransactionActivity = (account?: string): UseTransactionActivityReturn => {
+  const [records, setRecords] = useState<ActivityRecord[]>(getActivity);
+
+  useEffect(() => {
+    // Resume tracking anything left pending before a reload
+    startPendingTracker();
+    return subscribeActivity(setRecords);
+  }, []);
+
+  const activity = useMemo(() => {
+    if (!account) return records;
+    const normalized = account.toLowerCase();
+    return records.filter(record => record.account === normalized);
+  }, [records, account]);
+
+  const pendingCount = useMemo(
+    () => activity.filter(record => record.status === 'pending').length,
+    [activity]
+  );
+
+  const recentActivity = useMemo(() => activity.slice(0, RECENT_LIMIT), [activity]);
+
+  // Only the shown account's history is cleared
+  const clearActivity = useCallback(() => {
+    clearStoredActivity(account);
+  }, [account]);
+
+  return {
+    activity,
+    pendingCount,
+    recentActivity,
+    clearActivity
+  };
+};
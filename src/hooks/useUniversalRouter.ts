@@ -1,41 +1,93 @@
 import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
 import { Token } from '../types';
-import { SPHYNX_CONTRACTS, SPHYNX_FACTORY_ABI } from '../constants/sphynx';
-import { REACHSWAP_CONTRACTS, REACHSWAP_FACTORY_ABI, ROUTER_PRIORITY } from '../constants/reachswap';
+import { TOKENS } from '../constants/tokens';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { REACHSWAP_CONTRACTS, ROUTER_PRIORITY, ROUTE_SEARCH_CONFIG } from '../constants/reachswap';
+import { getReadProvider } from '../utils/rpcProvider';
 
-interface RouterInfo {
-  router: 'sphynx' | 'reachswap';
+export type RouterType = 'sphynx' | 'reachswap';
+
+export interface RouterInfo {
+  router: RouterType;
   path: string[];
   pairExists: boolean;
   isMultiHop: boolean;
+  expectedAmountOut?: string; // Raw output (wei) of the chosen route for the quoted amount
+}
+
+interface CachedRouterInfo extends RouterInfo {
+  timestamp: number;
 }
 
 interface UseUniversalRouterReturn {
-  getRouterForPair: (tokenA: Token, tokenB: Token) => Promise<RouterInfo>;
+  getRouterForPair: (tokenA: Token, tokenB: Token, amountIn?: string) => Promise<RouterInfo>;
   checkPairExists: (factoryAddress: string, tokenA: string, tokenB: string) => Promise<boolean>;
-  findOptimalPath: (tokenA: Token, tokenB: Token) => Promise<RouterInfo>;
+  findOptimalPath: (tokenA: Token, tokenB: Token, amountIn?: string) => Promise<RouterInfo>;
+  findBestRouteOnRouter: (router: RouterType, tokenA: Token, tokenB: Token, amountIn?: string) => Promise<RouterInfo | null>;
+  findRouteCandidates: (router: RouterType, tokenA: Token, tokenB: Token, amountIn?: string) => Promise<RouterInfo[]>;
+  quoteRoute: (router: RouterType, path: string[], amountInWei: bigint) => Promise<bigint | null>;
   isChecking: boolean;
   routerCache: { [key: string]: RouterInfo };
 }
 
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const ROUTER_CONFIG: Record<RouterType, { router: string; factory: string }> = {
+  reachswap: { router: REACHSWAP_CONTRACTS.ROUTER, factory: REACHSWAP_CONTRACTS.FACTORY },
+  sphynx: { router: SPHYNX_CONTRACTS.ROUTER, factory: SPHYNX_CONTRACTS.FACTORY }
+};
+
+const ROUTER_INTERFACE = new ethers.Interface([
+  'function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)'
+]);
+
+// Pair existence is shared by every hook instance - the pair graph rarely changes
+const pairExistenceCache = new Map<string, { exists: boolean; timestamp: number }>();
+
+// Liquid intermediates considered when bridging two tokens (native LOOP is represented by WLOOP)
+const getIntermediateTokens = (): string[] => {
+  const addresses = Object.values(TOKENS)
+    .map(token => token.address === ZERO_ADDRESS ? SPHYNX_CONTRACTS.WLOOP : token.address)
+    .map(address => address.toLowerCase());
+
+  return Array.from(new Set(addresses));
+};
+
+// Enumerate simple paths from `from` to `to` using at most `maxHops` pairs, shortest first
+const enumeratePaths = (
+  adjacency: Map<string, Set<string>>,
+  from: string,
+  to: string,
+  maxHops: number,
+  limit: number
+): string[][] => {
+  const paths: string[][] = [];
+
+  const visit = (current: string, path: string[]) => {
+    if (path.length - 1 >= maxHops) return;
+
+    for (const next of adjacency.get(current) || []) {
+      if (path.includes(next)) continue;
+
+      if (next === to) {
+        paths.push([...path, next]);
+      } else {
+        visit(next, [...path, next]);
+      }
+    }
+  };
+
+  visit(from, [from]);
+
+  return paths
+    .sort((a, b) => a.length - b.length)
+    .slice(0, limit);
+};
+
 export const useUniversalRouter = (): UseUniversalRouterReturn => {
   const [isChecking, setIsChecking] = useState(false);
-  const [routerCache, setRouterCache] = useState<{ [key: string]: RouterInfo }>({});
-
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
+  const [routerCache, setRouterCache] = useState<{ [key: string]: CachedRouterInfo }>({});
 
   // Check if pair exists on a specific factory
   const checkPairExists = useCallback(async (
@@ -44,17 +96,24 @@ export const useUniversalRouter = (): UseUniversalRouterReturn => {
     tokenB: string
   ): Promise<boolean> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) return false;
 
       // Skip check if factory is not deployed (address is zero)
-      if (factoryAddress === '0x0000000000000000000000000000000000000000') {
+      if (factoryAddress === ZERO_ADDRESS) {
         return false;
       }
 
-      const getPairSignature = '0xe6a43905'; // getPair(address,address)
       const token0 = tokenA.toLowerCase() < tokenB.toLowerCase() ? tokenA : tokenB;
       const token1 = tokenA.toLowerCase() < tokenB.toLowerCase() ? tokenB : tokenA;
+
+      const cacheKey = `${factoryAddress}-${token0}-${token1}`.toLowerCase();
+      const cached = pairExistenceCache.get(cacheKey);
+      if (cached && Date.now() - cached.timestamp < ROUTE_SEARCH_CONFIG.PAIR_CACHE_TTL) {
+        return cached.exists;
+      }
+
+      const getPairSignature = '0xe6a43905'; // getPair(address,address)
       const paddedToken0 = token0.slice(2).padStart(64, '0');
       const paddedToken1 = token1.slice(2).padStart(64, '0');
       const data = getPairSignature + paddedToken0 + paddedToken1;
@@ -67,54 +126,210 @@ export const useUniversalRouter = (): UseUniversalRouterReturn => {
         }, 'latest']
       });
 
-      if (!result || result === '0x' || result === '0x0000000000000000000000000000000000000000000000000000000000000000') {
-        return false;
-      }
+      const pairAddress = result && result !== '0x' ? '0x' + result.slice(-40) : ZERO_ADDRESS;
+      const pairExists = pairAddress !== ZERO_ADDRESS;
+
+      pairExistenceCache.set(cacheKey, { exists: pairExists, timestamp: Date.now() });
 
-      const pairAddress = '0x' + result.slice(-40);
-      const pairExists = pairAddress !== '0x0000000000000000000000000000000000000000';
-      
-      if (pairExists) {
-        console.log(`✅ Pair found: ${tokenA}/${tokenB} on factory ${factoryAddress} -> ${pairAddress}`);
-      }
-      
       return pairExists;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
+
       // Handle circuit breaker and rate limiting errors gracefully
-      if (errorMessage.includes('circuit breaker') || 
-          errorMessage.includes('rate limit') || 
+      if (errorMessage.includes('circuit breaker') ||
+          errorMessage.includes('rate limit') ||
           errorMessage.includes('too many requests') ||
           errorMessage.includes('service unavailable') ||
           errorMessage.includes('timeout')) {
         console.warn(`⚠️ RPC temporarily unavailable for factory ${factoryAddress}: ${errorMessage}`);
         return false;
       }
-      
+
       console.error(`Error checking pair exists on factory ${factoryAddress}:`, error);
       return false;
     }
-  }, [getProvider]);
+  }, []);
 
   // Get normalized token addresses (handle native LOOP)
   const getNormalizedAddress = useCallback((token: Token): string => {
-    return token.address === '0x0000000000000000000000000000000000000000' 
-      ? SPHYNX_CONTRACTS.WLOOP 
+    return token.address === ZERO_ADDRESS
+      ? SPHYNX_CONTRACTS.WLOOP
       : token.address;
   }, []);
 
-  // Find optimal router and path for a token pair
-  const findOptimalPath = useCallback(async (tokenA: Token, tokenB: Token): Promise<RouterInfo> => {
+  // Build the pair graph of a factory over the endpoints and all known intermediates
+  const buildPairGraph = useCallback(async (
+    factoryAddress: string,
+    nodes: string[]
+  ): Promise<Map<string, Set<string>>> => {
+    const adjacency = new Map<string, Set<string>>(nodes.map(node => [node, new Set<string>()]));
+    const candidatePairs: [string, string][] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        candidatePairs.push([nodes[i], nodes[j]]);
+      }
+    }
+
+    // Limit concurrent requests to avoid rate limiting
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < candidatePairs.length; i += BATCH_SIZE) {
+      const batch = candidatePairs.slice(i, i + BATCH_SIZE);
+      const exists = await Promise.all(
+        batch.map(([a, b]) => checkPairExists(factoryAddress, a, b))
+      );
+
+      batch.forEach(([a, b], index) => {
+        if (exists[index]) {
+          adjacency.get(a)!.add(b);
+          adjacency.get(b)!.add(a);
+        }
+      });
+    }
+
+    return adjacency;
+  }, [checkPairExists]);
+
+  // Quote a path on a router, returning the final output or null if the router reverts
+  const quotePath = useCallback(async (
+    routerAddress: string,
+    amountInWei: bigint,
+    path: string[]
+  ): Promise<bigint | null> => {
+    try {
+      const provider = getReadProvider();
+      if (!provider) return null;
+
+      const data = ROUTER_INTERFACE.encodeFunctionData('getAmountsOut', [amountInWei, path]);
+      const result = await provider.request({
+        method: 'eth_call',
+        params: [{ to: routerAddress, data }, 'latest']
+      });
+
+      if (!result || result === '0x') return null;
+
+      const [amounts] = ROUTER_INTERFACE.decodeFunctionResult('getAmountsOut', result);
+      const amountOut = BigInt(amounts[amounts.length - 1]);
+      return amountOut > BigInt(0) ? amountOut : null;
+    } catch {
+      // Paths through empty or broken pairs revert - they are simply not candidates
+      return null;
+    }
+  }, []);
+
+  // Search one router for all quotable routes, best output first
+  const searchRouter = useCallback(async (
+    router: RouterType,
+    tokenAAddr: string,
+    tokenBAddr: string,
+    amountInWei: bigint
+  ): Promise<{ path: string[]; amountOut: bigint }[]> => {
+    const { router: routerAddress, factory } = ROUTER_CONFIG[router];
+    const from = tokenAAddr.toLowerCase();
+    const to = tokenBAddr.toLowerCase();
+    const nodes = Array.from(new Set([from, to, ...getIntermediateTokens()]));
+
+    const adjacency = await buildPairGraph(factory, nodes);
+    const candidates = enumeratePaths(
+      adjacency,
+      from,
+      to,
+      ROUTE_SEARCH_CONFIG.MAX_HOPS,
+      ROUTE_SEARCH_CONFIG.MAX_CANDIDATES_PER_ROUTER
+    );
+
+    if (candidates.length === 0) return [];
+
+    const quotes = await Promise.all(
+      candidates.map(path => quotePath(routerAddress, amountInWei, path))
+    );
+
+    const quoted: { path: string[]; amountOut: bigint }[] = [];
+    candidates.forEach((path, index) => {
+      const amountOut = quotes[index];
+      if (amountOut !== null) quoted.push({ path, amountOut });
+    });
+
+    // Prefer the higher output; the stable sort keeps shorter paths first on a tie
+    quoted.sort((a, b) => (a.amountOut === b.amountOut ? 0 : a.amountOut > b.amountOut ? -1 : 1));
+
+    if (quoted.length > 0) {
+      console.log(`🧭 ${router.toUpperCase()}: ${candidates.length} candidate route(s), best has ${quoted[0].path.length - 1} hop(s)`);
+    }
+
+    return quoted;
+  }, [buildPairGraph, quotePath]);
+
+  // Convert a human-readable amount to wei, defaulting to one whole token for ranking
+  const toAmountInWei = useCallback((token: Token, amountIn?: string): bigint => {
+    try {
+      const value = amountIn && parseFloat(amountIn) > 0 ? amountIn : '1';
+      return ethers.parseUnits(value, token.decimals);
+    } catch {
+      return ethers.parseUnits('1', token.decimals);
+    }
+  }, []);
+
+  // Find every quotable route on a single router, best output first
+  const findRouteCandidates = useCallback(async (
+    router: RouterType,
+    tokenA: Token,
+    tokenB: Token,
+    amountIn?: string
+  ): Promise<RouterInfo[]> => {
     const tokenAAddr = getNormalizedAddress(tokenA);
     const tokenBAddr = getNormalizedAddress(tokenB);
-    
-    // Create cache key
-    const cacheKey = `${tokenAAddr.toLowerCase()}-${tokenBAddr.toLowerCase()}`;
-    
-    // Check cache first (valid for 30 seconds)
+
+    try {
+      const quoted = await searchRouter(router, tokenAAddr, tokenBAddr, toAmountInWei(tokenA, amountIn));
+
+      return quoted.map(({ path, amountOut }) => ({
+        router,
+        path,
+        pairExists: true,
+        isMultiHop: path.length > 2,
+        expectedAmountOut: amountOut.toString()
+      }));
+    } catch (error) {
+      console.error(`Error searching ${router} routes:`, error);
+      return [];
+    }
+  }, [getNormalizedAddress, searchRouter, toAmountInWei]);
+
+  // Find the best route on a single router, or null if the router cannot fill the trade
+  const findBestRouteOnRouter = useCallback(async (
+    router: RouterType,
+    tokenA: Token,
+    tokenB: Token,
+    amountIn?: string
+  ): Promise<RouterInfo | null> => {
+    const candidates = await findRouteCandidates(router, tokenA, tokenB, amountIn);
+    return candidates[0] || null;
+  }, [findRouteCandidates]);
+
+  // Quote an explicit path on a router (raw wei in and out)
+  const quoteRoute = useCallback(async (
+    router: RouterType,
+    path: string[],
+    amountInWei: bigint
+  ): Promise<bigint | null> => {
+    return quotePath(ROUTER_CONFIG[router].router, amountInWei, path);
+  }, [quotePath]);
+
+  // Find optimal router and path for a token pair, ranked by quoted output across both DEXes
+  const findOptimalPath = useCallback(async (
+    tokenA: Token,
+    tokenB: Token,
+    amountIn?: string
+  ): Promise<RouterInfo> => {
+    const tokenAAddr = getNormalizedAddress(tokenA);
+    const tokenBAddr = getNormalizedAddress(tokenB);
+
+    // Create cache key (routes depend on trade size)
+    const cacheKey = `${tokenAAddr.toLowerCase()}-${tokenBAddr.toLowerCase()}-${amountIn || '1'}`;
+
     const cached = routerCache[cacheKey];
-    if (cached && Date.now() - (cached as any).timestamp < 30000) {
+    if (cached && Date.now() - cached.timestamp < ROUTE_SEARCH_CONFIG.ROUTE_CACHE_TTL) {
       console.log(`📦 Using cached route for ${tokenA.symbol}/${tokenB.symbol}: ${cached.router.toUpperCase()}`);
       return cached;
     }
@@ -124,159 +339,58 @@ export const useUniversalRouter = (): UseUniversalRouterReturn => {
     try {
       console.log(`🔍 Finding optimal route for ${tokenA.symbol} (${tokenAAddr}) → ${tokenB.symbol} (${tokenBAddr})`);
 
-      // 1. PRIORITY: Check ReachSwap first (native DEX), then Sphynx as fallback
-      let reachSwapDirectPair = false;
-      let sphynxDirectPair = false;
-      
-      try {
-        // Check ReachSwap first with higher priority
-        reachSwapDirectPair = await checkPairExists(REACHSWAP_CONTRACTS.FACTORY, tokenAAddr, tokenBAddr);
-        
-        // Only check Sphynx if ReachSwap doesn't have the pair
-        if (!reachSwapDirectPair) {
-          sphynxDirectPair = await checkPairExists(SPHYNX_CONTRACTS.FACTORY, tokenAAddr, tokenBAddr);
-        }
-      } catch (error) {
-        console.warn('⚠️ Error checking direct pairs, trying fallback approach:', error);
-        
-        // Fallback: try both in sequence
-        try {
-          reachSwapDirectPair = await checkPairExists(REACHSWAP_CONTRACTS.FACTORY, tokenAAddr, tokenBAddr);
-        } catch (e) {
-          console.warn('ReachSwap factory check failed:', e);
-        }
-        
-        try {
-          sphynxDirectPair = await checkPairExists(SPHYNX_CONTRACTS.FACTORY, tokenAAddr, tokenBAddr);
-        } catch (e) {
-          console.warn('Sphynx factory check failed:', e);
-        }
-      }
+      const routes = await Promise.all([
+        findBestRouteOnRouter('reachswap', tokenA, tokenB, amountIn),
+        findBestRouteOnRouter('sphynx', tokenA, tokenB, amountIn)
+      ]);
 
-      // PRIORITY LOGIC: ReachSwap takes precedence over Sphynx
-      if (reachSwapDirectPair) {
-        const result: RouterInfo = {
-          router: 'reachswap',
-          path: [tokenAAddr, tokenBAddr],
-          pairExists: true,
-          isMultiHop: false
-        };
-        
-        // Cache the result
-        setRouterCache(prev => ({
-          ...prev,
-          [cacheKey]: { ...result, timestamp: Date.now() } as any
-        }));
-        
-        console.log(`✅ Direct pair found on ReachSwap (PRIORITY): ${tokenA.symbol}/${tokenB.symbol}`);
-        return result;
-      }
+      const ranked = routes
+        .filter((route): route is RouterInfo => route !== null)
+        .sort((a, b) => {
+          const outA = BigInt(a.expectedAmountOut || '0');
+          const outB = BigInt(b.expectedAmountOut || '0');
+          if (outA !== outB) return outA > outB ? -1 : 1;
 
-      // If Sphynx has direct pair and ReachSwap doesn't, use Sphynx
-      if (sphynxDirectPair) {
-        const result: RouterInfo = {
-          router: 'sphynx',
-          path: [tokenAAddr, tokenBAddr],
-          pairExists: true,
-          isMultiHop: false
-        };
-        
-        // Cache the result
-        setRouterCache(prev => ({
-          ...prev,
-          [cacheKey]: { ...result, timestamp: Date.now() } as any
-        }));
-        
-        console.log(`✅ Direct pair found on Sphynx (fallback): ${tokenA.symbol}/${tokenB.symbol}`);
-        return result;
-      }
+          // Equal output: fall back to router priority, then fewer hops
+          const priorityA = a.router === 'reachswap' ? ROUTER_PRIORITY.REACHSWAP : ROUTER_PRIORITY.SPHYNX;
+          const priorityB = b.router === 'reachswap' ? ROUTER_PRIORITY.REACHSWAP : ROUTER_PRIORITY.SPHYNX;
+          if (priorityA !== priorityB) return priorityA - priorityB;
+          return a.path.length - b.path.length;
+        });
 
-      // 2. Check multi-hop routes via WLOOP - ReachSwap first, then Sphynx
-      console.log(`🔄 Checking multi-hop routes via WLOOP (ReachSwap priority)...`);
-      
-      let reachSwapHop1 = false;
-      let reachSwapHop2 = false;
-      let sphynxHop1 = false;
-      let sphynxHop2 = false;
-      
-      try {
-        // Check ReachSwap multi-hop first
-        [reachSwapHop1, reachSwapHop2] = await Promise.all([
-          checkPairExists(REACHSWAP_CONTRACTS.FACTORY, tokenAAddr, tokenBAddr),
-          checkPairExists(REACHSWAP_CONTRACTS.FACTORY, SPHYNX_CONTRACTS.WLOOP, tokenBAddr)
-        ]);
-        
-        // Only check Sphynx multi-hop if ReachSwap doesn't have complete path
-        if (!reachSwapHop1 || !reachSwapHop2) {
-          [sphynxHop1, sphynxHop2] = await Promise.all([
-            checkPairExists(SPHYNX_CONTRACTS.FACTORY, tokenAAddr, SPHYNX_CONTRACTS.WLOOP),
-            checkPairExists(SPHYNX_CONTRACTS.FACTORY, SPHYNX_CONTRACTS.WLOOP, tokenBAddr)
-          ]);
-        }
-      } catch (error) {
-        console.warn('⚠️ Error checking multi-hop pairs, continuing with fallback logic:', error);
-        // Continue with false values for all hops
-      }
+      if (ranked.length > 0) {
+        const result = ranked[0];
 
-      // Check if ReachSwap can handle multi-hop (PRIORITY)
-      if (reachSwapHop1 && reachSwapHop2) {
-        const result: RouterInfo = {
-          router: 'reachswap',
-          path: [tokenAAddr, SPHYNX_CONTRACTS.WLOOP, tokenBAddr],
-          pairExists: true,
-          isMultiHop: true
-        };
-        
-        // Cache the result
         setRouterCache(prev => ({
           ...prev,
-          [cacheKey]: { ...result, timestamp: Date.now() } as any
+          [cacheKey]: { ...result, timestamp: Date.now() }
         }));
-        
-        console.log(`✅ Multi-hop route found on ReachSwap (PRIORITY): ${tokenA.symbol} → WLOOP → ${tokenB.symbol}`);
-        return result;
-      }
 
-      // Check if Sphynx can handle multi-hop (fallback)
-      if (sphynxHop1 && sphynxHop2) {
-        const result: RouterInfo = {
-          router: 'sphynx',
-          path: [tokenAAddr, SPHYNX_CONTRACTS.WLOOP, tokenBAddr],
-          pairExists: true,
-          isMultiHop: true
-        };
-        
-        // Cache the result
-        setRouterCache(prev => ({
-          ...prev,
-          [cacheKey]: { ...result, timestamp: Date.now() } as any
-        }));
-        
-        console.log(`✅ Multi-hop route found on Sphynx (fallback): ${tokenA.symbol} → WLOOP → ${tokenB.symbol}`);
+        console.log(`✅ Best route on ${result.router.toUpperCase()}: ${result.path.length - 1} hop(s) for ${tokenA.symbol}/${tokenB.symbol}`);
         return result;
       }
 
-      // 3. No valid route found on either DEX
+      // No valid route found on either DEX
       console.log(`❌ No liquidity path found for ${tokenA.symbol}/${tokenB.symbol} on any DEX`);
-      
+
       const result: RouterInfo = {
         router: 'reachswap', // Default to ReachSwap even if no liquidity
         path: [tokenAAddr, tokenBAddr],
         pairExists: false,
         isMultiHop: false
       };
-      
+
       // Cache the negative result for a shorter time (10 seconds)
       setRouterCache(prev => ({
         ...prev,
-        [cacheKey]: { ...result, timestamp: Date.now() - 20000 } as any // Expire quickly
+        [cacheKey]: { ...result, timestamp: Date.now() - ROUTE_SEARCH_CONFIG.ROUTE_CACHE_TTL + 10000 }
       }));
-      
+
       return result;
 
     } catch (error) {
       console.error('Error finding optimal path:', error);
-      
+
       // Return fallback on error
       return {
         router: 'reachswap', // Default to ReachSwap
@@ -287,18 +401,25 @@ export const useUniversalRouter = (): UseUniversalRouterReturn => {
     } finally {
       setIsChecking(false);
     }
-  }, [getNormalizedAddress, checkPairExists, routerCache]);
+  }, [getNormalizedAddress, findBestRouteOnRouter, routerCache]);
 
   // Main function to get router for a pair (wrapper around findOptimalPath)
-  const getRouterForPair = useCallback(async (tokenA: Token, tokenB: Token): Promise<RouterInfo> => {
-    return await findOptimalPath(tokenA, tokenB);
+  const getRouterForPair = useCallback(async (
+    tokenA: Token,
+    tokenB: Token,
+    amountIn?: string
+  ): Promise<RouterInfo> => {
+    return await findOptimalPath(tokenA, tokenB, amountIn);
   }, [findOptimalPath]);
 
   return {
     getRouterForPair,
     checkPairExists,
     findOptimalPath,
+    findBestRouteOnRouter,
+    findRouteCandidates,
+    quoteRoute,
     isChecking,
     routerCache
   };
-};
\ No newline at end of file
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Token } from '../types';
 import { useDynamicTokenDecimals } from './useDynamicTokenDecimals';
+import { getReadProvider } from '../utils/rpcProvider';
 
 interface TokenBalanceState {
   balance: string;
@@ -36,25 +37,10 @@ export const useVisibleTokenBalances = (
   const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
   const { getTokenDecimals } = useDynamicTokenDecimals();
 
-  // Get the current provider
-  const getProvider = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      return (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      return (window as any).okxwallet;
-    }
-    
-    return null;
-  }, []);
-
   // Fetch native LOOP balance with circuit breaker handling
   const fetchNativeBalance = useCallback(async (address: string, signal?: AbortSignal): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         console.warn('Wallet provider not available, returning default balance');
         return '0.0000';
@@ -90,7 +76,7 @@ export const useVisibleTokenBalances = (
       console.error('Error fetching native balance:', error);
       return '0.0000';
     }
-  }, [getProvider]);
+  }, []);
 
   // Fetch ERC-20 token balance with enhanced error handling
   const fetchTokenBalance = useCallback(async (
@@ -100,7 +86,7 @@ export const useVisibleTokenBalances = (
     signal?: AbortSignal
   ): Promise<string> => {
     try {
-      const provider = getProvider();
+      const provider = getReadProvider();
       if (!provider) {
         console.warn('Wallet provider not available, returning default balance');
         const precision = Math.min(4, token.decimals);
@@ -199,7 +185,7 @@ export const useVisibleTokenBalances = (
       const precision = Math.min(4, getTokenDecimals(token));
       return '0'.padEnd(precision + 2, '0').replace(/^0/, '0.');
     }
-  }, [getProvider, getTokenDecimals]);
+  }, [getTokenDecimals]);
 
   // Check if balance is cached and still valid
   const isCacheValid = useCallback((tokenAddress: string): boolean => {
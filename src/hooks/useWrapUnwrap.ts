@@ -1,11 +1,15 @@
 import { useState, useCallback } from 'react';
 import { Token } from '../types';
 import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { getProviderAndSigner } from '../utils/web3Utils';
+import { getFallbackGasLimit, withGasFees } from '../utils/gasEngine';
+import { recordTransaction } from '../utils/activityStore';
+import { TxError, toTxError } from '../utils/txErrors';
 
 interface WrapUnwrapResult {
   success: boolean;
   txHash?: string;
-  error?: string;
+  error?: TxError;
   operation: 'wrap' | 'unwrap';
 }
 
@@ -14,8 +18,8 @@ interface UseWrapUnwrapReturn {
   executeUnwrap: (amountIn: string) => Promise<WrapUnwrapResult>;
   isWrapping: boolean;
   isUnwrapping: boolean;
-  wrapError: string | null;
-  unwrapError: string | null;
+  wrapError: TxError | null;
+  unwrapError: TxError | null;
   isWrapUnwrapPair: (tokenIn: Token, tokenOut: Token) => 'wrap' | 'unwrap' | null;
 }
 
@@ -31,28 +35,8 @@ const WLOOP_ABI = [
 export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
   const [isWrapping, setIsWrapping] = useState(false);
   const [isUnwrapping, setIsUnwrapping] = useState(false);
-  const [wrapError, setWrapError] = useState<string | null>(null);
-  const [unwrapError, setUnwrapError] = useState<string | null>(null);
-
-  // Get the current provider and signer
-  const getProviderAndSigner = useCallback(async () => {
-    if (typeof window === 'undefined') return { provider: null, signer: null };
-
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    let provider = null;
-
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      provider = (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      provider = (window as any).okxwallet;
-    }
-
-    if (!provider) {
-      throw new Error('No wallet provider available');
-    }
-
-    return { provider, signer: provider };
-  }, []);
+  const [wrapError, setWrapError] = useState<TxError | null>(null);
+  const [unwrapError, setUnwrapError] = useState<TxError | null>(null);
 
   // Check if token pair is wrap/unwrap operation
   const isWrapUnwrapPair = useCallback((tokenIn: Token, tokenOut: Token): 'wrap' | 'unwrap' | null => {
@@ -110,7 +94,7 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
       const txData = depositSignature;
 
       // Estimate gas
-      let gasLimit = '0x15F90'; // 90,000 default
+      let gasLimit: string;
       try {
         const gasEstimate = await provider.request({
           method: 'eth_estimateGas',
@@ -126,22 +110,32 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
         const bufferedGas = Math.floor(estimatedGas * 1.2);
         gasLimit = '0x' + bufferedGas.toString(16);
       } catch (gasError) {
-        console.warn('Gas estimation failed for wrap, using default:', gasError);
+        console.warn('Gas estimation failed for wrap, using learned gas limit:', gasError);
+        gasLimit = getFallbackGasLimit({ to: SPHYNX_CONTRACTS.WLOOP, data: txData });
       }
 
       // Execute wrap transaction
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [{
+        params: [await withGasFees({
           from: walletAddress,
           to: SPHYNX_CONTRACTS.WLOOP,
           data: txData,
           value: '0x' + BigInt(amountInWei).toString(16),
           gas: gasLimit
-        }]
+        })]
       });
 
       console.log(`✅ Wrap transaction sent: ${txHash}`);
+      recordTransaction({
+        hash: txHash,
+        type: 'wrap',
+        summary: `Wrap ${amountIn} LOOP to wLOOP`,
+        tokenIn: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+        tokenOut: { symbol: 'wLOOP', address: SPHYNX_CONTRACTS.WLOOP },
+        amountIn,
+        amountOut: amountIn
+      });
 
       return {
         success: true,
@@ -149,28 +143,21 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
         operation: 'wrap'
       };
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Wrap error:', error);
       
-      let errorMessage = error.message || 'Wrap operation failed';
-      
-      if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-        errorMessage = 'Transaction was cancelled by user';
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient LOOP for gas fees';
-      }
-      
-      setWrapError(errorMessage);
+      const wrapFailure = toTxError(error);
+      setWrapError(wrapFailure);
       
       return {
         success: false,
-        error: errorMessage,
+        error: wrapFailure,
         operation: 'wrap'
       };
     } finally {
       setIsWrapping(false);
     }
-  }, [getProviderAndSigner]);
+  }, []);
 
   // Execute unwrap operation (wLOOP → LOOP)
   const executeUnwrap = useCallback(async (amountIn: string): Promise<WrapUnwrapResult> => {
@@ -215,7 +202,7 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
       const txData = withdrawSignature + paddedAmount;
 
       // Estimate gas
-      let gasLimit = '0x15F90'; // 90,000 default
+      let gasLimit: string;
       try {
         const gasEstimate = await provider.request({
           method: 'eth_estimateGas',
@@ -230,21 +217,31 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
         const bufferedGas = Math.floor(estimatedGas * 1.2);
         gasLimit = '0x' + bufferedGas.toString(16);
       } catch (gasError) {
-        console.warn('Gas estimation failed for unwrap, using default:', gasError);
+        console.warn('Gas estimation failed for unwrap, using learned gas limit:', gasError);
+        gasLimit = getFallbackGasLimit({ to: SPHYNX_CONTRACTS.WLOOP, data: txData });
       }
 
       // Execute unwrap transaction
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [{
+        params: [await withGasFees({
           from: walletAddress,
           to: SPHYNX_CONTRACTS.WLOOP,
           data: txData,
           gas: gasLimit
-        }]
+        })]
       });
 
       console.log(`✅ Unwrap transaction sent: ${txHash}`);
+      recordTransaction({
+        hash: txHash,
+        type: 'unwrap',
+        summary: `Unwrap ${amountIn} wLOOP to LOOP`,
+        tokenIn: { symbol: 'wLOOP', address: SPHYNX_CONTRACTS.WLOOP },
+        tokenOut: { symbol: 'LOOP', address: '0x0000000000000000000000000000000000000000' },
+        amountIn,
+        amountOut: amountIn
+      });
 
       return {
         success: true,
@@ -252,28 +249,21 @@ export const useWrapUnwrap = (): UseWrapUnwrapReturn => {
         operation: 'unwrap'
       };
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Unwrap error:', error);
       
-      let errorMessage = error.message || 'Unwrap operation failed';
-      
-      if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-        errorMessage = 'Transaction was cancelled by user';
-      } else if (error.message.includes('insufficient funds')) {
-        errorMessage = 'Insufficient LOOP for gas fees';
-      }
-      
-      setUnwrapError(errorMessage);
+      const unwrapFailure = toTxError(error);
+      setUnwrapError(unwrapFailure);
       
       return {
         success: false,
-        error: errorMessage,
+        error: unwrapFailure,
         operation: 'unwrap'
       };
     } finally {
       setIsUnwrapping(false);
     }
-  }, [getProviderAndSigner]);
+  }, []);
 
   return {
     executeWrap,
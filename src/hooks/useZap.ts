@@ -0,0 +1,389 @@
+import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { Token, ZapInQuote, ZapInResult, ZapOutResult } from '../types';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { getReadProvider, getSignerProvider } from '../utils/rpcProvider';
+import { recordTransaction } from '../utils/activityStore';
+import { getAmountOut, quoteZap } from '../utils/zap';
+import {
+  waitForTransaction,
+  checkAllowance,
+  approveToken,
+  waitForAllowanceUpdate,
+  getTokenBalance,
+  TransactionReceipt
+} from '../utils/web3Utils';
+import { TxError, toTxError } from '../utils/txErrors';
+import { withGasFees } from '../utils/gasEngine';
+
+export type ZapStep = 'approving' | 'swapping' | 'adding';
+
+interface PairReserves {
+  pairAddress: string;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  totalSupply: bigint;
+}
+
+interface UseZapReturn {
+  quoteZapIn: (inputToken: Token, otherToken: Token, amount: string) => Promise<ZapInQuote | null>;
+  executeZapIn: (
+    inputToken: Token,
+    otherToken: Token,
+    amount: string,
+    slippage: number,
+    onStep?: (step: ZapStep) => void
+  ) => Promise<ZapInResult>;
+  executeZapOutSwap: (fromToken: Token, toToken: Token, amountWei: bigint, slippage: number) => Promise<ZapOutResult>;
+  getBalanceWei: (token: Token, walletAddress: string) => Promise<bigint>;
+  measureReceived: (token: Token, walletAddress: string, balanceBefore: bigint, txHash: string) => Promise<bigint>;
+  isZapping: boolean;
+  error: TxError | null;
+}
+
+const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+
+// ReachSwap router functions used by zaps (all take the trailing skipMEVProtection flag)
+const ZAP_ROUTER_ABI = [
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline, bool skipMEVProtection) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline, bool skipMEVProtection)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline, bool skipMEVProtection)',
+  'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline, bool skipMEVProtection) returns (uint256 amountA, uint256 amountB, uint256 liquidity)',
+  'function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline, bool skipMEVProtection) payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity)'
+];
+const routerInterface = new ethers.Interface(ZAP_ROUTER_ABI);
+
+const isNative = (token: Token) => token.address === NATIVE_LOOP;
+const toPathAddress = (token: Token) => (isNative(token) ? REACHSWAP_CONTRACTS.WLOOP : token.address);
+
+// Reduce an amount by a slippage percentage
+const withSlippage = (amount: bigint, slippage: number): bigint =>
+  (amount * BigInt(Math.floor((100 - slippage) * 100))) / BigInt(10000);
+
+const getDeadline = () => Math.floor(Date.now() / 1000) + (20 * 60);
+
+// Native spent on gas by a mined transaction, so native balance changes can be corrected
+const getGasCost = async (txHash: string): Promise<bigint> => {
+  try {
+    const receipt = await getReadProvider().request<TransactionReceipt | null>({ method: 'eth_getTransactionReceipt', params: [txHash] });
+    if (!receipt) return BigInt(0);
+    return BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice || '0x0');
+  } catch {
+    return BigInt(0);
+  }
+};
+
+// ReachSwap pair reserves ordered input side first
+const getPairReserves = async (inputToken: Token, otherToken: Token): Promise<PairReserves | null> => {
+  const provider = getReadProvider();
+  const inputAddress = toPathAddress(inputToken);
+  const otherAddress = toPathAddress(otherToken);
+
+  const pairResult = await provider.request({
+    method: 'eth_call',
+    params: [{
+      to: REACHSWAP_CONTRACTS.FACTORY,
+      data: '0xe6a43905' + inputAddress.slice(2).padStart(64, '0') + otherAddress.slice(2).padStart(64, '0') // getPair(address,address)
+    }, 'latest']
+  });
+
+  const pairAddress = '0x' + pairResult.slice(-40);
+  if (pairAddress === NATIVE_LOOP) return null;
+
+  const [reservesResult, token0Result, supplyResult] = await Promise.all([
+    provider.request({ method: 'eth_call', params: [{ to: pairAddress, data: '0x0902f1ac' }, 'latest'] }), // getReserves()
+    provider.request({ method: 'eth_call', params: [{ to: pairAddress, data: '0x0dfe1681' }, 'latest'] }), // token0()
+    provider.request({ method: 'eth_call', params: [{ to: pairAddress, data: '0x18160ddd' }, 'latest'] })  // totalSupply()
+  ]);
+
+  const reserve0 = BigInt('0x' + reservesResult.slice(2, 66));
+  const reserve1 = BigInt('0x' + reservesResult.slice(66, 130));
+  const inputIsToken0 = ('0x' + token0Result.slice(-40)).toLowerCase() === inputAddress.toLowerCase();
+
+  return {
+    pairAddress,
+    reserveIn: inputIsToken0 ? reserve0 : reserve1,
+    reserveOut: inputIsToken0 ? reserve1 : reserve0,
+    totalSupply: BigInt(supplyResult)
+  };
+};
+
+export const useZap = (): UseZapReturn => {
+  const [isZapping, setIsZapping] = useState(false);
+  const [error, setError] = useState<TxError | null>(null);
+
+  const getBalanceWei = useCallback(async (token: Token, walletAddress: string): Promise<bigint> => {
+    return BigInt(await getTokenBalance(token.address, walletAddress));
+  }, []);
+
+  // Balance gained from a mined transaction, adding back gas when the token is native LOOP
+  const measureReceived = useCallback(async (
+    token: Token,
+    walletAddress: string,
+    balanceBefore: bigint,
+    txHash: string
+  ): Promise<bigint> => {
+    const balanceAfter = await getBalanceWei(token, walletAddress);
+    const gasCost = isNative(token) ? await getGasCost(txHash) : BigInt(0);
+    const received = balanceAfter - balanceBefore + gasCost;
+    return received > BigInt(0) ? received : BigInt(0);
+  }, [getBalanceWei]);
+
+  // Router allowance for a zap leg; native LOOP needs none
+  const ensureAllowance = useCallback(async (token: Token, amount: bigint, walletAddress: string) => {
+    if (isNative(token)) return;
+
+    const allowance = BigInt(await checkAllowance(token.address, walletAddress, REACHSWAP_CONTRACTS.ROUTER));
+    if (allowance >= amount) return;
+
+    console.log(`🔐 Approving ${token.symbol} for zap...`);
+    const approvalTxHash = await approveToken(token.address, REACHSWAP_CONTRACTS.ROUTER, amount.toString(), walletAddress);
+    await waitForTransaction(approvalTxHash);
+    if (!(await waitForAllowanceUpdate(token.address, walletAddress, REACHSWAP_CONTRACTS.ROUTER, amount.toString()))) {
+      throw new Error('Allowance was not updated properly. Please try again.');
+    }
+  }, []);
+
+  // Exact-input swap through the ReachSwap pair; returns the measured output
+  const swapExactInput = useCallback(async (
+    fromToken: Token,
+    toToken: Token,
+    amountIn: bigint,
+    amountOutMin: bigint,
+    walletAddress: string
+  ): Promise<{ txHash: string; amountOut: bigint }> => {
+    const path = [toPathAddress(fromToken), toPathAddress(toToken)];
+    const deadline = getDeadline();
+
+    const data = isNative(fromToken)
+      ? routerInterface.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [amountOutMin, path, walletAddress, deadline, false])
+      : isNative(toToken)
+        ? routerInterface.encodeFunctionData('swapExactTokensForETHSupportingFeeOnTransferTokens', [amountIn, amountOutMin, path, walletAddress, deadline, false])
+        : routerInterface.encodeFunctionData('swapExactTokensForTokensSupportingFeeOnTransferTokens', [amountIn, amountOutMin, path, walletAddress, deadline, false]);
+
+    const balanceBefore = await getBalanceWei(toToken, walletAddress);
+
+    const txHash = await getSignerProvider().request({
+      method: 'eth_sendTransaction',
+      params: [await withGasFees({
+        from: walletAddress,
+        to: REACHSWAP_CONTRACTS.ROUTER,
+        data,
+        ...(isNative(fromToken) ? { value: '0x' + amountIn.toString(16) } : {})
+      })]
+    });
+
+    recordTransaction({
+      hash: txHash,
+      type: 'swap',
+      summary: `Zap swap ${ethers.formatUnits(amountIn, fromToken.decimals)} ${fromToken.symbol} for ${toToken.symbol}`,
+      tokenIn: { symbol: fromToken.symbol, address: fromToken.address },
+      tokenOut: { symbol: toToken.symbol, address: toToken.address },
+      amountIn: ethers.formatUnits(amountIn, fromToken.decimals),
+      router: 'reachswap'
+    });
+
+    await waitForTransaction(txHash);
+
+    const amountOut = await measureReceived(toToken, walletAddress, balanceBefore, txHash);
+    console.log(`🔄 Zap swap received ${ethers.formatUnits(amountOut, toToken.decimals)} ${toToken.symbol}`);
+    return { txHash, amountOut };
+  }, [getBalanceWei, measureReceived]);
+
+  const quoteZapIn = useCallback(async (
+    inputToken: Token,
+    otherToken: Token,
+    amount: string
+  ): Promise<ZapInQuote | null> => {
+    try {
+      const amountIn = ethers.parseUnits(amount, inputToken.decimals);
+      const reserves = await getPairReserves(inputToken, otherToken);
+      if (!reserves || reserves.reserveIn === BigInt(0) || reserves.reserveOut === BigInt(0)) return null;
+
+      const { swapAmount, swapOutput, depositAmount, lpTokens } = quoteZap(
+        amountIn, reserves.reserveIn, reserves.reserveOut, reserves.totalSupply
+      );
+
+      return {
+        swapAmount: ethers.formatUnits(swapAmount, inputToken.decimals),
+        swapOutput: ethers.formatUnits(swapOutput, otherToken.decimals),
+        depositAmount: ethers.formatUnits(depositAmount, inputToken.decimals),
+        expectedLpTokens: ethers.formatUnits(lpTokens, 18),
+        priceImpact: Number((swapAmount * BigInt(1000000)) / (reserves.reserveIn + swapAmount)) / 10000
+      };
+    } catch (error) {
+      console.error('Error quoting zap:', error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Adds liquidity from a single token: swaps the optimal share into the other token,
+   * then deposits both. Whatever the router does not use stays in the wallet and is reported as dust.
+   */
+  const executeZapIn = useCallback(async (
+    inputToken: Token,
+    otherToken: Token,
+    amount: string,
+    slippage: number,
+    onStep?: (step: ZapStep) => void
+  ): Promise<ZapInResult> => {
+    setIsZapping(true);
+    setError(null);
+
+    try {
+      const walletAddress = localStorage.getItem('reachswap_wallet_address');
+      if (!walletAddress) throw new Error('No wallet address found');
+
+      const reserves = await getPairReserves(inputToken, otherToken);
+      if (!reserves || reserves.reserveIn === BigInt(0) || reserves.reserveOut === BigInt(0)) {
+        throw new Error('Zap needs an existing pool with liquidity');
+      }
+
+      const amountIn = ethers.parseUnits(amount, inputToken.decimals);
+      const { swapAmount, swapOutput, depositAmount } = quoteZap(amountIn, reserves.reserveIn, reserves.reserveOut, reserves.totalSupply);
+      console.log(`⚡ Zap in: swap ${ethers.formatUnits(swapAmount, inputToken.decimals)} ${inputToken.symbol}, deposit ${ethers.formatUnits(depositAmount, inputToken.decimals)}`);
+
+      // 1. Approve the whole input once (swap and deposit legs)
+      onStep?.('approving');
+      await ensureAllowance(inputToken, amountIn, walletAddress);
+
+      // 2. Swap the optimal share into the other token
+      onStep?.('swapping');
+      const swap = await swapExactInput(inputToken, otherToken, swapAmount, withSlippage(swapOutput, slippage), walletAddress);
+      if (swap.amountOut === BigInt(0)) throw new Error('Zap swap returned nothing');
+
+      onStep?.('approving');
+      await ensureAllowance(otherToken, swap.amountOut, walletAddress);
+
+      // 3. Deposit the remainder with the swap output
+      onStep?.('adding');
+      const [inputBefore, otherBefore] = await Promise.all([
+        getBalanceWei(inputToken, walletAddress),
+        getBalanceWei(otherToken, walletAddress)
+      ]);
+
+      const deadline = getDeadline();
+      let data: string;
+      let value: bigint | null = null;
+
+      if (isNative(inputToken) || isNative(otherToken)) {
+        const [token, tokenAmount, nativeAmount] = isNative(inputToken)
+          ? [otherToken, swap.amountOut, depositAmount]
+          : [inputToken, depositAmount, swap.amountOut];
+        data = routerInterface.encodeFunctionData('addLiquidityETH', [
+          token.address, tokenAmount, withSlippage(tokenAmount, slippage), withSlippage(nativeAmount, slippage), walletAddress, deadline, false
+        ]);
+        value = nativeAmount;
+      } else {
+        data = routerInterface.encodeFunctionData('addLiquidity', [
+          inputToken.address, otherToken.address, depositAmount, swap.amountOut,
+          withSlippage(depositAmount, slippage), withSlippage(swap.amountOut, slippage), walletAddress, deadline, false
+        ]);
+      }
+
+      const liquidityTxHash = await getSignerProvider().request({
+        method: 'eth_sendTransaction',
+        params: [await withGasFees({
+          from: walletAddress,
+          to: REACHSWAP_CONTRACTS.ROUTER,
+          data,
+          ...(value !== null ? { value: '0x' + value.toString(16) } : {})
+        })]
+      });
+
+      recordTransaction({
+        hash: liquidityTxHash,
+        type: 'addLiquidity',
+        summary: `Zap ${amount} ${inputToken.symbol} into ${inputToken.symbol}/${otherToken.symbol} liquidity`,
+        tokenIn: { symbol: inputToken.symbol, address: inputToken.address },
+        tokenOut: { symbol: otherToken.symbol, address: otherToken.address },
+        amountIn: amount,
+        router: 'reachswap'
+      });
+
+      await waitForTransaction(liquidityTxHash);
+
+      // Amounts the router actually pulled; the rest never left the wallet (or was refunded)
+      const [inputAfter, otherAfter, gasCost] = await Promise.all([
+        getBalanceWei(inputToken, walletAddress),
+        getBalanceWei(otherToken, walletAddress),
+        getGasCost(liquidityTxHash)
+      ]);
+      const spent = (before: bigint, after: bigint, token: Token) => {
+        const used = before - after - (isNative(token) ? gasCost : BigInt(0));
+        return used > BigInt(0) ? used : BigInt(0);
+      };
+      const inputUsed = spent(inputBefore, inputAfter, inputToken);
+      const otherUsed = spent(otherBefore, otherAfter, otherToken);
+      const inputDust = depositAmount > inputUsed ? depositAmount - inputUsed : BigInt(0);
+      const otherDust = swap.amountOut > otherUsed ? swap.amountOut - otherUsed : BigInt(0);
+
+      console.log(`✅ Zap complete - dust: ${ethers.formatUnits(inputDust, inputToken.decimals)} ${inputToken.symbol}, ${ethers.formatUnits(otherDust, otherToken.decimals)} ${otherToken.symbol}`);
+
+      return {
+        swapTxHash: swap.txHash,
+        liquidityTxHash,
+        inputUsed: ethers.formatUnits(inputUsed, inputToken.decimals),
+        otherUsed: ethers.formatUnits(otherUsed, otherToken.decimals),
+        inputDust: ethers.formatUnits(inputDust, inputToken.decimals),
+        otherDust: ethers.formatUnits(otherDust, otherToken.decimals)
+      };
+    } catch (error) {
+      console.error('Zap in failed:', error);
+      const zapFailure = toTxError(error);
+      setError(zapFailure);
+      throw zapFailure;
+    } finally {
+      setIsZapping(false);
+    }
+  }, [ensureAllowance, swapExactInput, getBalanceWei]);
+
+  // Second leg of a zap out: swap the token received from the removal into the chosen token
+  const executeZapOutSwap = useCallback(async (
+    fromToken: Token,
+    toToken: Token,
+    amountWei: bigint,
+    slippage: number
+  ): Promise<ZapOutResult> => {
+    setIsZapping(true);
+    setError(null);
+
+    try {
+      const walletAddress = localStorage.getItem('reachswap_wallet_address');
+      if (!walletAddress) throw new Error('No wallet address found');
+
+      const reserves = await getPairReserves(fromToken, toToken);
+      if (!reserves) throw new Error('Zap pool not found');
+
+      const expectedOut = getAmountOut(amountWei, reserves.reserveIn, reserves.reserveOut);
+      console.log(`⚡ Zap out: swap ${ethers.formatUnits(amountWei, fromToken.decimals)} ${fromToken.symbol} to ${toToken.symbol}`);
+
+      await ensureAllowance(fromToken, amountWei, walletAddress);
+      const swap = await swapExactInput(fromToken, toToken, amountWei, withSlippage(expectedOut, slippage), walletAddress);
+
+      return {
+        swapTxHash: swap.txHash,
+        amountIn: ethers.formatUnits(amountWei, fromToken.decimals),
+        amountOut: ethers.formatUnits(swap.amountOut, toToken.decimals)
+      };
+    } catch (error) {
+      console.error('Zap out swap failed:', error);
+      const zapFailure = toTxError(error);
+      setError(zapFailure);
+      throw zapFailure;
+    } finally {
+      setIsZapping(false);
+    }
+  }, [ensureAllowance, swapExactInput]);
+
+  return {
+    quoteZapIn,
+    executeZapIn,
+    executeZapOutSwap,
+    getBalanceWei,
+    measureReceived,
+    isZapping,
+    error
+  };
+};
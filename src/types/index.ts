@@ -43,4 +43,311 @@ export interface WalletState {
   address: string;
   balance: string;
   network: string;
-}
\ No newline at end of file
+}
+
+export type ActivityType =
+  | 'swap'
+  | 'approve'
+  | 'wrap'
+  | 'unwrap'
+  | 'addLiquidity'
+  | 'removeLiquidity';
+
+export type ActivityStatus = 'pending' | 'confirmed' | 'failed';
+
+// A transaction sent by the app, persisted locally until (and after) its receipt arrives
+export interface ActivityRecord {
+  hash: string;
+  type: ActivityType;
+  status: ActivityStatus;
+  account: string;
+  summary: string;
+  tokenIn?: { symbol: string; address: string };
+  tokenOut?: { symbol: string; address: string };
+  amountIn?: string;
+  amountOut?: string;
+  router?: 'reachswap' | 'sphynx';
+  timestamp: number;
+  confirmedAt?: number;
+  blockNumber?: number;
+  gasUsed?: string;
+}
+
+export type HistoryEventType = 'swap' | 'add' | 'remove' | 'wrap' | 'unwrap';
+
+export interface HistoryTokenAmount {
+  address: string;
+  symbol: string;
+  decimals: number;
+  amount: string; // Human-readable, decoded with the token's decimals
+}
+
+// A user event decoded from on-chain logs by the history indexer.
+// tokens: [input, output] for swaps and wraps, [token0, token1] for liquidity events
+export interface HistoryEvent {
+  hash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number; // Block timestamp in seconds
+  type: HistoryEventType;
+  tokens: HistoryTokenAmount[];
+  pairAddress?: string;
+  router?: 'reachswap' | 'sphynx';
+  gasFee?: string; // LOOP paid for gas
+  liquidity?: string; // LP tokens minted or burned, liquidity events only
+}
+
+// Token list standard (https://tokenlists.org) - only the fields ReachSwap reads
+export interface TokenListVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  name: string;
+  decimals: number;
+  symbol: string;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: TokenListVersion;
+  tokens: TokenInfo[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+export type TokenListOrigin = 'bundled' | 'url' | 'file';
+
+// A token list known to the app, with where it came from and whether it is active
+export interface TokenListEntry {
+  id: string;
+  origin: TokenListOrigin;
+  url?: string;
+  enabled: boolean;
+  list: TokenList;
+  addedAt: number;
+}
+
+// Buy and sell tax measured by simulating router swaps (fractions, e.g. 0.05 = 5%)
+export interface MeasuredTokenTax {
+  address: string;
+  buyFee: number | null;   // null if the buy could not be simulated
+  sellFee: number | null;  // null if the sell could not be simulated
+  buyReverts: boolean;     // Simulated buy reverted even with amountOutMin = 0
+  sellReverts: boolean;    // Simulated sell reverted even with amountOutMin = 0 (honeypot)
+  router: 'reachswap' | 'sphynx' | null; // Router of the deepest wLOOP pair; null if there is none
+  method: 'state-override' | 'wallet' | 'none'; // How the sell side was simulated
+  measuredAt: number;
+}
+
+// Token safety report shown before importing or swapping a token
+export type RiskSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFinding {
+  id: string;
+  severity: RiskSeverity;
+  title: string;
+  description: string;
+}
+
+export interface TokenRiskReport {
+  address: string;
+  buyTax: number | null;     // Percent, measured by a simulated router buy; null if it could not be simulated
+  sellTax: number | null;    // Percent, measured by a simulated router sell
+  isHoneypot: boolean | null; // True when the sell simulation reverts; null if selling could not be simulated
+  isVerified: boolean | null; // Source verified on the LOOP explorer; null if the explorer could not be reached
+  router: 'reachswap' | 'sphynx' | null; // Router whose wLOOP pair was used for the simulations
+  riskLevel: RiskSeverity;   // Highest severity among the findings
+  findings: RiskFinding[];
+  scannedAt: number;
+}
+
+// Single-token liquidity deposit: swap part of the input, add the rest with the swap output
+export interface ZapInQuote {
+  swapAmount: string;      // Input swapped into the other token
+  swapOutput: string;      // Expected other-token output of that swap
+  depositAmount: string;   // Input left to deposit alongside the swap output
+  expectedLpTokens: string;
+  priceImpact: number;     // Percent moved by the swap leg
+}
+
+export interface ZapInResult {
+  swapTxHash: string;
+  liquidityTxHash: string;
+  inputUsed: string;       // Input token actually deposited (excluding the swapped part)
+  otherUsed: string;       // Other token actually deposited
+  inputDust: string;       // Input token left in the wallet after the deposit
+  otherDust: string;       // Swap output the router did not need
+}
+
+export interface ZapOutResult {
+  swapTxHash: string;
+  amountIn: string;        // Other token swapped after the removal
+  amountOut: string;       // Target token received from the swap
+}
+
+export type PoolDex = 'reachswap' | 'sphynx';
+
+// A pair listed by the pool explorer; reserves are in raw token units, ordered as token0/token1
+export interface ExplorerPool {
+  address: string;
+  dex: PoolDex;
+  token0: Token;
+  token1: Token;
+  reserve0: string;
+  reserve1: string;
+  totalSupply: string;
+  price0: number;          // token1 per token0
+  price1: number;          // token0 per token1
+  tvlUsd: number | null;   // Null when neither token has a priced wLOOP pair
+  volume24hUsd: number;
+  fees24hUsd: number;      // LP share of the swap fee on that volume
+  feeApr: number;          // Percent, 24h fees annualized over TVL
+  swapCount24h: number;
+}
+
+// Trading activity of a pair from its Swap events, valued in USD through the price oracle
+export interface PoolAnalytics {
+  pairAddress: string;
+  tvlUsd: number | null;   // Null when neither token has a priced wLOOP pair
+  totalSupply: string;     // LP supply at the time of the reading, for position shares
+  volume24hUsd: number;
+  volume7dUsd: number;
+  fees24hUsd: number;      // LP share of the swap fee
+  fees7dUsd: number;
+  apr: number;             // Percent, 7d LP fees annualized over TVL
+  swaps24h: number;
+  swaps7d: number;
+  updatedAt: number;
+}
+
+// Accounting for an LP position from the user's Mint/Burn history, in USD at current prices (entry
+// value at deposit-time prices). Deposits are what is still in the position after removals, scaled
+// to the current LP balance.
+export interface PositionPnl {
+  entryValueUsd: number;          // Deposits valued in USD at their deposit block
+  hodlValueUsd: number;           // The same deposits held in the wallet instead
+  currentValueUsd: number;
+  feesEarnedUsd: number;          // Growth of sqrt(reserve0 * reserve1) per LP token since entry
+  impermanentLossUsd: number;     // Current value without fees minus HODL value; negative is a loss
+  impermanentLossPercent: number;
+  netPnlUsd: number;              // Current value minus entry value
+  netPnlPercent: number;
+  firstDepositAt: number;         // Timestamp of the earliest deposit still in the position
+  isComplete: boolean;            // False when the LP balance does not match the indexed history
+}
+
+export type CandleInterval = '1h' | '4h' | '1d';
+
+// One OHLC candle of a swap pair's price (tokenOut per tokenIn)
+export interface PriceCandle {
+  time: number;   // Bucket start, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // tokenIn traded on the route's first hop
+}
+
+export type LimitOrderStatus = 'open' | 'paused' | 'filled' | 'expired' | 'cancelled';
+
+// A limit order signed by its maker (EIP-712) and filled by the app when the pair price reaches it
+export interface LimitOrder {
+  id: string;             // EIP-712 hash of the signed order
+  maker: string;
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn: string;       // Raw units
+  minAmountOut: string;   // Raw units - amountIn at the limit price
+  limitPrice: string;     // tokenOut per tokenIn, as entered
+  pairAddress: string;    // ReachSwap pair the order is matched against
+  expiry: number;         // Unix seconds
+  nonce: string;
+  signature: string;
+  status: LimitOrderStatus;
+  createdAt: number;
+  filledAt?: number;
+  txHash?: string;
+  lastAttemptAt?: number; // Last failed fill attempt
+  failedAttempts?: number; // Failed fills since the order was placed or resumed
+  lastError?: string;
+}
+
+export type DcaStatus = 'active' | 'completed' | 'cancelled';
+
+// One interval of a recurring buy
+export interface DcaFill {
+  scheduledFor: number;   // Unix seconds of the interval
+  executedAt: number;
+  status: 'filled' | 'failed' | 'skipped';
+  amountIn: string;       // Human-readable
+  amountOut?: string;     // Human-readable, received by the final hop
+  price?: number;         // tokenOut per tokenIn
+  txHash?: string;
+  router?: 'reachswap' | 'sphynx';
+  error?: string;
+}
+
+// A recurring buy: amountPerFill of tokenIn into tokenOut every intervalSeconds, totalFills times
+export interface DcaSchedule {
+  id: string;
+  owner: string;
+  tokenIn: Token;
+  tokenOut: Token;
+  amountPerFill: string;  // Human-readable
+  totalFills: number;
+  intervalSeconds: number;
+  maxSlippage: string;    // Percent
+  createdAt: number;
+  nextFillAt: number;     // Unix seconds
+  status: DcaStatus;
+  fills: DcaFill[];
+}
+
+export type SimulationStatus = 'success' | 'reverted' | 'needs-approval' | 'unavailable';
+
+// Pre-flight eth_call of a transaction with the calldata it will be signed with
+export interface TransactionSimulation {
+  status: SimulationStatus;
+  reason?: string;          // Readable explanation when the call reverts or cannot run
+  revertReason?: string;    // Reason decoded from the revert data, e.g. 'ReachSwap: K'
+  amountIn?: string;        // Decoded results, human-readable
+  amountOut?: string;
+  liquidity?: string;       // Deposits: LP tokens minted
+  depositAmounts?: { symbol: string; amount: string }[]; // Deposits: token amounts the router takes
+  quoteDeviation?: number;  // Percent the simulated result is better (+) or worse (-) than the quote
+  gasEstimate?: string;     // Gas units the transaction is expected to use
+  simulatedAt: number;
+}
+
+export type GasSpeed = 'slow' | 'standard' | 'fast';
+
+// Fees for one speed; wei amounts as decimal strings
+export interface GasFeePreset {
+  speed: GasSpeed;
+  maxFeePerGas: string;          // Type-2 fee cap, or the gas price of a legacy transaction
+  maxPriorityFeePerGas?: string; // Type-2 only
+  estimatedSeconds: number;
+}
+
+export interface GasFeeData {
+  supportsEip1559: boolean;
+  baseFeePerGas?: string;        // Next block's base fee (type-2 networks)
+  blockTime: number;             // Seconds, measured over recent blocks
+  presets: Record<GasSpeed, GasFeePreset>;
+  fetchedAt: number;
+}
+
+// LOOP cost of an action at the selected speed, shown in the confirmation modals
+export interface NetworkFeeEstimate {
+  costLoop: string;
+  speed: GasSpeed;
+  estimatedSeconds: number;
+}
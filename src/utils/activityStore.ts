@@ -0,0 +1,155 @@
+// Local transaction activity store
+// Every transaction the app sends is recorded here and tracked until its receipt arrives.
+// Records live in localStorage so pending transactions survive page reloads.
+
+import { ActivityRecord, ActivityStatus } from '../types';
+import { getReadProvider } from './rpcProvider';
+import { TransactionReceipt } from './web3Utils';
+
+const STORAGE_KEY = 'reachswap_activity';
+const MAX_RECORDS = 100;
+const POLL_INTERVAL = 4000; // 4 seconds
+const PENDING_EXPIRY = 24 * 60 * 60 * 1000; // Give up on receipts after 24 hours
+
+type ActivityListener = (records: ActivityRecord[]) => void;
+
+const listeners = new Set<ActivityListener>();
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let isPolling = false;
+
+const loadRecords = (): ActivityRecord[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Failed to load activity from storage:', error);
+    return [];
+  }
+};
+
+let records: ActivityRecord[] = loadRecords();
+
+const saveRecords = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.warn('Failed to save activity to storage:', error);
+  }
+  listeners.forEach(listener => listener(records));
+};
+
+// Newest first
+export const getActivity = (): ActivityRecord[] => records;
+
+export const getPendingActivity = (): ActivityRecord[] =>
+  records.filter(record => record.status === 'pending');
+
+// Record a freshly sent transaction as pending
+export const recordTransaction = (
+  record: Omit<ActivityRecord, 'status' | 'timestamp' | 'account'> & { account?: string }
+): void => {
+  if (!record.hash) return;
+
+  const entry: ActivityRecord = {
+    ...record,
+    account: (record.account || localStorage.getItem('reachswap_wallet_address') || '').toLowerCase(),
+    status: 'pending',
+    timestamp: Date.now()
+  };
+
+  records = [entry, ...records.filter(existing => existing.hash !== entry.hash)].slice(0, MAX_RECORDS);
+  saveRecords();
+  console.log(`📝 Recorded ${entry.type} transaction: ${entry.hash}`);
+
+  startPendingTracker();
+};
+
+export const updateTransactionStatus = (
+  hash: string,
+  status: ActivityStatus,
+  details: Partial<Pick<ActivityRecord, 'blockNumber' | 'gasUsed' | 'amountOut'>> = {}
+): void => {
+  let changed = false;
+
+  records = records.map(record => {
+    if (record.hash.toLowerCase() !== hash.toLowerCase() || record.status === status) return record;
+    changed = true;
+    return {
+      ...record,
+      ...details,
+      status,
+      confirmedAt: status === 'pending' ? undefined : Date.now()
+    };
+  });
+
+  if (changed) saveRecords();
+};
+
+// Clear finished records, only the given account's when one is passed; pending ones keep being tracked
+export const clearActivity = (account?: string): void => {
+  const normalized = account?.toLowerCase();
+  records = records.filter(record =>
+    record.status === 'pending' || (normalized !== undefined && record.account !== normalized)
+  );
+  saveRecords();
+};
+
+export const subscribeActivity = (listener: ActivityListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Poll receipts for every pending record until none remain
+const pollPendingTransactions = async () => {
+  pollTimer = null;
+  const pending = getPendingActivity();
+  if (pending.length === 0) return;
+
+  isPolling = true;
+  const provider = getReadProvider();
+
+  await Promise.all(pending.map(async record => {
+    try {
+      const receipt = await provider.request<TransactionReceipt | null>({
+        method: 'eth_getTransactionReceipt',
+        params: [record.hash]
+      });
+
+      if (receipt) {
+        updateTransactionStatus(record.hash, receipt.status === '0x1' ? 'confirmed' : 'failed', {
+          blockNumber: parseInt(receipt.blockNumber, 16),
+          gasUsed: BigInt(receipt.gasUsed).toString()
+        });
+      } else if (Date.now() - record.timestamp > PENDING_EXPIRY) {
+        console.warn(`⚠️ No receipt for ${record.hash} after 24 hours, marking as failed`);
+        updateTransactionStatus(record.hash, 'failed');
+      }
+    } catch (error) {
+      console.warn(`Receipt check failed for ${record.hash}:`, error);
+    }
+  }));
+
+  isPolling = false;
+  if (getPendingActivity().length > 0) {
+    pollTimer = setTimeout(pollPendingTransactions, POLL_INTERVAL);
+  }
+};
+
+// Start (or keep) polling; safe to call repeatedly
+export const startPendingTracker = (): void => {
+  if (pollTimer || isPolling || typeof window === 'undefined') return;
+  pollTimer = setTimeout(pollPendingTransactions, 0);
+};
+
+// Keep tabs in sync when another tab records or confirms a transaction
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', event => {
+    if (event.key !== STORAGE_KEY) return;
+    records = loadRecords();
+    listeners.forEach(listener => listener(records));
+  });
+}
@@ -0,0 +1,148 @@
+// Recurring buy (DCA) schedules
+// Schedules are stored per wallet in localStorage with every fill they made. A schedule's intervals
+// follow its start time: the interval that is due is filled, while intervals that passed with the
+// app closed are reported as missed and only filled or skipped when the user decides.
+
+import { DcaFill, DcaSchedule, Token } from '../types';
+import { DCA_CONFIG } from '../constants/reachswap';
+import { getReadProvider } from './rpcProvider';
+import { TransactionReceipt } from './web3Utils';
+
+export interface DcaStats {
+  fillsDone: number;
+  fillsRemaining: number;
+  totalIn: number;
+  totalOut: number;
+  averagePrice: number; // tokenOut per tokenIn over all fills
+  averageCost: number;  // tokenIn paid per tokenOut
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const storageKey = (owner: string) => DCA_CONFIG.STORAGE_KEY_PREFIX + owner.toLowerCase();
+
+// Stored schedules of a wallet, newest first
+export const loadDcaSchedules = (owner: string): DcaSchedule[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(owner));
+    return saved ? JSON.parse(saved) as DcaSchedule[] : [];
+  } catch (error) {
+    console.warn('Failed to load DCA schedules:', error);
+    return [];
+  }
+};
+
+export const saveDcaSchedules = (owner: string, schedules: DcaSchedule[]): void => {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(schedules));
+  } catch (error) {
+    console.warn('Failed to save DCA schedules:', error);
+  }
+};
+
+export const getDcaStats = (schedule: DcaSchedule): DcaStats => {
+  const filled = schedule.fills.filter(fill => fill.status === 'filled');
+  const totalIn = filled.reduce((sum, fill) => sum + parseFloat(fill.amountIn), 0);
+  const totalOut = filled.reduce((sum, fill) => sum + parseFloat(fill.amountOut || '0'), 0);
+
+  return {
+    fillsDone: filled.length,
+    fillsRemaining: Math.max(0, schedule.totalFills - filled.length),
+    totalIn,
+    totalOut,
+    averagePrice: totalIn > 0 ? totalOut / totalIn : 0,
+    averageCost: totalOut > 0 ? totalIn / totalOut : 0
+  };
+};
+
+// Intervals of an active schedule that have started by `now` and are not filled yet
+const countOverdue = (schedule: DcaSchedule, now: number): number =>
+  schedule.status === 'active' && now >= schedule.nextFillAt
+    ? Math.floor((now - schedule.nextFillAt) / schedule.intervalSeconds) + 1
+    : 0;
+
+// Whether the schedule's current interval is due and none before it were missed
+export const isDcaFillDue = (schedule: DcaSchedule, now: number = Math.floor(Date.now() / 1000)): boolean =>
+  countOverdue(schedule, now) === 1;
+
+// Intervals that passed without a fill before the current one
+export const getMissedDcaFills = (schedule: DcaSchedule, now: number = Math.floor(Date.now() / 1000)): number =>
+  Math.max(0, countOverdue(schedule, now) - 1);
+
+/**
+ * Records the missed intervals as skipped and moves the schedule to its current interval.
+ * With `includeCurrent` the current interval is skipped as well and the next fill is one interval later.
+ */
+export const skipMissedDcaFills = (
+  schedule: DcaSchedule,
+  includeCurrent = false,
+  now: number = Math.floor(Date.now() / 1000)
+): DcaSchedule => {
+  const overdue = countOverdue(schedule, now);
+  const skipCount = includeCurrent ? overdue : Math.max(0, overdue - 1);
+  if (skipCount === 0) return schedule;
+
+  const skipped: DcaFill[] = Array.from({ length: skipCount }, (_, i) => ({
+    scheduledFor: schedule.nextFillAt + i * schedule.intervalSeconds,
+    executedAt: Date.now(),
+    status: 'skipped',
+    amountIn: '0'
+  }));
+
+  return {
+    ...schedule,
+    nextFillAt: schedule.nextFillAt + skipCount * schedule.intervalSeconds,
+    fills: [...schedule.fills, ...skipped]
+  };
+};
+
+/**
+ * Adds a fill to the schedule and moves it to the next interval, completing it once
+ * totalFills buys succeeded. Failed fills are kept for the record and do not count.
+ */
+export const recordDcaFill = (schedule: DcaSchedule, fill: DcaFill): DcaSchedule => {
+  const updated = {
+    ...schedule,
+    nextFillAt: fill.scheduledFor + schedule.intervalSeconds,
+    fills: [...schedule.fills, fill]
+  };
+  return getDcaStats(updated).fillsRemaining === 0 ? { ...updated, status: 'completed' } : updated;
+};
+
+// Wallet balance of a token (native LOOP for the zero address) at a block, raw units
+const getBalanceAtBlock = async (token: Token, owner: string, blockNumber: number): Promise<bigint> => {
+  const provider = getReadProvider();
+  const blockTag = '0x' + blockNumber.toString(16);
+
+  if (token.address === ZERO_ADDRESS) {
+    return BigInt(await provider.request({ method: 'eth_getBalance', params: [owner, blockTag] }));
+  }
+
+  const result = await provider.request({
+    method: 'eth_call',
+    params: [{ to: token.address, data: '0x70a08231' + owner.slice(2).toLowerCase().padStart(64, '0') }, blockTag] // balanceOf(address)
+  });
+  return BigInt(result === '0x' ? 0 : result);
+};
+
+/**
+ * What a confirmed swap transaction actually delivered to the wallet (raw units): its balance of the
+ * output token after the swap block minus before it, so transfer taxes are already taken off. For
+ * native LOOP the gas the transaction paid is added back. Null if the transaction failed.
+ */
+export const readSwapOutput = async (txHash: string, owner: string, tokenOut: Token): Promise<bigint | null> => {
+  const receipt = await getReadProvider().request<TransactionReceipt | null>({ method: 'eth_getTransactionReceipt', params: [txHash] });
+  if (!receipt || receipt.status !== '0x1') return null;
+
+  const blockNumber = parseInt(receipt.blockNumber, 16);
+  const [before, after] = await Promise.all([
+    getBalanceAtBlock(tokenOut, owner, blockNumber - 1),
+    getBalanceAtBlock(tokenOut, owner, blockNumber)
+  ]);
+
+  const gasPaid = tokenOut.address === ZERO_ADDRESS
+    ? BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice || '0x0')
+    : BigInt(0);
+  const received = after - before + gasPaid;
+  return received > BigInt(0) ? received : BigInt(0);
+};
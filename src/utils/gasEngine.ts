@@ -0,0 +1,260 @@
+// Gas engine
+// Fee presets come from the LOOP RPC: on networks with a base fee, eth_feeHistory's priority fee
+// percentiles over recent blocks give slow/standard/fast tips, and how often each tip would have made
+// it into those blocks gives the confirmation time. Legacy networks scale eth_gasPrice instead.
+// Gas limits that cannot be estimated fall back to what the same contract call used in the wallet's
+// own confirmed transactions, remembered from their receipts.
+
+import { GasFeeData, GasFeePreset, GasSpeed, NetworkFeeEstimate } from '../types';
+import { GAS_CONFIG } from '../constants/network';
+import { getReadProvider } from './rpcProvider';
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'standard', 'fast'];
+
+// Fee fields added to a transaction before it is sent
+export type GasFeeFields =
+  | { type: '0x2'; maxFeePerGas: string; maxPriorityFeePerGas: string }
+  | { gasPrice: string };
+
+interface GasCall {
+  to: string;
+  data: string;
+}
+
+interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+}
+
+let feeDataCache: GasFeeData | null = null;
+
+const toHex = (value: bigint): string => '0x' + value.toString(16);
+
+const median = (values: bigint[]): bigint => {
+  if (values.length === 0) return BigInt(0);
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Seconds per block over the fee history window
+const measureBlockTime = async (latestBlockNumber: number): Promise<number> => {
+  try {
+    const provider = getReadProvider();
+    const [latest, earlier] = await Promise.all([
+      provider.request<{ timestamp: string }>({ method: 'eth_getBlockByNumber', params: [toHex(BigInt(latestBlockNumber)), false] }),
+      provider.request<{ timestamp: string }>({ method: 'eth_getBlockByNumber', params: [toHex(BigInt(latestBlockNumber - GAS_CONFIG.FEE_HISTORY_BLOCKS)), false] })
+    ]);
+    const seconds = (parseInt(latest.timestamp, 16) - parseInt(earlier.timestamp, 16)) / GAS_CONFIG.FEE_HISTORY_BLOCKS;
+    return seconds > 0 ? seconds : GAS_CONFIG.DEFAULT_BLOCK_TIME;
+  } catch {
+    return GAS_CONFIG.DEFAULT_BLOCK_TIME;
+  }
+};
+
+// Expected blocks until inclusion: a tip at least the lowest percentile of a block's tips, or any tip
+// in a block with spare room, would have been included in that block
+const estimateBlocksForTip = (tip: bigint, history: FeeHistory): number => {
+  const rewards = history.reward || [];
+  const included = history.gasUsedRatio.filter((ratio, index) =>
+    ratio < 0.5 || (rewards[index] !== undefined && tip >= BigInt(rewards[index][0]))
+  ).length;
+  if (included === 0) return GAS_CONFIG.FEE_HISTORY_BLOCKS;
+  return Math.ceil(history.gasUsedRatio.length / included);
+};
+
+const buildEip1559Presets = (history: FeeHistory, blockTime: number): { baseFee: bigint; presets: Record<GasSpeed, GasFeePreset> } => {
+  // The last entry is the base fee of the next block
+  const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+  const presets = {} as Record<GasSpeed, GasFeePreset>;
+
+  let previousTip = BigInt(0);
+  GAS_SPEEDS.forEach((speed, index) => {
+    const tips = (history.reward || []).map(rewards => BigInt(rewards[index] || '0x0'));
+    // Faster speeds never tip less than slower ones
+    const medianTip = median(tips);
+    const tip = medianTip > previousTip ? medianTip : previousTip;
+    previousTip = tip;
+
+    presets[speed] = {
+      speed,
+      maxFeePerGas: (baseFee * BigInt(GAS_CONFIG.BASE_FEE_HEADROOM) + tip).toString(),
+      maxPriorityFeePerGas: tip.toString(),
+      estimatedSeconds: Math.round(estimateBlocksForTip(tip, history) * blockTime)
+    };
+  });
+
+  return { baseFee, presets };
+};
+
+const buildLegacyPresets = (gasPrice: bigint, blockTime: number): Record<GasSpeed, GasFeePreset> => {
+  const presets = {} as Record<GasSpeed, GasFeePreset>;
+  GAS_SPEEDS.forEach(speed => {
+    presets[speed] = {
+      speed,
+      maxFeePerGas: (gasPrice * BigInt(Math.round(GAS_CONFIG.LEGACY_MULTIPLIERS[speed] * 100)) / BigInt(100)).toString(),
+      estimatedSeconds: Math.round(GAS_CONFIG.LEGACY_CONFIRMATION_BLOCKS[speed] * blockTime)
+    };
+  });
+  return presets;
+};
+
+/**
+ * Current fee presets for each speed, cached briefly. Networks whose blocks carry a base fee get
+ * type-2 presets from eth_feeHistory; others get legacy gas prices from eth_gasPrice.
+ */
+export const getGasFeeData = async (forceRefresh: boolean = false): Promise<GasFeeData> => {
+  if (!forceRefresh && feeDataCache && Date.now() - feeDataCache.fetchedAt < GAS_CONFIG.CACHE_TTL) {
+    return feeDataCache;
+  }
+
+  const provider = getReadProvider();
+  const [history, gasPriceHex]: [FeeHistory | null, string] = await Promise.all([
+    provider.request<FeeHistory | null>({
+      method: 'eth_feeHistory',
+      params: [toHex(BigInt(GAS_CONFIG.FEE_HISTORY_BLOCKS)), 'latest', GAS_SPEEDS.map(speed => GAS_CONFIG.REWARD_PERCENTILES[speed])]
+    }).catch((historyError: unknown) => {
+      console.warn('⚠️ eth_feeHistory unavailable, using legacy gas prices:', historyError);
+      return null;
+    }),
+    provider.request({ method: 'eth_gasPrice', params: [] })
+  ]);
+
+  const latestBlockNumber = history
+    ? parseInt(history.oldestBlock, 16) + history.gasUsedRatio.length - 1
+    : parseInt(await provider.request({ method: 'eth_blockNumber', params: [] }), 16);
+  const blockTime = await measureBlockTime(latestBlockNumber);
+
+  const supportsEip1559 = !!history?.baseFeePerGas?.length && BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]) > BigInt(0);
+
+  if (supportsEip1559 && history) {
+    const { baseFee, presets } = buildEip1559Presets(history, blockTime);
+    feeDataCache = { supportsEip1559, baseFeePerGas: baseFee.toString(), blockTime, presets, fetchedAt: Date.now() };
+  } else {
+    feeDataCache = { supportsEip1559: false, blockTime, presets: buildLegacyPresets(BigInt(gasPriceHex || '0x0'), blockTime), fetchedAt: Date.now() };
+  }
+
+  console.log(`⛽ Gas fees (${feeDataCache.supportsEip1559 ? 'type-2' : 'legacy'}): standard ${feeDataCache.presets.standard.maxFeePerGas} wei, ${blockTime.toFixed(1)}s blocks`);
+  return feeDataCache;
+};
+
+// Speed chosen in the settings modal, shared by every transaction the app sends
+export const getGasSpeed = (): GasSpeed => {
+  if (typeof window === 'undefined') return GAS_CONFIG.DEFAULT_SPEED;
+  const stored = localStorage.getItem(GAS_CONFIG.SPEED_STORAGE_KEY);
+  return GAS_SPEEDS.includes(stored as GasSpeed) ? (stored as GasSpeed) : GAS_CONFIG.DEFAULT_SPEED;
+};
+
+export const setGasSpeed = (speed: GasSpeed): void => {
+  localStorage.setItem(GAS_CONFIG.SPEED_STORAGE_KEY, speed);
+};
+
+// Price per gas a transaction is expected to pay: the base fee plus the tip, within the fee cap
+export const getEffectiveGasPrice = (feeData: GasFeeData, speed: GasSpeed): bigint => {
+  const preset = feeData.presets[speed];
+  const maxFee = BigInt(preset.maxFeePerGas);
+  if (!feeData.supportsEip1559 || !preset.maxPriorityFeePerGas) return maxFee;
+
+  const expected = BigInt(feeData.baseFeePerGas || '0') + BigInt(preset.maxPriorityFeePerGas);
+  return expected < maxFee ? expected : maxFee;
+};
+
+// Expected cost in wei of using gasUnits at the given speed
+export const getGasCost = (gasUnits: bigint, feeData: GasFeeData, speed: GasSpeed): bigint =>
+  gasUnits * getEffectiveGasPrice(feeData, speed);
+
+/**
+ * Fee fields for a transaction at the selected speed: type-2 fields where the network has a base
+ * fee, a legacy gasPrice otherwise. When fees cannot be read, nothing is added and the wallet decides.
+ */
+export const withGasFees = async <T extends object>(tx: T): Promise<T | (T & GasFeeFields)> => {
+  try {
+    const feeData = await getGasFeeData();
+    const preset = feeData.presets[getGasSpeed()];
+
+    if (feeData.supportsEip1559 && preset.maxPriorityFeePerGas) {
+      return {
+        ...tx,
+        type: '0x2',
+        maxFeePerGas: toHex(BigInt(preset.maxFeePerGas)),
+        maxPriorityFeePerGas: toHex(BigInt(preset.maxPriorityFeePerGas))
+      };
+    }
+    return { ...tx, gasPrice: toHex(BigInt(preset.maxFeePerGas)) };
+  } catch (feeError) {
+    console.warn('⚠️ Could not read gas fees, leaving them to the wallet:', feeError);
+    return tx;
+  }
+};
+
+// Learned gas usage, keyed by contract and function selector
+const getUsageKey = ({ to, data }: GasCall): string => `${to.toLowerCase()}:${data.slice(0, 10).toLowerCase()}`;
+
+const loadGasUsage = (): Record<string, number[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(GAS_CONFIG.USAGE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Remember how much gas a confirmed call used
+export const recordGasUsage = (call: GasCall, gasUsed: bigint): void => {
+  if (!call.to || !call.data || call.data.length < 10) return;
+
+  const usage = loadGasUsage();
+  const key = getUsageKey(call);
+  usage[key] = [...(usage[key] || []), Number(gasUsed)].slice(-GAS_CONFIG.MAX_USAGE_SAMPLES);
+  localStorage.setItem(GAS_CONFIG.USAGE_STORAGE_KEY, JSON.stringify(usage));
+};
+
+// Record a confirmed receipt's gas usage against the call that produced it
+export const learnFromReceipt = async (txHash: string, gasUsed: string): Promise<void> => {
+  const tx = await getReadProvider().request<{ to: string | null; input: string } | null>({ method: 'eth_getTransactionByHash', params: [txHash] });
+  if (!tx?.to || !tx.input) return;
+  recordGasUsage({ to: tx.to, data: tx.input }, BigInt(gasUsed));
+};
+
+// Most gas this call has used in the wallet's own confirmed transactions, or null if never seen
+export const getLearnedGasUsage = (call: GasCall): bigint | null => {
+  const samples = loadGasUsage()[getUsageKey(call)];
+  if (!samples?.length) return null;
+  return BigInt(Math.max(...samples));
+};
+
+/**
+ * Gas limit for a call whose estimate failed: the most it has used before plus headroom, or the
+ * default limit for a call never seen from this wallet.
+ */
+export const getFallbackGasLimit = (call: GasCall): string => {
+  const learned = getLearnedGasUsage(call);
+  if (learned === null) {
+    console.log(`⛽ No gas history for ${call.data.slice(0, 10)}, using default limit ${GAS_CONFIG.DEFAULT_GAS_LIMIT}`);
+    return toHex(BigInt(GAS_CONFIG.DEFAULT_GAS_LIMIT));
+  }
+
+  const limit = learned * BigInt(Math.round(GAS_CONFIG.LIMIT_BUFFER * 100)) / BigInt(100);
+  console.log(`⛽ Using learned gas limit for ${call.data.slice(0, 10)}: ${limit} (most used: ${learned})`);
+  return toHex(limit);
+};
+
+// Gas units a transaction is expected to use, for cost previews: the node's estimate, else history
+export const estimateGasUnits = async (tx: GasCall & { from: string; value?: string }): Promise<bigint> => {
+  try {
+    const estimate = await getReadProvider().request({
+      method: 'eth_estimateGas',
+      params: [{ ...tx, value: tx.value && tx.value !== '0x0' ? tx.value : undefined }]
+    });
+    return BigInt(estimate);
+  } catch {
+    return getLearnedGasUsage(tx) ?? BigInt(GAS_CONFIG.DEFAULT_GAS_LIMIT);
+  }
+};
+
+// Network fee line for the confirmation modals, e.g. "~0.0042 LOOP · ~6s"
+export const formatNetworkFee = (fee: NetworkFeeEstimate | null | undefined): string => {
+  if (!fee) return 'Estimating...';
+  const cost = parseFloat(fee.costLoop);
+  return `~${cost > 0 && cost < 0.0001 ? '<0.0001' : cost.toFixed(4)} LOOP · ~${fee.estimatedSeconds}s`;
+};
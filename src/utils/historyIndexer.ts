@@ -0,0 +1,415 @@
+// Event-indexed transaction history
+// Pair Swap/Burn/Mint and wLOOP Deposit/Withdrawal logs are queried with the user's address as an
+// indexed topic, paged through block ranges, and persisted per account together with a cursor,
+// so later loads only fetch blocks that have not been indexed yet. Swaps and removals that pay the
+// router (which unwraps and forwards native LOOP) are found through the user's outgoing transfers.
+
+import { ethers } from 'ethers';
+import { HistoryEvent, HistoryTokenAmount } from '../types';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { getReadProvider } from './rpcProvider';
+
+const STORAGE_KEY_PREFIX = 'reachswap_history_';
+const STORAGE_VERSION = 3; // 2: liquidity events carry the LP amount, 3: router-paid swaps and removals
+const MAX_EVENTS = 200;
+const INITIAL_LOOKBACK_BLOCKS = 100000; // How far back the first load for an account reaches
+const PAGE_SIZE = 5000; // Blocks per eth_getLogs page
+const MIN_PAGE_SIZE = 250; // Pages shrink on RPC range/result limits, down to this size
+const REORG_OVERLAP = 12; // Recent blocks re-indexed on every load in case they were reorged
+
+const TOPICS = {
+  SWAP: ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)'),
+  MINT: ethers.id('Mint(address,uint256,uint256)'),
+  BURN: ethers.id('Burn(address,uint256,uint256,address)'),
+  TRANSFER: ethers.id('Transfer(address,address,uint256)'),
+  DEPOSIT: ethers.id('Deposit(address,uint256)'),
+  WITHDRAWAL: ethers.id('Withdrawal(address,uint256)')
+};
+
+const ZERO_TOPIC = '0x' + '0'.repeat(64);
+const NATIVE_LOOP = { address: '0x0000000000000000000000000000000000000000', symbol: 'LOOP', decimals: 18 };
+
+export type TokenResolver = (address: string) => Promise<{ symbol: string; decimals: number } | null>;
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+interface Receipt {
+  from: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  logs: RawLog[];
+}
+
+interface PairInfo {
+  token0: string;
+  token1: string;
+  router: 'reachswap' | 'sphynx';
+}
+
+interface HistoryState {
+  version: number;
+  cursor: number; // Last block fully indexed
+  events: HistoryEvent[];
+}
+
+// Pair lookups are immutable, so they are cached for the session (null = not a ReachSwap/Sphynx pair)
+const pairCache = new Map<string, PairInfo | null>();
+const blockTimestampCache = new Map<number, number>();
+const inFlight = new Map<string, Promise<HistoryEvent[]>>();
+
+const storageKey = (account: string) => STORAGE_KEY_PREFIX + account.toLowerCase();
+
+const loadState = (account: string): HistoryState | null => {
+  try {
+    const saved = localStorage.getItem(storageKey(account));
+    if (!saved) return null;
+
+    const state = JSON.parse(saved) as HistoryState;
+    return state.version === STORAGE_VERSION ? state : null;
+  } catch (error) {
+    console.warn('Failed to load indexed history:', error);
+    return null;
+  }
+};
+
+const saveState = (account: string, state: HistoryState) => {
+  try {
+    localStorage.setItem(storageKey(account), JSON.stringify(state));
+  } catch (error) {
+    console.warn('Failed to save indexed history:', error);
+  }
+};
+
+const toHex = (value: number) => '0x' + value.toString(16);
+const toTopic = (address: string) => '0x' + address.slice(2).toLowerCase().padStart(64, '0');
+const wordAt = (data: string, index: number) => BigInt('0x' + (data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Resolve a log emitter to a pair on ReachSwap or Sphynx; anything else emitting the same event is ignored
+const getPairInfo = async (pairAddress: string): Promise<PairInfo | null> => {
+  const key = pairAddress.toLowerCase();
+  if (pairCache.has(key)) return pairCache.get(key) || null;
+
+  const provider = getReadProvider();
+  let info: PairInfo | null = null;
+
+  try {
+    const [token0Result, token1Result] = await Promise.all([
+      provider.request({ method: 'eth_call', params: [{ to: pairAddress, data: '0x0dfe1681' }, 'latest'] }), // token0()
+      provider.request({ method: 'eth_call', params: [{ to: pairAddress, data: '0xd21220a7' }, 'latest'] }) // token1()
+    ]);
+
+    if (token0Result && token0Result.length >= 66 && token1Result && token1Result.length >= 66) {
+      const token0 = '0x' + token0Result.slice(-40);
+      const token1 = '0x' + token1Result.slice(-40);
+      const getPairData = '0xe6a43905' + token0.slice(2).padStart(64, '0') + token1.slice(2).padStart(64, '0');
+
+      for (const [router, factory] of [
+        ['reachswap', REACHSWAP_CONTRACTS.FACTORY],
+        ['sphynx', SPHYNX_CONTRACTS.FACTORY]
+      ] as const) {
+        const pairResult = await provider.request({
+          method: 'eth_call',
+          params: [{ to: factory, data: getPairData }, 'latest']
+        });
+
+        if (pairResult && sameAddress('0x' + pairResult.slice(-40), pairAddress)) {
+          info = { token0, token1, router };
+          break;
+        }
+      }
+    }
+  } catch {
+    // Not a pair (or not callable) - treat as unrelated contract
+  }
+
+  pairCache.set(key, info);
+  return info;
+};
+
+const getBlockTimestamp = async (blockNumber: number): Promise<number> => {
+  const cached = blockTimestampCache.get(blockNumber);
+  if (cached) return cached;
+
+  try {
+    const block = await getReadProvider().request<{ timestamp: string }>({
+      method: 'eth_getBlockByNumber',
+      params: [toHex(blockNumber), false]
+    });
+    const timestamp = parseInt(block.timestamp, 16);
+    blockTimestampCache.set(blockNumber, timestamp);
+    return timestamp;
+  } catch (error) {
+    console.warn(`Error getting timestamp for block ${blockNumber}:`, error);
+    return Math.floor(Date.now() / 1000);
+  }
+};
+
+const getGasFee = (receipt: Receipt | null): string | undefined => {
+  if (!receipt?.gasUsed || !receipt.effectiveGasPrice) return undefined;
+  return ethers.formatEther(BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice));
+};
+
+// A WLOOP Deposit in the same transaction means the router wrapped native LOOP for the user
+const hasNativeDeposit = (receipt: Receipt | null) =>
+  !!receipt?.logs.some(log => sameAddress(log.address, REACHSWAP_CONTRACTS.WLOOP) && log.topics[0] === TOPICS.DEPOSIT);
+
+// A WLOOP Withdrawal in the same transaction means the router unwrapped the output to native LOOP
+const hasNativeWithdrawal = (receipt: Receipt | null) =>
+  !!receipt?.logs.some(log => sameAddress(log.address, REACHSWAP_CONTRACTS.WLOOP) && log.topics[0] === TOPICS.WITHDRAWAL);
+
+const fetchLogs = (filter: { address?: string; topics: (string | null)[] }, fromBlock: number, toBlock: number): Promise<RawLog[]> =>
+  getReadProvider().request({
+    method: 'eth_getLogs',
+    params: [{ ...filter, fromBlock: toHex(fromBlock), toBlock: toHex(toBlock) }]
+  });
+
+// Query and decode every user event in [fromBlock, toBlock]
+const indexRange = async (
+  account: string,
+  fromBlock: number,
+  toBlock: number,
+  resolveToken: TokenResolver
+): Promise<HistoryEvent[]> => {
+  const userTopic = toTopic(account);
+  const wloop = REACHSWAP_CONTRACTS.WLOOP;
+
+  const [swapLogs, burnLogs, lpMintLogs, depositLogs, withdrawalLogs, outgoingLogs] = await Promise.all([
+    fetchLogs({ topics: [TOPICS.SWAP, null, userTopic] }, fromBlock, toBlock), // Swap(..., to = user)
+    fetchLogs({ topics: [TOPICS.BURN, null, userTopic] }, fromBlock, toBlock), // Burn(..., to = user)
+    fetchLogs({ topics: [TOPICS.TRANSFER, ZERO_TOPIC, userTopic] }, fromBlock, toBlock), // LP minted to user
+    fetchLogs({ address: wloop, topics: [TOPICS.DEPOSIT, userTopic] }, fromBlock, toBlock),
+    fetchLogs({ address: wloop, topics: [TOPICS.WITHDRAWAL, userTopic] }, fromBlock, toBlock),
+    fetchLogs({ topics: [TOPICS.TRANSFER, userTopic] }, fromBlock, toBlock) // Tokens or LP sent by the user
+  ]);
+
+  const total = swapLogs.length + burnLogs.length + lpMintLogs.length + depositLogs.length + withdrawalLogs.length + outgoingLogs.length;
+  if (total === 0) return [];
+
+  console.log(`📜 Blocks ${fromBlock}-${toBlock}: ${total} candidate history logs`);
+
+  const provider = getReadProvider();
+  const receipts = new Map<string, Promise<Receipt | null>>();
+  const getReceipt = (hash: string) => {
+    if (!receipts.has(hash)) {
+      receipts.set(hash, provider.request<Receipt | null>({ method: 'eth_getTransactionReceipt', params: [hash] }).catch(() => null));
+    }
+    return receipts.get(hash)!;
+  };
+
+  // Token→LOOP swaps and removeLiquidityETH pay the router, so their Swap/Burn logs do not name the
+  // user. The user's own transactions that sent tokens or LP are searched for them instead.
+  const coveredTxs = new Set([...swapLogs, ...burnLogs].map(log => log.transactionHash));
+  const routedTxs = [...new Set(outgoingLogs.map(log => log.transactionHash))].filter(hash => !coveredTxs.has(hash));
+  (await Promise.all(routedTxs.map(getReceipt))).forEach(receipt => {
+    if (!receipt || !sameAddress(receipt.from, account)) return;
+
+    const hops = receipt.logs.filter(log => log.topics[0] === TOPICS.SWAP);
+    if (hops.length > 0) swapLogs.push(hops[hops.length - 1]);
+    burnLogs.push(...receipt.logs.filter(log => log.topics[0] === TOPICS.BURN));
+  });
+
+  const tokenAmount = async (address: string, amount: bigint, native = false): Promise<HistoryTokenAmount> => {
+    if (native) {
+      return { ...NATIVE_LOOP, amount: ethers.formatUnits(amount, NATIVE_LOOP.decimals) };
+    }
+    const metadata = await resolveToken(address);
+    const decimals = metadata?.decimals ?? 18;
+    return {
+      address,
+      symbol: metadata?.symbol || `TKN${address.slice(-4).toUpperCase()}`,
+      decimals,
+      amount: ethers.formatUnits(amount, decimals)
+    };
+  };
+
+  const baseEvent = async (log: RawLog, receipt: Receipt | null) => {
+    const blockNumber = parseInt(log.blockNumber, 16);
+    return {
+      hash: log.transactionHash,
+      blockNumber,
+      logIndex: parseInt(log.logIndex, 16),
+      timestamp: await getBlockTimestamp(blockNumber),
+      gasFee: getGasFee(receipt)
+    };
+  };
+
+  const events: (HistoryEvent | null)[] = [];
+
+  // Swaps: one event per transaction - input from the first hop, output from the hop paid to the user (or router)
+  const swapsByTx = new Map<string, RawLog>();
+  swapLogs.forEach(log => swapsByTx.set(log.transactionHash, log));
+
+  events.push(...await Promise.all([...swapsByTx.values()].map(async (userLog): Promise<HistoryEvent | null> => {
+    const outPair = await getPairInfo(userLog.address);
+    if (!outPair) return null;
+
+    const receipt = await getReceipt(userLog.transactionHash);
+    const hops = (receipt?.logs || []).filter(log => log.topics[0] === TOPICS.SWAP);
+    const firstHop = hops.length > 0 ? hops[0] : userLog;
+    const inPair = sameAddress(firstHop.address, userLog.address) ? outPair : await getPairInfo(firstHop.address);
+    if (!inPair) return null;
+
+    const amount0In = wordAt(firstHop.data, 0);
+    const amount1In = wordAt(firstHop.data, 1);
+    const amount0Out = wordAt(userLog.data, 2);
+    const amount1Out = wordAt(userLog.data, 3);
+
+    const inputToken = amount0In > BigInt(0) ? inPair.token0 : inPair.token1;
+    const inputAmount = amount0In > BigInt(0) ? amount0In : amount1In;
+    const outputToken = amount0Out > BigInt(0) ? outPair.token0 : outPair.token1;
+    const outputAmount = amount0Out > BigInt(0) ? amount0Out : amount1Out;
+    const paidNative = sameAddress(inputToken, wloop) && hasNativeDeposit(receipt);
+    const receivedNative = sameAddress(outputToken, wloop) && hasNativeWithdrawal(receipt);
+
+    return {
+      ...await baseEvent(userLog, receipt),
+      type: 'swap',
+      tokens: await Promise.all([
+        tokenAmount(inputToken, inputAmount, paidNative),
+        tokenAmount(outputToken, outputAmount, receivedNative)
+      ]),
+      pairAddress: userLog.address,
+      router: outPair.router
+    };
+  })));
+
+  // Removals: Burn(sender, amount0, amount1, to = user or router)
+  events.push(...await Promise.all(burnLogs.map(async (log): Promise<HistoryEvent | null> => {
+    const pair = await getPairInfo(log.address);
+    if (!pair) return null;
+
+    // The pair burns the returned LP from its own balance just before emitting Burn
+    const receipt = await getReceipt(log.transactionHash);
+    const burnIndex = parseInt(log.logIndex, 16);
+    const lpBurnLog = (receipt?.logs || []).filter(receiptLog =>
+      sameAddress(receiptLog.address, log.address) &&
+      receiptLog.topics[0] === TOPICS.TRANSFER &&
+      receiptLog.topics[2] === ZERO_TOPIC &&
+      parseInt(receiptLog.logIndex, 16) < burnIndex
+    ).pop();
+
+    const receivedNative = hasNativeWithdrawal(receipt);
+    return {
+      ...await baseEvent(log, receipt),
+      type: 'remove',
+      tokens: await Promise.all([
+        tokenAmount(pair.token0, wordAt(log.data, 0), receivedNative && sameAddress(pair.token0, wloop)),
+        tokenAmount(pair.token1, wordAt(log.data, 1), receivedNative && sameAddress(pair.token1, wloop))
+      ]),
+      pairAddress: log.address,
+      router: pair.router,
+      liquidity: lpBurnLog ? ethers.formatEther(wordAt(lpBurnLog.data, 0)) : undefined
+    };
+  })));
+
+  // Additions: Mint does not index the provider, so find LP minted to the user and read the pair's Mint
+  events.push(...await Promise.all(lpMintLogs.map(async (transferLog): Promise<HistoryEvent | null> => {
+    if (transferLog.topics.length !== 3) return null; // ERC-721 mints index the token id as well
+
+    const pair = await getPairInfo(transferLog.address);
+    if (!pair) return null;
+
+    const receipt = await getReceipt(transferLog.transactionHash);
+    const mintLog = receipt?.logs.find(log =>
+      sameAddress(log.address, transferLog.address) && log.topics[0] === TOPICS.MINT
+    );
+    if (!mintLog) return null;
+
+    const paidNative = hasNativeDeposit(receipt);
+    return {
+      ...await baseEvent(mintLog, receipt),
+      type: 'add',
+      tokens: await Promise.all([
+        tokenAmount(pair.token0, wordAt(mintLog.data, 0), paidNative && sameAddress(pair.token0, wloop)),
+        tokenAmount(pair.token1, wordAt(mintLog.data, 1), paidNative && sameAddress(pair.token1, wloop))
+      ]),
+      pairAddress: transferLog.address,
+      router: pair.router,
+      liquidity: ethers.formatEther(wordAt(transferLog.data, 0))
+    };
+  })));
+
+  // Wraps and unwraps on wLOOP
+  events.push(...await Promise.all([...depositLogs, ...withdrawalLogs].map(async (log): Promise<HistoryEvent> => {
+    const isWrap = log.topics[0] === TOPICS.DEPOSIT;
+    const amount = wordAt(log.data, 0);
+    const native = await tokenAmount(NATIVE_LOOP.address, amount, true);
+    const wrapped = await tokenAmount(wloop, amount);
+
+    return {
+      ...await baseEvent(log, await getReceipt(log.transactionHash)),
+      type: isWrap ? 'wrap' : 'unwrap',
+      tokens: isWrap ? [native, wrapped] : [wrapped, native]
+    };
+  })));
+
+  return events.filter((event): event is HistoryEvent => event !== null);
+};
+
+// Previously indexed events for an account, newest first (no network access)
+export const getIndexedHistory = (account: string): HistoryEvent[] => loadState(account)?.events || [];
+
+// Index new blocks since the stored cursor and return the account's full history, newest first
+export const indexHistory = (account: string, resolveToken: TokenResolver): Promise<HistoryEvent[]> => {
+  const key = account.toLowerCase();
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const run = (async () => {
+    const latestBlock = parseInt(await getReadProvider().request({ method: 'eth_blockNumber', params: [] }), 16);
+    const state: HistoryState = loadState(account) || {
+      version: STORAGE_VERSION,
+      cursor: Math.max(0, latestBlock - INITIAL_LOOKBACK_BLOCKS) - 1,
+      events: []
+    };
+
+    let fromBlock = Math.max(0, Math.min(state.cursor + 1, latestBlock - REORG_OVERLAP));
+    let pageSize = PAGE_SIZE;
+
+    console.log(`📜 Indexing history for ${account.slice(0, 8)}... from block ${fromBlock} to ${latestBlock}`);
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + pageSize - 1, latestBlock);
+
+      let pageEvents: HistoryEvent[];
+      try {
+        pageEvents = await indexRange(account, fromBlock, toBlock, resolveToken);
+      } catch (error) {
+        // Most nodes cap the block range or result count of eth_getLogs - retry with a smaller page
+        if (pageSize > MIN_PAGE_SIZE) {
+          pageSize = Math.max(MIN_PAGE_SIZE, Math.floor(pageSize / 2));
+          console.warn(`⚠️ History page ${fromBlock}-${toBlock} failed, retrying with ${pageSize} blocks`);
+          continue;
+        }
+        console.error(`Error indexing history at block ${fromBlock}:`, error);
+        break; // Keep the cursor here; the next load resumes from this block
+      }
+
+      // Events already stored for this range (the reorg overlap) are replaced by the fresh read
+      const keptEvents = state.events.filter(event => event.blockNumber < fromBlock || event.blockNumber > toBlock);
+
+      state.events = [...pageEvents, ...keptEvents]
+        .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+        .slice(0, MAX_EVENTS);
+      state.cursor = toBlock;
+      saveState(account, state);
+
+      fromBlock = toBlock + 1;
+    }
+
+    console.log(`✅ History indexed up to block ${state.cursor}: ${state.events.length} events`);
+    return state.events;
+  })();
+
+  inFlight.set(key, run);
+  return run.finally(() => inFlight.delete(key));
+};
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { LimitOrder, Token } from '../types';
+import { Eip1193Provider, RequestArguments, getReadProvider, setRpcProvider } from './rpcProvider';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { OrderReserves, checkLimitOrders, getLimitMinAmountOut, orientOrderReserves } from './limitOrders';
+
+const LOOP: Token = { symbol: 'LOOP', name: 'LOOP', address: '0x0000000000000000000000000000000000000000', decimals: 18, logoUrl: '' };
+const GIKO: Token = { symbol: 'GIKO', name: 'Giko', address: '0x1000000000000000000000000000000000000001', decimals: 18, logoUrl: '' };
+const USDC: Token = { symbol: 'USDC', name: 'USD Coin', address: '0x2000000000000000000000000000000000000002', decimals: 6, logoUrl: '' };
+const PAIR = '0x3000000000000000000000000000000000000003';
+const NOW = 1700000000;
+
+const unit = (decimals: number) => BigInt(10) ** BigInt(decimals);
+const word = (value: bigint) => value.toString(16).padStart(64, '0');
+
+interface StandInPair {
+  token0: string;
+  reserves: [bigint, bigint];
+}
+
+// Local chain stand-in: answers getReserves() and token0() for the pairs it holds and fails everything else
+const createChainStandIn = (pairs: Record<string, StandInPair>): Eip1193Provider => ({
+  request: async <T = string>({ method, params }: RequestArguments): Promise<T> => {
+    const [call] = (params || []) as { to: string; data: string }[];
+    const pair = method === 'eth_call' ? pairs[call.to.toLowerCase()] : undefined;
+    if (pair && call.data === '0x0902f1ac') {
+      return ('0x' + word(pair.reserves[0]) + word(pair.reserves[1]) + word(BigInt(NOW))) as T;
+    }
+    if (pair && call.data === '0x0dfe1681') {
+      return ('0x' + pair.token0.slice(2).padStart(64, '0')) as T;
+    }
+    throw new Error(`Stand-in cannot answer ${method}`);
+  }
+});
+
+// Reads a pair's reserves and token0 through the RPC layer and orients them with the app's helper
+const readReserves = async (order: LimitOrder): Promise<OrderReserves> => {
+  const provider = getReadProvider();
+  const [reserves, token0] = await Promise.all([
+    provider.request({ method: 'eth_call', params: [{ to: order.pairAddress, data: '0x0902f1ac' }, 'latest'] }),
+    provider.request({ method: 'eth_call', params: [{ to: order.pairAddress, data: '0x0dfe1681' }, 'latest'] })
+  ]);
+  return orientOrderReserves(order, {
+    token0: '0x' + token0.slice(-40),
+    reserve0: BigInt('0x' + reserves.slice(2, 66)),
+    reserve1: BigInt('0x' + reserves.slice(66, 130))
+  });
+};
+
+const makeOrder = (id: string, overrides: Partial<LimitOrder> = {}): LimitOrder => ({
+  id,
+  maker: '0x4000000000000000000000000000000000000004',
+  tokenIn: GIKO,
+  tokenOut: USDC,
+  amountIn: unit(18).toString(),
+  minAmountOut: (BigInt(2) * unit(6)).toString(),
+  limitPrice: '2',
+  pairAddress: PAIR,
+  expiry: NOW + 3600,
+  nonce: '1',
+  signature: '0x',
+  status: 'open',
+  createdAt: 1,
+  ...overrides
+});
+
+afterEach(() => setRpcProvider(null));
+
+describe('checkLimitOrders', () => {
+  it('fills orders whose limit price the pair reaches, oldest first', async () => {
+    // 1,000 GIKO / 3,000 USDC: selling 1 GIKO returns just under 3 USDC after the fee
+    setRpcProvider(createChainStandIn({ [PAIR]: { token0: GIKO.address, reserves: [BigInt(1000) * unit(18), BigInt(3000) * unit(6)] } }));
+    const newer = makeOrder('newer', { createdAt: 2 });
+    const older = makeOrder('older', { createdAt: 1 });
+    const tooHigh = makeOrder('too-high', { minAmountOut: (BigInt(3) * unit(6)).toString(), limitPrice: '3' });
+
+    const { fillable, expired } = await checkLimitOrders([newer, tooHigh, older], readReserves, NOW);
+
+    expect(fillable.map(({ order }) => order.id)).toEqual(['older', 'newer']);
+    expect(fillable[0].amountOut).toBeGreaterThanOrEqual(BigInt(2) * unit(6));
+    expect(expired).toEqual([]);
+  });
+
+  it('expires orders past their expiry without reading reserves', async () => {
+    setRpcProvider(createChainStandIn({}));
+    const stale = makeOrder('stale', { expiry: NOW });
+
+    const { fillable, expired } = await checkLimitOrders([stale], readReserves, NOW);
+
+    expect(fillable).toEqual([]);
+    expect(expired.map(order => order.id)).toEqual(['stale']);
+  });
+
+  it('leaves orders open when their reserves cannot be read', async () => {
+    setRpcProvider(createChainStandIn({}));
+
+    const { fillable, expired } = await checkLimitOrders([makeOrder('unreadable')], readReserves, NOW);
+
+    expect(fillable).toEqual([]);
+    expect(expired).toEqual([]);
+  });
+
+  it('skips orders that are no longer open', async () => {
+    setRpcProvider(createChainStandIn({ [PAIR]: { token0: GIKO.address, reserves: [BigInt(1000) * unit(18), BigInt(3000) * unit(6)] } }));
+
+    const { fillable } = await checkLimitOrders([makeOrder('done', { status: 'filled' })], readReserves, NOW);
+
+    expect(fillable).toEqual([]);
+  });
+});
+
+describe('orientOrderReserves', () => {
+  it('puts the sold token first when it is the pair token0', () => {
+    const reserves = { token0: GIKO.address, reserve0: BigInt(1), reserve1: BigInt(2) };
+    expect(orientOrderReserves(makeOrder('sell'), reserves)).toEqual({ reserveIn: BigInt(1), reserveOut: BigInt(2) });
+  });
+
+  it('matches native LOOP to the wLOOP side of the pair', () => {
+    // The zero address sorts first, but the pair holds wLOOP, which sorts after this USDC
+    const order = makeOrder('native', { tokenIn: LOOP, tokenOut: USDC });
+    const reserves = { token0: USDC.address, reserve0: BigInt(5), reserve1: BigInt(7) };
+    expect(USDC.address.toLowerCase() < REACHSWAP_CONTRACTS.WLOOP.toLowerCase()).toBe(true);
+
+    expect(orientOrderReserves(order, reserves)).toEqual({ reserveIn: BigInt(7), reserveOut: BigInt(5) });
+  });
+});
+
+describe('getLimitMinAmountOut', () => {
+  it('scales between token decimals', () => {
+    expect(getLimitMinAmountOut(BigInt(3) * unit(18), '1.5', GIKO, USDC)).toBe(BigInt(4500000));
+    expect(getLimitMinAmountOut(BigInt(4500000), '0.5', USDC, GIKO)).toBe(BigInt(225) * unit(16));
+  });
+
+  it('keeps full precision for amounts beyond float range', () => {
+    const amountIn = BigInt('123456789012345678901234567890');
+    expect(getLimitMinAmountOut(amountIn, '1', GIKO, GIKO)).toBe(amountIn);
+    expect(getLimitMinAmountOut(amountIn, '2.000000000000000001', GIKO, GIKO))
+      .toBe(amountIn * BigInt(2) + amountIn / unit(18));
+  });
+
+  it('rejects prices that are not plain decimals', () => {
+    expect(() => getLimitMinAmountOut(unit(18), '1e-5', GIKO, USDC)).toThrow();
+  });
+});
@@ -0,0 +1,232 @@
+// Off-chain limit orders
+// An order is the maker's EIP-712 signature over what to sell, the least they accept in return and
+// an expiry. Orders are kept per maker in localStorage. Matching quotes each open order against its
+// pair's current reserves; a matched order is filled through the regular router swap with the signed
+// minimum as amountOutMin, so the limit price is enforced on-chain as well. Reserves are read through
+// a callback, so matching runs the same against the live chain or a stand-in provider.
+
+import { ethers } from 'ethers';
+import { LimitOrder, Token } from '../types';
+import { LIMIT_ORDER_CONFIG, REACHSWAP_CONTRACTS, REACHSWAP_FEES } from '../constants/reachswap';
+import { getSignerProvider } from './rpcProvider';
+import { getAmountOut } from './zap';
+
+// Order fields chosen by the maker, before signing
+export interface LimitOrderDraft {
+  maker: string;
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  limitPrice: string;
+  pairAddress: string;
+  expiry: number;
+}
+
+// Pair reserves oriented to an order's direction
+export interface OrderReserves {
+  reserveIn: bigint;
+  reserveOut: bigint;
+}
+
+// Pair reserves as the pair reports them, with the address of its token0
+export interface PairReservesReading {
+  token0: string;
+  reserve0: string | bigint;
+  reserve1: string | bigint;
+}
+
+export type OrderMatch =
+  | { action: 'fill'; amountOut: bigint }
+  | { action: 'wait'; amountOut: bigint }
+  | { action: 'expire' };
+
+export interface OrderCheckResult {
+  fillable: { order: LimitOrder; amountOut: bigint }[];
+  expired: LimitOrder[];
+}
+
+const ORDER_TYPES = {
+  LimitOrder: [
+    { name: 'maker', type: 'address' },
+    { name: 'tokenIn', type: 'address' },
+    { name: 'tokenOut', type: 'address' },
+    { name: 'amountIn', type: 'uint256' },
+    { name: 'minAmountOut', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+const EIP712_DOMAIN_TYPE = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+];
+
+// Orders are settled by the ReachSwap router, so signatures are scoped to it
+const getDomain = () => ({
+  name: LIMIT_ORDER_CONFIG.DOMAIN_NAME,
+  version: LIMIT_ORDER_CONFIG.DOMAIN_VERSION,
+  chainId: LIMIT_ORDER_CONFIG.CHAIN_ID,
+  verifyingContract: REACHSWAP_CONTRACTS.ROUTER
+});
+
+// Limit prices are scaled to this many decimals for integer maths
+const PRICE_DECIMALS = 18;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Native LOOP is signed as the zero address
+const toMessage = (order: Pick<LimitOrder, 'maker' | 'tokenIn' | 'tokenOut' | 'amountIn' | 'minAmountOut' | 'expiry' | 'nonce'>) => ({
+  maker: order.maker,
+  tokenIn: order.tokenIn.address,
+  tokenOut: order.tokenOut.address,
+  amountIn: order.amountIn,
+  minAmountOut: order.minAmountOut,
+  expiry: order.expiry.toString(),
+  nonce: order.nonce
+});
+
+// Native LOOP trades through its wLOOP pair
+export const toPathAddress = (token: Token): string =>
+  token.address === ZERO_ADDRESS ? REACHSWAP_CONTRACTS.WLOOP : token.address;
+
+// Orients a pair's reserves to the order's direction by the pair's token0
+export const orientOrderReserves = (order: LimitOrder, reserves: PairReservesReading): OrderReserves => {
+  const inIsToken0 = reserves.token0.toLowerCase() === toPathAddress(order.tokenIn).toLowerCase();
+  return {
+    reserveIn: BigInt(inIsToken0 ? reserves.reserve0 : reserves.reserve1),
+    reserveOut: BigInt(inIsToken0 ? reserves.reserve1 : reserves.reserve0)
+  };
+};
+
+const storageKey = (maker: string) => LIMIT_ORDER_CONFIG.STORAGE_KEY_PREFIX + maker.toLowerCase();
+
+// Stored orders of a maker, newest first
+export const loadLimitOrders = (maker: string): LimitOrder[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(maker));
+    return saved ? JSON.parse(saved) as LimitOrder[] : [];
+  } catch (error) {
+    console.warn('Failed to load limit orders:', error);
+    return [];
+  }
+};
+
+export const saveLimitOrders = (maker: string, orders: LimitOrder[]): void => {
+  try {
+    localStorage.setItem(storageKey(maker), JSON.stringify(orders));
+  } catch (error) {
+    console.warn('Failed to save limit orders:', error);
+  }
+};
+
+/**
+ * Least output for `amountIn` (raw units) at `limitPrice` (tokenOut per tokenIn, as entered), in the
+ * output token's raw units. Computed in bigint so large amounts keep full precision; price digits
+ * beyond 18 decimals are dropped. Throws for a price that is not a plain decimal number.
+ */
+export const getLimitMinAmountOut = (amountIn: bigint, limitPrice: string, tokenIn: Token, tokenOut: Token): bigint => {
+  const [whole, fraction = ''] = limitPrice.trim().split('.');
+  const scaledPrice = ethers.parseUnits(`${whole || '0'}.${fraction.slice(0, PRICE_DECIMALS) || '0'}`, PRICE_DECIMALS);
+  const ten = BigInt(10);
+  return amountIn * scaledPrice * ten ** BigInt(tokenOut.decimals) / ten ** BigInt(PRICE_DECIMALS + tokenIn.decimals);
+};
+
+/**
+ * Asks the maker's wallet to sign the order and returns it as an open order.
+ * Throws if the user rejects the signature.
+ */
+export const signLimitOrder = async (draft: LimitOrderDraft): Promise<LimitOrder> => {
+  const unsigned = {
+    ...draft,
+    amountIn: draft.amountIn.toString(),
+    minAmountOut: draft.minAmountOut.toString(),
+    nonce: Date.now().toString()
+  };
+  const domain = getDomain();
+  const message = toMessage(unsigned);
+
+  console.log(`✍️ Requesting limit order signature: ${draft.tokenIn.symbol} → ${draft.tokenOut.symbol} at ${draft.limitPrice}`);
+  const signature: string = await getSignerProvider().request({
+    method: 'eth_signTypedData_v4',
+    params: [draft.maker, JSON.stringify({
+      types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...ORDER_TYPES },
+      primaryType: 'LimitOrder',
+      domain,
+      message
+    })]
+  });
+
+  return {
+    ...unsigned,
+    id: ethers.TypedDataEncoder.hash(domain, ORDER_TYPES, message),
+    signature,
+    status: 'open',
+    createdAt: Date.now()
+  };
+};
+
+// Whether the order's signature was made by its maker over exactly these terms
+export const verifyLimitOrder = (order: LimitOrder): boolean => {
+  try {
+    const signer = ethers.verifyTypedData(getDomain(), ORDER_TYPES, toMessage(order), order.signature);
+    return signer.toLowerCase() === order.maker.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decides what to do with an open order at the given reserves: expire it once past its expiry,
+ * fill it when the swap output after the ReachSwap fee reaches the signed minimum, otherwise wait.
+ */
+export const matchLimitOrder = (
+  order: LimitOrder,
+  reserves: OrderReserves,
+  now: number = Math.floor(Date.now() / 1000)
+): OrderMatch => {
+  if (now >= order.expiry) return { action: 'expire' };
+
+  const amountOut = getAmountOut(BigInt(order.amountIn), reserves.reserveIn, reserves.reserveOut, REACHSWAP_FEES.SWAP_FEE);
+  return amountOut >= BigInt(order.minAmountOut) && amountOut > BigInt(0)
+    ? { action: 'fill', amountOut }
+    : { action: 'wait', amountOut };
+};
+
+/**
+ * Matches every open order, reading each pair's reserves once through `readReserves`.
+ * Orders whose reserves cannot be read are left open for the next check.
+ */
+export const checkLimitOrders = async (
+  orders: LimitOrder[],
+  readReserves: (order: LimitOrder) => Promise<OrderReserves>,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<OrderCheckResult> => {
+  const result: OrderCheckResult = { fillable: [], expired: [] };
+  const reservesByPair = new Map<string, Promise<OrderReserves>>();
+
+  await Promise.all(orders.filter(order => order.status === 'open').map(async order => {
+    if (now >= order.expiry) {
+      result.expired.push(order);
+      return;
+    }
+
+    // Reserves are shared by orders on the same pair and direction
+    const key = `${order.pairAddress.toLowerCase()}-${order.tokenIn.address.toLowerCase()}`;
+    if (!reservesByPair.has(key)) reservesByPair.set(key, readReserves(order));
+
+    try {
+      const match = matchLimitOrder(order, await reservesByPair.get(key)!, now);
+      if (match.action === 'fill') result.fillable.push({ order, amountOut: match.amountOut });
+    } catch (error) {
+      console.warn(`⚠️ Could not read reserves for limit order ${order.id}:`, error);
+    }
+  }));
+
+  // Oldest orders fill first
+  result.fillable.sort((a, b) => a.order.createdAt - b.order.createdAt);
+  return result;
+};
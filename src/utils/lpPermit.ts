@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import { getReadProvider, getSignerProvider } from './rpcProvider';
+
+// Signed EIP-2612 permit for the router's *WithPermit removal functions
+export interface LpPermitSignature {
+  value: bigint;
+  deadline: number;
+  v: number;
+  r: string;
+  s: string;
+}
+
+interface PermitDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+const CHAIN_ID = 15551; // LOOP Mainnet
+const DOMAIN_VERSIONS = ['1', '2'];
+
+// Verified permit domains per pair; null when the pair has no usable permit
+const domainCache = new Map<string, Promise<PermitDomain | null>>();
+
+const call = async (to: string, data: string): Promise<string | null> => {
+  try {
+    const result = await getReadProvider().request({ method: 'eth_call', params: [{ to, data }, 'latest'] });
+    return result && result !== '0x' ? result : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolves the EIP-712 domain of an LP token's permit.
+ * The pair must expose permit, nonces and DOMAIN_SEPARATOR, and the separator must match
+ * one we can rebuild from name() - otherwise a signature would be rejected on-chain.
+ */
+export const getLpPermitDomain = (pairAddress: string): Promise<PermitDomain | null> => {
+  const key = pairAddress.toLowerCase();
+  const cached = domainCache.get(key);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const [separator, nameResult, code] = await Promise.all([
+      call(pairAddress, '0x3644e515'), // DOMAIN_SEPARATOR()
+      call(pairAddress, '0x06fdde03'), // name()
+      getReadProvider().request({ method: 'eth_getCode', params: [pairAddress, 'latest'] }).catch(() => '0x')
+    ]);
+
+    // permit(address,address,uint256,uint256,uint8,bytes32,bytes32) and nonces(address) in the dispatcher
+    const bytecode = String(code).toLowerCase();
+    if (!separator || !nameResult || !bytecode.includes('63d505accf') || !bytecode.includes('637ecebe00')) {
+      return null;
+    }
+
+    const [name] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], nameResult);
+    for (const version of DOMAIN_VERSIONS) {
+      const domain = { name, version, chainId: CHAIN_ID, verifyingContract: ethers.getAddress(pairAddress) };
+      if (ethers.TypedDataEncoder.hashDomain(domain).toLowerCase() === separator.slice(0, 66).toLowerCase()) {
+        return domain;
+      }
+    }
+
+    console.log(`🔏 Permit domain for ${pairAddress} does not match DOMAIN_SEPARATOR - using approvals`);
+    return null;
+  })();
+
+  domainCache.set(key, lookup);
+  lookup.catch(() => domainCache.delete(key));
+  return lookup;
+};
+
+// Whether LP removals from this pair can skip the approval transaction
+export const supportsLpPermit = async (pairAddress: string): Promise<boolean> =>
+  (await getLpPermitDomain(pairAddress)) !== null;
+
+/**
+ * Asks the wallet to sign an EIP-2612 permit letting `spender` pull `value` LP tokens until `deadline`.
+ * Throws if the pair has no usable permit or the user rejects the signature.
+ */
+export const signLpPermit = async (
+  pairAddress: string,
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: number
+): Promise<LpPermitSignature> => {
+  const domain = await getLpPermitDomain(pairAddress);
+  if (!domain) throw new Error('This pool does not support permit signatures');
+
+  const nonceResult = await call(pairAddress, '0x7ecebe00' + owner.slice(2).toLowerCase().padStart(64, '0')); // nonces(address)
+  if (!nonceResult) throw new Error('Failed to read permit nonce');
+
+  const typedData = {
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' }
+      ],
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ]
+    },
+    primaryType: 'Permit',
+    domain,
+    message: {
+      owner,
+      spender,
+      value: value.toString(),
+      nonce: BigInt(nonceResult).toString(),
+      deadline: deadline.toString()
+    }
+  };
+
+  console.log(`🔏 Requesting LP permit signature for ${pairAddress}`);
+  const signature: string = await getSignerProvider().request({
+    method: 'eth_signTypedData_v4',
+    params: [owner, JSON.stringify(typedData)]
+  });
+
+  const { v, r, s } = ethers.Signature.from(signature);
+  return { value, deadline, v, r, s };
+};
@@ -0,0 +1,346 @@
+// Pool analytics from pair Swap events
+// Swap logs in a time window are read in block-range pages (filtered by pair address for small pair
+// sets, by topic alone for large ones) and summed per pair. Volume is valued in USD through the
+// pool's own price and the LOOP/USD oracle; LP fees follow the router's swap fee and APR annualizes
+// the last 7 days of fees over TVL.
+
+import { ethers } from 'ethers';
+import { PoolAnalytics, PoolDex, Token } from '../types';
+import { POOL_ANALYTICS_CONFIG, REACHSWAP_CONTRACTS, REACHSWAP_FEES } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS, SPHYNX_FEES } from '../constants/sphynx';
+import { getReadProvider } from './rpcProvider';
+import { getBlockAtTimestamp } from './priceHistory';
+import { estimateTvlUsd, getLoopUsdPrice } from './priceOracle';
+
+// Input amounts summed over a window, in raw token units
+export interface SwapVolume {
+  amount0In: bigint;
+  amount1In: bigint;
+  swaps: number;
+}
+
+// A pair to analyze; tokenA/tokenB may be in either order and native LOOP stands for wLOOP
+export interface PoolAnalyticsRequest {
+  pairAddress: string;
+  tokenA: Token;
+  tokenB: Token;
+}
+
+// LP positions that can be valued from analytics (LiquidityPosition and similar)
+interface AnalyticsPosition {
+  pairAddress: string;
+  token0: Token;
+  token1: Token;
+  lpTokenBalance: string;
+  poolShare: number;
+  value: number | null;
+  apr: string;
+}
+
+interface RawLog {
+  address: string;
+  data: string;
+  blockNumber: string;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+const WEEK_SECONDS = 7 * DAY_SECONDS;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const SWAP_TOPIC = ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)');
+
+// Swap fee kept by LPs, in basis points
+export const LP_FEE_BPS: Record<PoolDex, number> = {
+  reachswap: REACHSWAP_FEES.SWAP_FEE - REACHSWAP_FEES.PROTOCOL_FEE,
+  sphynx: SPHYNX_FEES.SWAP_FEE
+};
+
+const FACTORY_DEX: Record<string, PoolDex> = {
+  [REACHSWAP_CONTRACTS.FACTORY.toLowerCase()]: 'reachswap',
+  [SPHYNX_CONTRACTS.FACTORY.toLowerCase()]: 'sphynx'
+};
+
+const analyticsCache = new Map<string, { analytics: PoolAnalytics; expiresAt: number }>();
+const pendingAnalytics = new Map<string, Promise<PoolAnalytics>>();
+const pairDexCache = new Map<string, PoolDex>();
+
+const toHex = (value: number) => '0x' + value.toString(16);
+const wordAt = (data: string, index: number) => BigInt('0x' + (data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+const toAmount = (raw: bigint, decimals: number) => Number(raw) / Math.pow(10, decimals);
+
+const getLatestBlock = async (): Promise<number> =>
+  parseInt(await getReadProvider().request({ method: 'eth_blockNumber', params: [] }), 16);
+
+const addSwap = (volumes: Map<string, SwapVolume>, log: RawLog) => {
+  const pair = log.address.toLowerCase();
+  const volume = volumes.get(pair) || { amount0In: BigInt(0), amount1In: BigInt(0), swaps: 0 };
+  volume.amount0In += wordAt(log.data, 0);
+  volume.amount1In += wordAt(log.data, 1);
+  volume.swaps += 1;
+  volumes.set(pair, volume);
+};
+
+// Every Swap log from `pairs` in [fromBlock, toBlock]
+const scanSwapLogs = async (pairs: Set<string>, fromBlock: number, toBlock: number): Promise<RawLog[]> => {
+  const address = pairs.size <= POOL_ANALYTICS_CONFIG.MAX_FILTER_ADDRESSES ? [...pairs] : undefined;
+  const logs: RawLog[] = [];
+  let pageSize = POOL_ANALYTICS_CONFIG.LOG_PAGE_SIZE;
+  let next = fromBlock;
+
+  while (next <= toBlock) {
+    const ranges: [number, number][] = [];
+    for (let i = 0; i < POOL_ANALYTICS_CONFIG.PARALLEL_PAGES && next <= toBlock; i++) {
+      const end = Math.min(next + pageSize - 1, toBlock);
+      ranges.push([next, end]);
+      next = end + 1;
+    }
+
+    try {
+      const pages: RawLog[][] = await Promise.all(ranges.map(([start, end]) => getReadProvider().request<RawLog[]>({
+        method: 'eth_getLogs',
+        params: [{ ...(address ? { address } : {}), topics: [SWAP_TOPIC], fromBlock: toHex(start), toBlock: toHex(end) }]
+      })));
+      pages.forEach(page => logs.push(...page.filter(log => pairs.has(log.address.toLowerCase()))));
+    } catch (error) {
+      // Retry the same ranges with smaller pages when the node caps ranges or result counts
+      if (pageSize > POOL_ANALYTICS_CONFIG.MIN_LOG_PAGE_SIZE) {
+        pageSize = Math.max(POOL_ANALYTICS_CONFIG.MIN_LOG_PAGE_SIZE, Math.floor(pageSize / 2));
+        next = ranges[0][0];
+        console.warn(`⚠️ Swap log pages from block ${next} failed, retrying with ${pageSize} blocks`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return logs;
+};
+
+/**
+ * Sums Swap inputs per pair for every swap since `fromTimestamp` (unix seconds).
+ * Pairs without swaps are absent from the result.
+ */
+export const fetchSwapVolumes = async (
+  pairAddresses: string[],
+  fromTimestamp: number
+): Promise<Map<string, SwapVolume>> => {
+  const volumes = new Map<string, SwapVolume>();
+  const pairs = new Set(pairAddresses.map(address => address.toLowerCase()));
+  if (pairs.size === 0) return volumes;
+
+  const [startBlock, latestBlock] = await Promise.all([getBlockAtTimestamp(fromTimestamp), getLatestBlock()]);
+  (await scanSwapLogs(pairs, startBlock + 1, latestBlock)).forEach(log => addSwap(volumes, log));
+
+  console.log(`📈 Swap volume since block ${startBlock}: ${volumes.size} active pairs`);
+  return volumes;
+};
+
+/**
+ * USD value of summed swap inputs. token1 inputs are converted to token0 at the pool price,
+ * and token0 is valued through its half of the pool's TVL. Pairs without a USD TVL count no volume.
+ */
+export const valueSwapVolumeUsd = (
+  volume: SwapVolume | undefined,
+  token0: Token,
+  token1: Token,
+  reserve0: bigint,
+  reserve1: bigint,
+  tvlUsd: number | null
+): number => {
+  if (!volume || tvlUsd === null || reserve0 === BigInt(0) || reserve1 === BigInt(0)) return 0;
+
+  const amount0 = toAmount(reserve0, token0.decimals);
+  const price1 = amount0 / toAmount(reserve1, token1.decimals);
+  const volumeInToken0 = toAmount(volume.amount0In, token0.decimals) + toAmount(volume.amount1In, token1.decimals) * price1;
+  return volumeInToken0 / amount0 * (tvlUsd / 2);
+};
+
+// One log scan for the whole batch; reserves and supply are read per pair
+const runAnalytics = async (requests: PoolAnalyticsRequest[], feeBps: number): Promise<PoolAnalytics[]> => {
+  const provider = getReadProvider();
+  const call = (to: string, data: string) => provider.request({ method: 'eth_call', params: [{ to, data }, 'latest'] });
+
+  const now = Math.floor(Date.now() / 1000);
+  const [latestBlock, dayBlock, weekBlock, loopPrice, pairStates] = await Promise.all([
+    getLatestBlock(),
+    getBlockAtTimestamp(now - DAY_SECONDS),
+    getBlockAtTimestamp(now - WEEK_SECONDS),
+    getLoopUsdPrice(),
+    Promise.all(requests.map(({ pairAddress }) => Promise.all([
+      call(pairAddress, '0x0dfe1681'), // token0()
+      call(pairAddress, '0x0902f1ac'), // getReserves()
+      call(pairAddress, '0x18160ddd') // totalSupply()
+    ])))
+  ]);
+
+  const keys = requests.map(request => request.pairAddress.toLowerCase());
+  const day = new Map<string, SwapVolume>();
+  const week = new Map<string, SwapVolume>();
+  (await scanSwapLogs(new Set(keys), weekBlock + 1, latestBlock)).forEach(log => {
+    addSwap(week, log);
+    if (parseInt(log.blockNumber, 16) > dayBlock) addSwap(day, log);
+  });
+
+  return Promise.all(requests.map(async ({ pairAddress, tokenA, tokenB }, i) => {
+    const [token0Result, reserves, totalSupplyResult] = pairStates[i];
+
+    // Reserves follow the pair's sorted order
+    const addressA = tokenA.address === ZERO_ADDRESS ? REACHSWAP_CONTRACTS.WLOOP : tokenA.address;
+    const [token0, token1] = ('0x' + token0Result.slice(-40)).toLowerCase() === addressA.toLowerCase()
+      ? [tokenA, tokenB]
+      : [tokenB, tokenA];
+    const reserve0 = wordAt(reserves, 0);
+    const reserve1 = wordAt(reserves, 1);
+    const tvlUsd = await estimateTvlUsd(token0, token1, reserve0, reserve1, loopPrice, latestBlock);
+
+    const volume24hUsd = valueSwapVolumeUsd(day.get(keys[i]), token0, token1, reserve0, reserve1, tvlUsd);
+    const volume7dUsd = valueSwapVolumeUsd(week.get(keys[i]), token0, token1, reserve0, reserve1, tvlUsd);
+    const fees7dUsd = volume7dUsd * feeBps / 10000;
+
+    return {
+      pairAddress,
+      tvlUsd,
+      totalSupply: BigInt(totalSupplyResult || '0x0').toString(),
+      volume24hUsd,
+      volume7dUsd,
+      fees24hUsd: volume24hUsd * feeBps / 10000,
+      fees7dUsd,
+      apr: tvlUsd ? fees7dUsd / 7 * 365 / tvlUsd * 100 : 0,
+      swaps24h: day.get(keys[i])?.swaps || 0,
+      swaps7d: week.get(keys[i])?.swaps || 0,
+      updatedAt: Date.now()
+    };
+  }));
+};
+
+// DEX a pair belongs to, from its factory(); pairs of other factories are treated as ReachSwap
+const getPairDex = async (pairAddress: string): Promise<PoolDex> => {
+  const key = pairAddress.toLowerCase();
+  const cached = pairDexCache.get(key);
+  if (cached) return cached;
+
+  const result = await getReadProvider().request({
+    method: 'eth_call',
+    params: [{ to: pairAddress, data: '0xc45a0155' }, 'latest'] // factory()
+  });
+  const dex = FACTORY_DEX[('0x' + (result || '').slice(-40)).toLowerCase()] || 'reachswap';
+  pairDexCache.set(key, dex);
+  return dex;
+};
+
+// Analyze pairs with the LP fee of the DEX each belongs to; results follow the request order
+const runAnalyticsByDex = async (requests: PoolAnalyticsRequest[]): Promise<PoolAnalytics[]> => {
+  const dexes = await Promise.all(requests.map(request => getPairDex(request.pairAddress)));
+  const analyticsList: PoolAnalytics[] = new Array(requests.length);
+
+  await Promise.all((Object.keys(LP_FEE_BPS) as PoolDex[]).map(async dex => {
+    const indices = requests.map((_, i) => i).filter(i => dexes[i] === dex);
+    if (indices.length === 0) return;
+
+    const results = await runAnalytics(indices.map(i => requests[i]), LP_FEE_BPS[dex]);
+    indices.forEach((index, j) => { analyticsList[index] = results[j]; });
+  }));
+
+  return analyticsList;
+};
+
+/**
+ * 24h/7d volume, LP fees, TVL and fee APR for several pairs, keyed by lowercase pair address.
+ * Fees use the LP fee of the DEX whose factory created the pair. Results are cached per pair for
+ * POOL_ANALYTICS_CONFIG.CACHE_TTL and pairs already being analyzed share the running scan.
+ */
+export const getPoolsAnalytics = async (
+  requests: PoolAnalyticsRequest[],
+  force = false
+): Promise<Map<string, PoolAnalytics>> => {
+  const results = new Map<string, PoolAnalytics>();
+  const waiting: Promise<void>[] = [];
+  const toRun: PoolAnalyticsRequest[] = [];
+
+  requests.forEach(request => {
+    const key = request.pairAddress.toLowerCase();
+    const cached = analyticsCache.get(key);
+    const pending = pendingAnalytics.get(key);
+
+    if (!force && cached && cached.expiresAt > Date.now()) {
+      results.set(key, cached.analytics);
+    } else if (pending) {
+      waiting.push(pending.then(analytics => { results.set(key, analytics); }));
+    } else if (!toRun.some(queued => queued.pairAddress.toLowerCase() === key)) {
+      toRun.push(request);
+    }
+  });
+
+  if (toRun.length > 0) {
+    console.log(`📈 Analyzing ${toRun.length} pools`);
+    const batch = runAnalyticsByDex(toRun);
+
+    toRun.forEach((request, i) => {
+      const key = request.pairAddress.toLowerCase();
+      const run = batch
+        .then(analyticsList => {
+          const analytics = analyticsList[i];
+          analyticsCache.set(key, { analytics, expiresAt: Date.now() + POOL_ANALYTICS_CONFIG.CACHE_TTL });
+          return analytics;
+        })
+        .finally(() => pendingAnalytics.delete(key));
+
+      pendingAnalytics.set(key, run);
+      waiting.push(run.then(analytics => { results.set(key, analytics); }));
+    });
+  }
+
+  await Promise.all(waiting);
+  return results;
+};
+
+// Analytics for a single pair (see getPoolsAnalytics)
+export const getPoolAnalytics = async (
+  pairAddress: string,
+  tokenA: Token,
+  tokenB: Token,
+  force = false
+): Promise<PoolAnalytics> => {
+  const results = await getPoolsAnalytics([{ pairAddress, tokenA, tokenB }], force);
+  return results.get(pairAddress.toLowerCase())!;
+};
+
+// Cached analytics without triggering a scan
+export const getCachedPoolAnalytics = (pairAddress: string): PoolAnalytics | null => {
+  const cached = analyticsCache.get(pairAddress.toLowerCase());
+  return cached && cached.expiresAt > Date.now() ? cached.analytics : null;
+};
+
+/**
+ * Re-values LP positions from their pools' analytics: share of the current LP supply,
+ * USD value as that share of TVL, and the pool's fee APR. Positions whose pool could not be
+ * analyzed are returned unchanged.
+ */
+export const applyPoolAnalytics = async <T extends AnalyticsPosition>(positions: T[]): Promise<T[]> => {
+  if (positions.length === 0) return positions;
+
+  let analytics: Map<string, PoolAnalytics>;
+  try {
+    analytics = await getPoolsAnalytics(positions.map(position => ({
+      pairAddress: position.pairAddress,
+      tokenA: position.token0,
+      tokenB: position.token1
+    })));
+  } catch (error) {
+    console.warn('⚠️ Pool analytics unavailable for positions:', error);
+    return positions;
+  }
+
+  return positions.map(position => {
+    const pool = analytics.get(position.pairAddress.toLowerCase());
+    if (!pool) return position;
+
+    const totalSupply = Number(pool.totalSupply) / 1e18;
+    const poolShare = totalSupply > 0 ? parseFloat(position.lpTokenBalance) / totalSupply * 100 : position.poolShare;
+    return {
+      ...position,
+      poolShare,
+      value: pool.tvlUsd === null ? null : pool.tvlUsd * poolShare / 100,
+      apr: `${pool.apr.toFixed(2)}%`
+    };
+  });
+};
@@ -0,0 +1,193 @@
+// LP position accounting from the user's indexed Mint/Burn history
+// Deposits still in a position are tracked per pair (each removal shrinks them pro rata) and
+// compared with the position today: HODL value is those deposits at the current pool price, fees
+// are the growth of sqrt(reserve0 * reserve1) per LP token since entry - the same measure the pair
+// uses for kLast - and impermanent loss is the remaining gap to HODL once fees are taken out.
+// Entry value prices each deposit at its own block, so moves in LOOP/USD show up in net P&L.
+
+import { ethers } from 'ethers';
+import { HistoryEvent, PositionPnl, Token } from '../types';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { getReadProvider } from './rpcProvider';
+import { estimateTvlUsd, getLoopUsdPrice, getLoopUsdPriceAtBlock } from './priceOracle';
+
+// LP positions that can be accounted (LiquidityPosition and similar)
+interface PnlPosition {
+  pairAddress: string;
+  token0: Token;
+  token1: Token;
+  rewards: number;
+  pnl?: PositionPnl;
+}
+
+// Deposits still in a position according to the history, in token units of the pair's order
+interface OpenDeposits {
+  liquidity: number;
+  amount0: number;
+  amount1: number;
+  rootK: number; // Sum of sqrt(amount0 * amount1) over deposits
+  entryValueUsd: number;
+  firstDepositAt: number;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const BALANCE_TOLERANCE = 0.001; // Relative LP difference still treated as a complete history
+
+const wordAt = (data: string, index: number) => BigInt('0x' + (data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+const toAmount = (raw: bigint, decimals: number) => Number(raw) / Math.pow(10, decimals);
+
+// Replay a pair's liquidity events oldest first; null when a deposit cannot be priced in USD
+const replayDeposits = async (events: HistoryEvent[], token0: Token, token1: Token): Promise<OpenDeposits | null> => {
+  const open: OpenDeposits = { liquidity: 0, amount0: 0, amount1: 0, rootK: 0, entryValueUsd: 0, firstDepositAt: 0 };
+  const ordered = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const event of ordered) {
+    const liquidity = parseFloat(event.liquidity || '0');
+    if (!(liquidity > 0) || event.tokens.length < 2) continue;
+
+    if (event.type === 'add') {
+      const amount0 = parseFloat(event.tokens[0].amount);
+      const amount1 = parseFloat(event.tokens[1].amount);
+      if (open.liquidity === 0) open.firstDepositAt = event.timestamp;
+
+      open.liquidity += liquidity;
+      open.amount0 += amount0;
+      open.amount1 += amount1;
+      open.rootK += Math.sqrt(amount0 * amount1);
+      // Deposits go in at the pool ratio, so valuing them like a pool at their block prices them as
+      // they were then: tokens through their wLOOP pairs and LOOP through the stable pair at that block
+      const depositValueUsd = await estimateTvlUsd(
+        token0,
+        token1,
+        ethers.parseUnits(event.tokens[0].amount, event.tokens[0].decimals),
+        ethers.parseUnits(event.tokens[1].amount, event.tokens[1].decimals),
+        await getLoopUsdPriceAtBlock(event.blockNumber),
+        event.blockNumber
+      );
+      if (depositValueUsd === null) return null;
+      open.entryValueUsd += depositValueUsd;
+    } else if (event.type === 'remove' && open.liquidity > 0) {
+      const kept = Math.max(0, 1 - liquidity / open.liquidity);
+      open.liquidity *= kept;
+      open.amount0 *= kept;
+      open.amount1 *= kept;
+      open.rootK *= kept;
+      open.entryValueUsd *= kept;
+      if (kept === 0) open.firstDepositAt = 0;
+    }
+  }
+
+  return open;
+};
+
+/**
+ * P&L for one position from its pair's liquidity events and current on-chain state.
+ * `token0`/`token1` must be in the pair's order. Returns null without any open deposit in the history
+ * or when the pair cannot be priced in USD.
+ */
+export const computePositionPnl = async (
+  events: HistoryEvent[],
+  token0: Token,
+  token1: Token,
+  reserve0: bigint,
+  reserve1: bigint,
+  totalSupply: bigint,
+  lpBalance: bigint,
+  loopPrice: number
+): Promise<PositionPnl | null> => {
+  const open = await replayDeposits(events, token0, token1);
+  if (!open) return null;
+
+  const balance = toAmount(lpBalance, 18);
+  const supply = toAmount(totalSupply, 18);
+  const amount0 = toAmount(reserve0, token0.decimals);
+  const amount1 = toAmount(reserve1, token1.decimals);
+  if (open.liquidity <= 0 || balance <= 0 || supply <= 0 || amount0 <= 0 || amount1 <= 0) return null;
+
+  // LP gained or moved outside the indexed history is assumed to share the tracked entry terms
+  const scale = balance / open.liquidity;
+  const tvlUsd = await estimateTvlUsd(token0, token1, reserve0, reserve1, loopPrice);
+  if (tvlUsd === null) return null;
+  const currentValueUsd = tvlUsd * balance / supply;
+
+  // Value in token1 at the current pool price, converted through the position's own USD value
+  const token1Usd = currentValueUsd / (2 * amount1 * balance / supply);
+  const hodlValueUsd = (open.amount0 * amount1 / amount0 + open.amount1) * scale * token1Usd;
+  const entryValueUsd = open.entryValueUsd * scale;
+
+  // Swap fees stay in the reserves, so they show up as growth of sqrt(k) per LP token
+  const rootKGrowth = (Math.sqrt(amount0 * amount1) / supply) / (open.rootK / open.liquidity);
+  const feesEarnedUsd = rootKGrowth > 1 ? currentValueUsd * (1 - 1 / rootKGrowth) : 0;
+
+  const impermanentLossUsd = currentValueUsd - feesEarnedUsd - hodlValueUsd;
+  const netPnlUsd = currentValueUsd - entryValueUsd;
+
+  return {
+    entryValueUsd,
+    hodlValueUsd,
+    currentValueUsd,
+    feesEarnedUsd,
+    impermanentLossUsd,
+    impermanentLossPercent: hodlValueUsd > 0 ? impermanentLossUsd / hodlValueUsd * 100 : 0,
+    netPnlUsd,
+    netPnlPercent: entryValueUsd > 0 ? netPnlUsd / entryValueUsd * 100 : 0,
+    firstDepositAt: open.firstDepositAt,
+    isComplete: Math.abs(scale - 1) <= BALANCE_TOLERANCE
+  };
+};
+
+/**
+ * Adds P&L to LP positions from `events` (the account's indexed history) and sets `rewards` to the
+ * fees earned. Positions without deposits in the history keep no P&L and zero rewards.
+ */
+export const applyPositionPnl = async <T extends PnlPosition>(
+  account: string,
+  positions: T[],
+  events: HistoryEvent[]
+): Promise<T[]> => {
+  if (positions.length === 0) return positions;
+
+  const provider = getReadProvider();
+  const call = (to: string, data: string) => provider.request({ method: 'eth_call', params: [{ to, data }, 'latest'] });
+  const balanceOfData = '0x70a08231' + account.slice(2).toLowerCase().padStart(64, '0'); // balanceOf(address)
+
+  const loopPrice = await getLoopUsdPrice();
+
+  return Promise.all(positions.map(async position => {
+    const pairEvents = events.filter(event =>
+      (event.type === 'add' || event.type === 'remove') &&
+      event.pairAddress?.toLowerCase() === position.pairAddress.toLowerCase()
+    );
+    if (pairEvents.length === 0) return { ...position, pnl: undefined, rewards: 0 };
+
+    try {
+      const [token0Result, reserves, totalSupplyResult, balanceResult] = await Promise.all([
+        call(position.pairAddress, '0x0dfe1681'), // token0()
+        call(position.pairAddress, '0x0902f1ac'), // getReserves()
+        call(position.pairAddress, '0x18160ddd'), // totalSupply()
+        call(position.pairAddress, balanceOfData)
+      ]);
+
+      // Positions may list their tokens in either order; reserves and events follow the pair's
+      const address0 = position.token0.address === ZERO_ADDRESS ? REACHSWAP_CONTRACTS.WLOOP : position.token0.address;
+      const [token0, token1] = ('0x' + token0Result.slice(-40)).toLowerCase() === address0.toLowerCase()
+        ? [position.token0, position.token1]
+        : [position.token1, position.token0];
+
+      const pnl = await computePositionPnl(
+        pairEvents,
+        token0,
+        token1,
+        wordAt(reserves, 0),
+        wordAt(reserves, 1),
+        BigInt(totalSupplyResult || '0x0'),
+        BigInt(balanceResult || '0x0'),
+        loopPrice
+      );
+      return { ...position, pnl: pnl || undefined, rewards: pnl?.feesEarnedUsd || 0 };
+    } catch (error) {
+      console.warn(`⚠️ Could not compute P&L for ${position.pairAddress}:`, error);
+      return position;
+    }
+  }));
+};
@@ -0,0 +1,273 @@
+// Swap pair price candles from pair Sync and Swap events
+// Each pair's Sync (reserves after every trade or liquidity change) and Swap (volume) logs are
+// cached for the session together with the block range they cover, so refreshes and interval
+// changes only fetch blocks outside that range. A route's price is the product of its hop prices,
+// which is how multi-hop pairs are charted through WLOOP. Log timestamps are interpolated between
+// the block timestamps at each page's ends rather than read per block.
+
+import { ethers } from 'ethers';
+import { CandleInterval, PriceCandle, Token } from '../types';
+import { PRICE_CHART_CONFIG, REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { getReadProvider } from './rpcProvider';
+import { getBlockAtTimestamp, getBlockTimestamp, getReservesAtBlock } from './priceHistory';
+
+interface RawLog {
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  logIndex: string;
+}
+
+// A Sync (price) or Swap (volume) event of a pair, in raw token units
+interface PairPoint {
+  block: number;
+  logIndex: number;
+  timestamp: number;
+  price?: number; // reserve1 / reserve0 after the event, Sync only
+  volume0: number; // token0 in + out, Swap only
+  volume1: number;
+}
+
+interface PairSeries {
+  fromBlock: number;
+  toBlock: number;
+  points: PairPoint[];
+}
+
+// One hop of a route and the direction it is traded in
+interface RouteHop {
+  pair: string;
+  inputIsToken0: boolean;
+  decimalsIn: number;
+  decimalsOut: number;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const TOPICS = {
+  SYNC: ethers.id('Sync(uint112,uint112)'),
+  SWAP: ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)')
+};
+
+const seriesCache = new Map<string, PairSeries>();
+const pendingLoads = new Map<string, Promise<PairSeries>>();
+
+const toHex = (value: number) => '0x' + value.toString(16);
+const wordAt = (data: string, index: number) => BigInt('0x' + (data.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+const toPathAddress = (token: Token) => token.address === ZERO_ADDRESS ? REACHSWAP_CONTRACTS.WLOOP : token.address;
+const byPosition = (a: PairPoint, b: PairPoint) => a.block - b.block || a.logIndex - b.logIndex;
+
+const fetchPage = async (pair: string, fromBlock: number, toBlock: number): Promise<PairPoint[]> => {
+  const logs: RawLog[] = await getReadProvider().request({
+    method: 'eth_getLogs',
+    params: [{ address: pair, topics: [[TOPICS.SYNC, TOPICS.SWAP]], fromBlock: toHex(fromBlock), toBlock: toHex(toBlock) }]
+  });
+  if (logs.length === 0) return [];
+
+  const [startTime, endTime] = await Promise.all([getBlockTimestamp(fromBlock), getBlockTimestamp(toBlock)]);
+  const secondsPerBlock = toBlock > fromBlock ? (endTime - startTime) / (toBlock - fromBlock) : 0;
+
+  return logs.map((log): PairPoint => {
+    const block = parseInt(log.blockNumber, 16);
+    const base = {
+      block,
+      logIndex: parseInt(log.logIndex, 16),
+      timestamp: startTime + (block - fromBlock) * secondsPerBlock
+    };
+
+    if (log.topics[0] === TOPICS.SYNC) {
+      const reserve0 = wordAt(log.data, 0);
+      const reserve1 = wordAt(log.data, 1);
+      return {
+        ...base,
+        price: reserve0 > BigInt(0) && reserve1 > BigInt(0) ? Number(reserve1) / Number(reserve0) : undefined,
+        volume0: 0,
+        volume1: 0
+      };
+    }
+
+    // Swap(sender, amount0In, amount1In, amount0Out, amount1Out, to)
+    return {
+      ...base,
+      volume0: Number(wordAt(log.data, 0) + wordAt(log.data, 2)),
+      volume1: Number(wordAt(log.data, 1) + wordAt(log.data, 3))
+    };
+  });
+};
+
+// Every Sync and Swap of a pair in [fromBlock, toBlock]
+const fetchPairPoints = async (pair: string, fromBlock: number, toBlock: number): Promise<PairPoint[]> => {
+  const points: PairPoint[] = [];
+  let pageSize = PRICE_CHART_CONFIG.LOG_PAGE_SIZE;
+  let next = fromBlock;
+
+  while (next <= toBlock) {
+    const ranges: [number, number][] = [];
+    for (let i = 0; i < PRICE_CHART_CONFIG.PARALLEL_PAGES && next <= toBlock; i++) {
+      const end = Math.min(next + pageSize - 1, toBlock);
+      ranges.push([next, end]);
+      next = end + 1;
+    }
+
+    try {
+      const pages = await Promise.all(ranges.map(([start, end]) => fetchPage(pair, start, end)));
+      pages.forEach(page => points.push(...page));
+    } catch (error) {
+      // Retry the same ranges with smaller pages when the node caps ranges or result counts
+      if (pageSize > PRICE_CHART_CONFIG.MIN_LOG_PAGE_SIZE) {
+        pageSize = Math.max(PRICE_CHART_CONFIG.MIN_LOG_PAGE_SIZE, Math.floor(pageSize / 2));
+        next = ranges[0][0];
+        console.warn(`⚠️ Price log pages from block ${next} failed, retrying with ${pageSize} blocks`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return points;
+};
+
+// The pair's cached series, extended to cover [fromBlock, toBlock]
+const loadPairSeries = (pair: string, fromBlock: number, toBlock: number): Promise<PairSeries> => {
+  const key = pair.toLowerCase();
+
+  // Loads of one pair run one after another so each extends what the previous one cached
+  const previous = pendingLoads.get(key) || Promise.resolve(null);
+  const load = previous.catch(() => null).then(async (): Promise<PairSeries> => {
+    const cached = seriesCache.get(key);
+    if (cached && cached.fromBlock <= fromBlock && cached.toBlock >= toBlock) return cached;
+
+    const [older, newer] = cached
+      ? await Promise.all([
+        fromBlock < cached.fromBlock ? fetchPairPoints(pair, fromBlock, cached.fromBlock - 1) : Promise.resolve([]),
+        toBlock > cached.toBlock ? fetchPairPoints(pair, cached.toBlock + 1, toBlock) : Promise.resolve([])
+      ])
+      : [await fetchPairPoints(pair, fromBlock, toBlock), []];
+
+    const series: PairSeries = {
+      fromBlock: Math.min(fromBlock, cached?.fromBlock ?? fromBlock),
+      toBlock: Math.max(toBlock, cached?.toBlock ?? toBlock),
+      points: [...older, ...(cached?.points || []), ...newer].sort(byPosition)
+    };
+
+    console.log(`🕯️ Cached ${series.points.length} price events for ${pair} (blocks ${series.fromBlock}-${series.toBlock})`);
+    seriesCache.set(key, series);
+    return series;
+  });
+
+  pendingLoads.set(key, load);
+  const cleanup = () => {
+    if (pendingLoads.get(key) === load) pendingLoads.delete(key);
+  };
+  load.then(cleanup, cleanup);
+  return load;
+};
+
+const resolveHop = async (factory: string, tokenIn: Token, tokenOut: Token): Promise<RouteHop | null> => {
+  const addressIn = toPathAddress(tokenIn).toLowerCase();
+  const addressOut = toPathAddress(tokenOut).toLowerCase();
+  const inputIsToken0 = addressIn < addressOut;
+  const [sorted0, sorted1] = inputIsToken0 ? [addressIn, addressOut] : [addressOut, addressIn];
+
+  const result = await getReadProvider().request({
+    method: 'eth_call',
+    params: [{ to: factory, data: '0xe6a43905' + sorted0.slice(2).padStart(64, '0') + sorted1.slice(2).padStart(64, '0') }, 'latest'] // getPair(address,address)
+  });
+  const pair = result ? '0x' + result.slice(-40) : ZERO_ADDRESS;
+  if (pair === ZERO_ADDRESS) return null;
+
+  return { pair, inputIsToken0, decimalsIn: tokenIn.decimals, decimalsOut: tokenOut.decimals };
+};
+
+// Output tokens per input token from a raw reserve1 / reserve0 ratio
+const toHopPrice = (hop: RouteHop, rawPrice: number) =>
+  (hop.inputIsToken0 ? rawPrice : 1 / rawPrice) * Math.pow(10, hop.decimalsIn - hop.decimalsOut);
+
+// The hop's price as of `block`: the last cached Sync, else the reserves read at that block
+const getHopPriceAt = async (hop: RouteHop, series: PairSeries, block: number): Promise<number | null> => {
+  const lastSync = series.points.filter(point => point.block <= block && point.price !== undefined).pop();
+  if (lastSync) return toHopPrice(hop, lastSync.price!);
+
+  const reserves = await getReservesAtBlock(hop.pair, block);
+  if (!reserves || reserves.reserve0 === BigInt(0) || reserves.reserve1 === BigInt(0)) return null;
+  return toHopPrice(hop, Number(reserves.reserve1) / Number(reserves.reserve0));
+};
+
+/**
+ * OHLC candles of the last token of `path` per the first, over the last CANDLE_COUNT intervals.
+ * `path` is the route's tokens (native LOOP is traded as WLOOP) and `factory` the router's factory.
+ * Intervals without trades repeat the previous close with zero volume.
+ */
+export const loadPriceCandles = async (
+  factory: string,
+  path: Token[],
+  interval: CandleInterval
+): Promise<PriceCandle[]> => {
+  const hops = await Promise.all(path.slice(0, -1).map((token, i) => resolveHop(factory, token, path[i + 1])));
+  if (hops.some(hop => hop === null)) {
+    throw new Error(`No pair for ${path.map(token => token.symbol).join('/')} on this router`);
+  }
+  const routeHops = hops as RouteHop[];
+
+  const seconds = PRICE_CHART_CONFIG.INTERVAL_SECONDS[interval];
+  const count = PRICE_CHART_CONFIG.CANDLE_COUNT[interval];
+  const start = Math.floor(Date.now() / 1000 / seconds) * seconds - (count - 1) * seconds;
+
+  const [latestBlock, startBlock] = await Promise.all([
+    getReadProvider().request({ method: 'eth_blockNumber', params: [] }).then((block: string) => parseInt(block, 16)),
+    getBlockAtTimestamp(start)
+  ]);
+
+  const series = await Promise.all(routeHops.map(hop => loadPairSeries(hop.pair, startBlock, latestBlock)));
+
+  // Opening prices: state after startBlock, else the first price in the window, else the current one
+  const prices = await Promise.all(routeHops.map(async (hop, i) => {
+    const opening = await getHopPriceAt(hop, series[i], startBlock);
+    if (opening !== null) return opening;
+
+    const firstSync = series[i].points.find(point => point.block > startBlock && point.price !== undefined);
+    return firstSync ? toHopPrice(hop, firstSync.price!) : getHopPriceAt(hop, series[i], latestBlock);
+  }));
+  if (prices.some(price => price === null || !isFinite(price))) {
+    throw new Error('No price data for this pair');
+  }
+
+  const hopPrices = prices as number[];
+  const routePrice = () => hopPrices.reduce((product, price) => product * price, 1);
+
+  // All hops' events after startBlock in chain order
+  const events = series
+    .flatMap((hopSeries, hopIndex) => hopSeries.points
+      .filter(point => point.block > startBlock && point.block <= latestBlock)
+      .map(point => ({ hopIndex, point })))
+    .sort((a, b) => byPosition(a.point, b.point));
+
+  const volumeScale = Math.pow(10, routeHops[0].decimalsIn);
+  const candles: PriceCandle[] = [];
+  let close = routePrice();
+  let cursor = 0;
+
+  for (let i = 0; i < count; i++) {
+    const time = start + i * seconds;
+    const candle: PriceCandle = { time, open: close, high: close, low: close, close, volume: 0 };
+
+    while (cursor < events.length && events[cursor].point.timestamp < time + seconds) {
+      const { hopIndex, point } = events[cursor++];
+      const hop = routeHops[hopIndex];
+
+      if (point.price !== undefined) {
+        hopPrices[hopIndex] = toHopPrice(hop, point.price);
+        const price = routePrice();
+        candle.high = Math.max(candle.high, price);
+        candle.low = Math.min(candle.low, price);
+        candle.close = price;
+      } else if (hopIndex === 0) {
+        candle.volume += (hop.inputIsToken0 ? point.volume0 : point.volume1) / volumeScale;
+      }
+    }
+
+    close = candle.close;
+    candles.push(candle);
+  }
+
+  return candles;
+};
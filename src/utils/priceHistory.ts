@@ -0,0 +1,204 @@
+// Historical token prices from pair reserves
+// Prices are read from each token's wLOOP pair at a past block. The block for a point in time is
+// found by binary search on block timestamps; timestamps, block lookups and reserves at a block are
+// immutable, so successful reads are cached for the session.
+
+import { Token } from '../types';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { getReadProvider } from './rpcProvider';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const LOOKUP_BUCKET_SECONDS = 5 * 60; // Targets within the same 5 minutes share one block lookup
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+interface PairReserves {
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+interface LoopPair {
+  address: string;
+  tokenIsToken0: boolean;
+}
+
+const blockTimestampCache = new Map<number, number>();
+const blockLookupCache = new Map<number, Promise<number>>();
+const reservesCache = new Map<string, Promise<PairReserves | null>>();
+const loopPairCache = new Map<string, Promise<LoopPair | null>>();
+
+const toHex = (value: number) => '0x' + value.toString(16);
+
+const isLoopToken = (address: string) =>
+  address === ZERO_ADDRESS || address.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase();
+
+// Block timestamp in seconds
+export const getBlockTimestamp = async (blockNumber: number): Promise<number> => {
+  const cached = blockTimestampCache.get(blockNumber);
+  if (cached !== undefined) return cached;
+
+  const block = await getReadProvider().request<{ timestamp: string }>({
+    method: 'eth_getBlockByNumber',
+    params: [toHex(blockNumber), false]
+  });
+  const timestamp = parseInt(block.timestamp, 16);
+  blockTimestampCache.set(blockNumber, timestamp);
+  return timestamp;
+};
+
+// Last block mined at or before the given unix timestamp (seconds)
+export const getBlockAtTimestamp = (timestamp: number): Promise<number> => {
+  const bucket = Math.floor(timestamp / LOOKUP_BUCKET_SECONDS) * LOOKUP_BUCKET_SECONDS;
+  const cached = blockLookupCache.get(bucket);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const latestBlock = parseInt(await getReadProvider().request({ method: 'eth_blockNumber', params: [] }), 16);
+    if (await getBlockTimestamp(latestBlock) <= bucket) return latestBlock;
+
+    let low = 0;
+    let high = latestBlock;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (await getBlockTimestamp(mid) <= bucket) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    console.log(`🕒 Block ${low} is the last block before ${new Date(bucket * 1000).toISOString()}`);
+    return low;
+  })();
+
+  // Failed lookups are retried on the next call
+  blockLookupCache.set(bucket, lookup);
+  lookup.catch(() => blockLookupCache.delete(bucket));
+  return lookup;
+};
+
+// Reserves of a pair at a block; null if the pair did not exist yet or the read failed
+export const getReservesAtBlock = (pairAddress: string, blockNumber: number): Promise<PairReserves | null> => {
+  const key = `${pairAddress.toLowerCase()}-${blockNumber}`;
+  const cached = reservesCache.get(key);
+  if (cached) return cached;
+
+  const lookup = getReadProvider().request({
+    method: 'eth_call',
+    params: [{ to: pairAddress, data: '0x0902f1ac' }, toHex(blockNumber)] // getReserves()
+  }).then((result: string) => {
+    if (!result || result.length < 130) return null;
+    const data = result.slice(2);
+    return {
+      reserve0: BigInt('0x' + data.slice(0, 64)),
+      reserve1: BigInt('0x' + data.slice(64, 128))
+    };
+  }).catch(error => {
+    // Failed reads are retried on the next call rather than cached as a missing pair
+    console.warn(`Error reading reserves of ${pairAddress} at block ${blockNumber}:`, error);
+    reservesCache.delete(key);
+    return null;
+  });
+
+  reservesCache.set(key, lookup);
+  return lookup;
+};
+
+// The token's wLOOP pair with the most wLOOP liquidity across ReachSwap and Sphynx
+const getLoopPair = (token: Token): Promise<LoopPair | null> => {
+  const key = token.address.toLowerCase();
+  const cached = loopPairCache.get(key);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const provider = getReadProvider();
+    const wloop = REACHSWAP_CONTRACTS.WLOOP;
+    const tokenIsToken0 = token.address.toLowerCase() < wloop.toLowerCase();
+    const [sorted0, sorted1] = tokenIsToken0 ? [token.address, wloop] : [wloop, token.address];
+    const getPairData = '0xe6a43905' + sorted0.slice(2).padStart(64, '0') + sorted1.slice(2).padStart(64, '0');
+
+    const latestBlock = parseInt(await provider.request({ method: 'eth_blockNumber', params: [] }), 16);
+    let best: LoopPair | null = null;
+    let bestLoopReserve = BigInt(0);
+
+    for (const factory of [REACHSWAP_CONTRACTS.FACTORY, SPHYNX_CONTRACTS.FACTORY]) {
+      const pairResult = await provider.request({
+        method: 'eth_call',
+        params: [{ to: factory, data: getPairData }, 'latest']
+      }).catch(() => null);
+
+      const pairAddress = pairResult ? '0x' + pairResult.slice(-40) : ZERO_ADDRESS;
+      if (pairAddress === ZERO_ADDRESS) continue;
+
+      const reserves = await getReservesAtBlock(pairAddress, latestBlock);
+      const loopReserve = reserves ? (tokenIsToken0 ? reserves.reserve1 : reserves.reserve0) : BigInt(0);
+      if (loopReserve > bestLoopReserve) {
+        bestLoopReserve = loopReserve;
+        best = { address: pairAddress, tokenIsToken0 };
+      }
+    }
+
+    return best;
+  })();
+
+  loopPairCache.set(key, lookup);
+  lookup.catch(() => loopPairCache.delete(key));
+  return lookup;
+};
+
+// Token price in LOOP at a block, from its wLOOP pair reserves
+export const getLoopPriceAtBlock = async (token: Token, blockNumber: number): Promise<number | null> => {
+  if (isLoopToken(token.address)) return 1;
+
+  const pair = await getLoopPair(token);
+  if (!pair) return null;
+
+  const reserves = await getReservesAtBlock(pair.address, blockNumber);
+  if (!reserves) return null;
+
+  const tokenReserve = pair.tokenIsToken0 ? reserves.reserve0 : reserves.reserve1;
+  const loopReserve = pair.tokenIsToken0 ? reserves.reserve1 : reserves.reserve0;
+  if (tokenReserve === BigInt(0) || loopReserve === BigInt(0)) return null;
+
+  return (Number(loopReserve) / Number(tokenReserve)) * Math.pow(10, token.decimals - 18);
+};
+
+// 24h USD price change in percent per token address (lowercase); tokens without history are left out.
+// Token prices are read in LOOP and converted with the LOOP/USD price at the same block, so LOOP
+// itself moves with LOOP/USD. The LOOP/USD lookup is passed in by the caller (see priceOracle).
+export const getPriceChanges24h = async (
+  tokens: Token[],
+  getLoopUsdAtBlock: (blockNumber: number) => Promise<number>
+): Promise<Record<string, number>> => {
+  const now = Math.floor(Date.now() / 1000);
+  const [latestBlock, pastBlock] = await Promise.all([
+    getReadProvider().request({ method: 'eth_blockNumber', params: [] }).then((block: string) => parseInt(block, 16)),
+    getBlockAtTimestamp(now - DAY_SECONDS)
+  ]);
+  const [currentLoopUsd, pastLoopUsd] = await Promise.all([
+    getLoopUsdAtBlock(latestBlock),
+    getLoopUsdAtBlock(pastBlock)
+  ]);
+
+  const changes: Record<string, number> = {};
+
+  await Promise.all(tokens.map(async token => {
+    try {
+      const [currentPrice, pastPrice] = await Promise.all([
+        getLoopPriceAtBlock(token, latestBlock),
+        getLoopPriceAtBlock(token, pastBlock)
+      ]);
+
+      if (currentPrice && pastPrice && pastLoopUsd > 0) {
+        const currentUsd = currentPrice * currentLoopUsd;
+        const pastUsd = pastPrice * pastLoopUsd;
+        changes[token.address.toLowerCase()] = ((currentUsd - pastUsd) / pastUsd) * 100;
+      }
+    } catch (error) {
+      console.warn(`Error computing 24h change for ${token.symbol}:`, error);
+    }
+  }));
+
+  return changes;
+};
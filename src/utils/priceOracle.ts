@@ -0,0 +1,285 @@
+// LOOP/USD price oracle
+// LOOP is priced against a wLOOP/stablecoin pair on ReachSwap or Sphynx, either from spot reserves or
+// as a TWAP over price0CumulativeLast/price1CumulativeLast. Stablecoin candidates are the built-in and
+// enabled token list tokens with a stablecoin symbol; the wLOOP pair holding the most stablecoins is
+// used. Every USD valuation in the app goes through this module; the fallback price is only used
+// while no stable pair is readable.
+
+import { Token } from '../types';
+import { PRICE_ORACLE_CONFIG, REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { TOKENS } from '../constants/tokens';
+import { getReadProvider } from './rpcProvider';
+import { getBlockAtTimestamp, getBlockTimestamp, getLoopPriceAtBlock, getReservesAtBlock } from './priceHistory';
+import { getEnabledListTokens } from './tokenLists';
+
+export interface LoopUsdPrice {
+  price: number;
+  source: 'spot' | 'twap' | 'fallback';
+  timestamp: number;
+}
+
+// The wLOOP/stablecoin pair LOOP is priced against
+interface StablePair {
+  address: string;
+  stable: Token;
+  loopIsToken0: boolean;
+}
+
+interface PairState {
+  reserve0: bigint;
+  reserve1: bigint;
+  blockTimestampLast: number;
+  price0CumulativeLast: bigint;
+  price1CumulativeLast: bigint;
+}
+
+type PriceListener = (price: LoopUsdPrice) => void;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const Q112 = BigInt(2) ** BigInt(112);
+const UINT256 = BigInt(2) ** BigInt(256);
+
+const listeners = new Set<PriceListener>();
+let current: LoopUsdPrice = { price: PRICE_ORACLE_CONFIG.FALLBACK_PRICE, source: 'fallback', timestamp: 0 };
+let inFlight: Promise<LoopUsdPrice> | null = null;
+let stablePairLookup: { pair: Promise<StablePair | null>; resolvedAt: number } | null = null;
+
+const toHex = (value: number) => '0x' + value.toString(16);
+const word = (result: string, index = 0) => BigInt('0x' + (result.slice(2 + index * 64, 2 + (index + 1) * 64) || '0'));
+
+// Tokens with a stablecoin symbol among the built-in tokens and enabled token lists, one per address
+const getStableCandidates = (): Token[] => {
+  const symbols = PRICE_ORACLE_CONFIG.STABLE_SYMBOLS;
+  const candidates = new Map<string, Token>();
+  [...Object.values(TOKENS), ...getEnabledListTokens()]
+    .filter(token => symbols.includes(token.symbol.toUpperCase()))
+    .forEach(token => {
+      if (!candidates.has(token.address.toLowerCase())) candidates.set(token.address.toLowerCase(), token);
+    });
+  return [...candidates.values()];
+};
+
+// wLOOP pair of a stablecoin on one factory with its stablecoin reserve (whole tokens); null without one
+const readStablePair = async (factory: string, stable: Token): Promise<{ pair: StablePair; stableReserve: number } | null> => {
+  const wloop = REACHSWAP_CONTRACTS.WLOOP;
+  const loopIsToken0 = wloop.toLowerCase() < stable.address.toLowerCase();
+  const [token0, token1] = loopIsToken0 ? [wloop, stable.address] : [stable.address, wloop];
+
+  const result: string = await getReadProvider().request({
+    method: 'eth_call',
+    params: [{
+      to: factory,
+      data: '0xe6a43905' + token0.slice(2).padStart(64, '0') + token1.slice(2).padStart(64, '0') // getPair(address,address)
+    }, 'latest']
+  });
+  const address = result ? '0x' + result.slice(-40) : ZERO_ADDRESS;
+  if (address === ZERO_ADDRESS) return null;
+
+  const reserves: string = await getReadProvider().request({ method: 'eth_call', params: [{ to: address, data: '0x0902f1ac' }, 'latest'] }); // getReserves()
+  const stableReserve = Number(word(reserves, loopIsToken0 ? 1 : 0)) / Math.pow(10, stable.decimals);
+  return { pair: { address, stable, loopIsToken0 }, stableReserve };
+};
+
+// The candidate wLOOP/stablecoin pair holding the most stablecoins across ReachSwap and Sphynx
+const findStablePair = async (): Promise<StablePair | null> => {
+  const candidates = getStableCandidates();
+  const factories = [REACHSWAP_CONTRACTS.FACTORY, SPHYNX_CONTRACTS.FACTORY];
+
+  let failures = 0;
+  const pairs = await Promise.all(candidates.flatMap(stable => factories.map(factory =>
+    readStablePair(factory, stable).catch(error => {
+      console.warn(`⚠️ Could not read wLOOP/${stable.symbol} pair:`, error);
+      failures += 1;
+      return null;
+    })
+  )));
+  // Nothing could be read: fail so the lookup is retried rather than kept as "no pair"
+  if (pairs.length > 0 && failures === pairs.length) {
+    throw new Error('Stablecoin pairs could not be read');
+  }
+
+  const best = pairs
+    .filter((found): found is { pair: StablePair; stableReserve: number } =>
+      found !== null && found.stableReserve >= PRICE_ORACLE_CONFIG.MIN_STABLE_LIQUIDITY)
+    .sort((a, b) => b.stableReserve - a.stableReserve)[0];
+
+  if (!best) {
+    console.warn(`⚠️ No wLOOP/stablecoin pair among ${candidates.length} candidate(s), using fallback LOOP price`);
+    return null;
+  }
+  console.log(`💵 Pricing LOOP against wLOOP/${best.pair.stable.symbol} (${best.pair.address})`);
+  return best.pair;
+};
+
+// Chosen stable pair, re-checked every STABLE_PAIR_TTL so newly enabled lists and pairs are picked up
+const getStablePair = (): Promise<StablePair | null> => {
+  if (stablePairLookup && Date.now() - stablePairLookup.resolvedAt < PRICE_ORACLE_CONFIG.STABLE_PAIR_TTL) {
+    return stablePairLookup.pair;
+  }
+
+  const lookup = { pair: findStablePair(), resolvedAt: Date.now() };
+  stablePairLookup = lookup;
+  lookup.pair.catch(() => {
+    if (stablePairLookup === lookup) stablePairLookup = null;
+  });
+  return lookup.pair;
+};
+
+const readPairState = async (pairAddress: string, blockTag: string): Promise<PairState> => {
+  const provider = getReadProvider();
+  const call = (data: string) => provider.request({ method: 'eth_call', params: [{ to: pairAddress, data }, blockTag] });
+
+  const [reserves, price0Cumulative, price1Cumulative] = await Promise.all([
+    call('0x0902f1ac'), // getReserves()
+    call('0x5909c0d5'), // price0CumulativeLast()
+    call('0x5a3d5493') // price1CumulativeLast()
+  ]);
+
+  return {
+    reserve0: word(reserves, 0),
+    reserve1: word(reserves, 1),
+    blockTimestampLast: Number(word(reserves, 2)),
+    price0CumulativeLast: word(price0Cumulative),
+    price1CumulativeLast: word(price1Cumulative)
+  };
+};
+
+// Cumulative price brought forward to `timestamp`, as the pair would report after its next update
+const cumulativeAt = (state: PairState, loopIsToken0: boolean, timestamp: number): bigint => {
+  const elapsed = BigInt(Math.max(0, timestamp - state.blockTimestampLast));
+  if (loopIsToken0) {
+    return state.price0CumulativeLast + (state.reserve0 > BigInt(0) ? state.reserve1 * Q112 / state.reserve0 * elapsed : BigInt(0));
+  }
+  return state.price1CumulativeLast + (state.reserve1 > BigInt(0) ? state.reserve0 * Q112 / state.reserve1 * elapsed : BigInt(0));
+};
+
+// LOOP/USD from the stable pair's reserves; null while either side is empty
+const getSpotPrice = (pair: StablePair, reserve0: bigint, reserve1: bigint): number | null => {
+  const loopReserve = pair.loopIsToken0 ? reserve0 : reserve1;
+  const stableReserve = pair.loopIsToken0 ? reserve1 : reserve0;
+  if (loopReserve === BigInt(0) || stableReserve === BigInt(0)) return null;
+
+  return Number(stableReserve) / Number(loopReserve) * Math.pow(10, 18 - pair.stable.decimals);
+};
+
+const fetchOraclePrice = async (): Promise<LoopUsdPrice> => {
+  const pair = await getStablePair();
+  if (!pair) {
+    return { price: PRICE_ORACLE_CONFIG.FALLBACK_PRICE, source: 'fallback', timestamp: Date.now() };
+  }
+
+  const decimalAdjustment = Math.pow(10, 18 - pair.stable.decimals);
+  const latest = await readPairState(pair.address, 'latest');
+
+  if (PRICE_ORACLE_CONFIG.USE_TWAP) {
+    const latestBlock = parseInt(await getReadProvider().request({ method: 'eth_blockNumber', params: [] }), 16);
+    const now = await getBlockTimestamp(latestBlock);
+    const pastBlock = await getBlockAtTimestamp(now - PRICE_ORACLE_CONFIG.TWAP_WINDOW);
+    const [past, pastTimestamp] = await Promise.all([
+      readPairState(pair.address, toHex(pastBlock)),
+      getBlockTimestamp(pastBlock)
+    ]);
+
+    const elapsed = now - pastTimestamp;
+    if (elapsed > 0) {
+      // Cumulative prices are designed to overflow; the difference is taken modulo 2^256
+      const delta = ((cumulativeAt(latest, pair.loopIsToken0, now) - cumulativeAt(past, pair.loopIsToken0, pastTimestamp)) % UINT256 + UINT256) % UINT256;
+      const price = Number(delta / BigInt(elapsed)) / Number(Q112) * decimalAdjustment;
+      if (price > 0) {
+        return { price, source: 'twap', timestamp: Date.now() };
+      }
+    }
+  }
+
+  const price = getSpotPrice(pair, latest.reserve0, latest.reserve1);
+  if (price === null) {
+    return { price: PRICE_ORACLE_CONFIG.FALLBACK_PRICE, source: 'fallback', timestamp: Date.now() };
+  }
+
+  return { price, source: 'spot', timestamp: Date.now() };
+};
+
+// Refresh the oracle price unless the cached one is still fresh; concurrent callers share one read
+export const refreshLoopUsdPrice = (force = false): Promise<LoopUsdPrice> => {
+  if (!force && Date.now() - current.timestamp < PRICE_ORACLE_CONFIG.CACHE_TTL) {
+    return Promise.resolve(current);
+  }
+  if (inFlight) return inFlight;
+
+  inFlight = fetchOraclePrice()
+    .catch(error => {
+      console.error('Error reading LOOP/USD oracle price:', error);
+      return { price: current.price, source: current.source, timestamp: Date.now() };
+    })
+    .then(price => {
+      const changed = price.price !== current.price || price.source !== current.source;
+      current = price;
+      if (changed) {
+        console.log(`💵 LOOP/USD ${price.price.toFixed(6)} (${price.source})`);
+        listeners.forEach(listener => listener(current));
+      }
+      return current;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+
+  return inFlight;
+};
+
+// LOOP/USD at a past block from the stable pair's reserves then; the fallback price without a stable pair
+export const getLoopUsdPriceAtBlock = async (blockNumber: number): Promise<number> => {
+  const pair = await getStablePair();
+  const reserves = pair ? await getReservesAtBlock(pair.address, blockNumber) : null;
+  return (pair && reserves && getSpotPrice(pair, reserves.reserve0, reserves.reserve1)) ?? PRICE_ORACLE_CONFIG.FALLBACK_PRICE;
+};
+
+// LOOP/USD price, refreshed when the cache is stale
+export const getLoopUsdPrice = async (): Promise<number> => (await refreshLoopUsdPrice()).price;
+
+// Last known LOOP/USD price, for synchronous valuations
+export const getCachedLoopUsdPrice = (): number => current.price;
+
+export const getLoopUsdPriceInfo = (): LoopUsdPrice => current;
+
+export const subscribeLoopUsdPrice = (listener: PriceListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isLoopToken = (token: Token) =>
+  token.address === ZERO_ADDRESS || token.address.toLowerCase() === REACHSWAP_CONTRACTS.WLOOP.toLowerCase();
+
+/**
+ * Pair TVL in USD, or null when neither side can be priced. A LOOP side is simply doubled; other
+ * tokens are priced in LOOP through their own wLOOP pair at `blockNumber` (the latest block by default).
+ */
+export const estimateTvlUsd = async (
+  token0: Token,
+  token1: Token,
+  reserve0: string | bigint,
+  reserve1: string | bigint,
+  loopPrice: number = getCachedLoopUsdPrice(),
+  blockNumber?: number
+): Promise<number | null> => {
+  const amount0 = Number(reserve0) / Math.pow(10, token0.decimals);
+  const amount1 = Number(reserve1) / Math.pow(10, token1.decimals);
+
+  if (isLoopToken(token0)) return amount0 * 2 * loopPrice;
+  if (isLoopToken(token1)) return amount1 * 2 * loopPrice;
+
+  const block = blockNumber ?? parseInt(await getReadProvider().request({ method: 'eth_blockNumber', params: [] }), 16);
+  const [price0, price1] = await Promise.all([
+    getLoopPriceAtBlock(token0, block),
+    getLoopPriceAtBlock(token1, block)
+  ]);
+
+  // Both sides hold the same value; a side without a wLOOP pair is valued through the other one
+  if (price0 !== null && price1 !== null) return (amount0 * price0 + amount1 * price1) * loopPrice;
+  if (price0 !== null) return amount0 * price0 * 2 * loopPrice;
+  if (price1 !== null) return amount1 * price1 * 2 * loopPrice;
+  return null;
+};
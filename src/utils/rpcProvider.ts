@@ -0,0 +1,200 @@
+// Shared RPC provider layer for ReachSwap
+// Reads go through a read-only JSON-RPC transport so quotes, prices and pool data work
+// without a connected wallet. Signing and sending always go through the wallet.
+
+import { LOOP_NETWORK, RPC_CONFIG } from '../constants/network';
+
+export interface RequestArguments {
+  method: string;
+  params?: unknown[] | object;
+}
+
+// Minimal EIP-1193 surface used across the app. Results default to a hex string (eth_call,
+// eth_getBalance, eth_blockNumber...); callers name the type for methods that return objects.
+export interface Eip1193Provider {
+  request: <T = string>(args: RequestArguments) => Promise<T>;
+}
+
+// Injected wallet providers
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider & { isMetaMask?: boolean };
+    okxwallet?: Eip1193Provider;
+  }
+}
+
+// Injected stand-in provider (tests, local nodes); takes precedence over the JSON-RPC transport
+let providerOverride: Eip1193Provider | null = null;
+let requestId = 0;
+
+const jsonRpcProviders = new Map<string, Eip1193Provider>();
+
+// Create an EIP-1193 provider that talks plain JSON-RPC over HTTP
+export const createJsonRpcProvider = (
+  url: string,
+  timeoutMs: number = RPC_CONFIG.REQUEST_TIMEOUT
+): Eip1193Provider => ({
+  request: async <T = string>({ method, params = [] }: RequestArguments): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`RPC request failed with HTTP ${response.status}`);
+      }
+
+      const payload = await response.json();
+
+      if (payload.error) {
+        // Mirror the wallet error shape so existing error handling keeps working
+        throw Object.assign(new Error(payload.error.message || 'RPC error'), {
+          code: payload.error.code,
+          data: payload.error.data
+        });
+      }
+
+      return payload.result as T;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+});
+
+export interface BatchResponse<T = string> {
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// Send several requests as one JSON-RPC batch; responses come back in request order.
+// With an injected stand-in provider the requests are sent individually instead.
+export const batchRequest = async <T = string>(requests: RequestArguments[]): Promise<BatchResponse<T>[]> => {
+  if (requests.length === 0) return [];
+
+  if (providerOverride) {
+    const override = providerOverride;
+    return Promise.all(requests.map(async args => {
+      try {
+        return { result: await override.request<T>(args) };
+      } catch (error) {
+        const rpcError = error as { code?: number; message?: string; data?: unknown };
+        return { error: { code: rpcError?.code ?? -32603, message: rpcError?.message || 'RPC error', data: rpcError?.data } };
+      }
+    }));
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RPC_CONFIG.REQUEST_TIMEOUT);
+  const firstId = requestId + 1;
+  requestId += requests.length;
+
+  try {
+    const response = await fetch(getRpcUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requests.map(({ method, params = [] }, index) => ({
+        jsonrpc: '2.0',
+        id: firstId + index,
+        method,
+        params
+      }))),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`RPC batch request failed with HTTP ${response.status}`);
+    }
+
+    const payload = await response.json();
+    if (!Array.isArray(payload)) {
+      throw new Error('RPC endpoint does not support batch requests');
+    }
+
+    // Servers may answer out of order - match responses back by id
+    const byId = new Map<number, BatchResponse<T>>(
+      payload.map((item: BatchResponse<T> & { id: number }) => [item.id, item])
+    );
+    return requests.map((_, index) => byId.get(firstId + index) || {
+      error: { code: -32603, message: 'Missing response in RPC batch' }
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Node errors carry a numeric code; network failures and timeouts do not
+const isTransportError = (error: unknown): boolean => typeof (error as { code?: unknown })?.code !== 'number';
+
+// Resolve the JSON-RPC endpoint: stored override, then LOOP_NETWORK
+export const getRpcUrl = (): string => {
+  if (typeof window !== 'undefined') {
+    const storedUrl = localStorage.getItem(RPC_CONFIG.URL_STORAGE_KEY);
+    if (storedUrl) return storedUrl;
+  }
+
+  return LOOP_NETWORK.rpcUrls[0];
+};
+
+// Get the connected wallet's provider (MetaMask / OKX), or null when no wallet is connected
+export const getWalletProvider = (): Eip1193Provider | null => {
+  if (typeof window === 'undefined') return null;
+
+  const savedWalletType = localStorage.getItem('reachswap_wallet_type');
+
+  if (savedWalletType === 'MetaMask' && window.ethereum?.isMetaMask) {
+    return window.ethereum;
+  } else if (savedWalletType === 'OKX Wallet' && window.okxwallet) {
+    return window.okxwallet;
+  }
+
+  return null;
+};
+
+// Read-only provider: JSON-RPC transport first, wallet as fallback if the endpoint is unreachable
+const fallbackReadProvider: Eip1193Provider = {
+  request: async <T = string>(args: RequestArguments): Promise<T> => {
+    const url = getRpcUrl();
+    let jsonRpcProvider = jsonRpcProviders.get(url);
+    if (!jsonRpcProvider) {
+      jsonRpcProvider = createJsonRpcProvider(url);
+      jsonRpcProviders.set(url, jsonRpcProvider);
+    }
+
+    try {
+      return await jsonRpcProvider.request<T>(args);
+    } catch (error) {
+      const walletProvider = getWalletProvider();
+      if (!walletProvider || !isTransportError(error)) throw error;
+
+      console.warn(`⚠️ RPC ${url} unreachable for ${args.method}, falling back to wallet provider`);
+      return walletProvider.request<T>(args);
+    }
+  }
+};
+
+// Provider for eth_call, balances, logs and other reads - never null
+export const getReadProvider = (): Eip1193Provider => providerOverride || fallbackReadProvider;
+
+// Provider for signing and sending; throws when no wallet is connected
+export const getSignerProvider = (): Eip1193Provider => {
+  if (providerOverride) return providerOverride;
+
+  const walletProvider = getWalletProvider();
+  if (!walletProvider) {
+    throw new Error('No wallet provider available');
+  }
+
+  return walletProvider;
+};
+
+// Inject a stand-in provider (e.g. a local node or mock in tests); pass null to restore defaults
+export const setRpcProvider = (provider: Eip1193Provider | null): void => {
+  providerOverride = provider;
+};
+
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { allocateSlices, splitMinimumOutput } from './splitRouting';
+
+// Output curve of a constant-product pool for 0..steps slices of `slice` each, fee ignored
+const poolCurve = (reserveIn: bigint, reserveOut: bigint, slice: bigint, steps: number): bigint[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const amountIn = slice * BigInt(i);
+    return amountIn * reserveOut / (reserveIn + amountIn);
+  });
+
+describe('allocateSlices', () => {
+  it('splits evenly across identical pools', () => {
+    const curve = poolCurve(BigInt(1000000), BigInt(1000000), BigInt(10000), 10);
+    expect(allocateSlices([curve, curve], 10)).toEqual([5, 5]);
+  });
+
+  it('sends more of the order to the deeper pool', () => {
+    const deep = poolCurve(BigInt(3000000), BigInt(3000000), BigInt(10000), 20);
+    const shallow = poolCurve(BigInt(1000000), BigInt(1000000), BigInt(10000), 20);
+    const [toDeep, toShallow] = allocateSlices([deep, shallow], 20);
+
+    expect(toDeep + toShallow).toBe(20);
+    expect(toDeep).toBe(15);
+  });
+
+  it('stops feeding a route whose curve has flattened', () => {
+    // A route that cannot take more than 2 slices keeps its output flat from there
+    const capped = [BigInt(0), BigInt(100), BigInt(200), BigInt(200), BigInt(200)];
+    const steady = [BigInt(0), BigInt(90), BigInt(180), BigInt(270), BigInt(360)];
+
+    expect(allocateSlices([capped, steady], 4)).toEqual([2, 2]);
+  });
+});
+
+describe('splitMinimumOutput', () => {
+  it('shares the minimum in proportion to expected output', () => {
+    expect(splitMinimumOutput(BigInt(900), [BigInt(600), BigInt(400)])).toEqual([BigInt(540), BigInt(360)]);
+  });
+
+  it('gives the rounding remainder to the last leg so the minimums add up exactly', () => {
+    const minimums = splitMinimumOutput(BigInt(1000), [BigInt(1), BigInt(1), BigInt(1)]);
+
+    expect(minimums).toEqual([BigInt(333), BigInt(333), BigInt(334)]);
+    expect(minimums.reduce((sum, min) => sum + min, BigInt(0))).toBe(BigInt(1000));
+  });
+});
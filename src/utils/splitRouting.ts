@@ -0,0 +1,42 @@
+// Split routing maths
+// An order is cut into equal slices that go one at a time to the route with the best marginal
+// output. At execution the combined minimum output is shared out over the legs.
+
+// Greedy allocation of equal slices to the route with the best marginal output.
+// Each curve is concave (constant-product), so this is optimal for the slice size.
+// curves[route][i] is the route's output for i slices (curve[0] = 0).
+export const allocateSlices = (curves: bigint[][], steps: number): number[] => {
+  const allocation = curves.map(() => 0);
+
+  for (let step = 0; step < steps; step++) {
+    let bestRoute = -1;
+    let bestMarginal = BigInt(-1);
+
+    curves.forEach((curve, routeIndex) => {
+      const current = allocation[routeIndex];
+      if (current >= steps) return;
+
+      const marginal = curve[current + 1] - curve[current];
+      if (marginal > bestMarginal) {
+        bestMarginal = marginal;
+        bestRoute = routeIndex;
+      }
+    });
+
+    if (bestRoute === -1) break;
+    allocation[bestRoute]++;
+  }
+
+  return allocation;
+};
+
+// Shares a combined minimum output over legs in proportion to each leg's expected output; the last
+// leg takes the rounding remainder so the leg minimums add up to it exactly
+export const splitMinimumOutput = (combinedMin: bigint, expectedOutputs: bigint[]): bigint[] => {
+  const totalExpected = expectedOutputs.reduce((sum, expected) => sum + expected, BigInt(0));
+  const minimums = expectedOutputs.map(expected =>
+    totalExpected > BigInt(0) ? combinedMin * expected / totalExpected : BigInt(0)
+  );
+  minimums[minimums.length - 1] += combinedMin - minimums.reduce((sum, min) => sum + min, BigInt(0));
+  return minimums;
+};
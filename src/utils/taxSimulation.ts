@@ -0,0 +1,463 @@
+import { ethers } from 'ethers';
+import { MeasuredTokenTax } from '../types';
+import { getReadProvider } from './rpcProvider';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { SPHYNX_CONTRACTS } from '../constants/sphynx';
+import { TAX_SIMULATION_CONFIG } from '../constants/tokenRisk';
+
+interface LoopPairInfo {
+  router: 'reachswap' | 'sphynx';
+  routerAddress: string;
+  loopReserve: bigint;
+}
+
+interface SimulationResult {
+  expected: bigint;
+  received: bigint | null; // null when the swap reverts even with amountOutMin = 0
+}
+
+// eth_call state override set: address -> { balance, code, stateDiff }
+export type StateOverrides = Record<string, { balance?: string; code?: string; stateDiff?: Record<string, string> }>;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const WLOOP = REACHSWAP_CONTRACTS.WLOOP;
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+const PROBE_BALANCE = BigInt(1) << BigInt(255); // Written to find the balance slot; large enough to survive reflection rates
+// PUSH1 0x2a PUSH1 0 MSTORE PUSH1 0x20 PUSH1 0 RETURN - returns 42 when code overrides are applied
+const OVERRIDE_PROBE_CODE = '0x602a60005260206000f3';
+
+const measuredTaxes = new Map<string, MeasuredTokenTax>();
+const pendingMeasurements = new Map<string, Promise<MeasuredTokenTax>>();
+const balanceSlotCache = new Map<string, Promise<number | null>>();
+const allowanceSlotCache = new Map<string, Promise<number | null>>();
+let overrideSupport: Promise<boolean> | null = null;
+
+const padAddress = (address: string) => address.slice(2).toLowerCase().padStart(64, '0');
+const padUint = (value: bigint | number) => BigInt(value).toString(16).padStart(64, '0');
+const toWord = (value: bigint) => '0x' + padUint(value);
+const encodePath = (path: string[]) => padUint(path.length) + path.map(padAddress).join('');
+
+const randomAddress = () =>
+  '0x' + Array.from(crypto.getRandomValues(new Uint8Array(20)), b => b.toString(16).padStart(2, '0')).join('');
+
+const ethCall = (
+  call: { to: string; data: string; from?: string; value?: bigint },
+  overrides?: StateOverrides
+): Promise<string> => {
+  const tx = {
+    to: call.to,
+    data: call.data,
+    ...(call.from ? { from: call.from } : {}),
+    ...(call.value ? { value: '0x' + call.value.toString(16) } : {})
+  };
+  return getReadProvider().request({
+    method: 'eth_call',
+    params: overrides ? [tx, 'latest', overrides] : [tx, 'latest']
+  });
+};
+
+// Resolves to null instead of throwing on revert or empty return data
+const tryCall = async (to: string, data: string, overrides?: StateOverrides): Promise<string | null> => {
+  try {
+    const result = await ethCall({ to, data }, overrides);
+    return result && result !== '0x' ? result : null;
+  } catch {
+    return null;
+  }
+};
+
+const readUint = async (to: string, data: string, overrides?: StateOverrides): Promise<bigint> => {
+  const result = await tryCall(to, data, overrides);
+  return result ? BigInt('0x' + result.slice(2, 66)) : BigInt(0);
+};
+
+// Whether the RPC applies the third eth_call parameter; checked once per session
+const supportsStateOverrides = (): Promise<boolean> => {
+  if (!overrideSupport) {
+    const probe = randomAddress();
+    overrideSupport = tryCall(probe, '0x', { [probe]: { code: OVERRIDE_PROBE_CODE } })
+      .then(result => result !== null && BigInt(result) === BigInt(42))
+      .then(supported => {
+        console.log(`🧪 eth_call state overrides ${supported ? 'supported' : 'not supported'} by RPC`);
+        return supported;
+      });
+  }
+  return overrideSupport;
+};
+
+// Storage key of mapping[key] for a Solidity mapping declared at `slot`
+const mappingKey = (key: string, slot: number | string) =>
+  ethers.keccak256('0x' + padAddress(key) + (typeof slot === 'number' ? padUint(slot) : slot.slice(2)));
+
+/**
+ * Finds the storage slot of the token's balance mapping by writing a balance through
+ * a state override at each candidate slot and checking balanceOf.
+ */
+const findBalanceSlot = (tokenAddress: string): Promise<number | null> => {
+  const cached = balanceSlotCache.get(tokenAddress);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const holder = randomAddress();
+    const slots = Array.from({ length: TAX_SIMULATION_CONFIG.MAX_STORAGE_SLOT + 1 }, (_, slot) => slot);
+    const balances = await Promise.all(slots.map(slot =>
+      readUint(tokenAddress, '0x70a08231' + padAddress(holder), {
+        [tokenAddress]: { stateDiff: { [mappingKey(holder, slot)]: toWord(PROBE_BALANCE) } }
+      })
+    ));
+    const index = balances.findIndex(balance => balance > BigInt(0));
+    return index >= 0 ? slots[index] : null;
+  })();
+
+  balanceSlotCache.set(tokenAddress, lookup);
+  return lookup;
+};
+
+// Same search for the allowance mapping (owner => spender => amount)
+const findAllowanceSlot = (tokenAddress: string, spender: string): Promise<number | null> => {
+  const cached = allowanceSlotCache.get(tokenAddress);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const owner = randomAddress();
+    const slots = Array.from({ length: TAX_SIMULATION_CONFIG.MAX_STORAGE_SLOT + 1 }, (_, slot) => slot);
+    const allowances = await Promise.all(slots.map(slot =>
+      readUint(tokenAddress, '0xdd62ed3e' + padAddress(owner) + padAddress(spender), {
+        [tokenAddress]: { stateDiff: { [mappingKey(spender, mappingKey(owner, slot))]: toWord(MAX_UINT256) } }
+      })
+    ));
+    const index = allowances.findIndex(allowance => allowance > BigInt(0));
+    return index >= 0 ? slots[index] : null;
+  })();
+
+  allowanceSlotCache.set(tokenAddress, lookup);
+  return lookup;
+};
+
+/**
+ * Overrides giving `holder` at least `amount` tokens and an unlimited router allowance.
+ * Reflection tokens store scaled balances, so the written value is rescaled from a probe read.
+ */
+const buildSellOverrides = async (
+  tokenAddress: string,
+  holder: string,
+  spender: string,
+  amount: bigint
+): Promise<StateOverrides | null> => {
+  const [balanceSlot, allowanceSlot] = await Promise.all([
+    findBalanceSlot(tokenAddress),
+    findAllowanceSlot(tokenAddress, spender)
+  ]);
+  if (balanceSlot === null || allowanceSlot === null) return null;
+
+  const balanceKey = mappingKey(holder, balanceSlot);
+  const probeBalance = await readUint(tokenAddress, '0x70a08231' + padAddress(holder), {
+    [tokenAddress]: { stateDiff: { [balanceKey]: toWord(PROBE_BALANCE) } }
+  });
+  if (probeBalance < amount) return null;
+
+  // Standard tokens read back the written value; reflection tokens divide it by the current rate
+  const stored = probeBalance === PROBE_BALANCE
+    ? amount
+    : (amount * PROBE_BALANCE) / probeBalance + PROBE_BALANCE / probeBalance + BigInt(1);
+
+  return {
+    [tokenAddress]: {
+      stateDiff: {
+        [balanceKey]: toWord(stored),
+        [mappingKey(spender, mappingKey(holder, allowanceSlot))]: toWord(MAX_UINT256)
+      }
+    }
+  };
+};
+
+/**
+ * Overrides granting `spender` an unlimited allowance of `owner`'s tokens, so a transaction can be
+ * simulated before its approval is sent. Null when the RPC or the token's storage layout rules it out.
+ */
+export const getApprovalOverrides = async (
+  tokenAddress: string,
+  owner: string,
+  spender: string
+): Promise<StateOverrides | null> => {
+  if (!(await supportsStateOverrides())) return null;
+
+  const allowanceSlot = await findAllowanceSlot(tokenAddress, spender);
+  if (allowanceSlot === null) return null;
+
+  return {
+    [tokenAddress]: {
+      stateDiff: { [mappingKey(spender, mappingKey(owner, allowanceSlot))]: toWord(MAX_UINT256) }
+    }
+  };
+};
+
+// Deepest wLOOP pair for the token across ReachSwap and Sphynx
+const findLoopPair = async (tokenAddress: string): Promise<LoopPairInfo | null> => {
+  const routers = [
+    { router: 'reachswap' as const, routerAddress: REACHSWAP_CONTRACTS.ROUTER, factory: REACHSWAP_CONTRACTS.FACTORY },
+    { router: 'sphynx' as const, routerAddress: SPHYNX_CONTRACTS.ROUTER, factory: SPHYNX_CONTRACTS.FACTORY }
+  ];
+  const tokenIsToken0 = tokenAddress.toLowerCase() < WLOOP.toLowerCase();
+  let best: LoopPairInfo | null = null;
+
+  for (const { router, routerAddress, factory } of routers) {
+    const pairResult = await tryCall(factory, '0xe6a43905' + padAddress(tokenAddress) + padAddress(WLOOP)); // getPair
+    const pairAddress = pairResult ? '0x' + pairResult.slice(-40) : ZERO_ADDRESS;
+    if (pairAddress === ZERO_ADDRESS) continue;
+
+    const reserves = await tryCall(pairAddress, '0x0902f1ac'); // getReserves()
+    if (!reserves || reserves.length < 130) continue;
+
+    const data = reserves.slice(2);
+    const loopReserve = BigInt('0x' + (tokenIsToken0 ? data.slice(64, 128) : data.slice(0, 64)));
+    if (!best || loopReserve > best.loopReserve) {
+      best = { router, routerAddress, loopReserve };
+    }
+  }
+
+  return best;
+};
+
+// Router quote for the last hop of a path; 0 if the router cannot quote it
+const quoteAmountOut = async (routerAddress: string, amountIn: bigint, path: string[]): Promise<bigint> => {
+  const data = '0xd06ca61f' + padUint(amountIn) + padUint(0x40) + encodePath(path); // getAmountsOut
+  const result = await tryCall(routerAddress, data);
+  return result ? BigInt('0x' + result.slice(-64)) : BigInt(0);
+};
+
+/**
+ * Finds the amount a swap actually delivers by bisecting amountOutMin.
+ * Supporting-fee router methods compare the recipient's balance change against amountOutMin,
+ * so the largest amountOutMin that does not revert is the received amount.
+ */
+const measureReceived = async (
+  expected: bigint,
+  probe: (amountOutMin: bigint) => Promise<boolean>
+): Promise<bigint | null> => {
+  if (!(await probe(BigInt(0)))) return null;
+  if (await probe(expected)) return expected;
+
+  let low = BigInt(0);
+  let high = expected;
+  for (let i = 0; i < TAX_SIMULATION_CONFIG.SEARCH_ITERATIONS && high - low > BigInt(1); i++) {
+    const mid = (low + high) / BigInt(2);
+    if (await probe(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+const simulateBuy = async (
+  tokenAddress: string,
+  pair: LoopPairInfo,
+  useOverrides: boolean
+): Promise<SimulationResult | null> => {
+  const maxBuy = BigInt(TAX_SIMULATION_CONFIG.MAX_BUY_LOOP) * BigInt(10) ** BigInt(18);
+  const reserveCap = pair.loopReserve / BigInt(TAX_SIMULATION_CONFIG.BUY_RESERVE_FRACTION);
+  const amountIn = reserveCap < maxBuy ? reserveCap : maxBuy;
+  if (amountIn === BigInt(0)) return null;
+
+  const path = [WLOOP, tokenAddress];
+  const expected = await quoteAmountOut(pair.routerAddress, amountIn, path);
+  if (expected === BigInt(0)) return null;
+
+  // A fresh funded address avoids fee exclusions; without overrides wLOOP's native balance pays instead
+  const recipient = randomAddress();
+  const sender = useOverrides ? recipient : TAX_SIMULATION_CONFIG.FALLBACK_SENDER;
+  const overrides: StateOverrides | undefined = useOverrides
+    ? { [sender]: { balance: '0x' + (amountIn * BigInt(2)).toString(16) } }
+    : undefined;
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+
+  const received = await measureReceived(expected, async amountOutMin => {
+    // swapExactETHForTokensSupportingFeeOnTransferTokens(amountOutMin, path, to, deadline[, skipMEVProtection])
+    const data = pair.router === 'reachswap'
+      ? '0xa2e250b3' + padUint(amountOutMin) + padUint(0xa0) + padAddress(recipient) + padUint(deadline) + padUint(0) + encodePath(path)
+      : '0xb6f9de95' + padUint(amountOutMin) + padUint(0x80) + padAddress(recipient) + padUint(deadline) + encodePath(path);
+    try {
+      await ethCall({ to: pair.routerAddress, data, from: sender, value: amountIn }, overrides);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  return { expected, received };
+};
+
+// Sells `amountIn` from `seller`; overrides supply the balance and allowance when the seller holds none
+const simulateSell = async (
+  tokenAddress: string,
+  pair: LoopPairInfo,
+  seller: string,
+  amountIn: bigint,
+  overrides?: StateOverrides
+): Promise<SimulationResult | null> => {
+  const path = [tokenAddress, WLOOP];
+  const expected = await quoteAmountOut(pair.routerAddress, amountIn, path);
+  if (expected === BigInt(0)) return null;
+
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+  const received = await measureReceived(expected, async amountOutMin => {
+    // swapExactTokensForETHSupportingFeeOnTransferTokens(amountIn, amountOutMin, path, to, deadline[, skipMEVProtection])
+    const data = pair.router === 'reachswap'
+      ? '0x61be71b2' + padUint(amountIn) + padUint(amountOutMin) + padUint(0xc0) + padAddress(seller) + padUint(deadline) + padUint(0) + encodePath(path)
+      : '0x791ac947' + padUint(amountIn) + padUint(amountOutMin) + padUint(0xa0) + padAddress(seller) + padUint(deadline) + encodePath(path);
+    try {
+      await ethCall({ to: pair.routerAddress, data, from: seller }, overrides);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  return { expected, received };
+};
+
+// Sell size from the connected wallet's balance and router allowance; 0 if it cannot sell
+const getWalletSellAmount = async (tokenAddress: string, wallet: string, spender: string, preferred: bigint): Promise<bigint> => {
+  const [balance, allowance] = await Promise.all([
+    readUint(tokenAddress, '0x70a08231' + padAddress(wallet)),
+    readUint(tokenAddress, '0xdd62ed3e' + padAddress(wallet) + padAddress(spender))
+  ]);
+
+  let amount = preferred > BigInt(0) ? preferred : balance / BigInt(100);
+  if (amount > balance) amount = balance;
+  if (amount > allowance) amount = allowance;
+  return amount;
+};
+
+// Fee as a fraction of the expected output
+const toFee = ({ expected, received }: SimulationResult): number | null => {
+  if (received === null || expected === BigInt(0)) return null;
+  const lost = expected > received ? expected - received : BigInt(0);
+  const fee = Number((lost * BigInt(100000)) / expected) / 100000;
+  return fee < TAX_SIMULATION_CONFIG.MIN_FEE ? 0 : fee;
+};
+
+const loadStoredTaxes = (): Record<string, MeasuredTokenTax> => {
+  try {
+    const stored = localStorage.getItem(TAX_SIMULATION_CONFIG.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading measured taxes:', error);
+    localStorage.removeItem(TAX_SIMULATION_CONFIG.STORAGE_KEY);
+    return {};
+  }
+};
+
+const saveMeasuredTax = (measurement: MeasuredTokenTax) => {
+  measuredTaxes.set(measurement.address, measurement);
+
+  try {
+    const entries = Object.values({ ...loadStoredTaxes(), [measurement.address]: measurement })
+      .filter(entry => Date.now() - entry.measuredAt < TAX_SIMULATION_CONFIG.CACHE_TTL)
+      .sort((a, b) => b.measuredAt - a.measuredAt)
+      .slice(0, TAX_SIMULATION_CONFIG.MAX_STORED);
+    localStorage.setItem(
+      TAX_SIMULATION_CONFIG.STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(entries.map(entry => [entry.address, entry])))
+    );
+  } catch (error) {
+    console.error('Error saving measured taxes:', error);
+  }
+};
+
+const runMeasurement = async (tokenAddress: string): Promise<MeasuredTokenTax> => {
+  const measurement: MeasuredTokenTax = {
+    address: tokenAddress,
+    buyFee: null,
+    sellFee: null,
+    buyReverts: false,
+    sellReverts: false,
+    router: null,
+    method: 'none',
+    measuredAt: Date.now()
+  };
+
+  const pair = await findLoopPair(tokenAddress);
+  if (!pair) return measurement;
+  measurement.router = pair.router;
+
+  const useOverrides = await supportsStateOverrides();
+  const buy = await simulateBuy(tokenAddress, pair, useOverrides);
+  if (buy) {
+    measurement.buyReverts = buy.received === null;
+    measurement.buyFee = toFee(buy);
+  }
+
+  // Sell the amount the simulated buy delivered (or the quote, if buying reverted)
+  const sellAmount = buy?.received || buy?.expected || BigInt(0);
+  let sell: SimulationResult | null = null;
+
+  if (useOverrides && sellAmount > BigInt(0)) {
+    const seller = randomAddress();
+    const overrides = await buildSellOverrides(tokenAddress, seller, pair.routerAddress, sellAmount);
+    if (overrides) {
+      sell = await simulateSell(tokenAddress, pair, seller, sellAmount, overrides);
+      measurement.method = 'state-override';
+    }
+  }
+
+  const wallet = localStorage.getItem('reachswap_wallet_address');
+  if (!sell && wallet) {
+    const walletAmount = await getWalletSellAmount(tokenAddress, wallet, pair.routerAddress, sellAmount);
+    if (walletAmount > BigInt(0)) {
+      sell = await simulateSell(tokenAddress, pair, wallet, walletAmount);
+      measurement.method = 'wallet';
+    }
+  }
+
+  if (sell) {
+    measurement.sellReverts = sell.received === null;
+    measurement.sellFee = toFee(sell);
+  } else {
+    measurement.method = 'none';
+  }
+
+  measurement.measuredAt = Date.now();
+  return measurement;
+};
+
+/**
+ * Measures a token's buy and sell tax by simulating a small router buy and sell with eth_call,
+ * using state overrides for a funded, pre-approved seller where the RPC supports them.
+ * Results are cached in memory and localStorage for TAX_SIMULATION_CONFIG.CACHE_TTL.
+ */
+export const measureTokenTaxes = (tokenAddress: string, force = false): Promise<MeasuredTokenTax> => {
+  const address = tokenAddress.toLowerCase();
+
+  if (!force) {
+    const cached = getMeasuredTax(address);
+    if (cached) return Promise.resolve(cached);
+  }
+
+  const pending = pendingMeasurements.get(address);
+  if (pending) return pending;
+
+  console.log(`🧪 Measuring buy/sell tax: ${address}`);
+  const measurement = runMeasurement(address)
+    .then(result => {
+      saveMeasuredTax(result);
+      console.log(`🧪 Measured tax for ${address}: buy ${result.buyFee ?? '?'}, sell ${result.sellFee ?? '?'} (${result.method})`, result);
+      return result;
+    })
+    .finally(() => pendingMeasurements.delete(address));
+
+  pendingMeasurements.set(address, measurement);
+  return measurement;
+};
+
+// Fresh measurement from memory or localStorage, without simulating
+export const getMeasuredTax = (tokenAddress: string): MeasuredTokenTax | null => {
+  const address = tokenAddress.toLowerCase();
+  const measurement = measuredTaxes.get(address) || loadStoredTaxes()[address];
+  if (!measurement || Date.now() - measurement.measuredAt >= TAX_SIMULATION_CONFIG.CACHE_TTL) return null;
+
+  measuredTaxes.set(address, measurement);
+  return measurement;
+};
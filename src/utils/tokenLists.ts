@@ -0,0 +1,222 @@
+import { Token, TokenInfo, TokenList, TokenListEntry } from '../types';
+import { BUNDLED_TOKEN_LISTS, TOKEN_LIST_CONFIG } from '../constants/tokenLists';
+
+/**
+ * A token together with every source (token list, built-in set, imports) that provides it
+ */
+export interface ListedToken {
+  token: Token;
+  sources: string[];
+}
+
+// List settings kept in localStorage: bundled lists switched off and lists added by the user
+export interface StoredTokenLists {
+  disabledBundled: string[];
+  userLists: TokenListEntry[];
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const MAX_REPORTED_ERRORS = 5;
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isString = (value: unknown, minLength: number, maxLength: number): value is string =>
+  typeof value === 'string' && value.length >= minLength && value.length <= maxLength;
+
+/**
+ * Validates parsed JSON against the token list schema and returns it typed.
+ * Throws with the first few schema violations so the UI can explain why a list was rejected.
+ */
+export const validateTokenList = (data: unknown): TokenList => {
+  const errors: string[] = [];
+  const list = data as Partial<TokenList> | null;
+
+  if (!list || typeof list !== 'object' || Array.isArray(list)) {
+    throw new Error('Invalid token list: expected a JSON object');
+  }
+
+  if (!isString(list.name, 1, 30)) errors.push('name must be a string of 1-30 characters');
+  if (typeof list.timestamp !== 'string' || isNaN(Date.parse(list.timestamp))) {
+    errors.push('timestamp must be an ISO 8601 date-time');
+  }
+
+  const version = list.version;
+  if (!version || !isNonNegativeInteger(version.major) || !isNonNegativeInteger(version.minor) || !isNonNegativeInteger(version.patch)) {
+    errors.push('version must have integer major, minor and patch');
+  }
+
+  if (!Array.isArray(list.tokens) || list.tokens.length === 0 || list.tokens.length > TOKEN_LIST_CONFIG.MAX_TOKENS) {
+    errors.push(`tokens must be an array of 1-${TOKEN_LIST_CONFIG.MAX_TOKENS} tokens`);
+  } else {
+    list.tokens.forEach((token: Partial<TokenInfo>, index) => {
+      if (errors.length >= MAX_REPORTED_ERRORS) return;
+
+      const field = `tokens[${index}]`;
+      if (!token || typeof token !== 'object') {
+        errors.push(`${field} must be an object`);
+        return;
+      }
+      if (!isNonNegativeInteger(token.chainId) || token.chainId < 1) errors.push(`${field}.chainId must be a positive integer`);
+      if (typeof token.address !== 'string' || !ADDRESS_PATTERN.test(token.address)) errors.push(`${field}.address is not a valid address`);
+      if (!isNonNegativeInteger(token.decimals) || token.decimals > 255) errors.push(`${field}.decimals must be an integer 0-255`);
+      if (!isString(token.name, 0, 60)) errors.push(`${field}.name must be a string of at most 60 characters`);
+      if (!isString(token.symbol, 0, 20)) errors.push(`${field}.symbol must be a string of at most 20 characters`);
+      if (token.logoURI !== undefined && typeof token.logoURI !== 'string') errors.push(`${field}.logoURI must be a string`);
+      if (token.tags !== undefined && (!Array.isArray(token.tags) || token.tags.some(tag => typeof tag !== 'string'))) {
+        errors.push(`${field}.tags must be an array of strings`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid token list: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+  }
+
+  return list as TokenList;
+};
+
+/**
+ * Parses and validates token list JSON text (e.g. an uploaded file)
+ */
+export const parseTokenList = (text: string): TokenList => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid token list: file is not valid JSON');
+  }
+  return validateTokenList(data);
+};
+
+/**
+ * Downloads and validates a token list from an http(s) URL
+ */
+export const fetchTokenList = async (url: string): Promise<TokenList> => {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new Error('Enter a valid token list URL');
+  }
+  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+    throw new Error('Token list URLs must use http or https');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TOKEN_LIST_CONFIG.FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(parsedUrl.toString(), { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download token list (HTTP ${response.status})`);
+    }
+    return parseTokenList(await response.text());
+  } catch (error) {
+    if ((error as Error)?.name === 'AbortError') {
+      throw new Error('Token list download timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// ipfs:// logos are served through a public gateway
+const resolveLogoUri = (logoURI?: string): string => {
+  if (!logoURI) return '';
+  return logoURI.startsWith('ipfs://') ? `https://ipfs.io/ipfs/${logoURI.slice('ipfs://'.length)}` : logoURI;
+};
+
+/**
+ * Converts the LOOP Mainnet entries of a token list into app tokens
+ */
+export const getListTokens = (list: TokenList): Token[] =>
+  list.tokens
+    .filter(token => token.chainId === TOKEN_LIST_CONFIG.CHAIN_ID && token.symbol.trim().length > 0)
+    .map(token => ({
+      symbol: token.symbol,
+      name: token.name || token.symbol,
+      address: token.address,
+      decimals: token.decimals,
+      logoUrl: resolveLogoUri(token.logoURI)
+    }));
+
+/**
+ * What is kept of a list once added: its header and the validated LOOP Mainnet entries, without tags.
+ * Lists covering many chains shrink to a fraction of their download size, so they fit in localStorage.
+ */
+export const compactTokenList = (list: TokenList): TokenList => ({
+  name: list.name,
+  timestamp: list.timestamp,
+  version: list.version,
+  ...(list.logoURI ? { logoURI: list.logoURI } : {}),
+  tokens: list.tokens
+    .filter(token => token.chainId === TOKEN_LIST_CONFIG.CHAIN_ID)
+    .map(({ chainId, address, name, decimals, symbol, logoURI }) => ({
+      chainId,
+      address,
+      name,
+      decimals,
+      symbol,
+      ...(logoURI ? { logoURI } : {})
+    }))
+});
+
+/**
+ * Merges token groups in priority order, de-duplicating by address.
+ * The first group to provide a token supplies its metadata; later groups only add their source label.
+ */
+export const mergeTokenSources = (groups: { source: string; tokens: Token[] }[]): ListedToken[] => {
+  const merged = new Map<string, ListedToken>();
+
+  groups.forEach(({ source, tokens }) => {
+    tokens.forEach(token => {
+      const key = token.address.toLowerCase();
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { token, sources: [source] });
+      } else if (!existing.sources.includes(source)) {
+        existing.sources.push(source);
+      }
+    });
+  });
+
+  return Array.from(merged.values());
+};
+
+export const bundledListId = (list: TokenList) => `bundled:${list.name}`;
+
+/**
+ * Stored list settings; unreadable settings are cleared so they cannot break every load
+ */
+export const loadStoredTokenLists = (): StoredTokenLists => {
+  if (typeof window === 'undefined') return { disabledBundled: [], userLists: [] };
+
+  try {
+    const stored = localStorage.getItem(TOKEN_LIST_CONFIG.STORAGE_KEY);
+    if (!stored) return { disabledBundled: [], userLists: [] };
+
+    const parsed = JSON.parse(stored) as StoredTokenLists;
+    return {
+      disabledBundled: Array.isArray(parsed.disabledBundled) ? parsed.disabledBundled : [],
+      userLists: Array.isArray(parsed.userLists) ? parsed.userLists : []
+    };
+  } catch (error) {
+    console.error('Error loading token lists:', error);
+    localStorage.removeItem(TOKEN_LIST_CONFIG.STORAGE_KEY);
+    return { disabledBundled: [], userLists: [] };
+  }
+};
+
+/**
+ * LOOP Mainnet tokens of every enabled list, bundled and user-added, for code outside React
+ */
+export const getEnabledListTokens = (): Token[] => {
+  const stored = loadStoredTokenLists();
+  return [
+    ...BUNDLED_TOKEN_LISTS.filter(list => !stored.disabledBundled.includes(bundledListId(list))),
+    ...stored.userLists.filter(entry => entry.enabled).map(entry => entry.list)
+  ].flatMap(getListTokens);
+};
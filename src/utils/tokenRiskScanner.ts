@@ -0,0 +1,302 @@
+import { RiskFinding, RiskSeverity, TokenRiskReport } from '../types';
+import { getReadProvider } from './rpcProvider';
+import { REACHSWAP_CONTRACTS } from '../constants/reachswap';
+import { measureTokenTaxes } from './taxSimulation';
+import {
+  TOKEN_RISK_CONFIG,
+  RENOUNCED_OWNERS,
+  RISK_FUNCTION_SELECTORS,
+  MAX_AMOUNT_GETTERS
+} from '../constants/tokenRisk';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const WLOOP = REACHSWAP_CONTRACTS.WLOOP;
+const SEVERITY_ORDER: RiskSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+const reportCache = new Map<string, { report: TokenRiskReport; expiresAt: number }>();
+const pendingScans = new Map<string, Promise<TokenRiskReport>>();
+
+const toAddress = (word: string) => '0x' + word.slice(-40).toLowerCase();
+
+// eth_call that resolves to null instead of throwing on revert or empty return data
+const tryCall = async (to: string, data: string): Promise<string | null> => {
+  try {
+    const result = await getReadProvider().request({ method: 'eth_call', params: [{ to, data }, 'latest'] });
+    return result && result !== '0x' ? result : null;
+  } catch {
+    return null;
+  }
+};
+
+// Measured fee fraction as a percent
+const toTaxPercent = (fee: number | null): number | null => fee === null ? null : Math.round(fee * 10000) / 100;
+
+const taxSeverity = (tax: number): RiskSeverity => {
+  if (tax >= TOKEN_RISK_CONFIG.HIGH_TAX) return 'high';
+  if (tax >= TOKEN_RISK_CONFIG.MEDIUM_TAX) return 'medium';
+  if (tax >= TOKEN_RISK_CONFIG.LOW_TAX) return 'low';
+  return 'info';
+};
+
+// First getter that returns a non-zero amount
+const readMaxAmount = async (tokenAddress: string, selectors: string[]): Promise<bigint | null> => {
+  for (const selector of selectors) {
+    const result = await tryCall(tokenAddress, selector);
+    if (result && BigInt(result) > BigInt(0)) return BigInt(result);
+  }
+  return null;
+};
+
+const readOwner = async (tokenAddress: string): Promise<string | null> => {
+  for (const selector of ['0x8da5cb5b', '0x893d20e8']) { // owner(), getOwner()
+    const result = await tryCall(tokenAddress, selector);
+    if (result && result.length >= 66) return toAddress(result);
+  }
+  return null;
+};
+
+const findSelectors = (bytecode: string, selectors: Record<string, string>): string[] =>
+  Object.entries(selectors)
+    .filter(([selector]) => bytecode.includes('63' + selector.slice(2)))
+    .map(([, signature]) => signature);
+
+// Source verification status from the explorer's Etherscan-compatible API
+const checkVerified = async (tokenAddress: string): Promise<boolean | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TOKEN_RISK_CONFIG.EXPLORER_TIMEOUT);
+
+  try {
+    const response = await fetch(
+      `${TOKEN_RISK_CONFIG.EXPLORER_API}?module=contract&action=getsourcecode&address=${tokenAddress}`,
+      { signal: controller.signal }
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const source = Array.isArray(data?.result) ? data.result[0] : null;
+    if (!source) return null;
+    return typeof source.SourceCode === 'string' && source.SourceCode.length > 0;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const formatPercentOfSupply = (amount: bigint, totalSupply: bigint | null): string => {
+  if (!totalSupply || totalSupply === BigInt(0)) return 'a fixed amount';
+  return `${(Number((amount * BigInt(10000)) / totalSupply) / 100).toString()}% of supply`;
+};
+
+const runScan = async (tokenAddress: string, force: boolean): Promise<TokenRiskReport> => {
+  const findings: RiskFinding[] = [];
+  const provider = getReadProvider();
+
+  const bytecode: string = (await provider.request({ method: 'eth_getCode', params: [tokenAddress, 'latest'] })).toLowerCase();
+  if (!bytecode || bytecode === '0x') {
+    findings.push({
+      id: 'no-contract',
+      severity: 'critical',
+      title: 'Not a contract',
+      description: 'There is no contract deployed at this address.'
+    });
+    return buildReport(tokenAddress, { findings, router: null, buyTax: null, sellTax: null, isHoneypot: null, isVerified: null });
+  }
+
+  const [isVerified, owner, totalSupplyResult] = await Promise.all([
+    checkVerified(tokenAddress),
+    readOwner(tokenAddress),
+    tryCall(tokenAddress, '0x18160ddd') // totalSupply()
+  ]);
+  const totalSupply = totalSupplyResult ? BigInt(totalSupplyResult) : null;
+
+  // Buy / sell tax measured through the router holding the deepest wLOOP pair
+  const taxes = await measureTokenTaxes(tokenAddress, force);
+  const buyTax = toTaxPercent(taxes.buyFee);
+  const sellTax = toTaxPercent(taxes.sellFee);
+  const isHoneypot = taxes.sellReverts ? true : taxes.sellFee !== null ? false : null;
+
+  if (!taxes.router) {
+    findings.push({
+      id: 'no-liquidity',
+      severity: 'high',
+      title: 'No wLOOP liquidity',
+      description: 'No wLOOP pair was found on ReachSwap or Sphynx, so trading could not be simulated.'
+    });
+  } else {
+    if (taxes.buyReverts) {
+      findings.push({
+        id: 'buy-reverts',
+        severity: 'high',
+        title: 'Buying reverts',
+        description: 'A simulated buy through the router failed. Trading may be disabled or restricted.'
+      });
+    }
+
+    if (isHoneypot) {
+      findings.push({
+        id: 'honeypot',
+        severity: 'critical',
+        title: 'Honeypot: selling reverts',
+        description: 'A simulated sell through the router failed. You may not be able to sell this token after buying it.'
+      });
+    } else if (isHoneypot === null) {
+      findings.push({
+        id: 'sell-not-simulated',
+        severity: 'low',
+        title: 'Sell not simulated',
+        description: 'The RPC does not support state overrides for this token and no connected wallet holds it with a router approval.'
+      });
+    }
+
+    if (buyTax !== null) {
+      findings.push({
+        id: 'buy-tax',
+        severity: taxSeverity(buyTax),
+        title: `Buy tax ${buyTax.toFixed(2)}%`,
+        description: 'Measured from a simulated router buy (after the pool fee).'
+      });
+    }
+    if (sellTax !== null) {
+      findings.push({
+        id: 'sell-tax',
+        severity: taxSeverity(sellTax),
+        title: `Sell tax ${sellTax.toFixed(2)}%`,
+        description: 'Measured from a simulated router sell (after the pool fee).'
+      });
+    }
+  }
+
+  // Ownership
+  const ownerActive = owner !== null && !RENOUNCED_OWNERS.includes(owner);
+  findings.push(ownerActive
+    ? {
+        id: 'owner',
+        severity: 'low',
+        title: 'Owner can change the contract',
+        description: `Ownership is held by ${owner}. Owner-only settings (fees, limits, lists) can still be changed.`
+      }
+    : {
+        id: 'owner',
+        severity: 'info',
+        title: owner ? 'Ownership renounced' : 'No owner function',
+        description: owner ? 'The owner is the zero or dead address.' : 'The contract does not expose owner() or getOwner().'
+      });
+
+  // Blacklist / bot lists
+  const blacklistFunctions = findSelectors(bytecode, RISK_FUNCTION_SELECTORS.BLACKLIST);
+  if (blacklistFunctions.length > 0) {
+    findings.push({
+      id: 'blacklist',
+      severity: ownerActive ? 'high' : 'low',
+      title: 'Blacklist functions',
+      description: `Contains ${blacklistFunctions.join(', ')}. ${ownerActive ? 'The owner can block addresses from trading.' : 'Ownership is renounced, so the list can no longer be changed.'}`
+    });
+  }
+
+  // Reflection mechanics
+  const reflectionFunctions = findSelectors(bytecode, RISK_FUNCTION_SELECTORS.REFLECTION);
+  if (reflectionFunctions.length > 0) {
+    findings.push({
+      id: 'reflection',
+      severity: 'medium',
+      title: 'Reflection token',
+      description: 'Balances change as fees are redistributed to holders. Swaps need fee-on-transfer supporting methods.'
+    });
+  }
+
+  // Max transaction / wallet limits
+  const [maxTx, maxWallet] = await Promise.all([
+    readMaxAmount(tokenAddress, MAX_AMOUNT_GETTERS.MAX_TX),
+    readMaxAmount(tokenAddress, MAX_AMOUNT_GETTERS.MAX_WALLET)
+  ]);
+  const canChangeMaxTx = ownerActive && findSelectors(bytecode, RISK_FUNCTION_SELECTORS.MAX_TX_SETTERS).length > 0;
+
+  if (maxTx !== null && (totalSupply === null || maxTx < totalSupply)) {
+    findings.push({
+      id: 'max-tx',
+      severity: canChangeMaxTx ? 'medium' : 'low',
+      title: 'Max transaction limit',
+      description: `Transfers are limited to ${formatPercentOfSupply(maxTx, totalSupply)}.${canChangeMaxTx ? ' The owner can lower this limit.' : ''}`
+    });
+  }
+  if (maxWallet !== null && (totalSupply === null || maxWallet < totalSupply)) {
+    findings.push({
+      id: 'max-wallet',
+      severity: 'low',
+      title: 'Max wallet limit',
+      description: `A wallet can hold at most ${formatPercentOfSupply(maxWallet, totalSupply)}.`
+    });
+  }
+
+  // Explorer verification
+  findings.push(isVerified === null
+    ? { id: 'verified', severity: 'low', title: 'Verification unknown', description: 'The LOOP explorer could not be reached to check the source code.' }
+    : isVerified
+      ? { id: 'verified', severity: 'info', title: 'Source verified', description: 'The contract source code is verified on the LOOP explorer.' }
+      : { id: 'verified', severity: 'medium', title: 'Source not verified', description: 'The contract source code is not published on the LOOP explorer.' });
+
+  return buildReport(tokenAddress, { findings, router: taxes.router, buyTax, sellTax, isHoneypot, isVerified });
+};
+
+const buildReport = (
+  address: string,
+  fields: Pick<TokenRiskReport, 'findings' | 'router' | 'buyTax' | 'sellTax' | 'isHoneypot' | 'isVerified'>
+): TokenRiskReport => {
+  // Most severe findings first
+  const findings = [...fields.findings].sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+  return {
+    ...fields,
+    address,
+    findings,
+    riskLevel: findings[0]?.severity ?? 'info',
+    scannedAt: Date.now()
+  };
+};
+
+/**
+ * Builds a safety report for a token: simulated buy/sell tax, honeypot check,
+ * owner/blacklist/reflection/max-tx inspection and explorer verification.
+ * Reports are cached per token for TOKEN_RISK_CONFIG.CACHE_TTL.
+ */
+export const scanTokenRisk = (tokenAddress: string, force = false): Promise<TokenRiskReport> => {
+  const address = tokenAddress.toLowerCase();
+
+  // Native LOOP and wLOOP need no scan
+  if (address === ZERO_ADDRESS || address === WLOOP.toLowerCase()) {
+    return Promise.resolve(buildReport(address, {
+      findings: [{ id: 'core-asset', severity: 'info', title: 'Core asset', description: 'LOOP and wLOOP are the network\'s native assets.' }],
+      router: null,
+      buyTax: 0,
+      sellTax: 0,
+      isHoneypot: false,
+      isVerified: true
+    }));
+  }
+
+  const cached = reportCache.get(address);
+  if (!force && cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve(cached.report);
+  }
+
+  const pending = pendingScans.get(address);
+  if (pending) return pending;
+
+  console.log(`🛡️ Scanning token risk: ${address}`);
+  const scan = runScan(address, force)
+    .then(report => {
+      reportCache.set(address, { report, expiresAt: Date.now() + TOKEN_RISK_CONFIG.CACHE_TTL });
+      console.log(`🛡️ Risk report for ${address}: ${report.riskLevel}`, report);
+      return report;
+    })
+    .finally(() => pendingScans.delete(address));
+
+  pendingScans.set(address, scan);
+  return scan;
+};
+
+// Cached report without triggering a scan
+export const getCachedRiskReport = (tokenAddress: string): TokenRiskReport | null => {
+  const cached = reportCache.get(tokenAddress.toLowerCase());
+  return cached && cached.expiresAt > Date.now() ? cached.report : null;
+};
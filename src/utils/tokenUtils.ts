@@ -1,3 +1,4 @@
+import { ethers } from 'ethers';
 import { Token } from '../types';
 
 /**
@@ -149,6 +150,15 @@ export const formatTokenBalance = (balance: string | number | undefined): string
   }
 };
 
+/**
+ * Formats a raw LP token amount (18 decimals) to a fixed number of decimals, truncated toward zero
+ * so a balance is never shown, or later parsed back, as more than the wallet holds
+ */
+export const formatLpAmount = (raw: bigint | string, decimals: number = 6): string => {
+  const [whole, fraction = ''] = ethers.formatUnits(raw, 18).split('.');
+  return `${whole}.${fraction.slice(0, decimals).padEnd(decimals, '0')}`;
+};
+
 /**
  * Creates a fallback token object for error cases
  */
@@ -0,0 +1,304 @@
+// Structured transaction errors
+// Wallet, RPC and contract failures arrive in many shapes: EIP-1193 error codes, JSON-RPC errors with
+// revert data, ethers errors wrapping either, or plain messages. toTxError classifies any of them into
+// a typed TxError with a readable message and a remediation hint, so hooks can surface one error type
+// and components can branch on the class instead of matching strings.
+
+import { ethers } from 'ethers';
+
+export type TxErrorKind =
+  | 'user-rejected'
+  | 'request-pending'
+  | 'wallet-internal'
+  | 'rate-limited'
+  | 'network'
+  | 'insufficient-funds'
+  | 'nonce'
+  | 'slippage'
+  | 'pool-invariant'
+  | 'deadline-expired'
+  | 'transfer-failed'
+  | 'insufficient-liquidity'
+  | 'invalid-path'
+  | 'panic'
+  | 'reverted'
+  | 'invalid-input'
+  | 'unknown';
+
+export class TxError extends Error {
+  readonly kind: TxErrorKind;
+  readonly hint: string;
+  readonly cause?: unknown;
+
+  constructor(kind: TxErrorKind, message: string, hint: string, cause?: unknown) {
+    super(message);
+    this.name = 'TxError';
+    this.kind = kind;
+    this.hint = hint;
+    this.cause = cause;
+  }
+}
+
+// Rejected before anything was sent, e.g. an empty amount; the message says what to fix
+export class InvalidInputError extends TxError {
+  constructor(message: string, hint: string = '') {
+    super('invalid-input', message, hint);
+    this.name = 'InvalidInputError';
+  }
+}
+
+// Wallet errors (EIP-1193)
+
+export class UserRejectedError extends TxError {
+  constructor(cause?: unknown) {
+    super('user-rejected', 'Transaction was cancelled in your wallet', 'Confirm the request in your wallet to continue', cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class WalletRequestPendingError extends TxError {
+  constructor(cause?: unknown) {
+    super('request-pending', 'Your wallet already has a pending request', 'Open your wallet and approve or reject the pending request first', cause);
+    this.name = 'WalletRequestPendingError';
+  }
+}
+
+export class WalletInternalError extends TxError {
+  constructor(detail: string, cause?: unknown) {
+    super('wallet-internal', `Your wallet reported an internal error: ${detail}`, 'Check your balance and network, then try again', cause);
+    this.name = 'WalletInternalError';
+  }
+}
+
+// RPC and account errors
+
+export class RpcRateLimitError extends TxError {
+  constructor(cause?: unknown) {
+    super('rate-limited', 'The RPC endpoint is rate limiting requests', 'Wait a few seconds and try again', cause);
+    this.name = 'RpcRateLimitError';
+  }
+}
+
+export class NetworkError extends TxError {
+  constructor(cause?: unknown) {
+    super('network', 'Could not reach the network', 'Check your connection and try again', cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class InsufficientFundsError extends TxError {
+  constructor(cause?: unknown) {
+    super('insufficient-funds', 'Your balance does not cover the amount plus gas', 'Lower the amount or keep some LOOP for gas', cause);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+export class NonceError extends TxError {
+  constructor(cause?: unknown) {
+    super('nonce', 'Your wallet used an out-of-date transaction nonce', 'Wait for pending transactions to confirm, or reset the account nonce in your wallet', cause);
+    this.name = 'NonceError';
+  }
+}
+
+// Contract reverts, classified by their decoded reason
+
+export class ContractRevertError extends TxError {
+  readonly revertReason: string;
+  txHash?: string; // Set when the revert happened on-chain rather than in a simulation
+
+  constructor(kind: TxErrorKind, message: string, hint: string, revertReason: string, cause?: unknown) {
+    super(kind, message, hint, cause);
+    this.name = 'ContractRevertError';
+    this.revertReason = revertReason;
+  }
+}
+
+export class SlippageExceededError extends ContractRevertError {
+  constructor(revertReason: string, cause?: unknown) {
+    super('slippage', 'The price moved past your slippage tolerance', 'Increase the slippage tolerance or try a smaller amount', revertReason, cause);
+    this.name = 'SlippageExceededError';
+  }
+}
+
+export class PoolInvariantError extends ContractRevertError {
+  constructor(revertReason: string, cause?: unknown) {
+    super('pool-invariant', 'The pool rejected the trade (K invariant)', 'This usually means a token takes a transfer fee - increase the slippage tolerance', revertReason, cause);
+    this.name = 'PoolInvariantError';
+  }
+}
+
+export class DeadlineExpiredError extends ContractRevertError {
+  constructor(revertReason: string, cause?: unknown) {
+    super('deadline-expired', 'The transaction deadline passed before it was mined', 'Try again with a faster gas speed in settings so it is mined sooner', revertReason, cause);
+    this.name = 'DeadlineExpiredError';
+  }
+}
+
+export class TransferFailedError extends ContractRevertError {
+  constructor(revertReason: string, cause?: unknown) {
+    super('transfer-failed', 'A token transfer failed inside the transaction', 'Check your balance and approval; some tokens restrict transfers', revertReason, cause);
+    this.name = 'TransferFailedError';
+  }
+}
+
+export class InsufficientLiquidityError extends ContractRevertError {
+  constructor(revertReason: string, cause?: unknown) {
+    super('insufficient-liquidity', 'The pool does not have enough liquidity for this amount', 'Try a smaller amount', revertReason, cause);
+    this.name = 'InsufficientLiquidityError';
+  }
+}
+
+export class PanicError extends ContractRevertError {
+  readonly panicCode: number;
+
+  constructor(panicCode: number, cause?: unknown) {
+    const description = PANIC_DESCRIPTIONS[panicCode] || 'unknown panic';
+    super('panic', `The contract panicked: ${description}`, 'The amounts are likely outside what the contract supports - try a different amount', `Panic(0x${panicCode.toString(16)})`, cause);
+    this.name = 'PanicError';
+    this.panicCode = panicCode;
+  }
+}
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const PANIC_DESCRIPTIONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x22: 'corrupted storage byte array',
+  0x31: 'pop from an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialised function'
+};
+
+// Uniswap-V2 style revert reasons, matched against the reason without its 'Pair: ' prefix
+const REVERT_CLASSES: { pattern: RegExp; create: (reason: string, cause?: unknown) => ContractRevertError }[] = [
+  { pattern: /INSUFFICIENT_OUTPUT_AMOUNT|EXCESSIVE_INPUT_AMOUNT|INSUFFICIENT_[AB]_AMOUNT/, create: (reason, cause) => new SlippageExceededError(reason, cause) },
+  { pattern: /^K$/, create: (reason, cause) => new PoolInvariantError(reason, cause) },
+  { pattern: /EXPIRED/, create: (reason, cause) => new DeadlineExpiredError(reason, cause) },
+  { pattern: /TRANSFER_FROM_FAILED|TRANSFER_FAILED|transfer amount exceeds (balance|allowance)/i, create: (reason, cause) => new TransferFailedError(reason, cause) },
+  { pattern: /INSUFFICIENT_LIQUIDITY/, create: (reason, cause) => new InsufficientLiquidityError(reason, cause) },
+  {
+    pattern: /INVALID_PATH/,
+    create: (reason, cause) => new ContractRevertError('invalid-path', 'The swap route is not valid for these tokens', 'Pick a different route or token pair', reason, cause)
+  }
+];
+
+// Revert data travels differently through nodes, wallets and ethers - look in the usual places
+const getRevertData = (error: unknown): string | null => {
+  const candidates = [
+    (error as { data?: unknown })?.data,
+    (error as { data?: { data?: unknown } })?.data?.data,
+    (error as { error?: { data?: unknown } })?.error?.data,
+    (error as { error?: { data?: { data?: unknown } } })?.error?.data?.data,
+    (error as { info?: { error?: { data?: unknown } } })?.info?.error?.data
+  ];
+  const data = candidates.find(candidate => typeof candidate === 'string' && /^0x[0-9a-f]{8}/i.test(candidate));
+  return typeof data === 'string' ? data : null;
+};
+
+// Wallet error code, which ethers and some wallets nest one level down
+const getErrorCode = (error: unknown): number | string | undefined => {
+  const candidates = [
+    (error as { code?: unknown })?.code,
+    (error as { error?: { code?: unknown } })?.error?.code,
+    (error as { info?: { error?: { code?: unknown } } })?.info?.error?.code
+  ];
+  return candidates.find((code): code is number | string => typeof code === 'number' || code === 'ACTION_REJECTED');
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof (error as { message?: unknown })?.message === 'string') return (error as { message: string }).message;
+  return String(error);
+};
+
+// Whether a failed call reverted: it carries revert data or the node reports 'execution reverted'.
+// Other node errors (-32000 and friends, rate limits) say nothing about the transaction.
+export const isRevertError = (error: unknown): boolean =>
+  getRevertData(error) !== null || /execution reverted/i.test(getErrorMessage(error));
+
+/**
+ * Decodes revert data into its reason: the Error(string) message or 'Panic(0x..)'.
+ * Returns null when the data is not one of the two standard encodings.
+ */
+export const decodeRevertData = (data: string): string | null => {
+  try {
+    if (data.startsWith(ERROR_STRING_SELECTOR)) {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], '0x' + data.slice(10))[0];
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const code = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], '0x' + data.slice(10))[0];
+      return `Panic(0x${code.toString(16)})`;
+    }
+  } catch {
+    // Malformed data - callers fall back to the message
+  }
+  return null;
+};
+
+// Reason string of a reverted call, from its revert data or the node's message
+export const decodeRevertReason = (error: unknown): string => {
+  const data = getRevertData(error);
+  const decoded = data ? decodeRevertData(data) : null;
+  if (decoded) return decoded;
+
+  const message = getErrorMessage(error);
+  const match = message.match(/execution reverted:?\s*(.*)/i);
+  if (match) return match[1].trim() || 'execution reverted without a reason';
+  return message;
+};
+
+/**
+ * Typed error for a decoded revert reason. Known Uniswap-V2 reasons and panics get their own
+ * class; anything else is a generic ContractRevertError carrying the reason as its message.
+ */
+export const toRevertError = (revertReason: string, cause?: unknown): ContractRevertError => {
+  const panic = revertReason.match(/^Panic\(0x([0-9a-f]+)\)$/i);
+  if (panic) return new PanicError(parseInt(panic[1], 16), cause);
+
+  const reason = revertReason.replace(/^[\w-]+:\s*/, ''); // 'ReachSwapRouter: EXPIRED' -> 'EXPIRED'
+  const known = REVERT_CLASSES.find(({ pattern }) => pattern.test(reason));
+  if (known) return known.create(revertReason, cause);
+
+  return new ContractRevertError('reverted', `The contract reverted: ${revertReason}`, 'Check the amounts and try again', revertReason, cause);
+};
+
+/**
+ * Classifies any wallet, RPC or contract error into a TxError. Errors that are already typed
+ * are returned as they are, so it is safe to call at every layer.
+ */
+export const toTxError = (error: unknown): TxError => {
+  if (error instanceof TxError) return error;
+
+  const code = getErrorCode(error);
+  const message = getErrorMessage(error);
+
+  if (code === 4001 || code === 'ACTION_REJECTED' || /user (denied|rejected)/i.test(message)) {
+    return new UserRejectedError(error);
+  }
+  if (code === -32002) return new WalletRequestPendingError(error);
+
+  // Revert data wins over the wrapping code: wallets report reverts as -32603 too
+  const revertData = getRevertData(error);
+  if ((revertData && decodeRevertData(revertData)) || /execution reverted/i.test(message)) {
+    return toRevertError(decodeRevertReason(error), error);
+  }
+
+  if (code === 429 || code === -32005 || /rate limit|too many requests|HTTP 429|limit exceeded/i.test(message)) {
+    return new RpcRateLimitError(error);
+  }
+  if (/insufficient funds/i.test(message)) return new InsufficientFundsError(error);
+  if (/nonce too (low|high)|replacement transaction underpriced/i.test(message)) return new NonceError(error);
+  if (code === -32603) return new WalletInternalError(message.replace(/^Internal JSON-RPC error\.?\s*/i, '') || 'no details', error);
+  if (/failed to fetch|network|timeout|aborted/i.test(message)) return new NetworkError(error);
+
+  // Unclassified errors keep their own message and have no hint to add
+  return new TxError('unknown', message.replace(/^Error:\s*/, '').substring(0, 200) || 'Unknown error occurred', '', error);
+};
+
+// One-line message with its remediation hint, for places that display plain text
+export const formatTxError = (error: TxError): string => (error.hint ? `${error.message}. ${error.hint}` : error.message);
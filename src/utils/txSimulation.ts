@@ -0,0 +1,120 @@
+// Pre-flight transaction simulation
+// Before the wallet is asked to sign, the transaction is eth_call'ed against the latest block with the
+// exact sender, calldata and value it will be sent with. Success yields the return data for decoding
+// (swap amounts, LP minted); a revert is decoded and classified with the typed errors from txErrors.
+// Approvals that are only sent as part of the same action are stood in for with allowance state
+// overrides where the RPC allows.
+
+import { ethers } from 'ethers';
+import { getReadProvider } from './rpcProvider';
+import { StateOverrides, getApprovalOverrides } from './taxSimulation';
+import { decodeRevertReason, isRevertError, toRevertError } from './txErrors';
+
+export interface SimulationTx {
+  from: string;
+  to: string;
+  data: string;
+  value?: string; // Hex wei
+}
+
+export type SimulationCallResult =
+  | { success: true; returnData: string }
+  | { success: false; revertReason: string };
+
+// Tokens the transaction spends through transferFrom, checked against the spender's allowance
+export interface SimulationApproval {
+  token: string;
+  amount: bigint;
+}
+
+const NATIVE_LOOP = '0x0000000000000000000000000000000000000000';
+
+/**
+ * eth_call's the transaction at the latest block. Reverts resolve to their decoded reason; any other
+ * failure (transport, rate limit, generic node error) is thrown, since it says nothing about the transaction.
+ */
+export const simulateCall = async (tx: SimulationTx, overrides?: StateOverrides): Promise<SimulationCallResult> => {
+  const call = { ...tx, value: tx.value && tx.value !== '0x0' ? tx.value : undefined };
+
+  try {
+    const returnData: string = await getReadProvider().request({
+      method: 'eth_call',
+      params: overrides ? [call, 'latest', overrides] : [call, 'latest']
+    });
+    return { success: true, returnData: returnData || '0x' };
+  } catch (error) {
+    if (!isRevertError(error)) throw error;
+    return { success: false, revertReason: decodeRevertReason(error) };
+  }
+};
+
+/**
+ * Simulates a transaction whose token approvals may not be sent yet. Missing allowances are
+ * overridden for the call; 'needs-approval' is returned when the RPC cannot override them.
+ */
+export const simulateWithApprovals = async (
+  tx: SimulationTx,
+  approvals: SimulationApproval[]
+): Promise<SimulationCallResult | 'needs-approval'> => {
+  const missing: SimulationApproval[] = [];
+
+  for (const approval of approvals.filter(({ token }) => token !== NATIVE_LOOP)) {
+    const allowance = await getReadProvider().request({
+      method: 'eth_call',
+      params: [{
+        to: approval.token,
+        data: '0xdd62ed3e' + tx.from.slice(2).padStart(64, '0') + tx.to.slice(2).padStart(64, '0') // allowance(owner, spender)
+      }, 'latest']
+    });
+    if (BigInt(allowance || '0x0') < approval.amount) missing.push(approval);
+  }
+
+  if (missing.length === 0) return simulateCall(tx);
+
+  const overrides = await Promise.all(missing.map(({ token }) => getApprovalOverrides(token, tx.from, tx.to)));
+  if (overrides.some(override => override === null)) return 'needs-approval';
+
+  console.log(`🧪 Simulating with ${missing.length} pending approval(s) overridden`);
+  return simulateCall(tx, Object.assign({}, ...overrides));
+};
+
+/**
+ * Last check before a transaction goes to the wallet: throws the typed ContractRevertError if it
+ * would revert. If the simulation itself cannot run, the transaction is let through.
+ */
+export const assertSimulationSucceeds = async (action: string, tx: SimulationTx): Promise<void> => {
+  let result: SimulationCallResult;
+  try {
+    result = await simulateCall(tx);
+  } catch (error) {
+    console.warn(`⚠️ Could not simulate ${action.toLowerCase()}, sending without pre-flight check:`, error);
+    return;
+  }
+
+  if (!result.success) {
+    console.error(`❌ ${action} simulation reverted: ${result.revertReason}`);
+    throw toRevertError(result.revertReason);
+  }
+  console.log(`🧪 ${action} simulation passed`);
+};
+
+// Unsigned integers of a call's return data, e.g. a router's amounts[] or (amountA, amountB, liquidity)
+export const decodeUintArray = (returnData: string): bigint[] => {
+  try {
+    return [...ethers.AbiCoder.defaultAbiCoder().decode(['uint256[]'], returnData)[0]];
+  } catch {
+    return [];
+  }
+};
+
+export const decodeUints = (returnData: string, count: number): bigint[] => {
+  try {
+    return [...ethers.AbiCoder.defaultAbiCoder().decode(Array(count).fill('uint256'), returnData)];
+  } catch {
+    return [];
+  }
+};
+
+// Percent by which a simulated amount differs from the quoted one (negative = less than quoted)
+export const getQuoteDeviation = (simulated: bigint, quoted: bigint): number =>
+  quoted > BigInt(0) ? Number((simulated - quoted) * BigInt(1000000) / quoted) / 10000 : 0;
@@ -1,8 +1,22 @@
   // Enhanced Web3 utility functions with improved transaction handling for ReachSwap
 
+  import { Eip1193Provider, getSignerProvider } from './rpcProvider';
+  import { recordTransaction } from './activityStore';
+  import { getFallbackGasLimit, learnFromReceipt, withGasFees } from './gasEngine';
+  import {
+    ContractRevertError,
+    TxError,
+    UserRejectedError,
+    WalletRequestPendingError,
+    decodeRevertReason,
+    formatTxError,
+    toRevertError,
+    toTxError
+  } from './txErrors';
+
   export interface ProviderAndSigner {
-    provider: any;
-    signer: any;
+    provider: Eip1193Provider | null;
+    signer: Eip1193Provider | null;
   }
 
   export interface TransactionReceipt {
@@ -10,105 +24,104 @@
     status: string;
     blockNumber: string;
     gasUsed: string;
+    effectiveGasPrice?: string;
   }
 
-  // Get the current provider and signer
+  // Get the connected wallet's provider and signer (for sending; reads use getReadProvider)
   export const getProviderAndSigner = async (): Promise<ProviderAndSigner> => {
     if (typeof window === 'undefined') return { provider: null, signer: null };
 
-    const savedWalletType = localStorage.getItem('reachswap_wallet_type');
-    let provider = null;
+    const provider = getSignerProvider();
 
-    if (savedWalletType === 'MetaMask' && (window as any).ethereum?.isMetaMask) {
-      provider = (window as any).ethereum;
-    } else if (savedWalletType === 'OKX Wallet' && (window as any).okxwallet) {
-      provider = (window as any).okxwallet;
-    }
+    return { provider, signer: provider };
+  };
 
-    if (!provider) {
-      throw new Error('No wallet provider available');
-    }
+  // Replay a reverted transaction at its block to recover the revert reason
+  const getMinedRevertReason = async (provider: Eip1193Provider, txHash: string, blockNumber: string): Promise<string> => {
+    try {
+      const tx = await provider.request<{ from: string; to: string | null; input: string; value: string; gas: string } | null>({
+        method: 'eth_getTransactionByHash',
+        params: [txHash]
+      });
+      console.error(`📋 Transaction details:`, tx);
+      if (!tx) return 'transaction reverted';
 
-    return { provider, signer: provider };
+      await provider.request({
+        method: 'eth_call',
+        params: [{ from: tx.from, to: tx.to, data: tx.input, value: tx.value, gas: tx.gas }, blockNumber]
+      });
+      // The replay can pass when the revert depended on ordering within the block
+      return 'transaction reverted';
+    } catch (replayError) {
+      return decodeRevertReason(replayError);
+    }
   };
 
-  // ENHANCED: Wait for transaction confirmation with detailed logging and timeout handling
+  // ENHANCED: Wait for transaction confirmation with detailed logging and timeout handling.
+  // Throws a typed ContractRevertError (with txHash set) when the transaction reverted on-chain.
   export const waitForTransaction = async (
     txHash: string, 
     maxAttempts: number = 60,
     intervalMs: number = 2000
-  ): Promise<boolean> => {
-    try {
-      const { provider } = await getProviderAndSigner();
-      if (!provider) throw new Error('No provider available');
-
-      console.log(`⏳ Waiting for transaction confirmation: ${txHash}`);
-      console.log(`📊 Parameters: maxAttempts=${maxAttempts}, interval=${intervalMs}ms`);
+  ): Promise<void> => {
+    const { provider } = await getProviderAndSigner();
+    if (!provider) throw new Error('No provider available');
 
-      for (let i = 0; i < maxAttempts; i++) {
-        try {
-          // Check transaction receipt
-          const receipt = await provider.request({
-            method: 'eth_getTransactionReceipt',
-            params: [txHash]
-          });
+    console.log(`⏳ Waiting for transaction confirmation: ${txHash}`);
+    console.log(`📊 Parameters: maxAttempts=${maxAttempts}, interval=${intervalMs}ms`);
 
-          if (receipt) {
-            console.log(`📄 Transaction receipt received:`, {
-              hash: receipt.transactionHash,
-              status: receipt.status,
-              blockNumber: receipt.blockNumber,
-              gasUsed: receipt.gasUsed
-            });
-
-            if (receipt.status === '0x1') {
-              console.log(`✅ Transaction confirmed successfully: ${txHash}`);
-              return true;
-            } else {
-              console.error(`❌ Transaction failed: ${txHash}`);
-              console.error(`📊 Receipt status: ${receipt.status}`);
-              
-              // Try to get revert reason
-              try {
-                const tx = await provider.request({
-                  method: 'eth_getTransactionByHash',
-                  params: [txHash]
-                });
-                console.error(`📋 Transaction details:`, tx);
-              } catch (txError) {
-                console.warn('Could not fetch transaction details:', txError);
-              }
-              
-              return false;
-            }
-          }
+    for (let i = 0; i < maxAttempts; i++) {
+      let receipt: TransactionReceipt | null = null;
+      try {
+        // Check transaction receipt
+        receipt = await provider.request<TransactionReceipt | null>({
+          method: 'eth_getTransactionReceipt',
+          params: [txHash]
+        });
+      } catch (error) {
+        // Continue waiting if receipt not available yet
+        if (i % 20 === 0) {
+          console.log(`⏳ Still waiting for transaction receipt... (${i + 1}/${maxAttempts})`);
+        }
+      }
 
-          // Log progress every 10 attempts
-          if (i % 10 === 0 || i < 5) {
-            console.log(`⏳ Waiting for confirmation... (${i + 1}/${maxAttempts})`);
-          }
+      if (receipt) {
+        console.log(`📄 Transaction receipt received:`, {
+          hash: receipt.transactionHash,
+          status: receipt.status,
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed
+        });
 
-        } catch (error) {
-          // Continue waiting if receipt not available yet
-          if (i % 20 === 0) {
-            console.log(`⏳ Still waiting for transaction receipt... (${i + 1}/${maxAttempts})`);
-          }
+        if (receipt.status === '0x1') {
+          console.log(`✅ Transaction confirmed successfully: ${txHash}`);
+          learnFromReceipt(txHash, receipt.gasUsed).catch(learnError => {
+            console.warn('Could not record gas usage:', learnError);
+          });
+          return;
         }
 
-        // Wait before next check
-        await new Promise(resolve => setTimeout(resolve, intervalMs));
+        console.error(`❌ Transaction failed: ${txHash}`);
+        console.error(`📊 Receipt status: ${receipt.status}`);
+
+        const revertError = toRevertError(await getMinedRevertReason(provider, txHash, receipt.blockNumber));
+        revertError.txHash = txHash;
+        throw revertError;
       }
 
-      console.warn(`⚠️ Transaction confirmation timeout after ${maxAttempts * intervalMs / 1000}s: ${txHash}`);
-      console.warn(`⚠️ This doesn't necessarily mean the transaction failed - it might still be processing`);
-      
-      // For ReachSwap, we'll be more lenient with timeouts since transactions might still succeed
-      return true; // Assume success on timeout to avoid blocking UX
-      
-    } catch (error) {
-      console.error('❌ Error waiting for transaction confirmation:', error);
-      return false;
+      // Log progress every 10 attempts
+      if (i % 10 === 0 || i < 5) {
+        console.log(`⏳ Waiting for confirmation... (${i + 1}/${maxAttempts})`);
+      }
+
+      // Wait before next check
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
     }
+
+    console.warn(`⚠️ Transaction confirmation timeout after ${maxAttempts * intervalMs / 1000}s: ${txHash}`);
+    console.warn(`⚠️ This doesn't necessarily mean the transaction failed - it might still be processing`);
+    
+    // For ReachSwap, we'll be more lenient with timeouts since transactions might still succeed
   };
 
   // ENHANCED: Get transaction status with detailed information
@@ -124,7 +137,7 @@
         return { found: false, error: 'No provider available' };
       }
 
-      const receipt = await provider.request({
+      const receipt = await provider.request<TransactionReceipt | null>({
         method: 'eth_getTransactionReceipt',
         params: [txHash]
       });
@@ -181,27 +194,7 @@
       return gasLimitHex;
     } catch (error) {
       console.warn('⚠️ Gas estimation failed:', error);
-      
-      // 🎯 BETTER: Smart fallback based on function signatures (your current approach but enhanced)
-      const functionSig = txParams.data.slice(0, 10);
-      
-      if (functionSig === '0xe43b4ee2') {
-        // removeLiquidityETH - use your successful transaction's gas
-        console.log('⛽ Using fallback for removeLiquidityETH: 280k');
-        return '0x44570'; // 280k gas (slightly more than your successful 270k)
-      } else if (functionSig === '0x7fd4e7e5') {
-        // addLiquidityETH
-        console.log('⛽ Using fallback for addLiquidityETH: 320k');
-        return '0x4E200'; // 320k gas
-      } else if (functionSig === '0x095ea7b3') {
-        // approve - matches your handleApproval pattern
-        console.log('⛽ Using fallback for approve: 60k');
-        return '0xEA60'; // 60k gas
-      } else {
-        // Generic fallback
-        console.log('⛽ Using generic fallback gas: 250k');
-        return '0x3D090'; // 250k gas
-      }
+      return getFallbackGasLimit(txParams);
     }
   };
 
@@ -274,14 +267,14 @@
 
       const txHash = await provider.request({
         method: 'eth_sendTransaction',
-        params: [txParams]
+        params: [await withGasFees(txParams)]
       });
 
       console.log(`✅ Transaction sent successfully: ${txHash}`);
       return txHash;
     } catch (error) {
       console.error('❌ Error sending transaction:', error);
-      throw error;
+      throw toTxError(error);
     }
   };
 
@@ -312,11 +305,17 @@
 
       const txHash = await sendTransaction(txParams);
       console.log(`✅ Approve transaction sent: ${txHash}`);
+      recordTransaction({
+        hash: txHash,
+        type: 'approve',
+        summary: `Approve ${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)} for ${spenderAddress.slice(0, 6)}...${spenderAddress.slice(-4)}`,
+        tokenIn: { symbol: '', address: tokenAddress }
+      });
 
       return txHash;
     } catch (error) {
       console.error('❌ Error approving token:', error);
-      throw error;
+      throw toTxError(error);
     }
   };
 
@@ -441,66 +440,9 @@
   };
 
   // ENHANCED: Format error messages for user display
-  export const formatUserError = (error: any): string => {
+  export const formatUserError = (error: unknown): string => {
     if (!error) return 'Unknown error occurred';
-    
-    const message = error.message || error.toString();
-    
-    // Common error patterns and user-friendly messages
-    const errorPatterns = [
-      {
-        pattern: /user denied|user rejected/i,
-        message: 'Transaction was cancelled by user'
-      },
-      {
-        pattern: /insufficient funds/i,
-        message: 'Insufficient funds for this transaction'
-      },
-      {
-        pattern: /gas required exceeds allowance|out of gas/i,
-        message: 'Transaction requires more gas than available'
-      },
-      {
-        pattern: /nonce too low|nonce too high/i,
-        message: 'Transaction nonce issue - please refresh and try again'
-      },
-      {
-        pattern: /allowance/i,
-        message: 'Token allowance issue - please approve tokens first'
-      },
-      {
-        pattern: /deadline/i,
-        message: 'Transaction deadline expired - please try again'
-      },
-      {
-        pattern: /slippage|insufficient.*amount/i,
-        message: 'Price impact too high - adjust slippage tolerance'
-      },
-      {
-        pattern: /transfer.*failed/i,
-        message: 'Token transfer failed - check token contract'
-      },
-      {
-        pattern: /pair.*not.*exist/i,
-        message: 'Trading pair does not exist'
-      },
-      {
-        pattern: /insufficient.*liquidity/i,
-        message: 'Insufficient liquidity in pool'
-      }
-    ];
-
-    for (const { pattern, message: userMessage } of errorPatterns) {
-      if (pattern.test(message)) {
-        return userMessage;
-      }
-    }
-
-    // Return original message if no pattern matches, but clean it up
-    return message
-      .replace(/execution reverted:?\s*/i, '')
-      .replace(/^Error:\s*/, '')
-      .substring(0, 200); // Limit length
+    return formatTxError(toTxError(error));
   };
 
   // ENHANCED: Retry mechanism for failed transactions
@@ -509,7 +451,7 @@
     maxRetries: number = 3,
     delayMs: number = 2000
   ): Promise<string> => {
-    let lastError: Error | null = null;
+    let lastError: TxError | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -518,11 +460,11 @@
         console.log(`✅ Transaction succeeded on attempt ${attempt}: ${txHash}`);
         return txHash;
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        lastError = toTxError(error);
         console.warn(`⚠️ Transaction attempt ${attempt} failed:`, lastError.message);
         
-        // Don't retry user-rejected transactions
-        if (lastError.message.includes('denied') || lastError.message.includes('rejected')) {
+        // Don't retry what the user declined or what would revert again
+        if (lastError instanceof UserRejectedError || lastError instanceof WalletRequestPendingError || lastError instanceof ContractRevertError) {
           throw lastError;
         }
         
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { calculateZapSwapAmount, getAmountOut, quoteZap, sqrtBigInt } from './zap';
+
+const unit = (decimals: number) => BigInt(10) ** BigInt(decimals);
+const FEE_BPS = 30;
+
+describe('sqrtBigInt', () => {
+  it('returns exact roots of perfect squares', () => {
+    expect(sqrtBigInt(BigInt(0))).toBe(BigInt(0));
+    expect(sqrtBigInt(BigInt(1))).toBe(BigInt(1));
+    expect(sqrtBigInt(BigInt(144))).toBe(BigInt(12));
+    expect(sqrtBigInt(unit(36))).toBe(unit(18));
+  });
+
+  it('rounds other values down', () => {
+    expect(sqrtBigInt(BigInt(2))).toBe(BigInt(1));
+    expect(sqrtBigInt(BigInt(143))).toBe(BigInt(11));
+    expect(sqrtBigInt(unit(36) - BigInt(1))).toBe(unit(18) - BigInt(1));
+  });
+});
+
+describe('getAmountOut', () => {
+  it('applies the swap fee to the input', () => {
+    // 1 in at 1,000/1,000 with 0.3%: 997 * 1000 / (1000 * 1000 + 997)
+    expect(getAmountOut(BigInt(1000), BigInt(1000000), BigInt(1000000), FEE_BPS)).toBe(BigInt(996));
+  });
+
+  it('returns zero for empty reserves or no input', () => {
+    expect(getAmountOut(BigInt(0), BigInt(1000), BigInt(1000), FEE_BPS)).toBe(BigInt(0));
+    expect(getAmountOut(BigInt(10), BigInt(0), BigInt(1000), FEE_BPS)).toBe(BigInt(0));
+    expect(getAmountOut(BigInt(10), BigInt(1000), BigInt(0), FEE_BPS)).toBe(BigInt(0));
+  });
+});
+
+describe('calculateZapSwapAmount', () => {
+  it('solves the fee-free case exactly', () => {
+    // Without a fee s = sqrt(R^2 + aR) - R: 100^2 + 21 * 100 = 110^2, so s = 10
+    expect(calculateZapSwapAmount(BigInt(21), BigInt(100), 0)).toBe(BigInt(10));
+  });
+
+  it('returns zero without input or reserves', () => {
+    expect(calculateZapSwapAmount(BigInt(0), unit(18), FEE_BPS)).toBe(BigInt(0));
+    expect(calculateZapSwapAmount(unit(18), BigInt(0), FEE_BPS)).toBe(BigInt(0));
+  });
+});
+
+describe('quoteZap', () => {
+  it('leaves the deposit and swap output at the pool ratio after the swap', () => {
+    const reserveIn = BigInt(1000) * unit(18);
+    const reserveOut = BigInt(4000) * unit(6);
+    const amountIn = BigInt(10) * unit(18);
+
+    const { swapAmount, swapOutput, depositAmount } = quoteZap(amountIn, reserveIn, reserveOut, unit(18), FEE_BPS);
+
+    expect(swapAmount + depositAmount).toBe(amountIn);
+    expect(swapOutput).toBe(getAmountOut(swapAmount, reserveIn, reserveOut, FEE_BPS));
+
+    // depositAmount / swapOutput equals newReserveIn / newReserveOut up to the rounding of a
+    // 6-decimal output (about 20 USDC here), so within one part per million
+    const lhs = depositAmount * (reserveOut - swapOutput);
+    const rhs = swapOutput * (reserveIn + swapAmount);
+    const difference = lhs > rhs ? lhs - rhs : rhs - lhs;
+    expect(difference * unit(6) / rhs).toBe(BigInt(0));
+  });
+
+  it('mints the smaller of the two sides', () => {
+    const supply = BigInt(2000) * unit(18);
+    const { swapAmount, swapOutput, depositAmount, lpTokens } = quoteZap(
+      BigInt(50) * unit(18), BigInt(1000) * unit(18), BigInt(1000) * unit(18), supply, FEE_BPS
+    );
+
+    const fromDeposit = depositAmount * supply / (BigInt(1000) * unit(18) + swapAmount);
+    const fromOutput = swapOutput * supply / (BigInt(1000) * unit(18) - swapOutput);
+    expect(lpTokens).toBe(fromDeposit < fromOutput ? fromDeposit : fromOutput);
+    expect(lpTokens > BigInt(0)).toBe(true);
+  });
+});
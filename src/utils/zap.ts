@@ -0,0 +1,79 @@
+import { REACHSWAP_FEES } from '../constants/reachswap';
+
+const FEE_DENOMINATOR = BigInt(10000);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const FOUR = BigInt(4);
+
+// Integer square root (Newton's method)
+export const sqrtBigInt = (value: bigint): bigint => {
+  if (value < TWO) return value;
+
+  let x = value;
+  let y = (x + ONE) / TWO;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / TWO;
+  }
+  return x;
+};
+
+// Constant-product output for an exact input, after the swap fee (basis points)
+export const getAmountOut = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number = REACHSWAP_FEES.SWAP_FEE
+): bigint => {
+  if (amountIn <= ZERO || reserveIn <= ZERO || reserveOut <= ZERO) return ZERO;
+
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(feeBps));
+  return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+};
+
+/**
+ * Part of a single-token deposit to swap so the remainder and the swap output match the
+ * pool ratio after the swap. With fee f, reserve R and input a this solves
+ * s = (sqrt(((2 - f)R)^2 + 4(1 - f)aR) - (2 - f)R) / (2(1 - f)), scaled to basis points.
+ */
+export const calculateZapSwapAmount = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  feeBps: number = REACHSWAP_FEES.SWAP_FEE
+): bigint => {
+  if (amountIn <= ZERO || reserveIn <= ZERO) return ZERO;
+
+  const fee = BigInt(feeBps);
+  const afterFee = FEE_DENOMINATOR - fee;
+  const b = (TWO * FEE_DENOMINATOR - fee) * reserveIn;
+  const root = sqrtBigInt(b * b + FOUR * afterFee * FEE_DENOMINATOR * amountIn * reserveIn);
+
+  return (root - b) / (TWO * afterFee);
+};
+
+/**
+ * Splits a single-token deposit into the swap and deposit legs and estimates the LP minted.
+ * Reserves are ordered input side first.
+ */
+export const quoteZap = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  totalSupply: bigint,
+  feeBps: number = REACHSWAP_FEES.SWAP_FEE
+): { swapAmount: bigint; swapOutput: bigint; depositAmount: bigint; lpTokens: bigint } => {
+  const swapAmount = calculateZapSwapAmount(amountIn, reserveIn, feeBps);
+  const swapOutput = getAmountOut(swapAmount, reserveIn, reserveOut, feeBps);
+  const depositAmount = amountIn - swapAmount;
+
+  // Reserves after the swap leg
+  const newReserveIn = reserveIn + swapAmount;
+  const newReserveOut = reserveOut - swapOutput;
+  const lpTokens = newReserveIn > ZERO && newReserveOut > ZERO
+    ? [depositAmount * totalSupply / newReserveIn, swapOutput * totalSupply / newReserveOut]
+        .reduce((a, b) => (a < b ? a : b))
+    : ZERO;
+
+  return { swapAmount, swapOutput, depositAmount, lpTokens };
+};